@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { auth } from '@clerk/nextjs/server'
+import { loadHostGlossary, MAX_GLOSSARY_ENTRIES, sanitizeGlossary } from '@/lib/glossary'
+
+// 🆕 호스트 용어집 (로그인한 사용자 본인, 모든 세션에 적용)
+// GET /api/glossary            → { glossary }
+// PUT /api/glossary { glossary } → 목록 전체 교체
+
+function getSupabase() {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+}
+
+export async function GET() {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const glossary = await loadHostGlossary(getSupabase(), userId)
+    return NextResponse.json({ glossary })
+  } catch (error) {
+    console.error('Host glossary API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(req: NextRequest) {
+  try {
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    if (!Array.isArray(body.glossary) || body.glossary.length > MAX_GLOSSARY_ENTRIES) {
+      return NextResponse.json(
+        { error: `glossary must be an array of up to ${MAX_GLOSSARY_ENTRIES} entries` },
+        { status: 400 },
+      )
+    }
+
+    const glossary = sanitizeGlossary(body.glossary)
+    const { error } = await getSupabase()
+      .from('host_glossaries')
+      .upsert({ host_id: userId, entries: glossary, updated_at: new Date().toISOString() }, { onConflict: 'host_id' })
+
+    if (error) {
+      console.error('❌ Host glossary save error:', error)
+      return NextResponse.json({ error: 'Failed to save glossary' }, { status: 500 })
+    }
+
+    console.log(`📘 Host glossary saved for ${userId}: ${glossary.length} terms`)
+    return NextResponse.json({ glossary })
+  } catch (error) {
+    console.error('Host glossary API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { refreshActiveLiveSummaries } from '@/lib/live-summary'
+
+// 🆕 live 요약 워커 진입점 (cron)
+// 진행 중인 세션 중 새 줄이 쌓였거나 마지막 갱신 뒤 시간이 지난 세션의 "지금까지" 요약을 갱신한다.
+export async function GET(req: NextRequest) {
+  try {
+    // Authorization 헤더 확인 (번역 워커와 같은 방식). CRON_SECRET 이 없으면 거부
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret) {
+      console.error('❌ CRON_SECRET is not set - refusing live summary worker request')
+      return NextResponse.json({ error: 'Worker is not configured' }, { status: 503 })
+    }
+    if (req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const result = await refreshActiveLiveSummaries()
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+    })
+  } catch (error) {
+    console.error('❌ Live summary worker error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
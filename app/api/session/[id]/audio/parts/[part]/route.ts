@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { auth } from '@clerk/nextjs/server'
+import { MAX_AUDIO_PARTS, MAX_AUDIO_PART_BYTES, uploadAudioPart } from '@/lib/session-audio'
+
+// 🆕 녹음 part 업로드 (호스트 전용, body = 녹음 바이트)
+// PUT /api/session/[id]/audio/parts/[part] → 같은 번호를 다시 올리면 덮어씀 (재시도 안전)
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string; part: string }> }) {
+  try {
+    const { id: sessionId, part: partParam } = await params
+    const part = Number(partParam)
+
+    if (!Number.isInteger(part) || part < 0 || part >= MAX_AUDIO_PARTS) {
+      return NextResponse.json({ error: 'Invalid part number' }, { status: 400 })
+    }
+
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+    const { data: session, error } = await supabase.from('sessions').select('id, host_id').eq('id', sessionId).single()
+
+    if (error || !session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (session.host_id !== userId) {
+      return NextResponse.json({ error: 'Only the host can upload the session recording' }, { status: 403 })
+    }
+
+    const data = await req.arrayBuffer()
+    if (data.byteLength === 0 || data.byteLength > MAX_AUDIO_PART_BYTES) {
+      return NextResponse.json(
+        { error: `Part must be between 1 byte and ${MAX_AUDIO_PART_BYTES / 1024 / 1024}MB` },
+        { status: 413 },
+      )
+    }
+
+    await uploadAudioPart(supabase, sessionId, part, data)
+    console.log(`🎙️ Session ${sessionId} audio part ${part} stored (${(data.byteLength / 1024).toFixed(0)}KB)`)
+
+    return NextResponse.json({ success: true, part, size: data.byteLength })
+  } catch (error) {
+    console.error('Session audio part upload error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
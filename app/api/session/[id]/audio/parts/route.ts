@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { auth } from '@clerk/nextjs/server'
+import { listAudioParts } from '@/lib/session-audio'
+
+// 🆕 이미 올라간 녹음 part 번호 (호스트 전용, 업로드 재개용)
+// GET /api/session/[id]/audio/parts → { parts: number[] }
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+    const { data: session, error } = await supabase.from('sessions').select('id, host_id').eq('id', sessionId).single()
+
+    if (error || !session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (session.host_id !== userId) {
+      return NextResponse.json({ error: 'Only the host can upload the session recording' }, { status: 403 })
+    }
+
+    return NextResponse.json({ parts: await listAudioParts(supabase, sessionId) })
+  } catch (error) {
+    console.error('Session audio parts API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { auth } from '@clerk/nextjs/server'
+import {
+  MAX_AUDIO_PARTS,
+  completeSessionRecording,
+  getRecordingUrl,
+  loadSessionRecording,
+  normalizeAudioMimeType,
+} from '@/lib/session-audio'
+
+// 🆕 세션 녹음
+// GET  /api/session/[id]/audio → { recording: { url, mimeType, startedAt, durationMs } | null } (요약 페이지 플레이어)
+// POST /api/session/[id]/audio { partCount, mimeType, startedAt, durationMs } (호스트 전용)
+//      → 올라간 part 를 한 파일로 합치고 줄별 녹음 위치 저장. 빠진 part 가 있으면 409 + missing
+
+function getSupabase() {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+}
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+
+    const supabase = getSupabase()
+    const recording = await loadSessionRecording(supabase, sessionId)
+    if (!recording) {
+      return NextResponse.json({ recording: null })
+    }
+
+    const url = await getRecordingUrl(supabase, recording)
+    if (!url) {
+      return NextResponse.json({ error: 'Recording is not available' }, { status: 502 })
+    }
+
+    return NextResponse.json({
+      recording: {
+        url,
+        mimeType: recording.mime_type,
+        startedAt: recording.started_at,
+        durationMs: recording.duration_ms,
+      },
+    })
+  } catch (error) {
+    console.error('Session audio API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const mimeType = normalizeAudioMimeType(body.mimeType)
+    const startedAt = typeof body.startedAt === 'number' ? new Date(body.startedAt) : null
+
+    if (!Number.isInteger(body.partCount) || body.partCount < 1 || body.partCount > MAX_AUDIO_PARTS) {
+      return NextResponse.json({ error: `partCount must be between 1 and ${MAX_AUDIO_PARTS}` }, { status: 400 })
+    }
+    if (!mimeType) {
+      return NextResponse.json({ error: 'Unsupported audio format' }, { status: 400 })
+    }
+    if (!startedAt || Number.isNaN(startedAt.getTime())) {
+      return NextResponse.json({ error: 'startedAt must be a timestamp in milliseconds' }, { status: 400 })
+    }
+    if (!Number.isInteger(body.durationMs) || body.durationMs < 0) {
+      return NextResponse.json({ error: 'durationMs must be a non-negative integer' }, { status: 400 })
+    }
+
+    const supabase = getSupabase()
+    const { data: session, error: sessionError } = await supabase
+      .from('sessions')
+      .select('id, host_id')
+      .eq('id', sessionId)
+      .single()
+
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (session.host_id !== userId) {
+      return NextResponse.json({ error: 'Only the host can upload the session recording' }, { status: 403 })
+    }
+
+    try {
+      const { recording, offsetsUpdated } = await completeSessionRecording(supabase, sessionId, {
+        partCount: body.partCount,
+        mimeType,
+        startedAt: startedAt.toISOString(),
+        durationMs: body.durationMs,
+      })
+
+      return NextResponse.json({
+        success: true,
+        durationMs: recording.duration_ms,
+        sizeBytes: recording.size_bytes,
+        linkedLines: offsetsUpdated,
+      })
+    } catch (completeError) {
+      const message = completeError instanceof Error ? completeError.message : 'Failed to save recording'
+      if (message.startsWith('Missing audio parts')) {
+        return NextResponse.json({ error: message }, { status: 409 })
+      }
+      throw completeError
+    }
+  } catch (error) {
+    console.error('Session audio upload error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
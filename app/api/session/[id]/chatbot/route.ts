@@ -1,25 +1,129 @@
-import { streamText } from 'ai'
+import { createDataStreamResponse, streamText, type JSONValue } from 'ai'
 import { openai } from '@ai-sdk/openai'
+import { NextResponse } from 'next/server'
+import { loadSessionExportData } from '@/lib/session-export'
+import { getChapterTitle } from '@/lib/chapters'
+import {
+  buildTranscriptIndex,
+  formatPassagesForPrompt,
+  getPassageCitations,
+  retrieveTranscriptPassages,
+  type RetrievalLine,
+} from '@/lib/transcript-retrieval'
 
-export const runtime = 'edge'
+// 🆕 세션 챗봇 (transcript 검색 + 인용)
+// POST /api/session/[id]/chatbot { messages, language? }
+// 클라이언트가 보낸 transcript 대신 서버가 세션 transcript 를 직접 불러와 질문과 관련된 구간만 모델에 보낸다.
+// 답변은 [L12] 형식으로 줄을 인용하고, 인용된 줄의 transcript id 는 message annotation ({ type: 'citations' }) 으로 보낸다.
 
-export async function POST(req: Request) {
-  const {
-    messages,
-    transcript,
-  }: {
-    messages: { role: 'user' | 'assistant' | 'system'; content: string }[]
-    transcript: string
-  } = await req.json()
+type ChatMessage = { role: 'user' | 'assistant' | 'system'; content: string }
 
-  const systemPrompt =
-    "You are a helpful assistant for a live lecture. Use the information in the transcript below to answer questions. Reply in a clear, concise, and straightforward way, using simple language. Avoid long or overly complex answers. If you use external knowledge, briefly explain how it relates to the transcript context. For example, if the word 'coffee' is used, clarify its meaning in this session."
+const systemPrompt =
+  "You are a helpful assistant for a live lecture. Use the information in the transcript excerpts below to answer questions. Reply in a clear, concise, and straightforward way, using simple language. Avoid long or overly complex answers. If you use external knowledge, briefly explain how it relates to the transcript context. For example, if the word 'coffee' is used, clarify its meaning in this session."
 
-  const result = await streamText({
-    model: openai.chat('gpt-4-turbo'),
-    system: `${systemPrompt}\n\nHere is the transcript of the lecture:\n\n${transcript}`,
-    messages: messages,
-  })
+const citationRules = `Each transcript line starts with its line number, e.g. [L12].
+- After every statement based on the transcript, cite the line(s) it comes from in the same format, e.g. "... the deadline is Friday [L12][L15]".
+- Only cite line numbers that appear in the excerpts. Never invent line numbers.
+- If the excerpts do not contain the answer, say that it was not covered in the parts of the session you can see, and do not cite anything.
+- Answer in the language of the user's question.`
 
-  return result.toDataStreamResponse()
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+    const { messages, language }: { messages: ChatMessage[]; language?: string } = await req.json()
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing session ID' }, { status: 400 })
+    }
+
+    if (!Array.isArray(messages) || messages.length === 0) {
+      return NextResponse.json({ error: 'Missing messages' }, { status: 400 })
+    }
+
+    // 질문 언어 번역도 같이 색인 (영어 세션에 한국어로 물어도 찾도록)
+    const translationLanguage = language && language !== 'en' ? language : undefined
+    const exportData = await loadSessionExportData(sessionId, { language: translationLanguage, includeSummary: true })
+    if (!exportData) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    const { session, transcripts, translations, speakers, summaryDocument, chapters } = exportData
+    const sessionStart = new Date(session.created_at).getTime()
+    const lines: RetrievalLine[] = transcripts
+      .map((t) => ({ t, text: (t.reviewed_text || t.original_text || '').trim() }))
+      .filter(({ text }) => text.length > 0)
+      .map(({ t, text }, index) => ({
+        ref: index + 1,
+        transcriptId: t.id,
+        text,
+        translation: translations[t.id],
+        speaker: speakers[t.id],
+        offsetMs: Math.max(0, new Date(t.created_at).getTime() - sessionStart),
+      }))
+
+    // 검색어: 마지막 질문 + 바로 앞 질문 ("그건 언제야?" 같은 후속 질문)
+    const query = messages
+      .filter((message) => message.role === 'user')
+      .slice(-2)
+      .map((message) => message.content)
+      .join('\n')
+
+    const index = buildTranscriptIndex(lines)
+    const { passages, mode } = retrieveTranscriptPassages(index, query)
+    const citations = getPassageCitations(passages)
+
+    console.log(
+      `💬 Chatbot for session ${sessionId}: ${citations.length}/${lines.length} lines in ${passages.length} excerpt(s) (${mode})`,
+    )
+
+    // 검색 결과만으로는 세션 흐름을 모르므로 요약 개요 / 챕터 제목을 함께 (인용 대상 아님)
+    const outline = [
+      `Session title: ${session.title}`,
+      summaryDocument ? `Session overview: ${summaryDocument.overview}` : '',
+      chapters.length > 0
+        ? `Chapters: ${chapters.map((chapter) => `${chapter.index + 1}. ${getChapterTitle(chapter)}`).join('; ')}`
+        : '',
+    ]
+      .filter(Boolean)
+      .join('\n')
+
+    const excerptNote =
+      mode === 'full'
+        ? 'Here is the full transcript of the session so far:'
+        : mode === 'search'
+          ? `Here are the parts of the transcript (${lines.length} lines in total) that best match the question:`
+          : `No part of the transcript (${lines.length} lines in total) matched the question directly. Here are excerpts spread across the whole session:`
+
+    const system = [
+      systemPrompt,
+      citationRules,
+      outline,
+      lines.length > 0
+        ? `${excerptNote}\n\n${formatPassagesForPrompt(passages)}`
+        : 'The transcript is still empty. Nothing has been said in this session yet.',
+    ].join('\n\n')
+
+    return createDataStreamResponse({
+      execute: (dataStream) => {
+        // 인용 후보 (ChatCitation[]) 를 답변보다 먼저 보냄
+        const annotation: JSONValue = { type: 'citations', citations }
+        dataStream.writeMessageAnnotation(annotation)
+
+        const result = streamText({
+          model: openai.chat('gpt-4-turbo'),
+          system,
+          messages: messages.filter((message) => message.role !== 'system'),
+        })
+
+        result.mergeIntoDataStream(dataStream)
+      },
+      onError: (error) => {
+        console.error('❌ Chatbot error:', error)
+        return 'Failed to get response.'
+      },
+    })
+  } catch (error) {
+    console.error('❌ Chatbot error:', error)
+    return NextResponse.json({ error: 'Failed to answer question' }, { status: 500 })
+  }
 }
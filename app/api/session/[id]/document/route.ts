@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAttachmentDisposition, loadSessionExportData } from '@/lib/session-export'
+import {
+  DOCUMENT_FORMATS,
+  buildSessionDocument,
+  getDocumentContentType,
+  renderDocx,
+  renderMarkdown,
+  renderPdf,
+  renderPrintHtml,
+  type DocumentFormat,
+} from '@/lib/document-export'
+
+// 🆕 세션 문서 내보내기
+// GET /api/session/[id]/document?format=md|docx|pdf|print&lang=ko&translation=1
+// - lang: 요약 언어 (session_summary_cache, 없으면 영어 요약)
+// - translation=1: transcript 옆에 lang 번역을 나란히 표시
+// - pdf: 서버에서 만든 PDF 파일 (힌디어 등 PDF 표준 글꼴에 없는 문자는 print 사용)
+// - print: 브라우저 인쇄 대화상자가 열리는 인쇄용 HTML 페이지 (파일 다운로드가 아님)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+    const { searchParams } = new URL(req.url)
+    const format = (searchParams.get('format') || 'md').toLowerCase() as DocumentFormat
+    const language = searchParams.get('lang') || undefined
+    const includeTranslation = ['1', 'true'].includes(searchParams.get('translation') || '')
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing session ID' }, { status: 400 })
+    }
+
+    if (!DOCUMENT_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `Invalid format. Use ${DOCUMENT_FORMATS.join(', ')}` }, { status: 400 })
+    }
+
+    if (includeTranslation && !language) {
+      return NextResponse.json({ error: 'lang is required when translation is enabled' }, { status: 400 })
+    }
+
+    const exportData = await loadSessionExportData(sessionId, { language, includeSummary: true })
+    if (!exportData) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    const document = buildSessionDocument(exportData, {
+      translationLanguage: includeTranslation ? language : undefined,
+    })
+
+    console.log(
+      `📄 Exported ${format.toUpperCase()} document for session ${sessionId} (${document.lines.length} lines, summary: ${document.summaryLanguage})`,
+    )
+
+    const headers = {
+      'Content-Type': getDocumentContentType(format),
+      'Cache-Control': 'no-store',
+    }
+
+    switch (format) {
+      case 'md':
+        return new Response(renderMarkdown(document), {
+          headers: {
+            ...headers,
+            'Content-Disposition': getAttachmentDisposition(exportData.session.title, 'md', language),
+          },
+        })
+      case 'docx':
+        return new Response(new Uint8Array(renderDocx(document)), {
+          headers: {
+            ...headers,
+            'Content-Disposition': getAttachmentDisposition(exportData.session.title, 'docx', language),
+          },
+        })
+      case 'pdf':
+        return new Response(new Uint8Array(renderPdf(document)), {
+          headers: {
+            ...headers,
+            'Content-Disposition': getAttachmentDisposition(exportData.session.title, 'pdf', language),
+          },
+        })
+      case 'print':
+        // 새 탭에서 열리면 인쇄 대화상자를 띄움
+        return new Response(renderPrintHtml(document, { autoPrint: true }), {
+          headers: {
+            ...headers,
+            'Content-Disposition': getAttachmentDisposition(exportData.session.title, 'html', language, 'inline'),
+          },
+        })
+    }
+  } catch (error) {
+    console.error('Document export error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
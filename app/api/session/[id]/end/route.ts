@@ -1,6 +1,7 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { generateSessionSummary } from '@/lib/summary-generator'
+import { generateSessionChapters } from '@/lib/chapter-generator'
 import { auth } from '@clerk/nextjs/server'
 
 export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
@@ -78,6 +79,7 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
 
     // Generate summary if there are transcripts
     let summaryGenerated = false
+    let chaptersPending = false
     if (transcriptCount && transcriptCount > 0) {
       try {
         console.log(`🤖 Generating summary for session ${sessionId} with ${transcriptCount} transcripts`)
@@ -94,6 +96,18 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
       } catch (summaryError) {
         console.error('Error generating summary:', summaryError)
       }
+
+      // 🆕 챕터 (목차) - 진행 중에 만든 live 챕터가 있어도 처음부터 다시 나눔
+      // 긴 세션은 여러 번 Gemini 를 호출하므로 응답 뒤(after)에 만들고, 요약 페이지가 sessions.chapters 변경으로 받는다
+      chaptersPending = true
+      after(async () => {
+        try {
+          const chapterData = await generateSessionChapters(sessionId, { supabase })
+          console.log(`📑 Chapters generated for ended session ${sessionId}: ${chapterData.chapters.length}`)
+        } catch (chapterError) {
+          console.error('Error generating chapters:', chapterError)
+        }
+      })
     }
 
     return NextResponse.json({
@@ -103,6 +117,7 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
         participant_count: participantCount || 0,
         duration: 0,
         summary_generated: summaryGenerated,
+        chapters_pending: chaptersPending, // 챕터는 응답 뒤에 만들어짐
       },
     })
   } catch (error) {
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAttachmentDisposition, loadSessionExportData } from '@/lib/session-export'
+import {
+  SUBTITLE_FORMATS,
+  SUBTITLE_KINDS,
+  buildChapterCues,
+  buildSubtitleCues,
+  formatSubtitles,
+  getChapterCueLabels,
+  getSubtitleContentType,
+  type SubtitleFormat,
+  type SubtitleKind,
+} from '@/lib/subtitle-export'
+
+// 🆕 자막 파일 다운로드
+// GET /api/session/[id]/export?format=srt|vtt&lang=ko&kind=captions|chapters
+// lang 이 있으면 translation_cache 의 번역을, 없으면 검수된 원문(reviewed_text)을 사용
+// kind=chapters 는 챕터 트랙 (챕터 제목도 lang 번역), captions 의 VTT 에는 챕터 시작마다 NOTE 를 넣음
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+    const { searchParams } = new URL(req.url)
+    const format = (searchParams.get('format') || 'srt').toLowerCase() as SubtitleFormat
+    const language = searchParams.get('lang') || undefined
+    const kind = (searchParams.get('kind') || 'captions').toLowerCase() as SubtitleKind
+
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Missing session ID' }, { status: 400 })
+    }
+
+    if (!SUBTITLE_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `Invalid format. Use ${SUBTITLE_FORMATS.join(' or ')}` }, { status: 400 })
+    }
+
+    if (!SUBTITLE_KINDS.includes(kind)) {
+      return NextResponse.json({ error: `Invalid kind. Use ${SUBTITLE_KINDS.join(' or ')}` }, { status: 400 })
+    }
+
+    const exportData = await loadSessionExportData(sessionId, { language })
+    if (!exportData) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    const { session, transcripts, translations, speakers, chapters } = exportData
+    if (kind === 'chapters' && chapters.length === 0) {
+      return NextResponse.json({ error: 'This session has no chapters' }, { status: 404 })
+    }
+
+    const chapterLabels = getChapterCueLabels(chapters, transcripts, language)
+    const cues = buildSubtitleCues(transcripts, session.created_at, translations, speakers, chapterLabels)
+    const exportedCues = kind === 'chapters' ? buildChapterCues(chapters, cues, transcripts, language) : cues
+    const body = formatSubtitles(exportedCues, format)
+
+    console.log(
+      `📄 Exported ${exportedCues.length} ${format.toUpperCase()} ${kind} cues for session ${sessionId} (${language || 'original'}, ${Object.keys(translations).length} translated)`,
+    )
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': getSubtitleContentType(format),
+        'Content-Disposition': getAttachmentDisposition(
+          session.title,
+          kind === 'chapters' ? `chapters.${format}` : format,
+          language,
+        ),
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Subtitle export error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { auth } from '@clerk/nextjs/server'
+import { loadHostGlossary, MAX_GLOSSARY_ENTRIES, mergeGlossaries, sanitizeGlossary } from '@/lib/glossary'
+
+// 🆕 세션 용어집 (호스트 전용)
+// GET /api/session/[id]/glossary            → { glossary, hostGlossary, merged } (merged = 실제 적용되는 목록)
+// PUT /api/session/[id]/glossary { glossary } → 세션 용어집 전체 교체 (이후 검수 / 번역부터 적용)
+
+function getSupabase() {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+}
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = getSupabase()
+    const { data: session, error } = await supabase
+      .from('sessions')
+      .select('id, host_id, glossary')
+      .eq('id', sessionId)
+      .single()
+
+    if (error || !session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (session.host_id !== userId) {
+      return NextResponse.json({ error: 'Only the host can view the session glossary' }, { status: 403 })
+    }
+
+    const glossary = sanitizeGlossary(session.glossary)
+    const hostGlossary = await loadHostGlossary(supabase, userId)
+
+    return NextResponse.json({ glossary, hostGlossary, merged: mergeGlossaries(hostGlossary, glossary) })
+  } catch (error) {
+    console.error('Session glossary API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PUT(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    if (!Array.isArray(body.glossary) || body.glossary.length > MAX_GLOSSARY_ENTRIES) {
+      return NextResponse.json(
+        { error: `glossary must be an array of up to ${MAX_GLOSSARY_ENTRIES} entries` },
+        { status: 400 },
+      )
+    }
+
+    const supabase = getSupabase()
+    const { data: session, error: sessionError } = await supabase
+      .from('sessions')
+      .select('id, host_id')
+      .eq('id', sessionId)
+      .single()
+
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (session.host_id !== userId) {
+      return NextResponse.json({ error: 'Only the host can edit the session glossary' }, { status: 403 })
+    }
+
+    const glossary = sanitizeGlossary(body.glossary)
+    const { error } = await supabase.from('sessions').update({ glossary }).eq('id', sessionId)
+
+    if (error) {
+      console.error('❌ Session glossary save error:', error)
+      return NextResponse.json({ error: 'Failed to save glossary' }, { status: 500 })
+    }
+
+    const hostGlossary = await loadHostGlossary(supabase, userId)
+    console.log(`📘 Session glossary saved for ${sessionId}: ${glossary.length} terms`)
+    return NextResponse.json({ glossary, hostGlossary, merged: mergeGlossaries(hostGlossary, glossary) })
+  } catch (error) {
+    console.error('Session glossary API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { auth } from '@clerk/nextjs/server'
+import { createSpeakerInviteToken } from '@/lib/speaker-invite'
+
+// 🆕 공동 발표자 초대 링크 (호스트 전용)
+// GET /api/session/[id]/speakers/invite → { url } (/session/[id]/speak?token=...)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+    const { data: session, error } = await supabase.from('sessions').select('id, host_id').eq('id', sessionId).single()
+
+    if (error || !session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (session.host_id !== userId) {
+      return NextResponse.json({ error: 'Only the host can invite speakers' }, { status: 403 })
+    }
+
+    const baseUrl = req.headers.get('origin') || new URL(req.url).origin
+    const token = createSpeakerInviteToken(sessionId)
+
+    return NextResponse.json({ url: `${baseUrl}/session/${sessionId}/speak?token=${encodeURIComponent(token)}` })
+  } catch (error) {
+    console.error('Speaker invite API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { auth } from '@clerk/nextjs/server'
+import { listSessionSpeakers, loadSpeakerDirectory } from '@/lib/speakers'
+import { verifySpeakerInviteToken } from '@/lib/speaker-invite'
+
+// 🆕 세션 화자 관리
+// GET   /api/session/[id]/speakers                    → 화자 목록 (호스트 + 공동 발표자 + 화자 분리 라벨)
+// POST  /api/session/[id]/speakers { token, userName } → 초대 링크로 공동 발표자 참여
+// PATCH /api/session/[id]/speakers { names }           → 호스트가 화자 이름 변경 (speaker key → 이름)
+
+const MAX_SPEAKER_NAME_LENGTH = 60
+
+function getSupabase() {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+}
+
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+    const supabase = getSupabase()
+
+    const [directory, { data: rows, error }] = await Promise.all([
+      loadSpeakerDirectory(supabase, sessionId),
+      supabase.from('transcripts').select('speaker_id, speaker_label').eq('session_id', sessionId),
+    ])
+
+    if (error) {
+      console.error('❌ Speaker list load error:', error)
+      return NextResponse.json({ error: 'Failed to load speakers' }, { status: 500 })
+    }
+
+    return NextResponse.json({ speakers: listSessionSpeakers(rows || [], directory) })
+  } catch (error) {
+    console.error('Speaker list API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+    const { token, userName } = await req.json()
+
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (typeof token !== 'string' || !verifySpeakerInviteToken(sessionId, token)) {
+      return NextResponse.json({ error: 'Invalid speaker invite link' }, { status: 403 })
+    }
+
+    const supabase = getSupabase()
+    const { data: session, error: sessionError } = await supabase
+      .from('sessions')
+      .select('id, host_id, status')
+      .eq('id', sessionId)
+      .single()
+
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (session.status !== 'active') {
+      return NextResponse.json({ error: 'Session has already ended' }, { status: 409 })
+    }
+
+    if (session.host_id === userId) {
+      return NextResponse.json({ error: 'The host is already speaking in this session' }, { status: 400 })
+    }
+
+    // 청중으로 먼저 들어와 있던 경우에도 같은 행을 speaker 로 전환 (UNIQUE(session_id, user_id))
+    const { data: participant, error } = await supabase
+      .from('session_participants')
+      .upsert(
+        {
+          session_id: sessionId,
+          user_id: userId,
+          user_name: (typeof userName === 'string' && userName.trim().slice(0, MAX_SPEAKER_NAME_LENGTH)) || 'Speaker',
+          role: 'speaker',
+          joined_at: new Date().toISOString(),
+          left_at: null,
+        },
+        { onConflict: 'session_id,user_id' },
+      )
+      .select()
+      .single()
+
+    if (error || !participant) {
+      console.error('❌ Co-speaker join error:', error)
+      return NextResponse.json({ error: 'Failed to join as speaker' }, { status: 500 })
+    }
+
+    console.log(`🎙️ Co-speaker joined session ${sessionId}: ${participant.user_name} (${participant.id})`)
+    return NextResponse.json({ participant })
+  } catch (error) {
+    console.error('Speaker join API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PATCH(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+    const { names } = await req.json()
+
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (!names || typeof names !== 'object' || Array.isArray(names)) {
+      return NextResponse.json({ error: 'names must be an object of speaker key → name' }, { status: 400 })
+    }
+
+    const supabase = getSupabase()
+    const { data: session, error: sessionError } = await supabase
+      .from('sessions')
+      .select('id, host_id')
+      .eq('id', sessionId)
+      .single()
+
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (session.host_id !== userId) {
+      return NextResponse.json({ error: 'Only the host can rename speakers' }, { status: 403 })
+    }
+
+    // 빈 이름은 기본 이름으로 되돌림 (키 삭제)
+    const speakerNames: Record<string, string> = {}
+    for (const [key, value] of Object.entries(names as Record<string, unknown>)) {
+      const name = typeof value === 'string' ? value.trim().slice(0, MAX_SPEAKER_NAME_LENGTH) : ''
+      if (name) speakerNames[key] = name
+    }
+
+    const { error } = await supabase.from('sessions').update({ speaker_names: speakerNames }).eq('id', sessionId)
+
+    if (error) {
+      console.error('❌ Speaker rename error:', error)
+      return NextResponse.json({ error: 'Failed to rename speakers' }, { status: 500 })
+    }
+
+    console.log(`✏️ Speaker names updated for session ${sessionId}:`, speakerNames)
+    return NextResponse.json({ speakerNames })
+  } catch (error) {
+    console.error('Speaker rename API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
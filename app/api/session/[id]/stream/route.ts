@@ -0,0 +1,125 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { loadCaptionBacklog, subscribeToCaptionEvents } from '@/lib/caption-stream'
+import type { CaptionEvent } from '@/lib/types'
+
+// Realtime 구독(ws)을 유지해야 하므로 node 런타임 사용
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const HEARTBEAT_INTERVAL = 15000
+const DEFAULT_BACKLOG = 50
+const MAX_BACKLOG = 500
+
+// 🆕 세션 캡션 SSE 스트림
+// GET /api/session/[id]/stream?lang=ko&backlog=50 (backlog=all 이면 세션 전체 - 늦게 들어온 청중 / 언어 변경 후 재연결)
+// 이벤트: partial / final / reviewed / translated / removed (모두 transcriptId 포함), 백로그 전송 후 ready
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id: sessionId } = await params
+  const { searchParams } = new URL(req.url)
+  const language = searchParams.get('lang') || undefined
+  const backlogParam = searchParams.get('backlog')
+  const backlogNumber = Number(backlogParam ?? DEFAULT_BACKLOG)
+  const backlogLimit: number | null =
+    backlogParam === 'all'
+      ? null
+      : Number.isFinite(backlogNumber)
+        ? Math.min(Math.max(Math.floor(backlogNumber), 0), MAX_BACKLOG)
+        : DEFAULT_BACKLOG
+
+  if (!sessionId) {
+    return NextResponse.json({ error: 'Missing session ID' }, { status: 400 })
+  }
+
+  const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+
+  const { data: session, error: sessionError } = await supabase
+    .from('sessions')
+    .select('id, status')
+    .eq('id', sessionId)
+    .single()
+
+  if (sessionError || !session) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup: (() => void) | null = null
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false
+      let backlogDone = false
+      const queued: CaptionEvent[] = []
+
+      const write = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup?.()
+        }
+      }
+
+      const send = (event: CaptionEvent) => {
+        write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`)
+      }
+
+      // 백로그 조회 중 들어온 라이브 이벤트는 큐에 모아뒀다가 백로그 이후에 전송
+      const unsubscribe = subscribeToCaptionEvents(sessionId, {
+        language,
+        onEvent: (event) => (backlogDone ? send(event) : queued.push(event)),
+      })
+
+      const heartbeat = setInterval(() => write(`: heartbeat ${Date.now()}\n\n`), HEARTBEAT_INTERVAL)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        unsubscribe()
+        req.signal.removeEventListener('abort', onAbort)
+        try {
+          controller.close()
+        } catch {
+          // 이미 닫힘
+        }
+        console.log(`🔌 Caption stream closed for session ${sessionId}`)
+      }
+
+      const onAbort = () => cleanup?.()
+      req.signal.addEventListener('abort', onAbort)
+
+      console.log(`📡 Caption stream opened for session ${sessionId} (lang: ${language || 'none'})`)
+      write('retry: 3000\n\n')
+
+      let backlog: CaptionEvent[] = []
+      try {
+        backlog = backlogLimit !== 0 ? await loadCaptionBacklog(sessionId, language, backlogLimit) : []
+      } catch (error) {
+        console.error('❌ Caption backlog error:', error)
+        write(`event: backlog-error\ndata: ${JSON.stringify({ error: 'Failed to load transcripts' })}\n\n`)
+      }
+
+      backlog.forEach(send)
+      backlogDone = true
+      queued.splice(0).forEach(send)
+
+      write(
+        `event: ready\ndata: ${JSON.stringify({ sessionId, language: language || null, backlog: backlog.length, status: session.status })}\n\n`,
+      )
+    },
+    cancel() {
+      cleanup?.()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
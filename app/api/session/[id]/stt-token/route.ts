@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { auth } from '@clerk/nextjs/server'
+import { createSttProxyToken } from '@/lib/stt-proxy-token'
+
+// 🆕 STT 프록시 접속 토큰 (호스트 / 공동 발표자 전용)
+// POST /api/session/[id]/stt-token { speakerId? } → { token, expiresAt }
+// speakerId 가 없으면 호스트, 있으면 그 session_participants 행의 본인만 받을 수 있다.
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+    const { speakerId } = await req.json().catch(() => ({}))
+
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+    const { data: session, error } = await supabase
+      .from('sessions')
+      .select('id, host_id, status')
+      .eq('id', sessionId)
+      .single()
+
+    if (error || !session) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (session.status !== 'active') {
+      return NextResponse.json({ error: 'Session has already ended' }, { status: 409 })
+    }
+
+    if (typeof speakerId === 'string' && speakerId) {
+      const { data: participant, error: participantError } = await supabase
+        .from('session_participants')
+        .select('id')
+        .eq('id', speakerId)
+        .eq('session_id', sessionId)
+        .eq('user_id', userId)
+        .eq('role', 'speaker')
+        .maybeSingle()
+
+      if (participantError || !participant) {
+        return NextResponse.json({ error: 'Only this speaker can stream audio' }, { status: 403 })
+      }
+
+      return NextResponse.json(createSttProxyToken(sessionId, speakerId))
+    }
+
+    if (session.host_id !== userId) {
+      return NextResponse.json({ error: 'Only the host can stream audio' }, { status: 403 })
+    }
+
+    return NextResponse.json(createSttProxyToken(sessionId))
+  } catch (error) {
+    console.error('STT token API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
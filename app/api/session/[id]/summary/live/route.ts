@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import { toSummaryDocument } from '@/lib/summary-document'
+import type { SessionSummaryCache } from '@/lib/types'
+
+// 🆕 "지금까지" 요약 (Catch me up 패널 첫 로드용, 이후 갱신은 session_summary_cache realtime 으로 받음)
+// - lang: 요약 언어 (번역이 아직 없으면 영어 요약)
+// 세션이 끝나 최종 요약으로 바뀐 경우 kind 가 'final' 로 온다.
+// 🆕 summaryDocument: 요약 문서 (이 기능 전에 만든 live 요약은 null, summary 는 HTML)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+    const lang = req.nextUrl.searchParams.get('lang') || 'en'
+
+    const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+
+    const { data: rows, error } = await supabase
+      .from('session_summary_cache')
+      .select('language_code, summary_text, summary_doc, kind, version, line_count, updated_at')
+      .eq('session_id', sessionId)
+      .in('language_code', Array.from(new Set([lang, 'en'])))
+
+    if (error) {
+      console.error(`❌ Live summary load error for session ${sessionId}:`, error)
+      return NextResponse.json({ error: 'Failed to load summary' }, { status: 500 })
+    }
+
+    const summaries = (rows || []) as Pick<
+      SessionSummaryCache,
+      'language_code' | 'summary_text' | 'summary_doc' | 'kind' | 'version' | 'line_count' | 'updated_at'
+    >[]
+    const row =
+      summaries.find((summary) => summary.language_code === lang) ||
+      summaries.find((summary) => summary.language_code === 'en')
+
+    if (!row) {
+      return NextResponse.json({ summary: null })
+    }
+
+    return NextResponse.json({
+      summary: row.summary_text,
+      summaryDocument: toSummaryDocument(row.summary_doc),
+      kind: row.kind,
+      version: row.version,
+      lineCount: row.line_count ?? null,
+      updatedAt: row.updated_at,
+      language: row.language_code,
+    })
+  } catch (error) {
+    console.error('❌ Live summary route error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
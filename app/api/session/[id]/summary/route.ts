@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@supabase/supabase-js'
 import { generateSessionSummary } from '@/lib/summary-generator'
+import { generateSessionChapters } from '@/lib/chapter-generator'
+import { toSummaryDocument } from '@/lib/summary-document'
 
 export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
@@ -31,8 +33,18 @@ export async function POST(req: NextRequest, { params }: { params: Promise<{ id:
       force: true,
     })
 
+    // 🆕 요약을 다시 만들 때 챕터도 다시 나눔 (챕터 기능 전에 끝난 세션도 여기서 생성)
+    let chapters = session.chapters || []
+    try {
+      chapters = (await generateSessionChapters(sessionId, { supabase })).chapters
+    } catch (chapterError) {
+      console.error('Chapter generation error:', chapterError)
+    }
+
     return NextResponse.json({
       summary: summaryData.summary,
+      summaryDoc: summaryData.summaryDocument,
+      chapters,
       category: summaryData.category,
       transcriptCount: summaryData.transcriptCount,
     })
@@ -59,7 +71,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
 
     const { data: session, error } = await supabase
       .from('sessions')
-      .select('summary, category, title')
+      .select('summary, summary_doc, category, title')
       .eq('id', sessionId)
       .single()
 
@@ -69,16 +81,19 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
 
     // Get translated summary from session_summary_cache
     let summary = session.summary
+    let summaryDoc = toSummaryDocument(session.summary_doc)
     if (lang !== 'en') {
       const { data: cachedSummary } = await supabase
         .from('session_summary_cache')
-        .select('summary_text')
+        .select('summary_text, summary_doc')
         .eq('session_id', sessionId)
         .eq('language_code', lang)
+        .eq('kind', 'final')
         .maybeSingle()
 
       if (cachedSummary) {
         summary = cachedSummary.summary_text
+        summaryDoc = toSummaryDocument(cachedSummary.summary_doc)
         console.log(`✅ Retrieved ${lang} summary from cache`)
       } else {
         console.log(`⚠️ No ${lang} summary found, using English`)
@@ -87,6 +102,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ id:
 
     return NextResponse.json({
       summary,
+      summaryDoc, // 🆕 구조화된 요약 (이전 세션은 null)
       category: session.category,
       title: session.title,
       hasSummary: !!session.summary,
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { loadSessionHostId, loadTranscriptEdits } from '@/lib/transcript-editor'
+
+// 🆕 transcript 줄 수정 기록 (호스트 전용)
+// GET /api/session/[id]/transcripts/[transcriptId]/history → { edits } (최신순)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ id: string; transcriptId: string }> }) {
+  try {
+    const { id: sessionId, transcriptId } = await params
+
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hostId = await loadSessionHostId(sessionId)
+    if (!hostId) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (hostId !== userId) {
+      return NextResponse.json({ error: 'Only the host can view edit history' }, { status: 403 })
+    }
+
+    const edits = await loadTranscriptEdits(sessionId, transcriptId)
+    return NextResponse.json({ edits })
+  } catch (error) {
+    console.error('Transcript history API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
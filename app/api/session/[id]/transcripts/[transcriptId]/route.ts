@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import {
+  deleteTranscriptLine,
+  editTranscriptLine,
+  loadSessionHostId,
+  normalizeEditedText,
+} from '@/lib/transcript-editor'
+
+// 🆕 호스트 transcript 줄 수정 / 삭제 (호스트 전용)
+// PATCH  /api/session/[id]/transcripts/[transcriptId] { text } → 문장 교체 + 재번역
+// DELETE /api/session/[id]/transcripts/[transcriptId]          → 줄 삭제 (청중 화면에서도 사라짐)
+// 응답: TranscriptEditResult
+
+type RouteParams = { params: Promise<{ id: string; transcriptId: string }> }
+
+async function authorizeHost(sessionId: string): Promise<{ userId: string } | NextResponse> {
+  const { userId } = await auth()
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const hostId = await loadSessionHostId(sessionId)
+  if (!hostId) {
+    return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+  }
+
+  if (hostId !== userId) {
+    return NextResponse.json({ error: 'Only the host can edit transcripts' }, { status: 403 })
+  }
+
+  return { userId }
+}
+
+export async function PATCH(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: sessionId, transcriptId } = await params
+
+    const authorized = await authorizeHost(sessionId)
+    if (authorized instanceof NextResponse) return authorized
+
+    const body = await req.json().catch(() => ({}))
+    const text = normalizeEditedText(body.text)
+    if (!text) {
+      return NextResponse.json({ error: 'Text is required' }, { status: 400 })
+    }
+
+    const result = await editTranscriptLine(sessionId, transcriptId, text, authorized.userId)
+    if (!result) {
+      return NextResponse.json({ error: 'Transcript not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Transcript edit API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteParams) {
+  try {
+    const { id: sessionId, transcriptId } = await params
+
+    const authorized = await authorizeHost(sessionId)
+    if (authorized instanceof NextResponse) return authorized
+
+    const result = await deleteTranscriptLine(sessionId, transcriptId, authorized.userId)
+    if (!result) {
+      return NextResponse.json({ error: 'Transcript not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Transcript delete API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@clerk/nextjs/server'
+import { loadSessionHostId, mergeTranscriptLines } from '@/lib/transcript-editor'
+
+// 🆕 이어진 transcript 줄 합치기 (호스트 전용)
+// POST /api/session/[id]/transcripts/merge { transcriptIds } → 첫 줄에 합치고 재번역, 나머지 줄은 삭제
+// 응답: TranscriptEditResult (removedIds = 합쳐져서 사라진 줄)
+export async function POST(req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: sessionId } = await params
+
+    const { userId } = await auth()
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const hostId = await loadSessionHostId(sessionId)
+    if (!hostId) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 })
+    }
+
+    if (hostId !== userId) {
+      return NextResponse.json({ error: 'Only the host can edit transcripts' }, { status: 403 })
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const transcriptIds: unknown = body.transcriptIds
+    if (!Array.isArray(transcriptIds) || !transcriptIds.every((id) => typeof id === 'string')) {
+      return NextResponse.json({ error: 'transcriptIds must be an array of ids' }, { status: 400 })
+    }
+
+    const result = await mergeTranscriptLines(sessionId, transcriptIds, userId)
+    if (!result) {
+      return NextResponse.json({ error: 'Transcript not found' }, { status: 404 })
+    }
+
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Transcript merge API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
 import { auth } from '@clerk/nextjs/server'
+import { normalizeTargetLanguages } from '@/lib/languages'
+import { normalizeSttProvider } from '@/lib/stt-providers'
 
 export async function POST(req: NextRequest) {
   try {
-    const { title, description, category, hostId, hostName, primaryLanguage } = await req.json()
+    const { title, description, category, hostId, hostName, primaryLanguage, targetLanguages, sttProvider } =
+      await req.json()
 
     if (!title || !hostId || !hostName || !primaryLanguage) {
       return NextResponse.json({ error: 'Missing required fields' }, { status: 400 })
@@ -34,6 +37,8 @@ export async function POST(req: NextRequest) {
         host_id: hostId,
         host_name: hostName,
         primary_language: primaryLanguage,
+        target_languages: normalizeTargetLanguages(targetLanguages, primaryLanguage),
+        stt_provider: normalizeSttProvider(sttProvider),
         status: 'active',
         created_at: new Date().toISOString(),
       })
@@ -1,179 +1,117 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { createClient } from '@supabase/supabase-js'
-import { detectLanguage } from '@/lib/translation-cache'
-import { saveTranslationToCache } from '@/lib/translation-cache'
-
-// Gemini 검수 + 번역 함수 (직접 호출)
-async function reviewAndTranslateWithGemini(
-  originalText: string,
-  detectedLanguage: string
-): Promise<{
-  reviewedText: string
-  translations: Record<string, string>
-  quality: number
-}> {
-  const geminiApiKey = process.env.GEMINI_API_KEY
-  if (!geminiApiKey) {
-    throw new Error('Gemini API key not found')
+import { NextRequest, NextResponse, after } from 'next/server'
+import { saveFinalTranscript } from '@/lib/transcript-review'
+import { publishPartialCaption } from '@/lib/caption-stream'
+import { isSessionSpeaker } from '@/lib/speakers'
+import { flushSegmenter, segmentFragment, type SegmentedSentence } from '@/lib/sentence-segmenter'
+import { deleteStreamState, getStreamKey, loadStreamState, updateStreamState } from '@/lib/stt-stream-state'
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+
+// 🆕 Web Speech 스트림 수신 (메모리 상태 없음 - 서버리스 인스턴스가 바뀌어도 동작)
+// - final 조각: 클라이언트가 세션마다 1부터 붙인 sequence + idempotencyKey 를 함께 보냄
+//   문장 분할 상태는 stt_stream_states 에, 문장은 idempotency_key 로 upsert → 재시도해도 한 번만, 순서대로 저장
+//   capturedAt(발화 시각)을 transcript created_at 으로 써서 오프라인 후 재전송해도 타임라인 유지
+//   🆕 줄을 저장하면 바로 응답하고 검수 / 번역은 after() 로 응답 뒤에 실행 (outbox 가 다음 조각을 기다리지 않도록)
+// - partial 조각: 저장하지 않고 청중에게 바로 중계
+
+// 클라이언트 발화 시각 허용 범위 (오프라인 outbox 는 몇 시간 뒤에 보낼 수도 있음)
+const MAX_CAPTURE_AGE_MS = 24 * 60 * 60 * 1000
+const MAX_CAPTURE_CLOCK_SKEW_MS = 60 * 1000
+
+function resolveCapturedAt(capturedAt: unknown): number {
+  const now = Date.now()
+  if (typeof capturedAt !== 'number' || !Number.isFinite(capturedAt)) return now
+  if (capturedAt < now - MAX_CAPTURE_AGE_MS || capturedAt > now + MAX_CAPTURE_CLOCK_SKEW_MS) {
+    console.warn(`⚠️ capturedAt ${new Date(capturedAt).toISOString()} out of range, using server time`)
+    return now
   }
+  return capturedAt
+}
 
-  // 입력 언어를 제외한 나머지 3개 언어
-  const allLanguages = ['ko', 'zh', 'hi', 'en']
-  const targetLanguages = allLanguages.filter(lang => lang !== detectedLanguage)
-
-  // 언어별 이름 매핑
-  const languageNames: Record<string, string> = {
-    ko: 'Korean',
-    zh: 'Chinese',
-    hi: 'Hindi',
-    en: 'English'
-  }
-
-  // 검수 및 번역 프롬프트 구성
-  let prompt = ''
-  
-  if (detectedLanguage === 'en') {
-    prompt = `Here is the raw text straight from STT, fix the grammar and remove noise errors like ah, emmm and add the punctuation to make it clear and easy to read.
-
-Also translate the corrected text to ${targetLanguages.map(lang => languageNames[lang]).join(', ')}.
-
-Original text: "${originalText}"
-
-Please return a JSON response with this exact format:
-{
-  "reviewedText": "corrected English text here",
-  "translations": {
-    "ko": "Korean translation here",
-    "zh": "Chinese translation here", 
-    "hi": "Hindi translation here"
-  },
-  "quality": 0.95
-}`
-  } else {
-    const inputLanguageName = languageNames[detectedLanguage]
-    prompt = `Here is the raw text straight from STT in ${inputLanguageName}, fix the grammar and remove noise errors and add the punctuation to make it clear and easy to read.
-
-Also translate the corrected text to ${targetLanguages.map(lang => languageNames[lang]).join(', ')}.
-
-Original text: "${originalText}"
-
-Please return a JSON response with this exact format:
-{
-  "reviewedText": "corrected ${inputLanguageName} text here",
-  "translations": {
-    ${targetLanguages.map(lang => `"${lang}": "${languageNames[lang]} translation here"`).join(',\n    ')}
-  },
-  "quality": 0.95
-}`
-  }
-
-  console.log(`🤖 Gemini review + translation for: "${originalText.substring(0, 50)}..." (${detectedLanguage} → ${targetLanguages.join(', ')})`)
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${geminiApiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: prompt,
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          temperature: 0.3,
-          maxOutputTokens: Math.max(Math.ceil(originalText.length * 6), 1000),
-        },
-      }),
-    }
-  )
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    console.error('Gemini API error:', response.status, errorText)
-    throw new Error('Gemini API request failed')
-  }
-
-  const data = await response.json()
-
-  if (data.candidates && data.candidates[0] && data.candidates[0].content) {
-    const candidate = data.candidates[0]
-
-    if (candidate.content.parts && candidate.content.parts[0] && candidate.content.parts[0].text) {
-      let content = candidate.content.parts[0].text.trim()
+function getSupabase() {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+}
 
-      // JSON 파싱 (마크다운 코드 블록 제거)
-      if (content.startsWith('```json')) {
-        content = content.replace(/^```json\s*/, '').replace(/\s*```$/, '')
-      } else if (content.startsWith('```')) {
-        content = content.replace(/^```\s*/, '').replace(/\s*```$/, '')
-      }
+// 🆕 완성된 문장을 순서대로 한 줄씩 저장 (검수 / 번역은 응답 후)
+// 문장 키 = "<stream key>:<조각 키>#<순번>" (같은 조각을 다시 처리해도 같은 키)
+async function saveSentences(
+  supabase: SupabaseClient,
+  sessionId: string,
+  sentences: SegmentedSentence[],
+  options: { keyPrefix: string; speakerId?: string; clientSequence?: number },
+) {
+  const saved = []
+  for (const [index, { text: sentence, startedAt }] of sentences.entries()) {
+    const dbInsertStart = Date.now()
+    const { transcriptId, duplicate, reviewQueued } = await saveFinalTranscript(sessionId, sentence, {
+      createdAt: new Date(startedAt + index), // 같은 조각에서 나온 문장도 순서가 유지되도록 1ms 씩
+      speakerId: options.speakerId,
+      idempotencyKey: `${options.keyPrefix}#${index}`,
+      clientSequence: options.clientSequence,
+      scheduleReview: after,
+      supabase,
+    })
 
-      try {
-        const result = JSON.parse(content)
-        
-        console.log(`✅ Gemini review + translation completed`)
-        
-        return {
-          reviewedText: result.reviewedText || originalText,
-          translations: result.translations || {},
-          quality: result.quality || 0.9
-        }
-      } catch (parseError) {
-        console.error('JSON parsing error:', parseError)
-        throw new Error('Failed to parse Gemini response')
-      }
-    }
+    // 검수 / 번역 결과는 캡션 스트림(reviewed / translated)과 transcripts 상태로 전달
+    saved.push({
+      transcriptId,
+      originalText: sentence,
+      createdAt: new Date(startedAt + index).toISOString(),
+      duplicate: !!duplicate,
+      reviewQueued: !!reviewQueued,
+      totalTime: Date.now() - dbInsertStart,
+    })
   }
-
-  throw new Error('Invalid Gemini response structure')
+  return saved
 }
 
-// In-memory session storage for quick access
-interface SessionData {
-  fullTranscript: string
-  lastUpdate: Date
-}
+// 남은 조각 / 버퍼 저장 (flush, end 공통) - 상태가 없으면 할 일 없음
+async function flushStream(supabase: SupabaseClient, streamKey: string, sessionId: string, speakerId?: string) {
+  if (!(await loadStreamState(supabase, streamKey))) return { sentences: [], buffered: '' }
 
-const activeSessions = new Map<string, SessionData>()
+  const result = await updateStreamState(supabase, streamKey, sessionId, flushSegmenter)
+  const sentences = await saveSentences(supabase, sessionId, result.sentences, {
+    keyPrefix: `${streamKey}:flush-v${result.version}`,
+    speakerId,
+  })
+  return { sentences, buffered: result.state.buffer }
+}
 
 export async function POST(req: NextRequest) {
   try {
-    const { type, sessionId, transcript, isPartial } = await req.json()
+    const { type, sessionId, transcript, isPartial, utteranceId, speakerId, sequence, idempotencyKey, capturedAt } =
+      await req.json()
+
+    // 🆕 공동 발표자는 각자 문장 버퍼를 가짐 (같은 문장을 다른 사람이 말해도 저장)
+    const streamKey = getStreamKey(sessionId, speakerId)
 
     console.log(`🎯 STT Stream ${type}:`, {
       sessionId,
       hasTranscript: !!transcript,
       isPartial,
+      speakerId,
+      sequence,
       timestamp: new Date().toLocaleTimeString(),
     })
 
+    if (!sessionId) {
+      return NextResponse.json({ error: 'Session ID is required' }, { status: 400 })
+    }
+
+    const supabase = getSupabase()
+
+    // 🆕 공동 발표자 확인 (초대 링크로 참여한 speaker 만 태깅 가능) - 메모리에 기억하지 않으므로 저장할 때마다 확인
+    if (speakerId && type !== 'end' && !(type === 'transcript' && isPartial)) {
+      if (!(await isSessionSpeaker(supabase, sessionId, speakerId))) {
+        return NextResponse.json({ error: 'Speaker is not part of this session' }, { status: 403 })
+      }
+    }
+
     switch (type) {
       case 'start':
-        // Initialize session
-        if (!activeSessions.has(sessionId)) {
-          activeSessions.set(sessionId, {
-            fullTranscript: '',
-            lastUpdate: new Date(),
-          })
-          console.log(`🚀 STT session ${sessionId} initialized`)
-        }
+        console.log(`🚀 STT stream ${streamKey} started`)
         return NextResponse.json({ success: true })
 
-      case 'transcript':
-        // Update session transcript
-        const session = activeSessions.get(sessionId)
-        if (!session) {
-          console.error(`❌ Session ${sessionId} not found for transcript update`)
-          return NextResponse.json({ error: 'Session not found' }, { status: 404 })
-        }
-
+      case 'transcript': {
         // 텍스트 유효성 검증
         const cleanedTranscript = transcript?.trim()
         if (!cleanedTranscript || cleanedTranscript.length < 3) {
@@ -184,193 +122,89 @@ export async function POST(req: NextRequest) {
           })
         }
 
-        // 중복 방지: 같은 텍스트가 이미 처리되었는지 확인
-        if (session.fullTranscript.includes(cleanedTranscript)) {
-          console.log(`⚠️ Duplicate transcript detected, skipping: "${cleanedTranscript.substring(0, 30)}..."`)
+        // 🆕 partial(interim) 결과는 저장하지 않고 청중에게 바로 중계
+        if (isPartial) {
+          if (!utteranceId) {
+            return NextResponse.json({ error: 'utteranceId is required for partial transcripts' }, { status: 400 })
+          }
+
+          try {
+            await publishPartialCaption(sessionId, { utteranceId, text: cleanedTranscript, speakerId })
+          } catch (broadcastError) {
+            console.error('❌ Partial caption broadcast error:', broadcastError)
+            return NextResponse.json({ error: 'Broadcast failed' }, { status: 502 })
+          }
+
           return NextResponse.json({
             success: true,
-            message: 'Duplicate transcript, skipped',
+            message: 'Partial transcript relayed',
           })
         }
 
-        if (!isPartial && cleanedTranscript) {
-          // Only append final transcripts (not partial)
-          session.fullTranscript += cleanedTranscript + ' '
-          session.lastUpdate = new Date()
-          console.log(`📝 Final transcript added to session ${sessionId}:`, cleanedTranscript)
-
-          // Save EACH final sentence immediately to Supabase
-          const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
-
-          const dbInsertStart = Date.now()
-          console.log(`💾 Inserting transcript to DB: "${cleanedTranscript.substring(0, 50)}..."`)
-
-          const { data, error: insertError } = await supabase
-            .from('transcripts')
-            .insert([
-              {
-                session_id: sessionId,
-                timestamp: new Date().toLocaleTimeString(),
-                original_text: cleanedTranscript,
-                created_at: new Date().toISOString(),
-                is_final: true,
-                review_status: 'pending', // 검수 대기 상태로 설정
-                translation_status: 'pending', // 번역 대기 상태로 설정
-              },
-            ])
-            .select()
-
-          const dbInsertTime = Date.now() - dbInsertStart
-
-          if (insertError) {
-            console.error(`❌ DB insert error (${dbInsertTime}ms):`, insertError)
-            return NextResponse.json({ error: 'Database error' }, { status: 500 })
-          }
-
-          console.log(`✅ Transcript saved (id): ${data?.[0]?.id} - DB insert: ${dbInsertTime}ms`)
-          const transcriptId = data?.[0]?.id
-
-          // 🚀 Gemini 검수 + 번역 실행 (백그라운드)
-          console.log('🌍 Starting Gemini review + translation...')
-
-          // 검수 및 번역 상태를 'processing'으로 업데이트
-          const statusUpdateStart = Date.now()
-          await supabase.from('transcripts').update({ 
-            review_status: 'processing',
-            translation_status: 'processing' 
-          }).eq('id', transcriptId)
-          const statusUpdateTime = Date.now() - statusUpdateStart
-
-          console.log(`🔄 Review & translation status updated to 'processing' (${statusUpdateTime}ms)`)
+        if (sequence !== undefined && (!Number.isInteger(sequence) || sequence < 1)) {
+          return NextResponse.json({ error: 'sequence must be a positive integer' }, { status: 400 })
+        }
+        if (
+          idempotencyKey !== undefined &&
+          (typeof idempotencyKey !== 'string' || !/^[\w.:-]{1,100}$/.test(idempotencyKey))
+        ) {
+          return NextResponse.json({ error: 'Invalid idempotencyKey' }, { status: 400 })
+        }
 
-          try {
-            // 언어 감지
-            const detectedLanguage = detectLanguage(cleanedTranscript)
-            console.log(`🌍 Detected language: ${detectedLanguage}`)
-
-            // Gemini 검수 + 번역 직접 호출
-            const reviewStart = Date.now()
-            const reviewResult = await reviewAndTranslateWithGemini(cleanedTranscript, detectedLanguage)
-            const reviewTime = Date.now() - reviewStart
-
-            console.log(
-              `🚀 Gemini review + translation completed in ${reviewTime}ms for "${cleanedTranscript.substring(0, 30)}..."`,
-            )
-
-            // 1. transcripts 테이블에 검수된 텍스트 저장
-            console.log(`💾 Updating transcript ${transcriptId} with reviewed text: "${reviewResult.reviewedText.substring(0, 30)}..."`)
-            
-            const { error: updateError } = await supabase
-              .from('transcripts')
-              .update({
-                reviewed_text: reviewResult.reviewedText,
-                detected_language: detectedLanguage,
-                review_status: 'completed'
-              })
-              .eq('id', transcriptId)
-
-            if (updateError) {
-              console.error('❌ Error updating transcript with reviewed text:', updateError)
-              throw new Error('Failed to update transcript')
-            } else {
-              console.log(`✅ Successfully updated transcript ${transcriptId} with reviewed text`)
-            }
-
-            // 2. 번역 결과를 translation_cache에 저장하고 ID 수집
-            const cacheIds: Record<string, string> = {}
-            const cachePromises = Object.entries(reviewResult.translations).map(async ([targetLang, translatedText]) => {
-              if (translatedText && translatedText.trim()) {
-                try {
-                  const cacheId = await saveTranslationToCache(
-                    reviewResult.reviewedText, // 검수된 텍스트를 원본으로 사용
-                    targetLang,
-                    translatedText,
-                    'gemini-review',
-                    reviewResult.quality
-                  )
-                  
-                  if (cacheId) {
-                    cacheIds[targetLang] = cacheId
-                    console.log(`✅ Cached translation: ${targetLang} (ID: ${cacheId})`)
-                  }
-                } catch (cacheError) {
-                  console.error(`❌ Cache error for ${targetLang}:`, cacheError)
-                }
-              }
-            })
-
-            await Promise.all(cachePromises)
-
-            // 3. transcripts 테이블에 translation_cache_ids 업데이트
-            if (Object.keys(cacheIds).length > 0) {
-              console.log(`💾 Updating transcript ${transcriptId} with cache IDs:`, cacheIds)
-              
-              const { error: updateError } = await supabase
-                .from('transcripts')
-                .update({ 
-                  translation_cache_ids: cacheIds,
-                  translation_status: 'completed' 
-                })
-                .eq('id', transcriptId)
-
-              if (updateError) {
-                console.error('❌ Error updating translation_cache_ids:', updateError)
-              } else {
-                console.log(`✅ Successfully updated transcript ${transcriptId} with ${Object.keys(cacheIds).length} cache IDs`)
-              }
-            } else {
-              console.log(`⚠️ No cache IDs to update for transcript ${transcriptId}`)
-              // 번역 완료 상태로 업데이트
-              await supabase.from('transcripts').update({ translation_status: 'completed' }).eq('id', transcriptId)
-            }
-
-            return NextResponse.json({
-              success: true,
-              transcriptId: transcriptId,
-              originalText: cleanedTranscript,
-              reviewedText: reviewResult.reviewedText,
-              detectedLanguage: detectedLanguage,
-              reviewCompleted: true,
-              translationCompleted: true,
-              translatedLanguages: Object.keys(reviewResult.translations || {}),
-              reviewTime: reviewTime,
-              totalTime: Date.now() - dbInsertStart,
-            })
-          } catch (reviewError) {
-            console.error('❌ Gemini review + translation failed:', reviewError)
-
-            // 검수 및 번역 실패 시 상태를 pending으로 되돌림
-            await supabase.from('transcripts').update({ 
-              review_status: 'failed',
-              translation_status: 'failed' 
-            }).eq('id', transcriptId)
-
-            // 검수 및 번역 실패해도 transcript 저장은 성공으로 처리
-            return NextResponse.json({
-              success: true,
-              transcriptId: transcriptId,
-              originalText: cleanedTranscript,
-              reviewCompleted: false,
-              translationCompleted: false,
-              reviewError: reviewError instanceof Error ? reviewError.message : 'Unknown error',
-              note: 'Transcript saved but review + translation failed',
-            })
-          }
+        // 🆕 조각을 문장 단위로 재분할 (중복은 텍스트가 아닌 idempotencyKey / sequence 로 판단)
+        const fragmentKey: string | undefined = idempotencyKey || (sequence ? `seq-${sequence}` : undefined)
+        const result = await updateStreamState(supabase, streamKey, sessionId, (state) =>
+          segmentFragment(state, cleanedTranscript, {
+            sequence,
+            key: fragmentKey,
+            capturedAt: resolveCapturedAt(capturedAt),
+          }),
+        )
+
+        if (result.sentences.length > 0) {
+          console.log(
+            `📝 ${result.sentences.length} sentence(s) completed in stream ${streamKey}:`,
+            result.sentences.map((sentence) => sentence.text),
+          )
         }
 
+        // 중복 조각이어도 그때 끝낸 문장은 다시 upsert (첫 요청이 저장 전에 실패했을 수 있음, 이미 있으면 무시됨)
+        const sentences = await saveSentences(supabase, sessionId, result.sentences, {
+          keyPrefix: `${streamKey}:${fragmentKey || `v${result.version}`}`,
+          speakerId,
+          clientSequence: sequence,
+        })
+
         return NextResponse.json({
           success: true,
-          message: isPartial ? 'Partial transcript received' : 'Final transcript processed',
+          duplicate: result.duplicate,
+          sentences,
+          buffered: result.state.buffer,
         })
+      }
+
+      case 'flush':
+        // 🆕 발표자가 말을 멈춤 → 문장 부호 없이 남은 버퍼를 한 줄로 저장
+        return NextResponse.json({ success: true, ...(await flushStream(supabase, streamKey, sessionId, speakerId)) })
 
-      case 'end':
-        // End session and clean up memory
-        const ended = activeSessions.delete(sessionId)
-        console.log(`🧹 Session ${sessionId} memory cleanup (${ended ? 'removed' : 'not found'})`)
+      case 'end': {
+        // 🆕 남은 버퍼 저장 후 스트림 상태 삭제
+        try {
+          await flushStream(supabase, streamKey, sessionId, speakerId)
+        } catch (flushError) {
+          console.error('❌ Failed to save buffered sentence on end:', flushError)
+        }
+
+        const ended = await deleteStreamState(supabase, streamKey)
+        console.log(`🧹 STT stream ${streamKey} state cleanup (${ended ? 'removed' : 'not found'})`)
         return NextResponse.json({ success: true, cleaned: ended })
+      }
 
       default:
-        return NextResponse.json({ error: "Invalid type. Use 'start', 'transcript', or 'end'" }, { status: 400 })
+        return NextResponse.json(
+          { error: "Invalid type. Use 'start', 'transcript', 'flush', or 'end'" },
+          { status: 400 },
+        )
     }
   } catch (error) {
     console.error('❌ STT Stream error:', error)
@@ -378,25 +212,27 @@ export async function POST(req: NextRequest) {
   }
 }
 
-// GET endpoint to retrieve current session transcript
+// GET endpoint to retrieve the current sentence buffer of a stream
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url)
     const sessionId = searchParams.get('sessionId')
+    const speakerId = searchParams.get('speakerId') || undefined
 
     if (!sessionId) {
       return NextResponse.json({ error: 'Session ID is required' }, { status: 400 })
     }
 
-    const session = activeSessions.get(sessionId)
-    if (!session) {
+    const stream = await loadStreamState(getSupabase(), getStreamKey(sessionId, speakerId))
+    if (!stream) {
       return NextResponse.json({ error: 'Session not found' }, { status: 404 })
     }
 
     return NextResponse.json({
-      transcript: session.fullTranscript,
-      lastUpdate: session.lastUpdate,
-      length: session.fullTranscript.length,
+      buffered: stream.state.buffer,
+      lastSequence: stream.state.lastSequence,
+      pendingSequences: stream.state.pending.map((fragment) => fragment.sequence),
+      lastUpdate: stream.updatedAt,
     })
   } catch (error) {
     console.error('STT Stream GET error:', error)
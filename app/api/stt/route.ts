@@ -1,6 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { saveFinalTranscript } from '@/lib/transcript-review'
+import { isWhisperConfigured, transcribeWithWhisper } from '@/lib/whisper'
+import { isSessionSpeaker } from '@/lib/speakers'
 import { createClient } from '@supabase/supabase-js'
 
+// 🆕 청크 시각 허용 범위 (청크는 녹음 직후 올라오고 재전송하지 않음)
+const MAX_CHUNK_AGE_MS = 10 * 60 * 1000
+const MAX_CHUNK_CLOCK_SKEW_MS = 60 * 1000
+
+function isChunkTimeInRange(time: number, now: number): boolean {
+  return Number.isFinite(time) && time >= now - MAX_CHUNK_AGE_MS && time <= now + MAX_CHUNK_CLOCK_SKEW_MS
+}
+
+// 🆕 줄의 created_at = 청크 녹음 시작 시각 (녹음 위치 / 자막이 말하기 시작한 시각부터)
+// startedAt 이 없거나 범위를 벗어나면 청크 종료 시각, 그것도 이상하면 서버 시각
+function resolveChunkStartedAt(startedAt: number, endedAt: number): number {
+  const now = Date.now()
+  const end = isChunkTimeInRange(endedAt, now) ? endedAt : now
+  if (isChunkTimeInRange(startedAt, now) && startedAt <= end) return startedAt
+
+  console.warn(`⚠️ STT chunk startedAt ${startedAt} out of range, using chunk end time`)
+  return end
+}
+
 export async function POST(req: NextRequest) {
   try {
     const formData = await req.formData()
@@ -11,11 +33,18 @@ export async function POST(req: NextRequest) {
     const responseFormat = (formData.get('response_format') as string) || 'verbose_json'
     const temperature = (formData.get('temperature') as string) || '0'
     const prompt = (formData.get('prompt') as string) || ''
+    // 🆕 서버 STT 청크 정보 (응답이 순서 없이 돌아와도 클라이언트가 sequence 로 재정렬)
+    const sequence = Number(formData.get('sequence') ?? -1)
+    const chunkStartedAt = resolveChunkStartedAt(Number(formData.get('startedAt')), Number(formData.get('endedAt')))
+    // 🆕 공동 발표자 (초대 링크로 참여한 session_participants.id)
+    const speakerId = (formData.get('speakerId') as string) || undefined
 
     console.log('🎯 Enhanced STT API called with:', {
       audioSize: audio?.size,
       audioType: audio?.type,
       sessionId,
+      sequence,
+      speakerId,
       language,
       model,
       responseFormat,
@@ -32,10 +61,21 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Audio file and session ID are required' }, { status: 400 })
     }
 
+    if (
+      speakerId &&
+      !(await isSessionSpeaker(
+        createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!),
+        sessionId,
+        speakerId,
+      ))
+    ) {
+      return NextResponse.json({ error: 'Speaker is not part of this session', sequence }, { status: 403 })
+    }
+
     // Check if audio file has content
     if (audio.size === 0) {
       console.log('Empty audio file received')
-      return NextResponse.json({ transcript: '', confidence: 0 }, { status: 200 })
+      return NextResponse.json({ transcript: '', confidence: 0, sequence }, { status: 200 })
     }
 
     console.log('Processing audio file:', {
@@ -46,7 +86,7 @@ export async function POST(req: NextRequest) {
     })
 
     // Check if OpenAI API key is available
-    if (!process.env.OPENAI_API_KEY) {
+    if (!isWhisperConfigured()) {
       console.log('OpenAI API key not configured, using placeholder')
 
       // Generate realistic placeholder text that varies
@@ -70,6 +110,7 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({
         transcript: randomText,
         confidence: 0.9,
+        sequence,
         isPlaceholder: true,
         message: 'Using placeholder - configure OPENAI_API_KEY for real STT',
       })
@@ -79,83 +120,50 @@ export async function POST(req: NextRequest) {
     let confidence = 0
 
     try {
-      // Call Whisper API with enhanced settings for maximum accuracy
-      const whisperFormData = new FormData()
-      whisperFormData.append('file', audio, 'audio.webm')
-      whisperFormData.append('model', model) // Use specified model
-
-      // Add language parameter if specified (helps with accuracy for known languages)
-      if (language && language !== 'auto') {
-        whisperFormData.append('language', language)
-        console.log(`🌍 Using language hint: ${language}`)
-      } else {
-        console.log('🔍 Using auto language detection for best results')
-      }
-
-      whisperFormData.append('response_format', responseFormat)
-      whisperFormData.append('temperature', temperature) // Use specified temperature
-
-      // Add context prompt for better transcription quality
-      if (prompt) {
-        whisperFormData.append('prompt', prompt)
-        console.log('📝 Using context prompt for better accuracy')
-      }
-
-      const whisperResponse = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-        },
-        body: whisperFormData,
+      const result = await transcribeWithWhisper(audio, audio.name || 'audio.webm', {
+        model,
+        language,
+        prompt,
+        responseFormat,
+        temperature,
       })
-
-      if (!whisperResponse.ok) {
-        const errorText = await whisperResponse.text()
-        console.error('Whisper API error:', errorText)
-
-        // Fallback: return placeholder text for testing
-        transcript = `[Audio received at ${new Date().toLocaleTimeString()}]`
-        confidence = 0.5
-      } else {
-        const whisperData = await whisperResponse.json()
-        transcript = whisperData.text?.trim() || ''
-        confidence = whisperData.avg_logprob || 0.9
-      }
+      transcript = result.text
+      confidence = result.confidence
     } catch (whisperError) {
+      // 자리표시 텍스트가 검수 / 번역되어 저장되지 않도록 에러로 반환
       console.error('Whisper API request failed:', whisperError)
-      // Fallback: return placeholder text for testing
-      transcript = `[STT Error - Audio at ${new Date().toLocaleTimeString()}]`
-      confidence = 0.1
+      return NextResponse.json({ error: 'Whisper API request failed', sequence }, { status: 502 })
     }
 
     // Only save non-empty transcripts
-    if (transcript) {
-      // Save to Supabase
-      const supabase = createClient(
-        process.env.NEXT_PUBLIC_SUPABASE_URL!,
-        process.env.SUPABASE_SERVICE_ROLE_KEY!, // Use service role key for server-side operations
-      )
-
-      const { error: dbError } = await supabase.from('transcripts').insert([
-        {
-          session_id: sessionId,
-          timestamp: new Date().toLocaleTimeString(),
-          original_text: transcript,
-          created_at: new Date().toISOString(),
-        },
-      ])
-
-      if (dbError) {
-        console.error('Database error:', dbError)
-        // Still return the transcript even if DB save fails
-      }
+    // 🆕 stt-stream 과 같은 저장 + Gemini 검수 / 번역 파이프라인 사용 (발화 시각 = 청크 녹음 시작 시각)
+    if (!transcript) {
+      return NextResponse.json({ transcript, confidence, sequence, duration: 0 })
     }
 
-    return NextResponse.json({
-      transcript,
-      confidence,
-      duration: 0,
-    })
+    try {
+      const saved = await saveFinalTranscript(sessionId, transcript, {
+        createdAt: new Date(chunkStartedAt),
+        detectedLanguage: language !== 'auto' ? language : undefined,
+        speakerId,
+      })
+
+      return NextResponse.json({
+        transcript,
+        confidence,
+        sequence,
+        duration: 0,
+        transcriptId: saved.transcriptId,
+        reviewedText: saved.review?.reviewedText,
+        detectedLanguage: saved.review?.detectedLanguage,
+        reviewCompleted: !!saved.review,
+        reviewError: saved.reviewError,
+      })
+    } catch (dbError) {
+      console.error('Database error:', dbError)
+      // Still return the transcript even if DB save fails
+      return NextResponse.json({ transcript, confidence, sequence, duration: 0, saved: false })
+    }
   } catch (error) {
     console.error('STT API error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
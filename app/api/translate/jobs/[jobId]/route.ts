@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { translationQueue } from '@/lib/translation-queue'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// 🆕 번역 작업 상태 조회 (jobId 기준)
+export async function GET(req: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  try {
+    const { jobId } = await params
+
+    if (!UUID_PATTERN.test(jobId)) {
+      return NextResponse.json({ error: 'Invalid job ID' }, { status: 400 })
+    }
+
+    const [job] = await translationQueue.getJobStatuses([jobId])
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(job)
+  } catch (error) {
+    console.error('❌ Translation job status error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { translationQueue } from '@/lib/translation-queue'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const MAX_JOB_IDS = 200 // transcript 페이지도 이 크기로 나눠서 요청 (TRANSLATION_JOB_BATCH_SIZE)
+
+// 🆕 번역 작업 상태 일괄 조회 - body: { jobIds: string[] }
+// transcript 페이지가 줄마다 요청하지 않고 한 번에 polling 하도록
+export async function POST(req: NextRequest) {
+  try {
+    const { jobIds } = await req.json()
+
+    if (!Array.isArray(jobIds) || jobIds.length === 0) {
+      return NextResponse.json({ error: 'jobIds array is required' }, { status: 400 })
+    }
+
+    if (jobIds.length > MAX_JOB_IDS) {
+      return NextResponse.json({ error: `Too many job IDs (max ${MAX_JOB_IDS})` }, { status: 400 })
+    }
+
+    const validIds = Array.from(
+      new Set(jobIds.filter((id): id is string => typeof id === 'string' && UUID_PATTERN.test(id))),
+    )
+    const jobs = await translationQueue.getJobStatuses(validIds)
+    const foundIds = new Set(jobs.map((job) => job.jobId))
+
+    return NextResponse.json({
+      jobs,
+      missing: jobIds.filter((id) => !foundIds.has(id)),
+    })
+  } catch (error) {
+    console.error('❌ Translation job bulk status error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { getTranslationFromCache, generateSmartMockTranslation, ALL_SUPPORTED_LANGUAGES } from '@/lib/translation-cache'
+import { createClient } from '@supabase/supabase-js'
+import {
+  getTranslationFromCache,
+  getTranslationCacheVariant,
+  generateSmartMockTranslation,
+  ALL_SUPPORTED_LANGUAGES,
+} from '@/lib/translation-cache'
 import { addTranslationJob } from '@/lib/translation-queue'
+import { detectSpokenLanguage } from '@/lib/language-id'
+import { loadSessionGlossary } from '@/lib/glossary'
 import type { TranslationResponse } from '@/lib/types'
 
 export async function POST(req: NextRequest) {
@@ -25,20 +33,13 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ error: 'Text too long (max 10,000 characters)' }, { status: 400 })
     }
 
-    // 영어로 번역 요청인데 이미 영어인 경우 건너뛰기
-    if (targetLanguage === 'en' && /^[a-zA-Z0-9\s.,!?'"()-]+$/.test(text)) {
-      console.log('⏭️ Skipping translation: text is already in English')
-      return NextResponse.json({
-        translatedText: text,
-        engine: 'passthrough',
-        fromCache: false,
-        quality: 1.0,
-      } as TranslationResponse)
-    }
+    // 🆕 source 가 auto 면 로컬 언어 식별 (confidence 가 낮으면 세션 주 언어)
+    const resolvedSourceLanguage =
+      sourceLanguage === 'auto' ? detectSpokenLanguage(text, await loadPrimaryLanguage(sessionId)) : sourceLanguage
 
     // 같은 언어로 번역 요청인 경우 건너뛰기
-    if (sourceLanguage === targetLanguage && sourceLanguage !== 'auto') {
-      console.log('⏭️ Skipping translation: source and target are the same')
+    if (resolvedSourceLanguage === targetLanguage) {
+      console.log(`⏭️ Skipping translation: source and target are the same (${resolvedSourceLanguage})`)
       return NextResponse.json({
         translatedText: text,
         engine: 'passthrough',
@@ -49,9 +50,14 @@ export async function POST(req: NextRequest) {
 
     console.log('🚀 Starting enhanced translation process...')
 
-    // 1단계: 캐시에서 번역 조회
+    // 1단계: 캐시에서 번역 조회 (🆕 세션 요청이면 워커와 같은 용어집별 캐시 행)
     console.log('1️⃣ Checking translation cache...')
-    const cachedTranslation = await getTranslationFromCache(text, targetLanguage)
+    const glossary = sessionId ? await loadSessionGlossary(getSupabase(), sessionId) : []
+    const cachedTranslation = await getTranslationFromCache(
+      text,
+      targetLanguage,
+      getTranslationCacheVariant(text, targetLanguage, { glossary }),
+    )
 
     if (cachedTranslation) {
       console.log(
@@ -72,9 +78,14 @@ export async function POST(req: NextRequest) {
 
     // 3단계: 백그라운드 번역 작업 큐에 추가
     const priority = calculatePriority(targetLanguage, sessionId)
-    const jobId = addTranslationJob(text, targetLanguage, sessionId, priority)
-
-    console.log(`📋 Translation job ${jobId} queued with priority ${priority} for "${text.substring(0, 30)}..."`)
+    let jobId: string | undefined
+    try {
+      jobId = await addTranslationJob(text, targetLanguage, sessionId, priority)
+      console.log(`📋 Translation job ${jobId} queued with priority ${priority} for "${text.substring(0, 30)}..."`)
+    } catch (queueError) {
+      // 큐 저장 실패해도 Mock 번역은 응답
+      console.error('❌ Failed to queue translation job:', queueError)
+    }
 
     // 즉시 응답 (Mock 번역)
     return NextResponse.json({
@@ -91,6 +102,25 @@ export async function POST(req: NextRequest) {
   }
 }
 
+function getSupabase() {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+}
+
+// 🆕 언어 식별 fallback 용 세션 주 언어 (세션 없거나 조회 실패 시 null)
+async function loadPrimaryLanguage(sessionId?: string): Promise<string | null> {
+  if (!sessionId) return null
+
+  const { data, error } = await getSupabase()
+    .from('sessions')
+    .select('primary_language')
+    .eq('id', sessionId)
+    .maybeSingle()
+  if (error) {
+    console.warn(`⚠️ Could not load primary language for session ${sessionId}:`, error.message)
+  }
+  return data?.primary_language ?? null
+}
+
 // 번역 우선순위 계산
 function calculatePriority(targetLanguage: string, sessionId?: string): number {
   let priority = 5 // 기본 우선순위
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { resumeTranslationJobs, translationQueue } from '@/lib/translation-queue'
+
+// 🆕 번역 워커 진입점 (cron / 수동 재개용)
+// 서버리스 환경에서는 요청이 끝나면 타이머가 사라지므로 주기적으로 호출해 남은 작업을 처리한다.
+export async function GET(req: NextRequest) {
+  try {
+    // Authorization 헤더 확인 (Vercel Cron 방식). CRON_SECRET 이 없으면 누구나 워커를 돌릴 수 있으므로 거부
+    const cronSecret = process.env.CRON_SECRET
+    if (!cronSecret) {
+      console.error('❌ CRON_SECRET is not set - refusing translation worker request')
+      return NextResponse.json({ error: 'Worker is not configured' }, { status: 503 })
+    }
+    if (req.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const processed = await resumeTranslationJobs()
+    const stats = await translationQueue.getQueueStats()
+
+    return NextResponse.json({
+      success: true,
+      processed,
+      stats,
+    })
+  } catch (error) {
+    console.error('❌ Translation worker error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -7,12 +7,28 @@ import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
 import { Mic, MicOff, Users, Settings, Volume2, VolumeX, AlertCircle, CheckCircle } from 'lucide-react'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
 import { QRCodeDisplay } from '@/components/ui/qr-code'
 import { RealtimeSTT } from '@/components/RealtimeSTT'
-import type { Session } from '@/lib/types'
+import { ServerSTT } from '@/components/ServerSTT'
+import { StreamingSTT } from '@/components/StreamingSTT'
+import { TranscriptLineEditor } from '@/components/TranscriptLineEditor'
+import { GlossaryEditor } from '@/components/GlossaryEditor'
+import { SessionRecordingUploads, type RecordingUploadState } from '@/components/SessionRecordingUploads'
+import type { GlossaryEntry, Session, SttProvider, TranscriptEditResult } from '@/lib/types'
+import { LANGUAGE_OPTIONS, DEFAULT_TARGET_LANGUAGES, MAX_TARGET_LANGUAGES } from '@/lib/languages'
+import { STT_PROVIDER_OPTIONS, DEFAULT_STT_PROVIDER, getSttProxyUrl, normalizeSttProvider } from '@/lib/stt-providers'
+import {
+  SessionRecorder,
+  discardSessionRecording,
+  isSessionRecordingSupported,
+  listPendingRecordings,
+  uploadSessionRecording,
+  type StoredRecording,
+} from '@/lib/session-recorder'
 import { useSession, useUser } from '@clerk/nextjs'
 
 interface TranscriptLine {
@@ -36,6 +52,7 @@ export default function HostDashboard() {
   const [sessionDescription, setSessionDescription] = useState('')
   const [sessionCategory, setSessionCategory] = useState('general')
   const [primaryLanguage, setPrimaryLanguage] = useState('auto')
+  const [targetLanguages, setTargetLanguages] = useState<string[]>(DEFAULT_TARGET_LANGUAGES)
   const [isRecording, setIsRecording] = useState(false)
   const [sessionId, setSessionId] = useState<string | null>(null)
   const [session, setSession] = useState<Session | null>(null)
@@ -48,6 +65,21 @@ export default function HostDashboard() {
   const [hasActiveSession, setHasActiveSession] = useState(false)
   const [micPermission, setMicPermission] = useState<'granted' | 'denied' | 'prompt'>('prompt')
   const [sttError, setSTTError] = useState<string | null>(null)
+  // 🆕 STT 엔진 (호스트 설정, 세션에 stt_provider 로 저장)
+  const [sttProvider, setSttProvider] = useState<SttProvider>(DEFAULT_STT_PROVIDER)
+  const [webSpeechSupported, setWebSpeechSupported] = useState(true)
+  const sttProxyUrl = getSttProxyUrl()
+  // 🆕 세션에 적용되는 용어집 (호스트 + 세션, Web Speech grammar 용)
+  const [appliedGlossary, setAppliedGlossary] = useState<GlossaryEntry[]>([])
+  // 🆕 공동 발표자 초대 링크 복사 상태
+  const [speakerInviteStatus, setSpeakerInviteStatus] = useState<'idle' | 'copied' | 'error'>('idle')
+  // 🆕 세션 녹음 (선택) - 세션이 끝나면 업로드, 못 올린 녹음은 이 브라우저에 남아서 다시 올릴 수 있음
+  const [recordAudio, setRecordAudio] = useState(false)
+  const [audioRecordingSupported, setAudioRecordingSupported] = useState(true)
+  const [audioRecordingError, setAudioRecordingError] = useState<string | null>(null)
+  const [pendingRecordings, setPendingRecordings] = useState<StoredRecording[]>([])
+  const [recordingUpload, setRecordingUpload] = useState<RecordingUploadState | null>(null)
+  const sessionRecorderRef = useRef<SessionRecorder | null>(null)
 
   // Refs for cleanup
   const autoStopTimerRef = useRef<NodeJS.Timeout | null>(null)
@@ -155,6 +187,8 @@ export default function HostDashboard() {
           setSessionDescription(activeSession.description || '')
           setSessionCategory(activeSession.category || 'general')
           setPrimaryLanguage(activeSession.primary_language)
+          setTargetLanguages(activeSession.target_languages || DEFAULT_TARGET_LANGUAGES)
+          setSttProvider(normalizeSttProvider(activeSession.stt_provider))
           setHasActiveSession(true)
           setIsRecording(true)
 
@@ -191,6 +225,56 @@ export default function HostDashboard() {
     checkMicPermission()
   }, [])
 
+  // 🆕 Web Speech API 미지원 브라우저(Firefox 등)는 Whisper 를 기본으로 사용
+  useEffect(() => {
+    const supported = 'webkitSpeechRecognition' in window || 'SpeechRecognition' in window
+    setWebSpeechSupported(supported)
+    if (!supported) {
+      setSttProvider((prev) => (prev === 'web-speech' ? 'whisper' : prev))
+    }
+  }, [])
+
+  // 🆕 녹음 지원 여부 + 이전에 업로드하지 못한 녹음
+  useEffect(() => {
+    setAudioRecordingSupported(isSessionRecordingSupported())
+    listPendingRecordings()
+      .then(setPendingRecordings)
+      .catch((error) => console.error('❌ Failed to load pending recordings:', error))
+  }, [])
+
+  // 🆕 녹음 업로드 (이미 올라간 part 는 건너뜀) → 성공 여부
+  const uploadRecording = useCallback(async (targetSessionId: string) => {
+    setRecordingUpload({ sessionId: targetSessionId, status: 'uploading', uploadedParts: 0, totalParts: 0 })
+
+    try {
+      await uploadSessionRecording(targetSessionId, (progress) =>
+        setRecordingUpload({ sessionId: targetSessionId, status: 'uploading', ...progress }),
+      )
+      setRecordingUpload(null)
+      setPendingRecordings((prev) => prev.filter((recording) => recording.sessionId !== targetSessionId))
+      return true
+    } catch (error) {
+      console.error('❌ Session audio upload failed:', error)
+      setRecordingUpload({
+        sessionId: targetSessionId,
+        status: 'failed',
+        uploadedParts: 0,
+        totalParts: 0,
+        error: error instanceof Error ? error.message : undefined,
+      })
+      setPendingRecordings(await listPendingRecordings().catch(() => []))
+      return false
+    }
+  }, [])
+
+  const discardRecording = async (targetSessionId: string) => {
+    if (!confirm('Discard this recording? It has not been uploaded and cannot be recovered.')) return
+
+    await discardSessionRecording(targetSessionId)
+    setPendingRecordings((prev) => prev.filter((recording) => recording.sessionId !== targetSessionId))
+    setRecordingUpload((prev) => (prev?.sessionId === targetSessionId ? null : prev))
+  }
+
   // Subscribe to participant count updates
   useEffect(() => {
     if (!sessionId) return
@@ -410,6 +494,23 @@ export default function HostDashboard() {
     [supabase],
   )
 
+  // 🆕 호스트가 고친 줄 반영 (청중 화면은 서버가 갱신)
+  const handleTranscriptEdit = useCallback((result: TranscriptEditResult) => {
+    setTranscript((prev) =>
+      prev
+        .filter((line) => !result.removedIds.includes(line.id))
+        .map((line) =>
+          result.transcript && line.id === result.transcript.id
+            ? {
+                ...line,
+                text: result.transcript.reviewed_text || line.text,
+                reviewedText: result.transcript.reviewed_text,
+              }
+            : line,
+        ),
+    )
+  }, [])
+
   // Handle real-time transcript updates
   const handleTranscriptUpdate = (text: string, isPartial: boolean) => {
     console.log('Transcript update:', { text, isPartial })
@@ -458,6 +559,16 @@ export default function HostDashboard() {
     setSTTError(error)
   }
 
+  // 🆕 번역 대상 언어 선택 토글 (최소 1개, 최대 MAX_TARGET_LANGUAGES개)
+  const toggleTargetLanguage = (code: string) => {
+    setTargetLanguages((prev) => {
+      if (prev.includes(code)) {
+        return prev.length > 1 ? prev.filter((lang) => lang !== code) : prev
+      }
+      return prev.length < MAX_TARGET_LANGUAGES ? [...prev, code] : prev
+    })
+  }
+
   const handleStartSession = async () => {
     if (!user) return
 
@@ -478,6 +589,8 @@ export default function HostDashboard() {
           hostId: user.id,
           hostName: user.fullName || user.primaryEmailAddress,
           primaryLanguage: primaryLanguage,
+          targetLanguages: targetLanguages,
+          sttProvider: sttProvider,
         }),
       })
 
@@ -492,6 +605,18 @@ export default function HostDashboard() {
       setIsRecording(true)
       setHasActiveSession(true)
       setMicPermission('granted')
+
+      // 🆕 세션 녹음 시작 (실패해도 자막은 계속)
+      setAudioRecordingError(null)
+      if (recordAudio && audioRecordingSupported) {
+        const recorder = new SessionRecorder()
+        sessionRecorderRef.current = recorder
+        recorder.start(newSession.id).catch((error) => {
+          console.error('❌ Failed to start session audio recording:', error)
+          sessionRecorderRef.current = null
+          setAudioRecordingError('Audio recording could not start. Captions continue without audio.')
+        })
+      }
     } catch (error) {
       console.error('Error starting session:', error)
       setSTTError('Failed to start session')
@@ -509,23 +634,12 @@ export default function HostDashboard() {
       // First, immediately set recording to false to stop STT
       setIsRecording(false)
 
-      // Immediately call STT stream end API to persist transcript
-      if (sessionId) {
-        try {
-          const sttEndResp = await fetch('/api/stt-stream', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              type: 'end',
-              sessionId,
-            }),
-          })
-          const sttEndData = await sttEndResp.json()
-          console.log('STT stream end result:', sttEndData)
-        } catch (sttErr) {
-          console.error('Failed to end STT stream:', sttErr)
-        }
-      }
+      // 🆕 STT stream end 는 RealtimeSTT 가 outbox 로 보냄 (여기서 바로 보내면 아직 전송 안 된 조각보다 먼저 도착)
+
+      // 🆕 녹음 종료 (마지막 조각까지 IndexedDB 에 저장)
+      const recorder = sessionRecorderRef.current
+      sessionRecorderRef.current = null
+      const recording = recorder ? await recorder.stop().catch(() => null) : null
 
       // Clear auto-stop timer and inactivity timer
       if (autoStopTimerRef.current) {
@@ -555,6 +669,9 @@ export default function HostDashboard() {
         const { statistics } = await response.json()
         console.log('Session ended:', statistics)
 
+        // 🆕 녹음 업로드 (줄 위치 계산을 위해 세션 종료 후) - 실패하면 이 페이지에 남아서 다시 올릴 수 있게 함
+        const audioUploaded = recording ? await uploadRecording(sessionId) : true
+
         // 세션 종료 후 공개 요약 페이지로 리디렉션
         if (sessionId) {
           const summaryUrl = `${window.location.origin}/summary/${sessionId}`
@@ -563,9 +680,11 @@ export default function HostDashboard() {
           window.open(summaryUrl, '_blank')
 
           // 현재 탭은 홈으로 이동
-          setTimeout(() => {
-            router.push('/')
-          }, 1000)
+          if (audioUploaded) {
+            setTimeout(() => {
+              router.push('/')
+            }, 1000)
+          }
         }
       }
 
@@ -587,7 +706,7 @@ export default function HostDashboard() {
       setHasActiveSession(false)
       setSTTError(null)
     }
-  }, [sessionId, user, isRecording])
+  }, [sessionId, user, isRecording, uploadRecording])
 
   const handleResumeSession = () => {
     if (sessionId) {
@@ -607,6 +726,26 @@ export default function HostDashboard() {
     return `${window.location.origin}/session/${sessionId}`
   }
 
+  // 🆕 공동 발표자 초대 링크 (서버가 서명한 토큰 포함) 복사
+  const copySpeakerInviteLink = async () => {
+    if (!sessionId) return
+
+    try {
+      const response = await fetch(`/api/session/${sessionId}/speakers/invite`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to create invite link')
+
+      await navigator.clipboard.writeText(data.url)
+      setSpeakerInviteStatus('copied')
+      console.log('✅ Co-speaker invite link copied')
+    } catch (error) {
+      console.error('❌ Failed to copy co-speaker invite link:', error)
+      setSpeakerInviteStatus('error')
+    }
+
+    setTimeout(() => setSpeakerInviteStatus('idle'), 3000)
+  }
+
   const getPublicSessionUrl = () => {
     if (!sessionId) return ''
 
@@ -779,6 +918,79 @@ export default function HostDashboard() {
                 </p>
               </div>
 
+              <div className='space-y-2'>
+                <Label>Speech Recognition Engine</Label>
+                <Select
+                  value={sttProvider}
+                  onValueChange={(value) => setSttProvider(normalizeSttProvider(value))}
+                  disabled={isRecording}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STT_PROVIDER_OPTIONS.map((option) => {
+                      const unavailable =
+                        (option.id === 'web-speech' && !webSpeechSupported) || (option.requiresProxy && !sttProxyUrl)
+                      return (
+                        <SelectItem key={option.id} value={option.id} disabled={unavailable}>
+                          {option.name}
+                          {unavailable && ' - not available'}
+                        </SelectItem>
+                      )
+                    })}
+                  </SelectContent>
+                </Select>
+                <p className='text-sm text-gray-500'>
+                  {STT_PROVIDER_OPTIONS.find((option) => option.id === sttProvider)?.description}
+                </p>
+              </div>
+
+              {/* 🆕 세션 녹음 (선택) */}
+              <div className='space-y-2'>
+                <div className='flex items-center justify-between'>
+                  <Label htmlFor='record-audio'>Record Session Audio</Label>
+                  <Switch
+                    id='record-audio'
+                    checked={recordAudio && audioRecordingSupported}
+                    onCheckedChange={setRecordAudio}
+                    disabled={isRecording || !audioRecordingSupported}
+                  />
+                </div>
+                <p className='text-sm text-gray-500'>
+                  {audioRecordingSupported
+                    ? 'Saves the lecture audio with the transcript. It is uploaded when the session ends, and each line links to its place in the recording.'
+                    : 'Audio recording is not supported in this browser.'}
+                </p>
+                {audioRecordingError && <p className='text-sm text-red-600'>{audioRecordingError}</p>}
+              </div>
+
+              <div className='space-y-2'>
+                <Label>Translation Languages</Label>
+                <div className='flex flex-wrap gap-2'>
+                  {LANGUAGE_OPTIONS.map((lang) => {
+                    const selected = targetLanguages.includes(lang.code)
+                    return (
+                      <Button
+                        key={lang.code}
+                        type='button'
+                        size='sm'
+                        variant={selected ? 'default' : 'outline'}
+                        onClick={() => toggleTargetLanguage(lang.code)}
+                        disabled={isRecording}
+                      >
+                        <span className='mr-1'>{lang.flag}</span>
+                        {lang.name}
+                      </Button>
+                    )
+                  })}
+                </div>
+                <p className='text-sm text-gray-500'>
+                  Attendees can choose from these languages. Up to {MAX_TARGET_LANGUAGES} languages (
+                  {targetLanguages.length} selected).
+                </p>
+              </div>
+
               <div className='flex justify-center pt-4'>
                 {!isRecording ? (
                   <Button
@@ -800,6 +1012,37 @@ export default function HostDashboard() {
             </CardContent>
           </Card>
 
+          {/* 🆕 세션 녹음 업로드 (진행률 / 이전에 못 올린 녹음) */}
+          {!isRecording && (
+            <SessionRecordingUploads
+              recordings={pendingRecordings}
+              upload={recordingUpload}
+              onUpload={uploadRecording}
+              onDiscard={discardRecording}
+            />
+          )}
+
+          {/* 🆕 용어집: 세션 전에는 호스트 용어집, 세션 중에는 세션 용어집 */}
+          <div className='mt-6'>
+            {isRecording && sessionId ? (
+              <GlossaryEditor
+                endpoint={`/api/session/${sessionId}/glossary`}
+                title='Session Glossary'
+                description='Names and terms for this session. Your saved glossary is applied too. Changes apply to the next lines.'
+                languages={targetLanguages}
+                onGlossaryChange={setAppliedGlossary}
+              />
+            ) : (
+              <GlossaryEditor
+                endpoint='/api/glossary'
+                title='My Glossary'
+                description='Names and terms used in all your sessions. Fixed translations are enforced in every language.'
+                languages={targetLanguages}
+                onGlossaryChange={setAppliedGlossary}
+              />
+            )}
+          </div>
+
           {/* Live Transcript */}
           {isRecording && (
             <Card className='mt-6'>
@@ -815,13 +1058,33 @@ export default function HostDashboard() {
                 {/* Real-time STT Status */}
                 {sessionId && (
                   <div className='mt-2'>
-                    <RealtimeSTT
-                      sessionId={sessionId}
-                      isRecording={isRecording}
-                      onTranscriptUpdate={handleTranscriptUpdate}
-                      onError={handleSTTError}
-                      lang={primaryLanguage === 'auto' ? undefined : primaryLanguage}
-                    />
+                    {sttProvider === 'deepgram' || (sttProvider === 'whisper' && sttProxyUrl) ? (
+                      <StreamingSTT
+                        sessionId={sessionId}
+                        isRecording={isRecording}
+                        provider={sttProvider}
+                        onTranscriptUpdate={handleTranscriptUpdate}
+                        onError={handleSTTError}
+                      />
+                    ) : sttProvider === 'whisper' ? (
+                      // 프록시가 없으면 /api/stt 청크 업로드로 동작
+                      <ServerSTT
+                        sessionId={sessionId}
+                        isRecording={isRecording}
+                        onTranscriptUpdate={handleTranscriptUpdate}
+                        onError={handleSTTError}
+                        lang={primaryLanguage === 'auto' ? undefined : primaryLanguage}
+                      />
+                    ) : (
+                      <RealtimeSTT
+                        sessionId={sessionId}
+                        isRecording={isRecording}
+                        onTranscriptUpdate={handleTranscriptUpdate}
+                        onError={handleSTTError}
+                        lang={primaryLanguage === 'auto' ? undefined : primaryLanguage}
+                        glossary={appliedGlossary}
+                      />
+                    )}
                   </div>
                 )}
 
@@ -833,7 +1096,11 @@ export default function HostDashboard() {
                       <span className='text-sm font-medium'>Live Speech Recognition Active</span>
                     </div>
                     <p className='mt-1 text-xs text-blue-700'>
-                      🔄 Automatically restarts every 4 minutes to prevent timeout
+                      {sttProvider === 'web-speech'
+                        ? '🔄 Automatically restarts every 4 minutes to prevent timeout'
+                        : sttProvider === 'deepgram'
+                          ? '🌊 Audio is streamed to Deepgram through the STT proxy'
+                          : '🎧 Speech is sent to the server at each pause and appears in order'}
                     </p>
                   </div>
                 )}
@@ -879,9 +1146,24 @@ export default function HostDashboard() {
                           </span>
                         )}
                       </div>
-                      <div className={`${line.isReviewing ? 'text-yellow-800' : 'text-gray-900'}`}>
-                        {line.reviewedText || line.text}
-                      </div>
+                      {/* 🆕 저장된 줄은 호스트가 고치기 / 합치기 / 삭제 가능 */}
+                      {line.isReviewing || line.id.startsWith('temp-') ? (
+                        <div className='text-yellow-800'>{line.reviewedText || line.text}</div>
+                      ) : (
+                        <TranscriptLineEditor
+                          sessionId={sessionId!}
+                          transcriptId={line.id}
+                          text={line.reviewedText || line.text}
+                          nextTranscriptId={
+                            transcript[index + 1] && !transcript[index + 1].id.startsWith('temp-')
+                              ? transcript[index + 1].id
+                              : undefined
+                          }
+                          onChange={handleTranscriptEdit}
+                        >
+                          <div className='text-gray-900'>{line.reviewedText || line.text}</div>
+                        </TranscriptLineEditor>
+                      )}
                       {line.reviewedText && line.reviewedText !== line.text && (
                         <div className='mt-2 text-xs text-gray-500'>
                           <span className='font-medium'>Original:</span> {line.text}
@@ -994,6 +1276,20 @@ export default function HostDashboard() {
                       💡 Public link allows anyone to join without signing in. Perfect for online conferences and remote
                       audiences.
                     </div>
+
+                    {/* 🆕 공동 발표자 초대 */}
+                    <Button variant='outline' size='sm' className='w-full' onClick={copySpeakerInviteLink}>
+                      <Users className='mr-2 h-4 w-4' />
+                      {speakerInviteStatus === 'copied'
+                        ? 'Speaker link copied!'
+                        : speakerInviteStatus === 'error'
+                          ? 'Failed to copy link'
+                          : 'Copy co-speaker invite link'}
+                    </Button>
+                    <div className='text-xs text-gray-500'>
+                      🎙️ Co-speakers open this link, sign in and speak from their own microphone. Their lines are shown
+                      with their name.
+                    </div>
                   </div>
                 </CardContent>
               </Card>
@@ -20,10 +20,12 @@ import {
   Trash2,
   FileText,
   Share2,
+  Tag,
 } from 'lucide-react'
 import Link from 'next/link'
 import { createClient } from '@/lib/supabase/client'
 import { Session } from '@/lib/types'
+import { toSummaryDocument } from '@/lib/summary-document'
 import { useSession, useUser } from '@clerk/nextjs'
 
 interface SavedSession extends Session {
@@ -210,10 +212,18 @@ export default function MySessionsPage() {
     return null
   }
 
+  // 🆕 요약 문서의 태그 (요약이 없거나 이전 HTML 요약만 있으면 빈 배열)
+  const getSessionTags = (session: SavedSession) => toSummaryDocument(session.summary_doc)?.tags || []
+
+  // 🆕 "#태그" 로 검색하면 태그가 정확히 같은 세션만, 그 외에는 제목 / 호스트 / 태그에서 검색
   const filteredSessions = sessions.filter((session) => {
-    const matchesSearch =
-      session.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      session.host_name.toLowerCase().includes(searchTerm.toLowerCase())
+    const query = searchTerm.trim().toLowerCase()
+    const tags = getSessionTags(session)
+    const matchesSearch = query.startsWith('#')
+      ? tags.includes(query.slice(1).trim())
+      : session.title.toLowerCase().includes(query) ||
+        session.host_name.toLowerCase().includes(query) ||
+        tags.some((tag) => tag.includes(query))
     const matchesRole = filterRole === 'all' || session.role === filterRole
     const matchesStatus = filterStatus === 'all' || getStatusText(session).toLowerCase() === filterStatus
     return matchesSearch && matchesRole && matchesStatus
@@ -312,7 +322,7 @@ export default function MySessionsPage() {
           <div className='relative'>
             <Search className='absolute top-1/2 left-3 h-4 w-4 -translate-y-1/2 transform text-gray-400' />
             <Input
-              placeholder='Search sessions or hosts...'
+              placeholder='Search sessions, hosts or #tags...'
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className='pl-10'
@@ -405,6 +415,22 @@ export default function MySessionsPage() {
                         </div>
                       )}
                     </div>
+
+                    {/* 🆕 요약 태그 - 누르면 같은 태그의 세션만 표시 */}
+                    {getSessionTags(session).length > 0 && (
+                      <div className='mt-3 flex flex-wrap items-center gap-2'>
+                        <Tag className='h-4 w-4 text-gray-400' />
+                        {getSessionTags(session).map((tag) => (
+                          <button
+                            key={tag}
+                            onClick={() => setSearchTerm(`#${tag}`)}
+                            className='rounded-full bg-blue-100 px-2 py-0.5 text-xs text-blue-800 hover:underline'
+                          >
+                            #{tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   <div className='flex items-center space-x-2'>
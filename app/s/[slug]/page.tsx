@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback, useRef, useId } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Slider } from '@/components/ui/slider'
@@ -13,8 +13,13 @@ import { useSession, useUser } from '@clerk/nextjs'
 import { createClient } from '@/lib/supabase/client'
 import { useToast, ToastContainer } from '@/components/ui/toast'
 import { Session } from '@/lib/types'
-import type { TranscriptLine, TranslationResponse } from '@/lib/types'
+import type { CaptionEvent, TranscriptLine, TranslationResponse } from '@/lib/types'
 import ChatbotWidget from '@/components/ChatbotWidget'
+import { CatchUpPanel } from '@/components/CatchUpPanel'
+import { LANGUAGE_OPTIONS, getLanguageOptions, getSessionTargetLanguages } from '@/lib/languages'
+
+// 🆕 final 없이 멈춘 partial 줄을 지우기까지의 시간 (ms)
+const PARTIAL_LINE_TIMEOUT = 5000
 
 export default function PublicSessionPage() {
   const params = useParams()
@@ -24,7 +29,6 @@ export default function PublicSessionPage() {
   const supabase = createClient(clerkSession?.getToken() ?? Promise.resolve(null))
   const slug = params.slug as string
   const { toasts, addToast, removeToast } = useToast()
-  const componentId = useId()
 
   // Get user's preferred language from browser or profile
   const getUserPreferredLanguage = () => {
@@ -36,8 +40,8 @@ export default function PublicSessionPage() {
     // Fallback to browser language (only on client side)
     if (typeof window !== 'undefined' && navigator.language) {
       const browserLang = navigator.language.split('-')[0]
-      const supportedLangs = ['ko', 'zh', 'hi', 'en'] // 지원하는 3개 언어 + 영어
-      return supportedLangs.includes(browserLang) ? browserLang : 'en' // 영어 기본값
+      // 세션 로드 후 세션 대상 언어에 없으면 아래 effect에서 다시 맞춤
+      return LANGUAGE_OPTIONS.some((lang) => lang.code === browserLang) ? browserLang : 'en' // 영어 기본값
     }
 
     return 'en' // Default fallback to English
@@ -81,6 +85,7 @@ export default function PublicSessionPage() {
         translationFailed: 'Translation Failed',
         translating: 'Translating...',
         aiTranslating: 'AI Translating...',
+        typing: 'Speaking...',
         completed: 'Completed',
       },
       ko: {
@@ -111,6 +116,7 @@ export default function PublicSessionPage() {
         translationFailed: '번역 실패',
         translating: '번역 중...',
         aiTranslating: 'AI 번역 중...',
+        typing: '말하는 중...',
         completed: '완료',
       },
       ja: {
@@ -141,6 +147,7 @@ export default function PublicSessionPage() {
         translationFailed: '翻訳に失敗しました',
         translating: '翻訳中...',
         aiTranslating: 'AI翻訳中...',
+        typing: '話しています...',
         completed: '完了',
       },
       es: {
@@ -171,6 +178,7 @@ export default function PublicSessionPage() {
         translationFailed: 'Error de traducción',
         translating: 'Traduciendo...',
         aiTranslating: 'IA traduciendo...',
+        typing: 'Hablando...',
         completed: 'Completado',
       },
       fr: {
@@ -201,6 +209,7 @@ export default function PublicSessionPage() {
         translationFailed: 'Échec de la traduction',
         translating: 'Traduction...',
         aiTranslating: 'IA en traduction...',
+        typing: 'En train de parler...',
         completed: 'Terminé',
       },
       de: {
@@ -231,6 +240,7 @@ export default function PublicSessionPage() {
         translationFailed: 'Übersetzung fehlgeschlagen',
         translating: 'Übersetzen...',
         aiTranslating: 'KI übersetzt...',
+        typing: 'Spricht...',
         completed: 'Abgeschlossen',
       },
       zh: {
@@ -261,6 +271,7 @@ export default function PublicSessionPage() {
         translationFailed: '翻译失败',
         translating: '翻译中...',
         aiTranslating: 'AI翻译中...',
+        typing: '正在说话...',
         completed: '已完成',
       },
     }
@@ -297,242 +308,22 @@ export default function PublicSessionPage() {
     setSelectedLanguage(getUserPreferredLanguage())
   }, [user])
 
-  // 🚀 모든 지원 언어 제공 (자동 번역 지원)
-  const languages = [
-    { code: 'ko', name: 'Korean', flag: '🇰🇷' },
-    { code: 'en', name: 'English', flag: '🇺🇸' },
-    { code: 'zh', name: 'Chinese', flag: '🇨🇳' },
-    { code: 'hi', name: 'Hindi', flag: '🇮🇳' },
-  ]
+  // 🚀 세션에서 선택한 대상 언어 제공 (자동 번역 지원)
+  const languages = getLanguageOptions(getSessionTargetLanguages(session))
+
+  // 🆕 선택한 언어가 세션 대상 언어에 없으면 영어(또는 첫 번째 언어)로 변경
+  useEffect(() => {
+    if (!session) return
+    const sessionLanguages = getSessionTargetLanguages(session)
+    if (!sessionLanguages.includes(selectedLanguage)) {
+      setSelectedLanguage(sessionLanguages.includes('en') ? 'en' : sessionLanguages[0])
+    }
+  }, [session, selectedLanguage])
 
   // 번역 캐시 (클라이언트 사이드)
   const translationCache = useRef<Map<string, TranslationResponse>>(new Map())
   const pendingTranslations = useRef<Set<string>>(new Set())
 
-
-
-  // Supabase Realtime으로 번역 캐시 업데이트 구독
-  useEffect(() => {
-    if (!sessionId) return
-
-    console.log('🔔 Setting up translation cache subscription...')
-
-    const channel = supabase
-      .channel(`translation-cache-${sessionId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'translation_cache',
-        },
-        async (payload) => {
-          const cache = payload.new as {
-            id: string
-            original_text: string
-            target_language: string
-            translated_text: string
-            quality_score: number
-          }
-          console.log('🎉 New translation cached:', {
-            id: cache.id,
-            text: cache.original_text.substring(0, 50),
-            language: cache.target_language,
-            translated: cache.translated_text.substring(0, 50),
-            currentLanguage: selectedLanguage,
-          })
-
-          // 현재 선택된 언어의 번역이면 UI 업데이트
-          if (cache.target_language === selectedLanguage) {
-            console.log('📝 Updating UI with cached translation')
-            
-            // 이 번역 캐시 ID를 사용하는 transcript를 찾아서 업데이트
-            const { data: transcripts, error: transcriptError } = await supabase
-              .from('transcripts')
-              .select('id, original_text, translation_cache_ids')
-              .eq('session_id', sessionId)
-              .contains('translation_cache_ids', { [selectedLanguage]: cache.id })
-
-            if (transcriptError) {
-              console.error(`❌ Error finding transcripts for cache ID ${cache.id}:`, transcriptError)
-            }
-
-            if (transcripts && transcripts.length > 0) {
-              const transcriptIds = transcripts.map(t => t.id)
-              console.log(`✅ Found ${transcripts.length} transcripts using this cache ID: ${cache.id}`)
-              
-              setTranscript((prev) => {
-                const updated = prev.map((line) => {
-                  // transcript ID로 매칭 (실제 DB ID 사용)
-                  if (transcriptIds.includes(line.id) && (line.isTranslating || line.translated.includes('[Translating...]'))) {
-                    console.log(`✅ Updating line via cache ID: "${line.original.substring(0, 30)}..." → "${cache.translated_text.substring(0, 30)}..."`)
-                return {
-                  ...line,
-                      translated: cache.translated_text,
-                      translatedLanguage: cache.target_language,
-                  isTranslating: false,
-                      translationQuality: cache.quality_score,
-                }
-              }
-              return line
-            })
-                
-                // 실제로 업데이트된 항목이 있는지 확인
-                const hasUpdates = updated.some((line, index) => 
-                  line.translated !== prev[index]?.translated
-                )
-                
-                if (hasUpdates) {
-                  console.log('✅ Transcript updated with new translation')
-                } else {
-                  console.log('⚠️ No matching transcript lines found for update')
-                }
-                
-                return updated
-              })
-            } else {
-              console.log(`⚠️ No transcripts found using cache ID: ${cache.id}`)
-              
-              // 캐시 ID로 찾지 못한 경우, 원본 텍스트로 찾아보기
-              console.log(`🔍 Trying to find transcript by original text: "${cache.original_text.substring(0, 30)}..."`)
-              const { data: textMatchTranscripts } = await supabase
-                .from('transcripts')
-                .select('id, original_text')
-                .eq('session_id', sessionId)
-                .ilike('original_text', `%${cache.original_text.substring(0, 50)}%`)
-                .order('created_at', { ascending: false })
-                .limit(1)
-
-              if (textMatchTranscripts && textMatchTranscripts.length > 0) {
-                const matchingTranscript = textMatchTranscripts[0]
-                console.log(`✅ Found transcript by text match: ${matchingTranscript.id}`)
-                
-                setTranscript((prev) => {
-                  const updated = prev.map((line) => {
-                    // 원본 텍스트로 매칭
-                    if (line.original.includes(cache.original_text.substring(0, 30)) && 
-                        (line.isTranslating || line.translated.includes('[Translating...]'))) {
-                      console.log(`✅ Updating line by text match: "${line.original.substring(0, 30)}..." → "${cache.translated_text.substring(0, 30)}..."`)
-                      return {
-                        ...line,
-                        translated: cache.translated_text,
-                        translatedLanguage: cache.target_language,
-                        isTranslating: false,
-                        translationQuality: cache.quality_score,
-                      }
-                    }
-                    return line
-                  })
-                  
-                  const hasUpdates = updated.some((line, index) => 
-                    line.translated !== prev[index]?.translated
-                  )
-                  
-                  if (hasUpdates) {
-                    console.log('✅ Transcript updated with new translation (text match)')
-                  }
-                  
-                  return updated
-                })
-              }
-            }
-          } else {
-            console.log(
-              `⏭️ Skipping update: language mismatch (${cache.target_language} !== ${selectedLanguage})`,
-            )
-          }
-        },
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'transcripts',
-          filter: `session_id=eq.${sessionId}`,
-        },
-        async (payload) => {
-          const transcript = payload.new as {
-            id: string
-            original_text: string
-            translation_cache_ids: Record<string, string> | null
-            translation_status: string
-          }
-          
-          console.log('🔄 Transcript updated:', {
-            id: transcript.id,
-            text: transcript.original_text.substring(0, 50),
-            cacheIds: transcript.translation_cache_ids,
-            status: transcript.translation_status,
-          })
-
-          // 번역이 완료되었고 translation_cache_ids가 있는 경우
-          if (transcript.translation_status === 'completed' && 
-              transcript.translation_cache_ids && 
-              transcript.translation_cache_ids[selectedLanguage]) {
-            
-            const cacheId = transcript.translation_cache_ids[selectedLanguage]
-            console.log(`🔍 Transcript completed, looking up cache ID: ${cacheId}`)
-            
-            // 해당 캐시에서 번역 가져오기
-            const { data: cache, error: cacheError } = await supabase
-              .from('translation_cache')
-              .select('*')
-              .eq('id', cacheId)
-              .single()
-
-            if (cacheError) {
-              console.error(`❌ Error loading cache for transcript update:`, cacheError)
-              return
-            }
-
-            if (cache) {
-              console.log(`✅ Found translation for updated transcript: "${cache.translated_text.substring(0, 30)}..."`)
-              
-              setTranscript((prev) => {
-                const updated = prev.map((line) => {
-                  // transcript ID로 매칭
-                  if (line.id === transcript.id && 
-                      (line.isTranslating || line.translated.includes('[Translating...]'))) {
-                    console.log(`✅ Updating line via transcript update: "${line.original.substring(0, 30)}..." → "${cache.translated_text.substring(0, 30)}..."`)
-                    return {
-                      ...line,
-                      translated: cache.translated_text,
-                      translatedLanguage: cache.target_language,
-                      isTranslating: false,
-                      translationQuality: cache.quality_score,
-                    }
-                  }
-                  return line
-                })
-                
-                const hasUpdates = updated.some((line, index) => 
-                  line.translated !== prev[index]?.translated
-                )
-                
-                if (hasUpdates) {
-                  console.log('✅ Transcript updated via UPDATE event')
-                }
-                
-                return updated
-              })
-            }
-          }
-        },
-      )
-      .subscribe((status) => {
-        console.log('🔔 Translation cache subscription status:', status)
-        if (status === 'SUBSCRIBED') {
-          console.log('✅ Successfully subscribed to translation cache updates')
-        }
-      })
-
-    return () => {
-      console.log('🧹 Cleaning up translation cache subscription')
-      supabase.removeChannel(channel)
-    }
-  }, [sessionId, selectedLanguage, supabase]) // selectedLanguage 의존성 추가
-
   // Load session data using slug or session ID
   useEffect(() => {
     const loadSession = async () => {
@@ -574,106 +365,6 @@ export default function PublicSessionPage() {
 
         setSession(sessionData)
         setSessionId(sessionData.id)
-
-        // Load existing transcripts - 번역이 완료된 것만 표시
-        const { data: transcripts, error: transcriptError } = await supabase
-          .from('transcripts')
-          .select('*')
-          .eq('session_id', sessionData.id)
-          .order('created_at', { ascending: true })
-
-        if (transcriptError) {
-          console.error('❌ Error loading transcripts:', transcriptError)
-        }
-
-        if (transcripts && transcripts.length > 0) {
-          console.log(`📚 Loading ${transcripts.length} transcripts...`)
-          console.log('🔍 Sample transcript data:', transcripts.slice(0, 2).map(t => ({
-            id: t.id,
-            original_text: t.original_text.substring(0, 30),
-            reviewed_text: t.reviewed_text ? t.reviewed_text.substring(0, 30) : 'NULL',
-            review_status: t.review_status,
-            translation_cache_ids: t.translation_cache_ids,
-            translation_status: t.translation_status
-          })))
-
-          // 초기 로딩 시에는 기존 transcript를 모두 지우고 새로 로드
-          const formattedTranscripts: TranscriptLine[] = []
-
-          for (const t of transcripts) {
-            let originalText = t.original_text
-            let translatedText = t.original_text
-
-            // 🆕 검수된 원문 텍스트 가져오기 (transcripts 테이블의 reviewed_text 필드 사용)
-            if (t.reviewed_text) {
-              originalText = t.reviewed_text
-              console.log(`✅ Loaded reviewed text from transcripts: "${originalText.substring(0, 30)}..."`)
-            } else {
-              console.log(`⚠️ No reviewed text found in transcripts for: "${t.original_text.substring(0, 30)}..."`)
-            }
-
-            // 번역이 활성화된 경우에만 번역 로드
-            if (translationEnabled && selectedLanguage !== 'en') {
-              try {
-                // translation_cache_ids가 있으면 해당 ID로 번역 가져오기
-                if (t.translation_cache_ids && t.translation_cache_ids[selectedLanguage]) {
-                  const cacheId = t.translation_cache_ids[selectedLanguage]
-                  console.log(`🔍 Looking up translation with cache ID: ${cacheId} for language: ${selectedLanguage}`)
-                  
-                  const { data: cache, error: cacheError } = await supabase
-                    .from('translation_cache')
-                    .select('translated_text')
-                    .eq('id', cacheId)
-                    .maybeSingle()
-
-                  if (cacheError) {
-                    console.error(`❌ Error loading translation cache:`, cacheError)
-                  }
-
-                  if (cache) {
-                    translatedText = cache.translated_text
-                    console.log(`✅ Loaded cached translation for "${originalText.substring(0, 30)}..."`)
-                  } else {
-                    translatedText = `[Translating...] ${originalText}`
-                    console.log(`⏳ Translation not yet cached for "${originalText.substring(0, 30)}..." (cache ID: ${cacheId})`)
-                  }
-                } else {
-                  // 기존 방식으로 fallback
-                  const { data: cache } = await supabase
-                    .from('translation_cache')
-                    .select('*')
-                    .eq('original_text', originalText)
-                    .eq('target_language', selectedLanguage)
-                    .maybeSingle()
-
-                  if (cache) {
-                    translatedText = cache.translated_text
-                    console.log(`✅ Loaded cached translation (fallback) for "${originalText.substring(0, 30)}..."`)
-                  } else {
-                    translatedText = `[Translating...] ${originalText}`
-                    console.log(`⏳ Translation not yet cached (fallback) for "${originalText.substring(0, 30)}..."`)
-                  }
-                }
-              } catch (err) {
-                console.error(`❌ Failed to load translation for "${originalText.substring(0, 30)}..."`, err)
-                translatedText = originalText // 실패 시 검수된 원문 표시
-              }
-            }
-
-            formattedTranscripts.push({
-              id: t.id,
-              timestamp: new Date(t.created_at).toLocaleTimeString(),
-              original: originalText,
-              translated: translatedText,
-              translatedLanguage: selectedLanguage,
-              speaker: sessionData.host_name,
-              isTranslating: false,
-            })
-          }
-
-          // 초기 로딩이므로 완전히 교체
-          setTranscript(formattedTranscripts)
-        }
       } catch (error) {
         console.error('Error loading session:', error)
         setError(`Failed to load session: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -739,579 +430,186 @@ export default function PublicSessionPage() {
     }
   }, [sessionId, session, hasJoined, joinSession])
 
-  // 🆕 실시간 transcript 구독 (번역 완료된 것만)
+  // 🆕 캡션 SSE 스트림 구독 (/api/session/[id]/stream)
+  // 언어가 바뀌면 다시 연결하고, 서버가 보내주는 backlog 로 번역을 채운다.
+  const streamLanguage = translationEnabled ? selectedLanguage : null
+  const hostName = session?.host_name
+
   useEffect(() => {
     if (!sessionId) return
 
-    console.log('🔔 Setting up realtime subscription for completed transcripts...')
+    // 번역 대기 상태 (입력 언어와 같은 언어는 원문 그대로)
+    const pendingTranslation = (text: string, detectedLanguage?: string) =>
+      !streamLanguage || detectedLanguage === streamLanguage
+        ? { translated: text, isTranslating: false }
+        : { translated: `[Translating...] ${text}`, isTranslating: true }
 
-    // 모든 transcript 변경사항 구독 (클라이언트에서 필터링)
-    const channel = supabase
-      .channel(`transcripts-${sessionId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: '*', // INSERT, UPDATE, DELETE 모든 이벤트
-          schema: 'public',
-          table: 'transcripts',
-          filter: `session_id=eq.${sessionId}`, // 세션 ID만 필터링
-        },
-        (payload) => {
-          console.log('🔔 Realtime transcript update:', payload.eventType, payload.new)
-
-          // UPDATE 이벤트만 처리 (INSERT는 폴링에서 처리)
-          if (payload.eventType === 'UPDATE' && payload.new) {
-            const updatedTranscript = payload.new as {
-              id: string
-              original_text: string
-              reviewed_text?: string
-              review_status?: string
-              translation_status: string
-              created_at: string
-            }
-            
-            console.log(`🔄 Transcript updated:`, {
-              id: updatedTranscript.id,
-              original_text: updatedTranscript.original_text.substring(0, 30),
-              reviewed_text: updatedTranscript.reviewed_text ? updatedTranscript.reviewed_text.substring(0, 30) : 'NULL',
-              review_status: updatedTranscript.review_status,
-              translation_status: updatedTranscript.translation_status
-            })
-
-            // 검수된 텍스트가 있으면 업데이트
-            if (updatedTranscript.reviewed_text && updatedTranscript.review_status === 'completed') {
-              console.log(`✅ Updating with reviewed text: "${updatedTranscript.reviewed_text.substring(0, 30)}..."`)
-              
-              setTranscript((prev) =>
-                prev.map((line) => {
-                  // 원본 텍스트로 매칭
-                  if (line.original === updatedTranscript.original_text || 
-                      line.original.includes(updatedTranscript.original_text.substring(0, 20)) ||
-                      updatedTranscript.original_text.includes(line.original.substring(0, 20))) {
-                    return {
-                      ...line,
-                      original: updatedTranscript.reviewed_text!,
-                      isTranslating: false,
-                    }
-                  }
-                  return line
-                }),
-              )
-            } else if (updatedTranscript.translation_status === 'completed') {
-              console.log(`🔄 Transcript status updated to completed: "${updatedTranscript.original_text}"`)
-
-              // 이미 있는 transcript 업데이트 (새로 추가하지 않음)
-              setTranscript((prev) =>
-                prev.map((line) => {
-                  if (line.original === updatedTranscript.original_text) {
-                    // 번역 상태를 완료로 업데이트
-                    return {
-                      ...line,
-                      isTranslating: false,
-                    }
-                  }
-                  return line
-                }),
-              )
-            }
-          }
-        },
-      )
-      .subscribe((status) => {
-        console.log('🔔 Realtime subscription status:', status)
-      })
-
-    // Cleanup
-    return () => {
-      console.log('🧹 Cleaning up realtime subscription')
-      supabase.removeChannel(channel)
-    }
-  }, [sessionId, supabase]) // sessionId와 supabase만 필요
-
-  // 🆕 언어 변경 시 transcript 재로드
-  useEffect(() => {
-    if (!translationEnabled || !sessionId || !session) return
+    setTranscript((prev) =>
+      prev
+        .filter((line) => !line.isPartial)
+        .map((line) => ({
+          ...line,
+          ...pendingTranslation(line.original, line.detectedLanguage),
+          translatedLanguage: streamLanguage || 'en',
+          translationQuality: undefined,
+        })),
+    )
+    setTranslationStats({ cached: 0, processing: 0, completed: 0 })
 
-    console.log(`🌍 Language changed to: ${selectedLanguage}`)
+    // 세션 전체를 다시 받음 - 위에서 번역 대기로 바꾼 이전 줄까지 새 언어 번역으로 채워지도록
+    const query = new URLSearchParams({ backlog: 'all' })
+    if (streamLanguage) query.set('lang', streamLanguage)
+    console.log(`📡 Connecting caption stream (lang: ${streamLanguage || 'none'})...`)
+    const eventSource = new EventSource(`/api/session/${sessionId}/stream?${query}`)
 
-    // 언어 변경 시 transcript 재로드
-    const reloadForNewLanguage = async () => {
+    const parseEvent = (message: MessageEvent): CaptionEvent | null => {
       try {
-        const { data: transcripts } = await supabase
-          .from('transcripts')
-          .select('*')
-          .eq('session_id', sessionId)
-          .order('created_at', { ascending: true })
-
-        if (transcripts && transcripts.length > 0) {
-          console.log(`🔄 Reloading ${transcripts.length} transcripts for ${selectedLanguage}`)
-
-          const formattedTranscripts: TranscriptLine[] = []
-
-          for (const t of transcripts) {
-            let originalText = t.original_text
-            let translatedText = t.original_text
-            let isTranslating = false
-
-            // 🆕 검수된 원문 텍스트 가져오기 (transcripts 테이블의 reviewed_text 필드 사용)
-            if (t.reviewed_text) {
-              originalText = t.reviewed_text
-              console.log(`✅ Loaded reviewed text from transcripts: "${originalText.substring(0, 30)}..."`)
-            } else {
-              console.log(`⚠️ No reviewed text found in transcripts for: "${t.original_text.substring(0, 30)}..."`)
-            }
-
-            if (selectedLanguage !== 'en') {
-              // translation_cache_ids를 사용해서 번역 가져오기
-              try {
-                if (t.translation_cache_ids && typeof t.translation_cache_ids === 'object') {
-                  const cacheId = (t.translation_cache_ids as Record<string, string>)[selectedLanguage]
-                  
-                  if (cacheId) {
-                    console.log(`🔍 Looking up translation cache ID: ${cacheId} for language: ${selectedLanguage}`)
-                    
-                    const { data: cache, error: cacheError } = await supabase
-                      .from('translation_cache')
-                      .select('*')
-                      .eq('id', cacheId)
-                      .single()
-
-                    if (cacheError) {
-                      console.error(`❌ Error loading translation cache:`, cacheError)
-                    }
-
-                    if (cache) {
-                      translatedText = cache.translated_text
-                      console.log(`✅ Found cached translation via ID: "${originalText.substring(0, 30)}..." → "${cache.translated_text.substring(0, 30)}..."`)
-                    } else {
-                      translatedText = `[Translating...] ${originalText}`
-                      isTranslating = true
-                      console.log(`⏳ Cache ID exists but translation not found: ${cacheId}`)
-                    }
-                  } else {
-                    translatedText = `[Translating...] ${originalText}`
-                    isTranslating = true
-                    console.log(`⏳ No cache ID for language ${selectedLanguage}: "${originalText.substring(0, 30)}..."`)
-                  }
-                } else {
-                  translatedText = `[Translating...] ${originalText}`
-                  isTranslating = true
-                  console.log(`⏳ No translation_cache_ids found: "${originalText.substring(0, 30)}..."`)
-                }
-              } catch (error) {
-                console.error(`Cache lookup failed:`, error)
-                translatedText = originalText
-              }
-            }
-
-            formattedTranscripts.push({
-              id: t.id,
-              timestamp: new Date(t.created_at).toLocaleTimeString(),
-              original: originalText,
-              translated: translatedText,
-              translatedLanguage: selectedLanguage,
-              speaker: session.host_name,
-              isTranslating: isTranslating,
-            })
-          }
-
-          setTranscript(formattedTranscripts)
-        }
+        return JSON.parse(message.data) as CaptionEvent
       } catch (error) {
-        console.error('Error reloading transcripts:', error)
+        console.error('❌ Invalid caption event:', error)
+        return null
       }
     }
 
-    reloadForNewLanguage()
-  }, [selectedLanguage, translationEnabled, sessionId, session, supabase])
-
-  // Handle new transcript updates (심플하게 개선)
-  const handleTranscriptUpdate = useCallback(
-    async (newText: string, isPartial: boolean = false) => {
-      if (!newText || newText.trim().length === 0) {
-        console.warn('⚠️ Skipping empty transcript update')
-        return
+    // 🆕 partial(interim) 캡션: 발화마다 회색 "typing" 줄 하나를 갱신하고, final 이 오면 그 자리에서 교체
+    const finalizedUtterances = new Set<string>()
+    let partialTimer: NodeJS.Timeout | null = null
+
+    eventSource.addEventListener('partial', (message) => {
+      const event = parseEvent(message)
+      if (!event || !event.utteranceId || finalizedUtterances.has(event.utteranceId)) return
+
+      const partialLine: TranscriptLine = {
+        id: event.transcriptId,
+        timestamp: new Date(event.timestamp).toLocaleTimeString(),
+        original: event.text,
+        translated: event.text,
+        speaker: event.speaker || hostName,
+        isPartial: true,
       }
 
-      const now = new Date()
-      const timestamp = now.toLocaleTimeString()
-      const newId = `${componentId}-${now.getTime()}-${transcript.length}`
-
-      // 🆕 검수된 원문 텍스트 가져오기 (translation_cache에서)
-      let originalText = newText.trim()
-      try {
-        // 먼저 transcripts 테이블에서 해당 텍스트의 translation_cache_ids 확인
-        const { data: transcriptData, error: transcriptError } = await supabase
-          .from('transcripts')
-          .select('translation_cache_ids')
-          .eq('session_id', sessionId)
-          .ilike('original_text', `%${newText.trim()}%`)
-          .order('created_at', { ascending: false })
-          .limit(1)
-          .maybeSingle()
-
-        if (transcriptError) {
-          console.error(`❌ Error loading transcript data for reviewed text:`, transcriptError)
+      setTranscript((prev) => {
+        const index = prev.findIndex((line) => line.id === partialLine.id)
+        // 새 발화면 같은 화자의 이전 발화에서 남은 partial 줄은 제거 (공동 발표자는 각자 typing 줄을 가짐)
+        if (index === -1) {
+          return [...prev.filter((line) => !line.isPartial || line.speaker !== partialLine.speaker), partialLine]
         }
 
-        if (transcriptData?.translation_cache_ids && typeof transcriptData.translation_cache_ids === 'object') {
-          // translation_cache_ids에서 영어 검수 버전 찾기
-          const enCacheId = (transcriptData.translation_cache_ids as Record<string, string>)['en']
-          
-          if (enCacheId) {
-            console.log(`🔍 Looking up reviewed text with cache ID: ${enCacheId}`)
-            
-            const { data: reviewedCache, error: reviewedError } = await supabase
-              .from('translation_cache')
-              .select('translated_text')
-              .eq('id', enCacheId)
-              .maybeSingle()
-            
-            if (reviewedError) {
-              console.error(`❌ Error loading reviewed text:`, reviewedError)
-            }
-            
-            if (reviewedCache) {
-              originalText = reviewedCache.translated_text
-              console.log(`✅ Loaded reviewed text for new transcript: "${originalText.substring(0, 30)}..."`)
-            } else {
-              console.log(`⚠️ No reviewed text found for cache ID: ${enCacheId}`)
-            }
-          } else {
-            console.log(`⚠️ No English cache ID found in translation_cache_ids`)
-          }
-        } else {
-          // fallback: 기존 방식으로 검수된 텍스트 찾기
-          const { data: reviewedCache, error: reviewedError } = await supabase
-            .from('translation_cache')
-            .select('translated_text')
-            .ilike('original_text', `%${newText.trim().substring(0, 30)}%`)
-            .eq('target_language', 'en')
-            .order('created_at', { ascending: false })
-            .limit(1)
-            .maybeSingle()
-          
-          if (reviewedError) {
-            console.error(`❌ Error loading reviewed text (fallback):`, reviewedError)
-          }
-          
-          if (reviewedCache) {
-            originalText = reviewedCache.translated_text
-            console.log(`✅ Loaded reviewed text (fallback) for new transcript: "${originalText.substring(0, 30)}..."`)
-          } else {
-            console.log(`⚠️ No reviewed text found (fallback) for new transcript: "${newText.trim().substring(0, 30)}..."`)
-          }
+        const next = [...prev]
+        next[index] = partialLine
+        return next
+      })
+
+      // final 없이 끊긴 발화는 잠시 후 제거
+      if (partialTimer) clearTimeout(partialTimer)
+      partialTimer = setTimeout(() => {
+        setTranscript((prev) => prev.filter((line) => !line.isPartial))
+      }, PARTIAL_LINE_TIMEOUT)
+    })
+
+    eventSource.addEventListener('final', (message) => {
+      const event = parseEvent(message)
+      if (!event) return
+
+      setTranscript((prev) => {
+        // 재연결 시 backlog 가 다시 오므로 이미 있는 줄은 유지
+        if (prev.some((line) => line.id === event.transcriptId)) return prev
+
+        console.log(`📝 Final caption: "${event.text.substring(0, 30)}..."`)
+        const finalLine: TranscriptLine = {
+          id: event.transcriptId,
+          timestamp: new Date(event.timestamp).toLocaleTimeString(),
+          original: event.text,
+          speaker: event.speaker || hostName,
+          detectedLanguage: event.language,
+          translatedLanguage: streamLanguage || 'en',
+          isReviewing: true,
+          ...pendingTranslation(event.text, event.language),
         }
-      } catch (err) {
-        console.error(`❌ Failed to load reviewed text for new transcript "${newText.trim().substring(0, 30)}..."`, err)
-        // 실패 시 원본 텍스트 사용
-      }
 
-      const newLine: TranscriptLine = {
-        id: newId,
-        timestamp,
-        original: originalText,
-        translated: originalText,
-        translatedLanguage: selectedLanguage,
-        speaker: session?.host_name || 'Speaker',
-        isTranslating: false,
-      }
+        const partialIndex = event.replay
+          ? -1
+          : prev.findIndex((line) => line.isPartial && line.speaker === finalLine.speaker)
+        if (partialIndex === -1) return [...prev, finalLine]
 
-      // 🆕 검수된 텍스트가 아직 준비되지 않았다면, 나중에 업데이트
-      if (originalText === newText.trim()) {
-        console.log(`⏳ Reviewed text not ready yet, will update later: "${newText.trim().substring(0, 30)}..."`)
-        
-        // 2초 후에 다시 검수된 텍스트 확인
-        setTimeout(async () => {
-          try {
-            const { data: retryTranscriptData } = await supabase
-              .from('transcripts')
-              .select('translation_cache_ids')
-              .eq('session_id', sessionId)
-              .ilike('original_text', `%${newText.trim()}%`)
-              .order('created_at', { ascending: false })
-              .limit(1)
-              .maybeSingle()
-
-            if (retryTranscriptData?.translation_cache_ids && typeof retryTranscriptData.translation_cache_ids === 'object') {
-              const enCacheId = (retryTranscriptData.translation_cache_ids as Record<string, string>)['en']
-              
-              if (enCacheId) {
-                const { data: retryReviewedCache } = await supabase
-                  .from('translation_cache')
-                  .select('translated_text')
-                  .eq('id', enCacheId)
-                  .maybeSingle()
-
-                if (retryReviewedCache) {
-                  console.log(`✅ Updated with reviewed text: "${retryReviewedCache.translated_text.substring(0, 30)}..."`)
-                  setTranscript((prev) =>
-                    prev.map((line) =>
-                      line.id === newId
-                        ? {
-                            ...line,
-                            original: retryReviewedCache.translated_text,
-                          }
-                        : line,
-                    ),
-                  )
-                }
-              }
-            }
-          } catch (retryError) {
-            console.error('Retry reviewed text check error:', retryError)
-          }
-        }, 2000) // 2초 후 재시도
-      }
+        // typing 줄을 final 줄로 교체 (늦게 도착하는 같은 발화의 partial 은 무시)
+        finalizedUtterances.add(prev[partialIndex].id.replace(/^partial-/, ''))
+        const next = [...prev]
+        next[partialIndex] = finalLine
+        return next
+      })
+    })
 
-      if (isPartial) {
-        // Partial 업데이트는 UI에만 표시
-        setTranscript((prev) => {
-          const newTranscript = [...prev]
-          if (newTranscript.length > 0 && newTranscript[newTranscript.length - 1].id.includes('partial')) {
-            newTranscript[newTranscript.length - 1] = {
-              ...newLine,
-              id: `${newId}-partial`,
-            }
-          } else {
-            newTranscript.push({ ...newLine, id: `${newId}-partial` })
-          }
-          return newTranscript
-        })
-      } else {
-        // Final 업데이트
-        setTranscript((prev) => {
-          const withoutPartial = prev.filter((line) => !line.id.includes('partial'))
-          return [...withoutPartial, newLine]
-        })
+    eventSource.addEventListener('reviewed', (message) => {
+      const event = parseEvent(message)
+      if (!event) return
 
-        // 번역이 필요한 경우
-        if (translationEnabled && selectedLanguage !== 'en') {
-          // 번역 중 상태로 설정
-          setTranscript((prev) =>
-            prev.map((line) =>
-              line.id === newId
-                ? {
-                    ...line,
-                    translated: `[Translating...] ${newText.trim()}`,
-                    isTranslating: true,
-                  }
-                : line,
-            ),
-          )
+      setTranscript((prev) =>
+        prev.map((line) => {
+          if (line.id !== event.transcriptId) return line
+
+          const detectedLanguage = event.language || line.detectedLanguage
+          return {
+            ...line,
+            original: event.text,
+            reviewed: event.text,
+            detectedLanguage,
+            isReviewing: false,
+            // 아직 번역 전이면 검수된 원문으로 대기 문구 갱신
+            ...(line.isTranslating || !streamLanguage || detectedLanguage === streamLanguage
+              ? pendingTranslation(event.text, detectedLanguage)
+              : {}),
+          }
+        }),
+      )
+    })
 
-          // 캐시 확인 (백그라운드에서 실행)
-          setTimeout(async () => {
-            try {
-              console.log(`🔍 Checking cache for new transcript: "${newText.trim().substring(0, 30)}..."`)
-              
-              // 새로운 transcript의 translation_cache_ids를 확인 (더 정확한 매칭)
-              const { data: transcriptData, error: transcriptError } = await supabase
-                .from('transcripts')
-                .select('translation_cache_ids, translation_status')
-                .eq('session_id', sessionId)
-                .ilike('original_text', `%${newText.trim()}%`) // 부분 매칭으로 더 정확하게 찾기
-                .order('created_at', { ascending: false })
-                .limit(1)
-                .maybeSingle()
-
-              if (transcriptError) {
-                console.error(`❌ Error loading transcript data:`, transcriptError)
-              }
+    eventSource.addEventListener('translated', (message) => {
+      const event = parseEvent(message)
+      if (!event || event.language !== streamLanguage) return
 
-              if (transcriptData?.translation_cache_ids && typeof transcriptData.translation_cache_ids === 'object') {
-                const cacheId = (transcriptData.translation_cache_ids as Record<string, string>)[selectedLanguage]
-                
-                if (cacheId) {
-                  console.log(`🔍 Looking up translation cache ID: ${cacheId} for new transcript`)
-                  
-                  const { data: cache, error: cacheError } = await supabase
-                    .from('translation_cache')
-                    .select('*')
-                    .eq('id', cacheId)
-                    .single()
-
-                  if (cacheError) {
-                    console.error(`❌ Error loading translation cache for new transcript:`, cacheError)
-                  }
-
-                  if (cache) {
-                    console.log(`✅ Found cached translation for new transcript: "${cache.translated_text.substring(0, 30)}..."`)
-                    setTranscript((prev) =>
-                      prev.map((line) =>
-                        line.id === newId
-                          ? {
-                              ...line,
-                              translated: cache.translated_text,
-                              isTranslating: false,
-                              translationQuality: cache.quality_score,
-                            }
-                          : line,
-                      ),
-                    )
-                  } else {
-                    console.log(`⏳ Cache ID exists but translation not found: ${cacheId}`)
-                  }
-                } else {
-                  console.log(`⏳ No cache ID for language ${selectedLanguage} in new transcript`)
-                }
-              } else {
-                console.log(`⏳ No translation_cache_ids found for new transcript (status: ${transcriptData?.translation_status})`)
-                
-                // 번역이 아직 진행 중인 경우, 더 오래 기다린 후 다시 시도
-                if (transcriptData?.translation_status === 'processing') {
-                  console.log(`⏳ Translation still processing, will retry in 2 seconds...`)
-                  setTimeout(async () => {
-                    try {
-                      const { data: retryData } = await supabase
-                        .from('transcripts')
-                        .select('translation_cache_ids')
-                        .eq('session_id', sessionId)
-                        .ilike('original_text', `%${newText.trim()}%`)
-                        .order('created_at', { ascending: false })
-                        .limit(1)
-                        .maybeSingle()
-
-                      if (retryData?.translation_cache_ids && typeof retryData.translation_cache_ids === 'object') {
-                        const retryCacheId = (retryData.translation_cache_ids as Record<string, string>)[selectedLanguage]
-                        if (retryCacheId) {
-                          console.log(`🔄 Retry: Looking up translation cache ID: ${retryCacheId}`)
-                          
-                          const { data: retryCache } = await supabase
-                            .from('translation_cache')
-                            .select('*')
-                            .eq('id', retryCacheId)
-                            .single()
-
-                          if (retryCache) {
-                            console.log(`✅ Retry successful: Found cached translation`)
-                            setTranscript((prev) =>
-                              prev.map((line) =>
-                                line.id === newId
-                                  ? {
-                                      ...line,
-                                      translated: retryCache.translated_text,
-                                      isTranslating: false,
-                                      translationQuality: retryCache.quality_score,
-                                    }
-                                  : line,
-                              ),
-                            )
-                          }
-                        }
-                      }
-                    } catch (retryError) {
-                      console.error('Retry cache check error:', retryError)
-                    }
-                  }, 2000) // 2초 후 재시도
-                }
+      setTranscript((prev) =>
+        prev.map((line) =>
+          line.id === event.transcriptId
+            ? {
+                ...line,
+                translated: event.text,
+                translatedLanguage: event.language,
+                translationQuality: event.quality,
+                isTranslating: false,
               }
-              // 캐시에 없으면 Realtime 구독이 처리할 것임
-            } catch (error) {
-              console.error('Cache check error:', error)
-            }
-          }, 1000) // 1초 후 확인
-        }
-      }
-    },
-    [selectedLanguage, session, translationEnabled, supabase],
-  )
+            : line,
+        ),
+      )
+      setTranslationStats((prev) =>
+        event.replay ? { ...prev, cached: prev.cached + 1 } : { ...prev, completed: prev.completed + 1 },
+      )
+    })
 
-  // Subscribe to real-time transcript updates
-  useEffect(() => {
-    if (!sessionId) return
+    // 🆕 호스트가 삭제하거나 다른 줄로 합친 줄
+    eventSource.addEventListener('removed', (message) => {
+      const event = parseEvent(message)
+      if (!event) return
 
-    console.log('🔄 Setting up real-time transcript subscription:', {
-      sessionId,
-      hasJoined,
-      timestamp: new Date().toLocaleTimeString(),
+      console.log(`🗑️ Caption removed by host: ${event.transcriptId}`)
+      setTranscript((prev) => prev.filter((line) => line.id !== event.transcriptId))
     })
 
-    const channel = supabase
-      .channel(`public:transcripts-${sessionId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'transcripts',
-          filter: `session_id=eq.${sessionId}`,
-        },
-        (payload) => {
-          console.log('📨 New transcript received:', payload.new)
-          const newTranscript = payload.new as { original_text: string }
-          
-          handleTranscriptUpdate(newTranscript.original_text, false)
-        },
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'transcripts',
-          filter: `session_id=eq.${sessionId}`,
-        },
-        async (payload) => {
-          console.log('📨 Transcript updated:', payload.new)
-          const updatedTranscript = payload.new as { 
-            id: string
-            original_text: string
-            translation_cache_ids: Record<string, string> | null
-          }
+    eventSource.addEventListener('ready', (message) => {
+      console.log('✅ Caption stream ready:', JSON.parse(message.data))
+    })
 
-          // 🆕 translation_cache_ids가 업데이트되었을 때 검수된 텍스트로 업데이트
-          if (updatedTranscript.translation_cache_ids && typeof updatedTranscript.translation_cache_ids === 'object') {
-            const enCacheId = updatedTranscript.translation_cache_ids['en']
-            
-            if (enCacheId) {
-              console.log(`🔍 Transcript updated with English cache ID: ${enCacheId}`)
-              
-              try {
-                const { data: reviewedCache, error: reviewedError } = await supabase
-                .from('translation_cache')
-                  .select('translated_text')
-                  .eq('id', enCacheId)
-                .maybeSingle()
-              
-                if (reviewedError) {
-                  console.error(`❌ Error loading reviewed text for update:`, reviewedError)
-                }
-
-              if (reviewedCache) {
-                  console.log(`✅ Updating transcript with reviewed text: "${reviewedCache.translated_text.substring(0, 30)}..."`)
-                  
-                setTranscript((prev) => 
-                  prev.map((line) => {
-                      // 원본 텍스트와 매칭되는 라인 찾기
-                      if (line.original === updatedTranscript.original_text || 
-                          line.original.includes(updatedTranscript.original_text.substring(0, 20)) ||
-                          updatedTranscript.original_text.includes(line.original.substring(0, 20))) {
-                      return {
-                        ...line,
-                          original: reviewedCache.translated_text,
-                      }
-                    }
-                    return line
-                    }),
-                )
-              }
-            } catch (error) {
-                console.error('Error updating transcript with reviewed text:', error)
-            }
-            }
-          }
-        },
-      )
-      .subscribe((status) => {
-        console.log('📡 Real-time subscription status:', status)
-      })
+    eventSource.onerror = () => {
+      // EventSource 가 retry 간격 후 자동으로 재연결
+      console.warn('⚠️ Caption stream disconnected, reconnecting...')
+    }
 
     return () => {
-      console.log('🧹 Cleaning up real-time subscription')
-      supabase.removeChannel(channel)
+      console.log('🧹 Closing caption stream')
+      if (partialTimer) clearTimeout(partialTimer)
+      eventSource.close()
     }
-  }, [sessionId, supabase, handleTranscriptUpdate])
+  }, [sessionId, streamLanguage, hostName])
 
   // Update participant count
   const updateParticipantCount = useCallback(async () => {
@@ -1405,121 +703,6 @@ export default function PublicSessionPage() {
     }
   }, [sessionId, supabase, addToast])
 
-  // 언어 변경시 번역 처리 (완전 개선된 버전)
-  useEffect(() => {
-    if (!translationEnabled) {
-      // 번역 비활성화시 원문으로 리셋
-      setTranscript((prev) =>
-        prev.map((line) => ({
-          ...line,
-          translated: line.original,
-          translatedLanguage: 'en',
-          isTranslating: false,
-        })),
-      )
-      setTranslationStats({ cached: 0, processing: 0, completed: 0 })
-      return
-    }
-
-    // 언어 변경 시에만 실행
-    console.log(`🔄 Language changed to ${selectedLanguage}, updating translations...`)
-
-    setTranscript((prev) => {
-      if (prev.length === 0) return prev
-
-      // 영어인 경우 즉시 passthrough
-      if (selectedLanguage === 'en') {
-        return prev.map((line) => ({
-          ...line,
-          translated: line.original && typeof line.original === 'string' ? line.original : '',
-          translatedLanguage: 'en',
-          isTranslating: false,
-        }))
-      }
-
-      // 다른 언어인 경우 번역 중 상태로 설정
-      return prev.map((line) => ({
-        ...line,
-        translated: `[Translating...] ${line.original}`,
-        translatedLanguage: selectedLanguage,
-        isTranslating: true,
-      }))
-    })
-
-    // 캐시에서 번역 확인 (개선된 버전)
-    if (selectedLanguage !== 'en') {
-      setTimeout(async () => {
-        try {
-          const currentTranscripts = await new Promise<TranscriptLine[]>((resolve) => {
-            setTranscript((prev) => {
-              resolve([...prev])
-              return prev
-            })
-          })
-
-          console.log(`🔍 Checking cache for ${currentTranscripts.length} transcripts in ${selectedLanguage}`)
-          
-          let foundCount = 0
-          let notFoundCount = 0
-
-          for (const line of currentTranscripts) {
-            if (!line || !line.original || typeof line.original !== 'string') continue
-
-            try {
-              // translation_cache_ids를 사용해서 번역 가져오기
-              if (line.translation_cache_ids && typeof line.translation_cache_ids === 'object') {
-                const cacheId = (line.translation_cache_ids as Record<string, string>)[selectedLanguage]
-                
-                if (cacheId) {
-                  console.log(`🔍 Looking up translation cache ID: ${cacheId} for language: ${selectedLanguage}`)
-                  
-                  const { data: cache } = await supabase
-                    .from('translation_cache')
-                    .select('*')
-                    .eq('id', cacheId)
-                    .single()
-
-                  if (cache) {
-                    foundCount++
-                    console.log(`✅ Found cached translation via ID: "${line.original.substring(0, 30)}..." → "${cache.translated_text.substring(0, 30)}..."`)
-                    setTranscript((prev) =>
-                      prev.map((l) =>
-                        l.id === line.id
-                          ? {
-                              ...l,
-                              translated: cache.translated_text,
-                              isTranslating: false,
-                              translationQuality: cache.quality_score,
-                            }
-                          : l,
-                      ),
-                    )
-                  } else {
-                    notFoundCount++
-                    console.log(`⏳ Cache ID exists but translation not found: ${cacheId}`)
-                  }
-                } else {
-                  notFoundCount++
-                  console.log(`⏳ No cache ID for language ${selectedLanguage}: "${line.original.substring(0, 30)}..."`)
-                }
-              } else {
-                notFoundCount++
-                console.log(`⏳ No translation_cache_ids found: "${line.original.substring(0, 30)}..."`)
-              }
-            } catch (error) {
-              console.error('Cache check error:', error)
-              notFoundCount++
-            }
-          }
-          
-          console.log(`📊 Cache check complete: ${foundCount} found, ${notFoundCount} not found`)
-        } catch (error) {
-          console.error('Error during cache check:', error)
-        }
-      }, 500)
-    }
-  }, [selectedLanguage, translationEnabled, supabase]) // transcript 제거
-
   // Clear cache when translation is disabled
   useEffect(() => {
     if (!translationEnabled) {
@@ -1549,7 +732,14 @@ export default function PublicSessionPage() {
       }
 
       const textContent = transcript
-        .filter((line) => line && line.original && typeof line.original === 'string' && line.original.trim().length > 0)
+        .filter(
+          (line) =>
+            line &&
+            !line.isPartial &&
+            line.original &&
+            typeof line.original === 'string' &&
+            line.original.trim().length > 0,
+        )
         .map((line, index) => {
           const text = type === 'original' ? line.original : line.translated || line.original
           return textOnlyMode ? text : `${index + 1}. ${text}`
@@ -1640,7 +830,10 @@ export default function PublicSessionPage() {
               return (
                 <div
                   key={`text-only-${type}-${line.id}`}
-                  className={`leading-relaxed ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}
+                  data-line-id={line.id}
+                  className={`leading-relaxed ${
+                    line.isPartial ? 'text-gray-400 italic' : darkMode ? 'text-gray-100' : 'text-gray-900'
+                  }`}
                   style={{ fontSize: `${fontSize[0]}px` }}
                 >
                   {text}
@@ -1661,7 +854,11 @@ export default function PublicSessionPage() {
             const text = type === 'original' ? line.original : line.translated || line.original
 
             return (
-              <div key={`${type}-${line.original}-${line.translatedLanguage}-${idx}`} className='group'>
+              <div
+                key={`${type}-${line.original}-${line.translatedLanguage}-${idx}`}
+                data-line-id={line.id}
+                className='group'
+              >
                 {/* Timestamp */}
                 {showTimestamps && (
                   <div
@@ -1674,6 +871,12 @@ export default function PublicSessionPage() {
                     <span>{line.timestamp}</span>
                     <span>•</span>
                     <span>{type === 'original' ? line.speaker : selectedLang?.name}</span>
+                    {line.isPartial && (
+                      <>
+                        <span>•</span>
+                        <span className='animate-pulse'>{t('typing')}</span>
+                      </>
+                    )}
                     {type === 'translation' && line.isTranslating && (
                       <>
                         <span>•</span>
@@ -1694,9 +897,11 @@ export default function PublicSessionPage() {
                   </div>
                 )}
 
-                {/* Main Text */}
+                {/* Main Text (partial 은 회색 typing 줄) */}
                 <div
-                  className={`mb-1 leading-relaxed ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}
+                  className={`mb-1 leading-relaxed ${
+                    line.isPartial ? 'text-gray-400 italic' : darkMode ? 'text-gray-100' : 'text-gray-900'
+                  }`}
                   style={{ fontSize: `${fontSize[0]}px` }}
                 >
                   {text}
@@ -2211,7 +1416,11 @@ export default function PublicSessionPage() {
 
       {/* Toast Notifications */}
       <ToastContainer toasts={toasts} onRemove={removeToast} />
-      <ChatbotWidget transcript={transcript.map((line) => line.original).join('\n')} sessionId={sessionId || ''} />
+      <ChatbotWidget sessionId={sessionId || ''} language={translationEnabled ? selectedLanguage : undefined} />
+      {/* 🆕 지금까지 요약 (live summary) */}
+      {sessionId && (
+        <CatchUpPanel sessionId={sessionId} language={selectedLanguage} supabase={supabase} darkMode={darkMode} />
+      )}
     </div>
   )
 }
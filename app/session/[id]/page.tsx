@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Slider } from '@/components/ui/slider'
@@ -11,6 +11,13 @@ import { useSession, useUser } from '@clerk/nextjs'
 import { createClient } from '@/lib/supabase/client'
 import { Session, Transcript } from '@/lib/types'
 import type { TranscriptLine, TranslationResponse } from '@/lib/types'
+import {
+  getSpeakerKey,
+  isKnownSpeakerKey,
+  loadSpeakerDirectory,
+  resolveSpeakerName,
+  type SpeakerDirectory,
+} from '@/lib/speakers'
 import ChatbotWidget from '@/components/ChatbotWidget'
 //import Chatbot from '@/components/Chatbot'
 
@@ -34,6 +41,7 @@ export default function SessionPage() {
   const [isSaved, setIsSaved] = useState(false)
   const [session, setSession] = useState<Session | null>(null)
   const [participantCount, setParticipantCount] = useState(0)
+  const speakerDirectoryRef = useRef<SpeakerDirectory | null>(null) // 🆕 화자 이름 (공동 발표자 참여 시 다시 조회)
 
   const languages = [
     { code: 'ko', name: 'Korean', flag: '🇰🇷' },
@@ -136,12 +144,20 @@ export default function SessionPage() {
           // 번역된 텍스트 가져오기 (개선된 캐싱 시스템 활용)
           const translatedText = await translateText(newTranscript.original_text, selectedLanguage)
 
+          // 🆕 누가 말했는지 (호스트 / 공동 발표자 / 화자 분리 라벨)
+          const speakerKey = getSpeakerKey(newTranscript)
+          let directory = speakerDirectoryRef.current
+          if (!directory || !isKnownSpeakerKey(speakerKey, directory)) {
+            directory = await loadSpeakerDirectory(supabase, sessionId)
+            speakerDirectoryRef.current = directory
+          }
+
           const newLine: TranscriptLine = {
             id: newTranscript.id,
             timestamp: newTranscript.timestamp,
             original: newTranscript.original_text,
             translated: translatedText,
-            speaker: session?.host_name,
+            speaker: resolveSpeakerName(speakerKey, directory),
             isTranslating: false,
           }
 
@@ -153,7 +169,7 @@ export default function SessionPage() {
     return () => {
       supabase.removeChannel(channel)
     }
-  }, [sessionId, selectedLanguage, session?.host_name, supabase, translateText])
+  }, [sessionId, selectedLanguage, supabase, translateText])
 
   // Update participant count function
   const updateParticipantCount = useCallback(async () => {
@@ -235,7 +251,11 @@ export default function SessionPage() {
 
   const getTabContent = (type: 'original' | 'translated') => {
     return transcript.map((line) => (
-      <div key={`${line.id}-${type}`} className={`mb-3 rounded-lg p-3 ${darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
+      <div
+        key={`${line.id}-${type}`}
+        data-line-id={line.id}
+        className={`mb-3 rounded-lg p-3 ${darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}
+      >
         {showTimestamps && (
           <div className={`mb-2 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
             {line.timestamp} {line.speaker && `• ${line.speaker}`}
@@ -444,7 +464,7 @@ export default function SessionPage() {
       )}
 
       {/* Chatbot for live session */}
-      <ChatbotWidget transcript={transcript.map((line) => line.original).join('\n')} sessionId={sessionId} />
+      <ChatbotWidget sessionId={sessionId} language={selectedLanguage} />
     </div>
   )
 }
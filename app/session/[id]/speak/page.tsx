@@ -0,0 +1,270 @@
+'use client'
+
+import { Suspense, useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useParams, useSearchParams } from 'next/navigation'
+import { useSession, useUser } from '@clerk/nextjs'
+import { AlertCircle, Loader2, Mic, MicOff } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { RealtimeSTT } from '@/components/RealtimeSTT'
+import { ServerSTT } from '@/components/ServerSTT'
+import { StreamingSTT } from '@/components/StreamingSTT'
+import { createClient } from '@/lib/supabase/client'
+import { getSttProxyUrl, normalizeSttProvider } from '@/lib/stt-providers'
+import type { Session, SessionParticipant } from '@/lib/types'
+
+// 🆕 공동 발표자 페이지 (/session/[id]/speak?token=...)
+// 호스트가 공유한 초대 링크로 speaker 로 참여하고, 세션과 같은 STT 엔진으로 자기 마이크를 전사한다.
+// 저장되는 transcript 에는 speaker_id(session_participants.id)가 붙어 청중 / 내보내기 / 요약에 이름이 표시된다.
+
+interface SpokenLine {
+  id: string
+  timestamp: string
+  text: string
+}
+
+function CoSpeakerView() {
+  const params = useParams()
+  const searchParams = useSearchParams()
+  const sessionId = params.id as string
+  const token = searchParams.get('token') || ''
+
+  const { isLoaded, isSignedIn, user } = useUser()
+  const { session: clerkSession } = useSession()
+  const supabase = createClient(clerkSession?.getToken() ?? Promise.resolve(null))
+
+  const [session, setSession] = useState<Session | null>(null)
+  const [participant, setParticipant] = useState<SessionParticipant | null>(null)
+  const [joinError, setJoinError] = useState<string | null>(null)
+  const [isRecording, setIsRecording] = useState(false)
+  const [sttError, setSTTError] = useState<string | null>(null)
+  const [lines, setLines] = useState<SpokenLine[]>([])
+  const [partialText, setPartialText] = useState('')
+
+  // 초대 토큰으로 speaker 참여 + 세션 정보 조회
+  useEffect(() => {
+    if (!isSignedIn || !user || !sessionId) return
+
+    const join = async () => {
+      try {
+        const response = await fetch(`/api/session/${sessionId}/speakers`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token, userName: user.fullName || user.primaryEmailAddress?.emailAddress }),
+        })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to join as speaker')
+
+        const { data: sessionData, error } = await supabase.from('sessions').select('*').eq('id', sessionId).single()
+        if (error || !sessionData) throw new Error('Session not found')
+
+        setParticipant(data.participant)
+        setSession(sessionData)
+        console.log(`✅ Joined session ${sessionId} as co-speaker (${data.participant.id})`)
+      } catch (error) {
+        console.error('❌ Co-speaker join failed:', error)
+        setJoinError(error instanceof Error ? error.message : 'Failed to join as speaker')
+      }
+    }
+
+    join()
+    // supabase 클라이언트는 렌더마다 새로 만들어지므로 의존성에서 제외
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isSignedIn, user, sessionId, token])
+
+  // 호스트가 세션을 끝내면 녹음 중지
+  useEffect(() => {
+    if (!session) return
+
+    const channel = supabase
+      .channel(`speaker-session-${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'sessions', filter: `id=eq.${sessionId}` },
+        (payload) => {
+          const updated = payload.new as Session
+          if (updated.status !== 'active') {
+            console.log('🛑 Session ended by host, stopping co-speaker microphone')
+            setIsRecording(false)
+            setSession(updated)
+          }
+        },
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session?.id, sessionId])
+
+  const handleTranscriptUpdate = useCallback((text: string, isPartial: boolean) => {
+    if (isPartial) {
+      setPartialText(text)
+      return
+    }
+
+    setLines((prev) => [
+      ...prev,
+      { id: `${Date.now()}-${prev.length}`, timestamp: new Date().toLocaleTimeString(), text: text.trim() },
+    ])
+    setPartialText('')
+  }, [])
+
+  const handleSTTError = useCallback((error: string) => {
+    console.error('Co-speaker STT error:', error)
+    setSTTError(error)
+  }, [])
+
+  if (!isLoaded) {
+    return (
+      <div className='flex min-h-screen items-center justify-center'>
+        <Loader2 className='h-6 w-6 animate-spin text-gray-500' />
+      </div>
+    )
+  }
+
+  if (!isSignedIn) {
+    const redirectUrl = `/session/${sessionId}/speak?token=${encodeURIComponent(token)}`
+    return (
+      <div className='flex min-h-screen items-center justify-center bg-gray-50 p-4'>
+        <Card className='w-full max-w-md'>
+          <CardHeader>
+            <CardTitle>Join as a speaker</CardTitle>
+            <CardDescription>Sign in so your lines are shown with your name.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Button asChild className='w-full'>
+              <Link href={`/auth?redirect_url=${encodeURIComponent(redirectUrl)}`}>Sign in</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (joinError) {
+    return (
+      <div className='flex min-h-screen items-center justify-center bg-gray-50 p-4'>
+        <Card className='w-full max-w-md'>
+          <CardContent className='flex items-center space-x-2 pt-6 text-red-600'>
+            <AlertCircle className='h-5 w-5' />
+            <span>{joinError}</span>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!session || !participant) {
+    return (
+      <div className='flex min-h-screen items-center justify-center'>
+        <Loader2 className='h-6 w-6 animate-spin text-gray-500' />
+      </div>
+    )
+  }
+
+  const sttProvider = normalizeSttProvider(session.stt_provider)
+  const lang = session.primary_language === 'auto' ? undefined : session.primary_language
+  const isActive = session.status === 'active'
+
+  return (
+    <div className='min-h-screen bg-gray-50 p-4'>
+      <div className='mx-auto max-w-2xl space-y-4'>
+        <Card>
+          <CardHeader>
+            <CardTitle>{session.title}</CardTitle>
+            <CardDescription>
+              Speaking as <span className='font-medium text-gray-900'>{participant.user_name}</span> in{' '}
+              {session.host_name}&apos;s session
+            </CardDescription>
+          </CardHeader>
+          <CardContent className='space-y-4'>
+            {isActive ? (
+              <Button
+                onClick={() => {
+                  setSTTError(null)
+                  setIsRecording((recording) => !recording)
+                }}
+                variant={isRecording ? 'destructive' : 'default'}
+                className='w-full'
+              >
+                {isRecording ? <MicOff className='mr-2 h-4 w-4' /> : <Mic className='mr-2 h-4 w-4' />}
+                {isRecording ? 'Stop speaking' : 'Start speaking'}
+              </Button>
+            ) : (
+              <p className='text-sm text-gray-600'>This session has ended.</p>
+            )}
+
+            {sttProvider === 'deepgram' || (sttProvider === 'whisper' && getSttProxyUrl()) ? (
+              <StreamingSTT
+                sessionId={sessionId}
+                isRecording={isRecording}
+                provider={sttProvider === 'deepgram' ? 'deepgram' : 'whisper'}
+                onTranscriptUpdate={handleTranscriptUpdate}
+                onError={handleSTTError}
+                speakerId={participant.id}
+              />
+            ) : sttProvider === 'whisper' ? (
+              <ServerSTT
+                sessionId={sessionId}
+                isRecording={isRecording}
+                onTranscriptUpdate={handleTranscriptUpdate}
+                onError={handleSTTError}
+                lang={lang}
+                speakerId={participant.id}
+              />
+            ) : (
+              <RealtimeSTT
+                sessionId={sessionId}
+                isRecording={isRecording}
+                onTranscriptUpdate={handleTranscriptUpdate}
+                onError={handleSTTError}
+                lang={lang}
+                speakerId={participant.id}
+              />
+            )}
+
+            {sttError && (
+              <div className='flex items-center space-x-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700'>
+                <AlertCircle className='h-4 w-4' />
+                <span>{sttError}</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className='text-base'>Your lines</CardTitle>
+          </CardHeader>
+          <CardContent className='space-y-2'>
+            {lines.length === 0 && !partialText && <p className='text-sm text-gray-500'>Nothing spoken yet.</p>}
+            {lines.map((line) => (
+              <div key={line.id} className='rounded border bg-white p-2 text-sm'>
+                <span className='mr-2 text-xs text-gray-500'>{line.timestamp}</span>
+                {line.text}
+              </div>
+            ))}
+            {partialText && <div className='rounded border border-dashed p-2 text-sm text-gray-500'>{partialText}</div>}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default function CoSpeakerPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className='flex min-h-screen items-center justify-center'>
+          <Loader2 className='h-6 w-6 animate-spin text-gray-500' />
+        </div>
+      }
+    >
+      <CoSpeakerView />
+    </Suspense>
+  )
+}
@@ -1,20 +1,41 @@
 'use client'
 
-import { useState, useEffect, useCallback, useRef } from 'react'
+import { Fragment, useState, useEffect, useCallback, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Slider } from '@/components/ui/slider'
 import { Label } from '@/components/ui/label'
-import { ArrowLeft, FileText, Languages, ChevronRight, Settings, Loader2 } from 'lucide-react'
+import { ArrowLeft, FileText, Languages, ChevronRight, Settings, Loader2, Download } from 'lucide-react'
 import { useParams, useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
 import { useToast, ToastContainer } from '@/components/ui/toast'
 import { Session, Transcript } from '@/lib/types'
-import type { TranslationResponse } from '@/lib/types'
+import type {
+  SessionChapter,
+  SummaryDocument,
+  TranscriptEditResult,
+  TranslationJobStatus,
+  TranslationResponse,
+} from '@/lib/types'
 import Link from 'next/link'
 import ChatbotWidget from '@/components/ChatbotWidget'
+import { TranscriptLineEditor } from '@/components/TranscriptLineEditor'
+import { SummaryDocumentView } from '@/components/SummaryDocumentView'
+import { getSummaryDocumentText, renderSummaryMarkdown, toSummaryDocument } from '@/lib/summary-document'
+import { SessionChaptersCard } from '@/components/SessionChaptersCard'
+import {
+  findChapterStartLineId,
+  getChapterIndexFromHash,
+  getChapterStartMap,
+  getChapterTitle,
+  toSessionChapters,
+} from '@/lib/chapters'
+import { getTranscriptLineIdFromHash, scrollToTranscriptLine } from '@/lib/chat-citations'
 import { useSession, useUser } from '@clerk/nextjs'
 
+// 🆕 /api/translate/jobs 한 번에 보낼 수 있는 최대 작업 수 (서버 MAX_JOB_IDS 와 같게)
+const TRANSLATION_JOB_BATCH_SIZE = 200
+
 export default function SessionTranscriptPage() {
   const params = useParams()
   const router = useRouter()
@@ -40,14 +61,22 @@ export default function SessionTranscriptPage() {
   const [translatingIds, setTranslatingIds] = useState<Set<string>>(new Set())
   const translationCache = useRef<Map<string, string>>(new Map())
 
+  // 🆕 번역 작업 일괄 polling (jobId → 결과 대기 중인 번역)
+  const pendingJobs = useRef<Map<string, { resolve: (text: string) => void; fallback: string; deadline: number }>>(
+    new Map(),
+  )
+  const jobPollTimer = useRef<NodeJS.Timeout | null>(null)
+
   // 🆕 텍스트만 보기 상태
   const [textOnlyMode, setTextOnlyMode] = useState(false)
 
   // 🆕 요약 관련 상태
   const [summary, setSummary] = useState<string | null>(null)
+  const [summaryDoc, setSummaryDoc] = useState<SummaryDocument | null>(null) // 🆕 구조화된 요약 (이전 세션은 null)
   const [summaryLoading, setSummaryLoading] = useState(false)
   const [summaryError, setSummaryError] = useState<string | null>(null)
   const [translatedSummary, setTranslatedSummary] = useState<string>('')
+  const [translatedSummaryDoc, setTranslatedSummaryDoc] = useState<SummaryDocument | null>(null)
   const [summaryTranslating, setSummaryTranslating] = useState(false)
 
   // 🚀 모든 지원 언어 제공 (자동 번역 지원)
@@ -89,10 +118,11 @@ export default function SessionTranscriptPage() {
         // 🆕 검수된 원문 텍스트로 업데이트
         const updatedTranscripts = await Promise.all(
           (transcripts || []).map(async (t) => {
-            let originalText = t.original_text
+            // 🆕 호스트가 고친 줄은 reviewed_text 가 최종 문장
+            let originalText = t.edited_at && t.reviewed_text ? t.reviewed_text : t.original_text
             
             // translation_cache_ids가 있으면 검수된 텍스트 가져오기
-            if (t.translation_cache_ids && t.translation_cache_ids.en) {
+            if (!t.edited_at && t.translation_cache_ids && t.translation_cache_ids.en) {
               try {
                 const { data: reviewedCache } = await supabase
                   .from('translation_cache')
@@ -145,13 +175,16 @@ export default function SessionTranscriptPage() {
 
       if (response.ok) {
         const data = await response.json()
+        const document = toSummaryDocument(data.summaryDoc)
         setSummary(data.summary)
+        setSummaryDoc(document)
 
         // 요약 로드 후 즉시 번역 실행
         if (data.summary && showTranslation && selectedLanguage !== 'en') {
-          await translateSummary(data.summary, selectedLanguage)
+          await translateSummary(data.summary, selectedLanguage, document)
         } else if (data.summary) {
           setTranslatedSummary(data.summary)
+          setTranslatedSummaryDoc(document)
         }
       } else if (response.status === 404) {
         // 요약이 없는 경우 - 생성 시도
@@ -186,13 +219,18 @@ export default function SessionTranscriptPage() {
 
         if (response.ok) {
           const data = await response.json()
+          const document = toSummaryDocument(data.summaryDoc)
           setSummary(data.summary)
+          setSummaryDoc(document)
+          // 🆕 요약을 다시 만들면 챕터도 다시 나눠서 같이 옴
+          if (data.chapters) setSession((prev) => (prev ? { ...prev, chapters: data.chapters } : prev))
 
           // 요약 생성 후 즉시 번역 실행
           if (data.summary && showTranslation && selectedLanguage !== 'en') {
-            await translateSummary(data.summary, selectedLanguage)
+            await translateSummary(data.summary, selectedLanguage, document)
           } else if (data.summary) {
             setTranslatedSummary(data.summary)
+            setTranslatedSummaryDoc(document)
           }
 
           addToast({
@@ -223,9 +261,10 @@ export default function SessionTranscriptPage() {
 
   // 🆕 요약 번역 함수 (새로운 캐시 시스템 사용)
   const translateSummary = useCallback(
-    async (summaryText: string, targetLang: string) => {
+    async (summaryText: string, targetLang: string, englishDoc: SummaryDocument | null = null) => {
       if (!summaryText || targetLang === 'en') {
         setTranslatedSummary(summaryText)
+        setTranslatedSummaryDoc(englishDoc)
         return
       }
 
@@ -235,24 +274,29 @@ export default function SessionTranscriptPage() {
         // session_summary_cache에서 번역된 요약 찾기
         const { data: cachedSummary, error } = await supabase
           .from('session_summary_cache')
-          .select('summary_text')
+          .select('summary_text, summary_doc')
           .eq('session_id', sessionId)
           .eq('language_code', targetLang)
+          .eq('kind', 'final')
           .maybeSingle()
 
         if (error) {
           console.error('Error loading summary translation:', error)
           setTranslatedSummary(summaryText) // 실패 시 영어 원문 표시
+          setTranslatedSummaryDoc(englishDoc)
         } else if (cachedSummary) {
           setTranslatedSummary(cachedSummary.summary_text)
+          setTranslatedSummaryDoc(toSummaryDocument(cachedSummary.summary_doc))
           console.log(`✅ Loaded ${targetLang} summary translation from cache`)
         } else {
           console.log(`⚠️ No ${targetLang} summary translation found, using original`)
           setTranslatedSummary(summaryText)
+          setTranslatedSummaryDoc(englishDoc)
         }
       } catch (error) {
         console.error('Error loading summary translation:', error)
         setTranslatedSummary(summaryText)
+        setTranslatedSummaryDoc(englishDoc)
       } finally {
         setSummaryTranslating(false)
       }
@@ -345,11 +389,89 @@ export default function SessionTranscriptPage() {
   // 🆕 요약 번역 실행 (요약 로드 시 또는 언어 변경 시)
   useEffect(() => {
     if (summary && showTranslation) {
-      translateSummary(summary, selectedLanguage)
+      translateSummary(summary, selectedLanguage, summaryDoc)
     } else if (summary) {
       setTranslatedSummary(summary) // 번역 비활성화 시 원문 표시
+      setTranslatedSummaryDoc(summaryDoc)
+    }
+  }, [summary, summaryDoc, selectedLanguage, showTranslation, translateSummary])
+
+  // 🆕 대기 중인 번역 작업을 한 번의 요청으로 확인
+  const pollTranslationJobs = useCallback(async () => {
+    jobPollTimer.current = null
+    const jobIds = Array.from(pendingJobs.current.keys())
+    if (jobIds.length === 0) return
+
+    // 긴 세션을 번역하면 대기 작업이 서버 한도를 넘으므로 나눠서 확인
+    for (let i = 0; i < jobIds.length; i += TRANSLATION_JOB_BATCH_SIZE) {
+      try {
+        const response = await fetch('/api/translate/jobs', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ jobIds: jobIds.slice(i, i + TRANSLATION_JOB_BATCH_SIZE) }),
+        })
+
+        if (!response.ok) {
+          console.warn(`Translation job status check failed: ${response.status}`)
+          continue
+        }
+
+        const { jobs }: { jobs: TranslationJobStatus[] } = await response.json()
+
+        for (const job of jobs) {
+          const pending = pendingJobs.current.get(job.jobId)
+          if (!pending) continue
+
+          if (job.status === 'completed' && job.translatedText) {
+            console.log(`✅ Real translation received: ${job.engine}`)
+            pending.resolve(job.translatedText)
+            pendingJobs.current.delete(job.jobId)
+          } else if (job.status === 'failed') {
+            console.warn(`❌ Translation job ${job.jobId} failed: ${job.error}`)
+            pending.resolve(pending.fallback)
+            pendingJobs.current.delete(job.jobId)
+          }
+        }
+      } catch (error) {
+        console.warn('Translation job status check failed:', error)
+      }
+    }
+
+    // 시간 초과된 작업은 Mock 번역으로 정리
+    const now = Date.now()
+    for (const [jobId, pending] of pendingJobs.current) {
+      if (pending.deadline < now) {
+        pending.resolve(pending.fallback)
+        pendingJobs.current.delete(jobId)
+      }
+    }
+
+    if (pendingJobs.current.size > 0) {
+      jobPollTimer.current = setTimeout(pollTranslationJobs, 1500)
     }
-  }, [summary, selectedLanguage, showTranslation, translateSummary])
+  }, [])
+
+  const waitForTranslationJob = useCallback(
+    (jobId: string, fallback: string): Promise<string> =>
+      new Promise((resolve) => {
+        pendingJobs.current.set(jobId, { resolve, fallback, deadline: Date.now() + 20000 })
+        if (!jobPollTimer.current) {
+          jobPollTimer.current = setTimeout(pollTranslationJobs, 1000)
+        }
+      }),
+    [pollTranslationJobs],
+  )
+
+  // 언마운트 시 polling 정리
+  useEffect(() => {
+    const jobs = pendingJobs.current
+    return () => {
+      if (jobPollTimer.current) clearTimeout(jobPollTimer.current)
+      jobs.clear()
+    }
+  }, [])
 
   // 번역 함수
   const translateText = useCallback(
@@ -383,30 +505,10 @@ export default function SessionTranscriptPage() {
         const result: TranslationResponse = await response.json()
         let translatedText = result.translatedText
 
-        // Mock 번역인 경우 실제 번역 기다리기
-        if (result.isProcessing && result.engine === 'mock') {
-          console.log(`⏳ Waiting for real translation...`)
-
-          // 몇 번 재시도해서 실제 번역 가져오기
-          for (let i = 0; i < 5; i++) {
-            await new Promise((resolve) => setTimeout(resolve, 1000 * (i + 1)))
-
-            try {
-              const statusResponse = await fetch(
-                `/api/translate?text=${encodeURIComponent(text)}&targetLanguage=${targetLang}`,
-              )
-              if (statusResponse.ok) {
-                const statusResult = await statusResponse.json()
-                if (statusResult.completed) {
-                  translatedText = statusResult.translatedText
-                  console.log(`✅ Real translation received: ${statusResult.engine}`)
-                  break
-                }
-              }
-            } catch (error) {
-              console.warn('Translation status check failed:', error)
-            }
-          }
+        // Mock 번역인 경우 작업 완료까지 대기 (일괄 polling)
+        if (result.isProcessing && result.jobId) {
+          console.log(`⏳ Waiting for real translation (job ${result.jobId})...`)
+          translatedText = await waitForTranslationJob(result.jobId, translatedText)
         }
 
         // 캐시에 저장
@@ -417,7 +519,7 @@ export default function SessionTranscriptPage() {
         return `[번역 실패] ${text}`
       }
     },
-    [sessionId],
+    [sessionId, waitForTranslationJob],
   )
 
   // 번역 활성화/언어 변경시 번역 수행
@@ -480,6 +582,17 @@ export default function SessionTranscriptPage() {
   }, [showTranslation, selectedLanguage, transcript, translateText])
 
   const selectedLang = languages.find((lang) => lang.code === selectedLanguage)
+  // 🆕 지금 보여주는 요약 문서 (번역이 없으면 영어 문서, 요약 문서가 없는 이전 세션은 null → HTML 요약 표시)
+  const displayedSummaryDoc =
+    showTranslation && selectedLanguage !== 'en' ? (translatedSummary ? translatedSummaryDoc : summaryDoc) : summaryDoc
+
+  // 🆕 자막 파일 다운로드 URL (번역 표시 중이면 선택한 언어로, kind=chapters 는 챕터 트랙)
+  const getSubtitleExportUrl = (format: 'srt' | 'vtt', kind: 'captions' | 'chapters' = 'captions') =>
+    `/api/session/${sessionId}/export?format=${format}${showTranslation ? `&lang=${selectedLanguage}` : ''}${kind === 'chapters' ? '&kind=chapters' : ''}`
+
+  // 🆕 문서(요약 + transcript) 다운로드 URL (번역 표시 중이면 원문 / 번역을 나란히)
+  const getDocumentExportUrl = (format: 'md' | 'docx' | 'pdf' | 'print') =>
+    `/api/session/${sessionId}/document?format=${format}${showTranslation ? `&lang=${selectedLanguage}&translation=1` : ''}`
 
   // 🆕 텍스트 복사 기능 (Toast 알림 적용)
   const copyTextOnly = useCallback(
@@ -554,6 +667,55 @@ export default function SessionTranscriptPage() {
     [transcript, translatedTexts, textOnlyMode, addToast],
   )
 
+  // 🆕 호스트 transcript 수정 반영 (고친 줄의 이전 번역은 버리고 다시 번역하게 함)
+  const isHost = !!user && !!session && user.id === session.host_id
+  const handleTranscriptEdit = useCallback((result: TranscriptEditResult) => {
+    const changedIds = [...result.removedIds, ...(result.transcript ? [result.transcript.id] : [])]
+
+    setTranscript((prev) =>
+      prev
+        .filter((line) => !result.removedIds.includes(line.id))
+        .map((line) =>
+          result.transcript && line.id === result.transcript.id
+            ? { ...result.transcript, original_text: result.transcript.reviewed_text || line.original_text }
+            : line,
+        ),
+    )
+    setTranslatedTexts((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => !changedIds.includes(id))))
+  }, [])
+
+  // 🆕 챕터 목차 (번역 표시 중이면 선택한 언어 제목)
+  const chapters = toSessionChapters(session?.chapters)
+  const chapterStarts = getChapterStartMap(chapters, transcript)
+  const chapterLanguage = showTranslation ? selectedLanguage : 'en'
+  const hashChapterHandled = useRef(false)
+
+  const jumpToChapter = (chapter: SessionChapter) => {
+    const lineId = findChapterStartLineId(chapter, transcript)
+    if (lineId) document.getElementById(`line-${lineId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+  }
+
+  // #chapter-N 링크로 열면 transcript 를 불러온 뒤 그 챕터로 이동 (한 번만)
+  useEffect(() => {
+    if (hashChapterHandled.current || chapters.length === 0 || transcript.length === 0) return
+    hashChapterHandled.current = true
+    const index = getChapterIndexFromHash(window.location.hash)
+    if (index !== null && chapters[index]) jumpToChapter(chapters[index])
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session?.chapters, transcript])
+
+  // 🆕 #line-<id> 링크 (챗봇 인용)로 열면 transcript 를 불러온 뒤 그 줄을 강조 (한 번만)
+  const hashLineHandled = useRef(false)
+  useEffect(() => {
+    if (hashLineHandled.current || transcript.length === 0) return
+    const lineId = getTranscriptLineIdFromHash(window.location.hash)
+    if (!lineId) return
+    hashLineHandled.current = true
+    requestAnimationFrame(() => {
+      if (!scrollToTranscriptLine(lineId)) console.warn(`⚠️ Linked line ${lineId} is not in this transcript`)
+    })
+  }, [transcript])
+
   if (!user) {
     return <div>Loading...</div>
   }
@@ -732,6 +894,69 @@ export default function SessionTranscriptPage() {
                 </div>
               )}
 
+              {/* 🆕 자막 파일 다운로드 */}
+              {transcript.length > 0 && (
+                <div className='space-y-2'>
+                  <Label className={`text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    Subtitles{showTranslation ? ` (${selectedLang?.name})` : ''}
+                  </Label>
+                  <div className='flex space-x-2'>
+                    <Button variant='outline' size='sm' asChild className='flex-1'>
+                      <a href={getSubtitleExportUrl('srt')} download>
+                        <Download className='mr-1 h-4 w-4' />
+                        SRT
+                      </a>
+                    </Button>
+                    <Button variant='outline' size='sm' asChild className='flex-1'>
+                      <a href={getSubtitleExportUrl('vtt')} download>
+                        <Download className='mr-1 h-4 w-4' />
+                        WebVTT
+                      </a>
+                    </Button>
+                  </div>
+                  {/* 🆕 챕터 트랙 */}
+                  {chapters.length > 0 && (
+                    <Button variant='outline' size='sm' asChild className='w-full'>
+                      <a href={getSubtitleExportUrl('vtt', 'chapters')} download>
+                        <Download className='mr-1 h-4 w-4' />
+                        Chapters (WebVTT)
+                      </a>
+                    </Button>
+                  )}
+                </div>
+              )}
+
+              {/* 🆕 문서 다운로드 (인쇄는 인쇄용 페이지를 새 탭으로 열기) */}
+              {transcript.length > 0 && (
+                <div className='space-y-2'>
+                  <Label className={`text-sm font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                    Document{showTranslation ? ` (+ ${selectedLang?.name})` : ''}
+                  </Label>
+                  <div className='flex space-x-2'>
+                    <Button variant='outline' size='sm' asChild className='flex-1'>
+                      <a href={getDocumentExportUrl('md')} download>
+                        Markdown
+                      </a>
+                    </Button>
+                    <Button variant='outline' size='sm' asChild className='flex-1'>
+                      <a href={getDocumentExportUrl('docx')} download>
+                        DOCX
+                      </a>
+                    </Button>
+                    <Button variant='outline' size='sm' asChild className='flex-1'>
+                      <a href={getDocumentExportUrl('pdf')} download>
+                        PDF
+                      </a>
+                    </Button>
+                    <Button variant='outline' size='sm' asChild className='flex-1'>
+                      <a href={getDocumentExportUrl('print')} target='_blank' rel='noopener noreferrer'>
+                        Print
+                      </a>
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               {/* Status */}
               <div className='space-y-2'>
                 <div
@@ -857,7 +1082,9 @@ export default function SessionTranscriptPage() {
                       className={`leading-relaxed ${darkMode ? 'text-gray-100' : 'text-gray-800'}`}
                       style={{ fontSize: `${fontSize[0]}px` }}
                     >
-                      {showTranslation && selectedLanguage !== 'en' ? (
+                      {displayedSummaryDoc ? (
+                        <SummaryDocumentView document={displayedSummaryDoc} darkMode={darkMode} />
+                      ) : showTranslation && selectedLanguage !== 'en' ? (
                         <span
                           dangerouslySetInnerHTML={{
                             __html: translatedSummary || summary,
@@ -872,9 +1099,11 @@ export default function SessionTranscriptPage() {
                     <div className='flex items-center justify-between border-t border-gray-200 pt-4 dark:border-gray-600'>
                       <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
                         Generated by GPT-4 •{' '}
-                        {showTranslation && selectedLanguage !== 'en'
-                          ? (translatedSummary || summary).length
-                          : summary.length}{' '}
+                        {displayedSummaryDoc
+                          ? getSummaryDocumentText(displayedSummaryDoc).length
+                          : showTranslation && selectedLanguage !== 'en'
+                            ? (translatedSummary || summary).length
+                            : summary.length}{' '}
                         characters
                         {showTranslation && selectedLanguage !== 'en' && translatedSummary && (
                           <span> • Translated to {selectedLang?.name}</span>
@@ -885,8 +1114,11 @@ export default function SessionTranscriptPage() {
                           variant='ghost'
                           size='sm'
                           onClick={() => {
-                            const summaryToCopy =
-                              showTranslation && selectedLanguage !== 'en' ? translatedSummary || summary : summary
+                            const summaryToCopy = displayedSummaryDoc
+                              ? renderSummaryMarkdown(displayedSummaryDoc)
+                              : showTranslation && selectedLanguage !== 'en'
+                                ? translatedSummary || summary
+                                : summary
                             navigator.clipboard.writeText(summaryToCopy)
                             addToast({
                               type: 'success',
@@ -903,6 +1135,7 @@ export default function SessionTranscriptPage() {
                           size='sm'
                           onClick={() => {
                             setSummary(null)
+                            setSummaryDoc(null)
                             generateSummary(true)
                           }}
                         >
@@ -928,6 +1161,18 @@ export default function SessionTranscriptPage() {
             </div>
           )}
 
+          {/* 🆕 Chapters (목차) */}
+          {transcript.length > 0 && chapters.length > 0 && (
+            <div className='mb-8'>
+              <SessionChaptersCard
+                chapters={chapters}
+                language={chapterLanguage}
+                darkMode={darkMode}
+                onJump={jumpToChapter}
+              />
+            </div>
+          )}
+
           {transcript.length === 0 ? (
             <div className={`py-12 text-center ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
               <FileText className='mx-auto mb-4 h-12 w-12 opacity-50' />
@@ -937,78 +1182,115 @@ export default function SessionTranscriptPage() {
             /* 🆕 텍스트만 보기 모드 */
             <div className='space-y-2'>
               {transcript.map((line) => (
-                <div key={`text-only-${line.id}`}>
-                  {/* Original Text */}
-                  <div
-                    className={`leading-relaxed ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}
-                    style={{ fontSize: `${fontSize[0]}px` }}
-                  >
-                    {line.original_text}
-                  </div>
-
-                  {/* Translation if available */}
-                  {showTranslation && translatedTexts[line.id] && (
+                <Fragment key={`text-only-${line.id}`}>
+                  {chapterStarts.get(line.id) && (
+                    <h3
+                      className={`pt-4 font-semibold ${darkMode ? 'text-blue-300' : 'text-blue-700'}`}
+                      style={{ fontSize: `${fontSize[0]}px` }}
+                    >
+                      {getChapterTitle(chapterStarts.get(line.id)!, chapterLanguage)}
+                    </h3>
+                  )}
+                  <div id={`line-${line.id}`} className='scroll-mt-24'>
+                    {/* Original Text */}
                     <div
-                      className={`border-l-2 pl-4 leading-relaxed italic ${
-                        darkMode ? 'border-gray-600 text-gray-300' : 'border-gray-300 text-gray-700'
-                      }`}
-                      style={{ fontSize: `${fontSize[0] - 1}px` }}
+                      className={`leading-relaxed ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}
+                      style={{ fontSize: `${fontSize[0]}px` }}
                     >
-                      {translatedTexts[line.id]}
+                      {line.original_text}
                     </div>
-                  )}
-                </div>
+
+                    {/* Translation if available */}
+                    {showTranslation && translatedTexts[line.id] && (
+                      <div
+                        className={`border-l-2 pl-4 leading-relaxed italic ${
+                          darkMode ? 'border-gray-600 text-gray-300' : 'border-gray-300 text-gray-700'
+                        }`}
+                        style={{ fontSize: `${fontSize[0] - 1}px` }}
+                      >
+                        {translatedTexts[line.id]}
+                      </div>
+                    )}
+                  </div>
+                </Fragment>
               ))}
             </div>
           ) : (
             /* 기존 스타일 모드 */
             <div className='space-y-3'>
               {transcript.map((line, index) => (
-                <div key={line.id} className='group'>
-                  {/* Timestamp */}
-                  {showTimestamps && (
-                    <div
-                      className={`mb-1 flex items-center space-x-2 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}
-                    >
-                      <span className='font-medium'>#{index + 1}</span>
-                      <span>•</span>
-                      <span>{new Date(line.created_at).toLocaleTimeString()}</span>
-                      <span>•</span>
-                      <span>{session?.host_name}</span>
-                      {showTranslation && translatingIds.has(line.id) && (
-                        <>
-                          <span>•</span>
-                          <Loader2 className='h-3 w-3 animate-spin' />
-                          <span>Translating...</span>
-                        </>
-                      )}
-                    </div>
+                <Fragment key={line.id}>
+                  {/* 🆕 챕터 시작 줄 앞에 챕터 제목 */}
+                  {chapterStarts.get(line.id) && (
+                    <h3 className={`pt-4 text-lg font-semibold ${darkMode ? 'text-blue-300' : 'text-blue-700'}`}>
+                      {chapterStarts.get(line.id)!.index + 1}.{' '}
+                      {getChapterTitle(chapterStarts.get(line.id)!, chapterLanguage)}
+                    </h3>
                   )}
+                  <div id={`line-${line.id}`} className='group scroll-mt-24'>
+                    {/* Timestamp */}
+                    {showTimestamps && (
+                      <div
+                        className={`mb-1 flex items-center space-x-2 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}
+                      >
+                        <span className='font-medium'>#{index + 1}</span>
+                        <span>•</span>
+                        <span>{new Date(line.created_at).toLocaleTimeString()}</span>
+                        <span>•</span>
+                        <span>{session?.host_name}</span>
+                        {showTranslation && translatingIds.has(line.id) && (
+                          <>
+                            <span>•</span>
+                            <Loader2 className='h-3 w-3 animate-spin' />
+                            <span>Translating...</span>
+                          </>
+                        )}
+                      </div>
+                    )}
 
-                  {/* Original Text */}
-                  <div
-                    className={`mb-1 leading-relaxed ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}
-                    style={{ fontSize: `${fontSize[0]}px` }}
-                  >
-                    {line.original_text}
-                  </div>
+                    {/* Original Text */}
+                    {isHost ? (
+                      <TranscriptLineEditor
+                        sessionId={sessionId}
+                        transcriptId={line.id}
+                        text={line.original_text}
+                        nextTranscriptId={transcript[index + 1]?.id}
+                        darkMode={darkMode}
+                        onChange={handleTranscriptEdit}
+                      >
+                        <div
+                          className={`mb-1 leading-relaxed ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}
+                          style={{ fontSize: `${fontSize[0]}px` }}
+                        >
+                          {line.original_text}
+                        </div>
+                      </TranscriptLineEditor>
+                    ) : (
+                      <div
+                        className={`mb-1 leading-relaxed ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}
+                        style={{ fontSize: `${fontSize[0]}px` }}
+                      >
+                        {line.original_text}
+                      </div>
+                    )}
 
-                  {/* Translation */}
-                  {showTranslation && (
-                    <div
-                      className={`border-l-2 pl-4 leading-relaxed italic ${
-                        darkMode ? 'border-gray-600 text-gray-300' : 'border-gray-300 text-gray-700'
-                      }`}
-                      style={{ fontSize: `${fontSize[0] - 1}px` }}
-                    >
-                      {translatingIds.has(line.id) ? (
-                        <span className='text-gray-400'>[AI Translating...]</span>
-                      ) : (
-                        translatedTexts[line.id] || `[${selectedLang?.name}] ${line.original_text}`
-                      )}
-                    </div>
-                  )}
-                </div>
+                    {/* Translation */}
+                    {showTranslation && (
+                      <div
+                        className={`border-l-2 pl-4 leading-relaxed italic ${
+                          darkMode ? 'border-gray-600 text-gray-300' : 'border-gray-300 text-gray-700'
+                        }`}
+                        style={{ fontSize: `${fontSize[0] - 1}px` }}
+                      >
+                        {translatingIds.has(line.id) ? (
+                          <span className='text-gray-400'>[AI Translating...]</span>
+                        ) : (
+                          translatedTexts[line.id] || `[${selectedLang?.name}] ${line.original_text}`
+                        )}
+                      </div>
+                    )}
+                  </div>
+                </Fragment>
               ))}
             </div>
           )}
@@ -1017,7 +1299,7 @@ export default function SessionTranscriptPage() {
 
       {/* Toast Notifications */}
       <ToastContainer toasts={toasts} onRemove={removeToast} />
-      <ChatbotWidget transcript={transcript.map((line) => line.original_text).join('\n')} sessionId={sessionId} />
+      <ChatbotWidget sessionId={sessionId} language={showTranslation ? selectedLanguage : undefined} />
     </div>
   )
 }
@@ -1,17 +1,34 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { Fragment, useState, useEffect, useRef } from 'react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Slider } from '@/components/ui/slider'
 import { Label } from '@/components/ui/label'
-import { ArrowLeft, FileText, Languages, Share2, Loader2, Clock, BookOpen, Mic } from 'lucide-react'
+import { ArrowLeft, FileText, Languages, Share2, Loader2, Clock, BookOpen, Mic, Download, Printer } from 'lucide-react'
 import { useParams, useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
 import Chatbot from '@/components/Chatbot'
 import { SaveSessionModal } from '@/components/SaveSessionModal'
 import { useSession, useUser } from '@clerk/nextjs'
 import { loadSessionTranscripts, type Transcript } from '@/lib/transcript-loader'
+import { getLanguageOptions, getSessionTargetLanguages } from '@/lib/languages'
+import { getSpeakerKey, hasMultipleSpeakers } from '@/lib/speakers'
+import { SessionSpeakersCard } from '@/components/SessionSpeakersCard'
+import { SessionAudioPlayer, type SessionAudio } from '@/components/SessionAudioPlayer'
+import { formatAudioOffset, getLineAudioOffset } from '@/lib/session-audio'
+import { SummaryDocumentView } from '@/components/SummaryDocumentView'
+import { getSummaryDocumentText, renderSummaryMarkdown, toSummaryDocument } from '@/lib/summary-document'
+import { SessionChaptersCard } from '@/components/SessionChaptersCard'
+import {
+  findChapterStartLineId,
+  getChapterIndexFromHash,
+  getChapterStartMap,
+  getChapterTitle,
+  toSessionChapters,
+} from '@/lib/chapters'
+import { scrollToTranscriptLine } from '@/lib/chat-citations'
+import type { ChatCitation, SessionChapter, SummaryDocument } from '@/lib/types'
 
 interface Session {
   id: string
@@ -22,6 +39,9 @@ interface Session {
   category: string
   status: string
   summary?: string
+  summary_doc?: SummaryDocument | null // 🆕 구조화된 요약 (없으면 summary HTML 표시)
+  chapters?: SessionChapter[] | null // 🆕 챕터 목차
+  target_languages?: string[]
   created_at: string
   ended_at?: string
 }
@@ -77,6 +97,7 @@ export default function PublicSessionSummaryPage() {
 
   // 다국어 요약 관련 상태
   const [summary, setSummary] = useState<string>('')
+  const [summaryDoc, setSummaryDoc] = useState<SummaryDocument | null>(null)
   const [userLanguage, setUserLanguage] = useState('en')
   const [summaryLoading, setSummaryLoading] = useState(false)
 
@@ -84,6 +105,7 @@ export default function PublicSessionSummaryPage() {
   const [showTranslation, setShowTranslation] = useState(false)
   const [selectedLanguage, setSelectedLanguage] = useState('ko')
   const [translatedSummary, setTranslatedSummary] = useState<string>('')
+  const [translatedSummaryDoc, setTranslatedSummaryDoc] = useState<SummaryDocument | null>(null)
   const [summaryTranslating, setSummaryTranslating] = useState(false)
 
   // 🆕 Transcript 번역 상태
@@ -94,6 +116,105 @@ export default function PublicSessionSummaryPage() {
   const [showSaveModal, setShowSaveModal] = useState(false)
   const [sessionSaved, setSessionSaved] = useState(false)
 
+  // 🆕 화자 이름 (speaker key → 표시 이름, 여러 명이 말한 세션만 줄마다 표시)
+  const [speakerNames, setSpeakerNames] = useState<Record<string, string>>({})
+  const showSpeakers = hasMultipleSpeakers(transcript)
+
+  // 🆕 세션 녹음 (있으면 줄을 눌러 그 위치부터 재생, 지금 재생 중인 줄 표시)
+  const [sessionAudio, setSessionAudio] = useState<SessionAudio | null>(null)
+  const [audioSeek, setAudioSeek] = useState<{ offsetMs: number; nonce: number } | null>(null)
+  const [playingLineId, setPlayingLineId] = useState<string | null>(null)
+
+  const seekToLine = (line: Transcript) => {
+    if (!sessionAudio) return
+    setAudioSeek({ offsetMs: getLineAudioOffset(line, sessionAudio), nonce: Date.now() })
+  }
+
+  const updatePlayingLine = (positionMs: number) => {
+    if (!sessionAudio) return
+    const playing = transcript.filter((line) => getLineAudioOffset(line, sessionAudio) <= positionMs).pop()
+    setPlayingLineId(playing?.id || null)
+  }
+
+  // 🆕 챕터 목차 (누르면 transcript 를 펼치고 그 챕터 첫 줄로 이동, 녹음이 있으면 그 위치부터 재생)
+  const [chapterTarget, setChapterTarget] = useState<{ lineId: string; nonce: number; highlight?: boolean } | null>(
+    null,
+  )
+  const hashChapterHandled = useRef(false)
+  const chapters = toSessionChapters(session?.chapters)
+  const chapterStarts = getChapterStartMap(chapters, transcript)
+
+  const jumpToChapter = (chapter: SessionChapter) => {
+    const lineId = findChapterStartLineId(chapter, transcript)
+    if (!lineId) return
+    setShowFullTranscript(true)
+    setChapterTarget({ lineId, nonce: Date.now() })
+    const line = transcript.find((item) => item.id === lineId)
+    if (line) seekToLine(line)
+  }
+
+  // 🆕 챗봇 답변의 인용: transcript 를 펼쳐 그 줄을 강조하고 녹음도 그 줄로
+  const jumpToCitation = (citation: ChatCitation) => {
+    const line = transcript.find((item) => item.id === citation.transcriptId)
+    if (!line) return
+    setShowFullTranscript(true)
+    setChapterTarget({ lineId: line.id, nonce: Date.now(), highlight: true })
+    seekToLine(line)
+  }
+
+  // 재생 중인 줄이 들어 있는 챕터
+  const getPlayingChapterIndex = () => {
+    if (!playingLineId) return null
+    let active: number | null = null
+    for (const line of transcript) {
+      active = chapterStarts.get(line.id)?.index ?? active
+      if (line.id === playingLineId) return active
+    }
+    return null
+  }
+
+  // transcript 를 펼친 뒤 챕터 첫 줄로 스크롤
+  useEffect(() => {
+    if (!chapterTarget || !showFullTranscript) return
+    if (chapterTarget.highlight) {
+      scrollToTranscriptLine(chapterTarget.lineId)
+      return
+    }
+    document.getElementById(`line-${chapterTarget.lineId}`)?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+  }, [chapterTarget, showFullTranscript])
+
+  // #chapter-N 링크로 열면 transcript 를 불러온 뒤 그 챕터로 이동 (한 번만)
+  useEffect(() => {
+    if (hashChapterHandled.current || chapters.length === 0 || transcript.length === 0) return
+    hashChapterHandled.current = true
+    const index = getChapterIndexFromHash(window.location.hash)
+    if (index !== null && chapters[index]) jumpToChapter(chapters[index])
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [session?.chapters, transcript])
+
+  // 🆕 세션을 막 끝낸 경우 챕터는 응답 뒤에 만들어지므로 sessions 변경으로 받음
+  useEffect(() => {
+    if (!sessionId) return
+
+    const channel = supabase
+      .channel(`summary-session-${sessionId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'sessions', filter: `id=eq.${sessionId}` },
+        (payload) => {
+          const updated = payload.new as Pick<Session, 'chapters'>
+          if (!updated.chapters) return
+          console.log(`📑 Chapters updated (${updated.chapters.length})`)
+          setSession((current) => (current ? { ...current, chapters: updated.chapters } : current))
+        },
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [sessionId, supabase])
+
   // 카테고리 아이콘 매핑
   const getCategoryIcon = (category: string) => {
     const icons: Record<string, string> = {
@@ -111,13 +232,8 @@ export default function PublicSessionSummaryPage() {
     return icons[category] || '📋'
   }
 
-  // 지원 언어 목록
-  const languages = [
-    { code: 'ko', name: 'Korean', flag: '🇰🇷' },
-    { code: 'en', name: 'English', flag: '🇺🇸' },
-    { code: 'zh', name: 'Chinese', flag: '🇨🇳' },
-    { code: 'hi', name: 'Hindi', flag: '🇮🇳' },
-  ]
+  // 지원 언어 목록 (세션 대상 언어)
+  const languages = getLanguageOptions(getSessionTargetLanguages(session))
 
   const getCategoryName = (category: string) => {
     const names: Record<string, Record<string, string>> = {
@@ -190,10 +306,14 @@ export default function PublicSessionSummaryPage() {
         copySummary: 'Copy Summary',
         regenerate: 'Regenerate',
         fullTranscript: 'Full Transcript',
+        chapters: 'Chapters',
         realTimeResults: 'Real-time speech recognition results',
         expand: 'Expand',
         collapse: 'Collapse',
         copyAllTranscript: 'Copy All Transcript',
+        downloadSubtitles: 'Subtitles',
+        downloadDocument: 'Document',
+        printDocument: 'Print',
         publicAccess: 'This page is accessible to anyone. Share the link to share session content with others.',
         poweredBy: 'Powered by LiveTranscribe • Real-time Speech Recognition & AI Summary',
         fontSize: 'Font Size',
@@ -221,10 +341,14 @@ export default function PublicSessionSummaryPage() {
         copySummary: '요약 복사',
         regenerate: '재생성',
         fullTranscript: '전체 발언 기록',
+        chapters: '챕터',
         realTimeResults: '실시간 음성 인식 결과',
         expand: '펼치기',
         collapse: '접기',
         copyAllTranscript: '전체 발언 복사',
+        downloadSubtitles: '자막',
+        downloadDocument: '문서',
+        printDocument: '인쇄',
         publicAccess: '이 페이지는 누구나 접근할 수 있습니다. 링크를 공유하여 다른 사람들과 세션 내용을 나눠보세요.',
         poweredBy: 'Powered by LiveTranscribe • 실시간 음성 인식 및 AI 요약',
         fontSize: '글자 크기',
@@ -252,10 +376,14 @@ export default function PublicSessionSummaryPage() {
         copySummary: '复制摘要',
         regenerate: '重新生成',
         fullTranscript: '完整记录',
+        chapters: '章节',
         realTimeResults: '实时语音识别结果',
         expand: '展开',
         collapse: '收起',
         copyAllTranscript: '复制全部记录',
+        downloadSubtitles: '字幕',
+        downloadDocument: '文档',
+        printDocument: '打印',
         publicAccess: '此页面任何人都可以访问。分享链接与他人共享会话内容。',
         poweredBy: 'Powered by LiveTranscribe • 实时语音识别和 AI 摘要',
         fontSize: '字体大小',
@@ -283,10 +411,14 @@ export default function PublicSessionSummaryPage() {
         copySummary: 'सारांश कॉपी करें',
         regenerate: 'पुनर्जनन',
         fullTranscript: 'पूर्ण प्रतिलेख',
+        chapters: 'अध्याय',
         realTimeResults: 'वास्तविक समय भाषण पहचान परिणाम',
         expand: 'विस्तार',
         collapse: 'संक्षिप्त',
         copyAllTranscript: 'सभी प्रतिलेख कॉपी करें',
+        downloadSubtitles: 'उपशीर्षक',
+        downloadDocument: 'दस्तावेज़',
+        printDocument: 'प्रिंट करें',
         publicAccess: 'यह पृष्ठ किसी के लिए भी सुलभ है। लिंक साझा करके दूसरों के साथ सत्र सामग्री साझा करें।',
         poweredBy: 'Powered by LiveTranscribe • वास्तविक समय भाषण पहचान और AI सारांश',
         fontSize: 'फ़ॉन्ट आकार',
@@ -318,8 +450,10 @@ export default function PublicSessionSummaryPage() {
 
   // 🆕 요약 번역 함수 (새로운 캐시 시스템 사용)
   const translateSummaryPublic = async (summaryText: string, targetLang: string) => {
+    const englishDoc = toSummaryDocument(session?.summary_doc)
     if (!summaryText || targetLang === 'en') {
       setTranslatedSummary(summaryText)
+      setTranslatedSummaryDoc(englishDoc)
       return
     }
 
@@ -329,24 +463,29 @@ export default function PublicSessionSummaryPage() {
       // session_summary_cache에서 번역된 요약 찾기
       const { data: cachedSummary, error } = await supabase
         .from('session_summary_cache')
-        .select('summary_text')
+        .select('summary_text, summary_doc')
         .eq('session_id', sessionId)
         .eq('language_code', targetLang)
+        .eq('kind', 'final')
         .maybeSingle()
 
       if (error) {
         console.error('Error loading summary translation:', error)
         setTranslatedSummary(summaryText) // 실패 시 영어 원문 표시
+        setTranslatedSummaryDoc(englishDoc)
       } else if (cachedSummary) {
         setTranslatedSummary(cachedSummary.summary_text)
+        setTranslatedSummaryDoc(toSummaryDocument(cachedSummary.summary_doc))
         console.log(`✅ Loaded ${targetLang} summary translation from cache`)
       } else {
         console.log(`⚠️ No ${targetLang} summary translation found, using original`)
         setTranslatedSummary(summaryText)
+        setTranslatedSummaryDoc(englishDoc)
       }
     } catch (error) {
       console.error('Error loading summary translation:', error)
       setTranslatedSummary(summaryText)
+      setTranslatedSummaryDoc(englishDoc)
     } finally {
       setSummaryTranslating(false)
     }
@@ -421,9 +560,14 @@ export default function PublicSessionSummaryPage() {
   }
 
   // 🆕 요약 번역 로드 함수 (새로운 캐시 시스템 사용)
-  const loadSummaryTranslation = async (englishSummary: string, targetLang: string) => {
+  const loadSummaryTranslation = async (
+    englishSummary: string,
+    targetLang: string,
+    englishDoc: SummaryDocument | null = null,
+  ) => {
     if (!englishSummary || targetLang === 'en') {
       setSummary(englishSummary || '')
+      setSummaryDoc(englishDoc)
       return
     }
 
@@ -433,24 +577,29 @@ export default function PublicSessionSummaryPage() {
       // session_summary_cache에서 번역된 요약 찾기
       const { data: cachedSummary, error } = await supabase
         .from('session_summary_cache')
-        .select('summary_text')
+        .select('summary_text, summary_doc')
         .eq('session_id', sessionId)
         .eq('language_code', targetLang)
+        .eq('kind', 'final')
         .maybeSingle()
 
       if (error) {
         console.error('Error loading summary translation:', error)
         setSummary(englishSummary) // 실패 시 영어 원문 표시
+        setSummaryDoc(englishDoc)
       } else if (cachedSummary) {
         setSummary(cachedSummary.summary_text)
+        setSummaryDoc(toSummaryDocument(cachedSummary.summary_doc))
         console.log(`✅ Loaded ${targetLang} summary translation from cache`)
       } else {
         console.log(`⚠️ No ${targetLang} translation found, showing English`)
         setSummary(englishSummary)
+        setSummaryDoc(englishDoc)
       }
     } catch (error) {
       console.error('Error loading summary translation:', error)
       setSummary(englishSummary)
+      setSummaryDoc(englishDoc)
     } finally {
       setSummaryLoading(false)
     }
@@ -468,7 +617,9 @@ export default function PublicSessionSummaryPage() {
         // 세션 정보 로드 (공개 접근)
         const { data: sessionData, error: sessionError } = await supabase
           .from('sessions')
-          .select('id, title, description, host_name, host_id, category, status, summary, created_at, ended_at')
+          .select(
+            'id, title, description, host_name, host_id, category, status, summary, summary_doc, chapters, created_at, ended_at',
+          )
           .eq('id', sessionId)
           .single()
 
@@ -507,7 +658,7 @@ export default function PublicSessionSummaryPage() {
         }
 
         // 요약 번역 로드
-        await loadSummaryTranslation(sessionData.summary, userLanguage)
+        await loadSummaryTranslation(sessionData.summary, userLanguage, toSummaryDocument(sessionData.summary_doc))
       } catch (error) {
         console.error('Error loading session data:', error)
         setError(error instanceof Error ? error.message : 'Unknown error')
@@ -522,7 +673,7 @@ export default function PublicSessionSummaryPage() {
   // 언어 변경 시 요약 재로드 (자동)
   useEffect(() => {
     if (session?.summary) {
-      loadSummaryTranslation(session.summary, userLanguage)
+      loadSummaryTranslation(session.summary, userLanguage, toSummaryDocument(session.summary_doc))
     }
   }, [userLanguage, session?.summary])
 
@@ -695,6 +846,13 @@ export default function PublicSessionSummaryPage() {
     }
   }, [session?.summary, selectedLanguage, showTranslation])
 
+  // 🆕 지금 보여주는 요약 문서 (요약 문서가 없는 이전 세션은 null → HTML 요약 표시)
+  const getDisplayedSummaryDocument = () => {
+    const englishDoc = toSummaryDocument(session?.summary_doc)
+    if (showTranslation && selectedLanguage !== 'en') return translatedSummary ? translatedSummaryDoc : englishDoc
+    return summary ? summaryDoc : englishDoc
+  }
+
   // 🆕 Transcript 번역 활성화/언어 변경시 번역 수행
   useEffect(() => {
     if (!showTranslation) {
@@ -754,6 +912,15 @@ export default function PublicSessionSummaryPage() {
     }
   }, [showTranslation, selectedLanguage, transcript])
 
+  // 🆕 자막 파일 다운로드 URL (번역 표시 중이면 선택한 언어로)
+  // 🆕 kind=chapters: 챕터 트랙
+  const getSubtitleExportUrl = (format: 'srt' | 'vtt', kind: 'captions' | 'chapters' = 'captions') =>
+    `/api/session/${sessionId}/export?format=${format}${showTranslation ? `&lang=${selectedLanguage}` : ''}${kind === 'chapters' ? '&kind=chapters' : ''}`
+
+  // 🆕 문서(요약 + transcript) 다운로드 URL (번역 표시 중이면 원문 / 번역을 나란히)
+  const getDocumentExportUrl = (format: 'md' | 'docx' | 'pdf' | 'print') =>
+    `/api/session/${sessionId}/document?format=${format}${showTranslation ? `&lang=${selectedLanguage}&translation=1` : ''}`
+
   // 텍스트 복사 기능
   const copyText = async (text: string, type: string) => {
     try {
@@ -1124,6 +1291,10 @@ export default function PublicSessionSummaryPage() {
                       style={{ fontSize: `${fontSize[0]}px` }}
                     >
                       {(() => {
+                        const summaryDocument = getDisplayedSummaryDocument()
+                        if (summaryDocument) {
+                          return <SummaryDocumentView document={summaryDocument} darkMode={darkMode} />
+                        }
                         if (showTranslation && selectedLanguage !== 'en') {
                           return (
                             <span
@@ -1146,6 +1317,8 @@ export default function PublicSessionSummaryPage() {
                       <div className={`text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
                         {t('generatedBy')} •{' '}
                         {(() => {
+                          const summaryDocument = getDisplayedSummaryDocument()
+                          if (summaryDocument) return getSummaryDocumentText(summaryDocument).length
                           if (showTranslation && selectedLanguage !== 'en') {
                             return (translatedSummary || session.summary || '').length
                           }
@@ -1161,6 +1334,8 @@ export default function PublicSessionSummaryPage() {
                         size='sm'
                         onClick={() => {
                           const summaryToCopy = (() => {
+                            const summaryDocument = getDisplayedSummaryDocument()
+                            if (summaryDocument) return renderSummaryMarkdown(summaryDocument)
                             if (showTranslation && selectedLanguage !== 'en') {
                               return translatedSummary || session.summary || ''
                             }
@@ -1178,6 +1353,27 @@ export default function PublicSessionSummaryPage() {
             </Card>
           )}
 
+          {/* 🆕 Speakers (호스트는 이름 변경 가능) */}
+          <SessionSpeakersCard
+            sessionId={sessionId}
+            isHost={!!user && session?.host_id === user.id}
+            darkMode={darkMode}
+            visible={showSpeakers}
+            onSpeakersChange={(speakers) =>
+              setSpeakerNames(Object.fromEntries(speakers.map((speaker) => [speaker.key, speaker.name])))
+            }
+          />
+
+          {/* 🆕 Chapters (목차) */}
+          <SessionChaptersCard
+            chapters={chapters}
+            language={userLanguage}
+            darkMode={darkMode}
+            title={t('chapters')}
+            activeIndex={getPlayingChapterIndex()}
+            onJump={jumpToChapter}
+          />
+
           {/* Transcript Section */}
           <Card className={darkMode ? 'border-gray-700 bg-gray-800' : ''}>
             <CardHeader>
@@ -1195,59 +1391,145 @@ export default function PublicSessionSummaryPage() {
               </CardDescription>
             </CardHeader>
             <CardContent>
+              {/* 🆕 세션 녹음 플레이어 */}
+              <SessionAudioPlayer
+                sessionId={sessionId}
+                darkMode={darkMode}
+                seekRequest={audioSeek}
+                onRecordingChange={setSessionAudio}
+                onTimeUpdate={updatePlayingLine}
+              />
               {transcript.length > 0 ? (
                 <>
                   {showFullTranscript && (
                     <div className='max-h-96 space-y-3 overflow-y-auto'>
                       {transcript.map((item, index) => (
-                        <div key={item.id} className={`rounded-lg p-3 ${darkMode ? 'bg-gray-700' : 'bg-gray-50'}`}>
-                          <div className={`mb-1 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                            #{index + 1} • {new Date(item.created_at).toLocaleTimeString()}
-                          </div>
-                          <div
-                            className={`${darkMode ? 'text-gray-100' : 'text-gray-900'}`}
-                            style={{ fontSize: `${fontSize[0]}px` }}
-                          >
-                            {item.original_text}
-                          </div>
-
-                          {/* 🆕 Translation Display */}
-                          {showTranslation && (
+                        <Fragment key={item.id}>
+                          {/* 🆕 챕터 시작 줄 앞에 챕터 제목 */}
+                          {chapterStarts.get(item.id) && (
                             <div
-                              className={`mt-2 border-l-2 pl-4 leading-relaxed italic ${
-                                darkMode ? 'border-gray-600 text-gray-300' : 'border-gray-300 text-gray-700'
-                              }`}
-                              style={{ fontSize: `${fontSize[0] - 1}px` }}
+                              className={`pt-2 text-sm font-semibold ${darkMode ? 'text-blue-300' : 'text-blue-700'}`}
                             >
-                              {translatingIds.has(item.id) ? (
-                                <span className='flex items-center text-gray-400'>
-                                  <div className='mr-2 h-3 w-3 animate-spin rounded-full border border-gray-400 border-t-transparent'></div>
-                                  [AI Translating...]
+                              {chapterStarts.get(item.id)!.index + 1}.{' '}
+                              {getChapterTitle(chapterStarts.get(item.id)!, userLanguage)}
+                            </div>
+                          )}
+                          <div
+                            id={`line-${item.id}`}
+                            onClick={() => seekToLine(item)}
+                            className={`rounded-lg p-3 ${darkMode ? 'bg-gray-700' : 'bg-gray-50'} ${
+                              sessionAudio ? 'cursor-pointer hover:ring-1 hover:ring-blue-300' : ''
+                            } ${playingLineId === item.id ? 'ring-2 ring-blue-400' : ''}`}
+                          >
+                            <div className={`mb-1 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                              #{index + 1} • {new Date(item.created_at).toLocaleTimeString()}
+                              {sessionAudio && (
+                                <span className='text-blue-500'>
+                                  {' '}
+                                  • ▶ {formatAudioOffset(getLineAudioOffset(item, sessionAudio))}
                                 </span>
-                              ) : (
-                                translatedTexts[item.id] ||
-                                `[${languages.find((l) => l.code === selectedLanguage)?.name}] ${item.original_text}`
+                              )}
+                              {showSpeakers && speakerNames[getSpeakerKey(item)] && (
+                                <span className='font-medium'> • {speakerNames[getSpeakerKey(item)]}</span>
                               )}
                             </div>
-                          )}
-                        </div>
+                            <div
+                              className={`${darkMode ? 'text-gray-100' : 'text-gray-900'}`}
+                              style={{ fontSize: `${fontSize[0]}px` }}
+                            >
+                              {item.original_text}
+                            </div>
+
+                            {/* 🆕 Translation Display */}
+                            {showTranslation && (
+                              <div
+                                className={`mt-2 border-l-2 pl-4 leading-relaxed italic ${
+                                  darkMode ? 'border-gray-600 text-gray-300' : 'border-gray-300 text-gray-700'
+                                }`}
+                                style={{ fontSize: `${fontSize[0] - 1}px` }}
+                              >
+                                {translatingIds.has(item.id) ? (
+                                  <span className='flex items-center text-gray-400'>
+                                    <div className='mr-2 h-3 w-3 animate-spin rounded-full border border-gray-400 border-t-transparent'></div>
+                                    [AI Translating...]
+                                  </span>
+                                ) : (
+                                  translatedTexts[item.id] ||
+                                  `[${languages.find((l) => l.code === selectedLanguage)?.name}] ${item.original_text}`
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        </Fragment>
                       ))}
                     </div>
                   )}
                   {transcript.length > 0 && (
-                    <div className='mt-4 border-t border-gray-200 pt-4 dark:border-gray-600'>
+                    <div className='mt-4 flex flex-wrap gap-2 border-t border-gray-200 pt-4 dark:border-gray-600'>
                       <Button
                         variant='outline'
                         size='sm'
                         onClick={() =>
                           copyText(
-                            transcript.map((t, i) => `${i + 1}. ${t.original_text}`).join('\n\n'),
+                            transcript
+                              .map(
+                                (t, i) =>
+                                  `${i + 1}. ${showSpeakers && speakerNames[getSpeakerKey(t)] ? `${speakerNames[getSpeakerKey(t)]}: ` : ''}${t.original_text}`,
+                              )
+                              .join('\n\n'),
                             t('copyAllTranscript'),
                           )
                         }
                       >
                         📋 {t('copyAllTranscript')}
                       </Button>
+                      {/* 🆕 자막 파일 다운로드 */}
+                      <Button variant='outline' size='sm' asChild>
+                        <a href={getSubtitleExportUrl('srt')} download>
+                          <Download className='mr-1 h-4 w-4' />
+                          {t('downloadSubtitles')} (.srt)
+                        </a>
+                      </Button>
+                      <Button variant='outline' size='sm' asChild>
+                        <a href={getSubtitleExportUrl('vtt')} download>
+                          <Download className='mr-1 h-4 w-4' />
+                          {t('downloadSubtitles')} (.vtt)
+                        </a>
+                      </Button>
+                      {/* 🆕 챕터 트랙 (WebVTT chapters) */}
+                      {chapters.length > 0 && (
+                        <Button variant='outline' size='sm' asChild>
+                          <a href={getSubtitleExportUrl('vtt', 'chapters')} download>
+                            <Download className='mr-1 h-4 w-4' />
+                            {t('chapters')} (.vtt)
+                          </a>
+                        </Button>
+                      )}
+                      {/* 🆕 문서 다운로드 (인쇄는 인쇄용 페이지를 새 탭으로 열기) */}
+                      <Button variant='outline' size='sm' asChild>
+                        <a href={getDocumentExportUrl('md')} download>
+                          <Download className='mr-1 h-4 w-4' />
+                          {t('downloadDocument')} (.md)
+                        </a>
+                      </Button>
+                      <Button variant='outline' size='sm' asChild>
+                        <a href={getDocumentExportUrl('docx')} download>
+                          <Download className='mr-1 h-4 w-4' />
+                          {t('downloadDocument')} (.docx)
+                        </a>
+                      </Button>
+                      <Button variant='outline' size='sm' asChild>
+                        <a href={getDocumentExportUrl('pdf')} download>
+                          <Download className='mr-1 h-4 w-4' />
+                          {t('downloadDocument')} (.pdf)
+                        </a>
+                      </Button>
+                      <Button variant='outline' size='sm' asChild>
+                        <a href={getDocumentExportUrl('print')} target='_blank' rel='noopener noreferrer'>
+                          <Printer className='mr-1 h-4 w-4' />
+                          {t('printDocument')}
+                        </a>
+                      </Button>
                     </div>
                   )}
                 </>
@@ -1280,7 +1562,7 @@ export default function PublicSessionSummaryPage() {
           </Card>
 
           {/* Chatbot for past session */}
-          <Chatbot transcript={transcript.map((line) => line.original_text).join('\n')} sessionId={sessionId} />
+          <Chatbot sessionId={sessionId} language={userLanguage} onCitationClick={jumpToCitation} />
 
           {/* Footer */}
           <div className={`py-8 text-center ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
@@ -0,0 +1,189 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Newspaper, X } from 'lucide-react'
+import { SummaryDocumentView } from '@/components/SummaryDocumentView'
+import { toSummaryDocument } from '@/lib/summary-document'
+import type { SessionSummaryCache, SummaryDocument } from '@/lib/types'
+
+// 🆕 Catch me up 패널 (공개 세션 페이지)
+// 진행 중인 세션의 "지금까지" 요약 (lib/live-summary.ts) 을 보여준다.
+// 첫 로드는 API, 이후 갱신은 session_summary_cache realtime 으로 받아서 패널을 닫아 둬도 새 요약이 오면 표시한다.
+// 요약 문서는 SummaryDocumentView 로 렌더링하고, 문서가 없는 이전 요약 HTML 은 태그를 지운 텍스트로만 보여준다.
+
+interface LiveSummary {
+  summary: string
+  summaryDocument: SummaryDocument | null
+  kind: 'live' | 'final'
+  version: number
+  lineCount: number | null
+  updatedAt: string
+  language: string
+}
+
+interface CatchUpPanelProps {
+  sessionId: string
+  language: string
+  supabase: SupabaseClient
+  darkMode?: boolean
+}
+
+const formatUpdatedAgo = (updatedAt: string) => {
+  const minutes = Math.floor((Date.now() - new Date(updatedAt).getTime()) / 60000)
+  if (minutes < 1) return 'just now'
+  return minutes === 1 ? '1 min ago' : `${minutes} min ago`
+}
+
+// 이전 요약 HTML (<b>, <br/>) → 줄바꿈만 남긴 텍스트 (모델이 만든 HTML 을 그대로 넣지 않음)
+const summaryHtmlToText = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .trim()
+
+export function CatchUpPanel({ sessionId, language, supabase, darkMode }: CatchUpPanelProps) {
+  const [open, setOpen] = useState(false)
+  const [liveSummary, setLiveSummary] = useState<LiveSummary | null>(null)
+  const [hasUpdate, setHasUpdate] = useState(false)
+  const [, setTick] = useState(0) // "N min ago" 갱신용
+  const openRef = useRef(open)
+  const liveSummaryRef = useRef(liveSummary)
+  openRef.current = open
+  liveSummaryRef.current = liveSummary
+
+  // 언어가 바뀌면 그 언어 요약을 다시 받음
+  useEffect(() => {
+    if (!sessionId) return
+
+    const loadLiveSummary = async () => {
+      try {
+        const response = await fetch(`/api/session/${sessionId}/summary/live?lang=${language}`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load summary')
+
+        setLiveSummary(data.summary ? data : null)
+      } catch (error) {
+        console.error('❌ Failed to load live summary:', error)
+      }
+    }
+
+    loadLiveSummary()
+  }, [sessionId, language])
+
+  useEffect(() => {
+    if (!sessionId) return
+
+    const channel = supabase
+      .channel(`live-summary-${sessionId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'session_summary_cache',
+          filter: `session_id=eq.${sessionId}`,
+        },
+        (payload) => {
+          const row = payload.new as Partial<SessionSummaryCache>
+          if (!row.summary_text || !row.language_code) return
+
+          // 선택한 언어 요약, 또는 그 언어 번역이 아직 없어서 영어를 보여주는 중이면 영어 요약
+          const current = liveSummaryRef.current
+          const matches =
+            row.language_code === language ||
+            (row.language_code === 'en' && (!current || current.language !== language))
+          if (!matches) return
+          if (current && current.language === row.language_code && (row.version ?? 0) < current.version) return
+
+          console.log(`📰 Live summary v${row.version} received (${row.language_code})`)
+          setLiveSummary({
+            summary: row.summary_text,
+            summaryDocument: toSummaryDocument(row.summary_doc),
+            kind: row.kind || 'live',
+            version: row.version ?? 1,
+            lineCount: row.line_count ?? null,
+            updatedAt: row.updated_at || new Date().toISOString(),
+            language: row.language_code,
+          })
+          if (!openRef.current) setHasUpdate(true)
+        },
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [sessionId, language, supabase])
+
+  useEffect(() => {
+    if (!open) return
+    setHasUpdate(false)
+    const interval = setInterval(() => setTick((tick) => tick + 1), 30000)
+    return () => clearInterval(interval)
+  }, [open])
+
+  return (
+    <div style={{ position: 'fixed', bottom: 32, left: 32, zIndex: 1000 }}>
+      {open ? (
+        <div
+          className={`flex max-h-[60vh] w-[340px] flex-col overflow-hidden rounded-xl border shadow-2xl ${
+            darkMode ? 'border-gray-700 bg-gray-800' : 'border-gray-200 bg-white'
+          }`}
+        >
+          <div className='flex items-center justify-between bg-blue-600 px-4 py-3'>
+            <div className='flex items-center space-x-2 text-white'>
+              <Newspaper className='h-4 w-4' />
+              <span className='text-sm font-semibold'>Catch me up</span>
+            </div>
+            <button
+              onClick={() => setOpen(false)}
+              className='flex h-7 w-7 items-center justify-center rounded-full text-white hover:bg-blue-700'
+              aria-label='Close'
+            >
+              <X className='h-4 w-4' />
+            </button>
+          </div>
+
+          <div className='flex-1 overflow-y-auto px-4 py-3'>
+            {liveSummary ? (
+              <>
+                {liveSummary.summaryDocument ? (
+                  <div className='text-sm leading-relaxed'>
+                    <SummaryDocumentView document={liveSummary.summaryDocument} darkMode={darkMode} />
+                  </div>
+                ) : (
+                  <p
+                    className={`text-sm leading-relaxed whitespace-pre-line ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}
+                  >
+                    {summaryHtmlToText(liveSummary.summary)}
+                  </p>
+                )}
+                <p className={`mt-3 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {liveSummary.kind === 'final' ? 'Final summary' : 'So far'} • updated{' '}
+                  {formatUpdatedAgo(liveSummary.updatedAt)}
+                  {liveSummary.lineCount !== null && ` • ${liveSummary.lineCount} lines`}
+                  {liveSummary.language !== language && ' • English'}
+                </p>
+              </>
+            ) : (
+              <p className={`py-6 text-center text-sm ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                The summary will appear here after the first few minutes of the session.
+              </p>
+            )}
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setOpen(true)}
+          className='relative flex items-center space-x-2 rounded-full border-4 border-white bg-blue-600 px-4 py-3 text-sm font-semibold text-white shadow-lg hover:bg-blue-700 focus:outline-none'
+        >
+          <Newspaper className='h-4 w-4' />
+          <span>Catch me up</span>
+          {hasUpdate && <span className='absolute -top-1 -right-1 h-3 w-3 rounded-full bg-red-500' />}
+        </button>
+      )}
+    </div>
+  )
+}
@@ -1,9 +1,18 @@
 import { useRef, useEffect, ReactNode } from 'react'
 import { useChat, Message } from 'ai/react'
+import { formatChapterTime } from '@/lib/chapters'
+import {
+  getMessageCitations,
+  getTranscriptLineUrl,
+  scrollToTranscriptLine,
+  splitCitationText,
+} from '@/lib/chat-citations'
+import type { ChatCitation } from '@/lib/types'
 
 interface ChatbotCoreProps {
-  transcript: string
   sessionId: string
+  language?: string // 🆕 질문 언어 (서버가 이 언어 번역도 같이 검색)
+  onCitationClick?: (citation: ChatCitation) => void // 🆕 기본: 화면의 그 줄로 스크롤 (없으면 transcript 페이지를 새 탭으로)
   children: (props: {
     messages: Message[]
     input: string
@@ -12,65 +21,65 @@ interface ChatbotCoreProps {
     isLoading: boolean
     error: Error | undefined
     messagesEndRef: React.RefObject<HTMLDivElement | null>
+    renderMessageContent: (message: Message) => ReactNode // 🆕 답변의 [L12] 인용을 링크로
   }) => ReactNode
 }
 
-export function ChatbotCore({ transcript, sessionId, children }: ChatbotCoreProps) {
+// 🆕 transcript 는 서버(/api/session/[id]/chatbot)가 직접 불러와 검색하므로 클라이언트는 질문만 보낸다
+export function ChatbotCore({ sessionId, language, onCitationClick, children }: ChatbotCoreProps) {
   const { messages, input, handleInputChange, handleSubmit, isLoading, error } = useChat({
     api: `/api/session/${sessionId}/chatbot`,
     body: {
-      transcript,
+      language,
     },
   })
   const messagesEndRef = useRef<HTMLDivElement | null>(null)
 
-  // Add a ref to always have the latest transcript
-  const transcriptRef = useRef(transcript)
-  useEffect(() => {
-    transcriptRef.current = transcript
-  }, [transcript])
-
   useEffect(() => {
     if (messagesEndRef.current) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' })
     }
   }, [messages])
 
-  // const handleSend = async () => {
-  //   if (!input.trim()) return;
-  //   setError(null);
-  //   setLoading(true);
-  //   const newMessages: ChatMessage[] = [...messages, { role: 'user', content: input }];
-  //   setMessages(newMessages);
-  //   setInput('');
-  //   try {
-  //     const res = await fetch(`/api/session/${sessionId}/chatbot`, {
-  //       method: 'POST',
-  //       headers: { 'Content-Type': 'application/json' },
-  //       body: JSON.stringify({
-  //         transcript: transcriptRef.current, // always use the latest transcript
-  //         question: input,
-  //         history: newMessages.map(m => ({ role: m.role, content: m.content })),
-  //       }),
-  //     });
-  //     const data = await res.json();
-  //     if (data.answer) {
-  //       setMessages([...newMessages, { role: 'assistant', content: data.answer }]);
-  //     } else {
-  //       setError('No answer received.');
-  //     }
-  //   } catch {
-  //     setError('Failed to get response.');
-  //   } finally {
-  //     setLoading(false);
-  //   }
-  // };
+  const openCitation = (citation: ChatCitation) => {
+    if (onCitationClick) {
+      onCitationClick(citation)
+    } else if (!scrollToTranscriptLine(citation.transcriptId)) {
+      // 라이브 화면은 최근 줄만 보여주므로 전체 transcript 에서 그 줄을 연다 (보던 화면은 그대로)
+      console.log(`📜 Cited line ${citation.ref} is not on screen, opening it in the transcript view`)
+      window.open(getTranscriptLineUrl(sessionId, citation.transcriptId), '_blank', 'noopener')
+    }
+  }
+
+  const renderMessageContent = (message: Message): ReactNode => {
+    if (message.role !== 'assistant') return message.content
+
+    const citations = getMessageCitations(message)
+    return splitCitationText(message.content).map((segment, index) => {
+      if (segment.type === 'text') return <span key={index}>{segment.text}</span>
 
-  // const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-  //   if (e.key === 'Enter' && !loading) {
-  //     handleSend();
-  //   }
-  // };
+      return (
+        <span key={index} className='whitespace-nowrap'>
+          {segment.refs.map((ref) => {
+            const citation = citations.get(ref)
+            // 모델에 보내지 않은 줄 번호는 링크로 만들지 않음
+            if (!citation) return null
+            return (
+              <button
+                key={ref}
+                type='button'
+                onClick={() => openCitation(citation)}
+                title={`${formatChapterTime(citation.offsetMs)} ${citation.speaker ? `${citation.speaker}: ` : ''}${citation.text}`}
+                className='mx-0.5 rounded bg-blue-100 px-1 align-super text-[11px] font-medium text-blue-700 hover:bg-blue-200'
+              >
+                {formatChapterTime(citation.offsetMs)}
+              </button>
+            )
+          })}
+        </span>
+      )
+    })
+  }
 
   return children({
     messages,
@@ -80,5 +89,6 @@ export function ChatbotCore({ transcript, sessionId, children }: ChatbotCoreProp
     isLoading,
     error,
     messagesEndRef,
+    renderMessageContent,
   })
 }
@@ -1,9 +1,18 @@
 import { ChatbotCore } from './ChatbotCore'
 
-export default function ChatbotInline({ transcript, sessionId }: { transcript: string; sessionId: string }) {
+export default function ChatbotInline({ sessionId, language }: { sessionId: string; language?: string }) {
   return (
-    <ChatbotCore transcript={transcript} sessionId={sessionId}>
-      {({ messages, input, handleInputChange, handleSubmit, isLoading, error, messagesEndRef }) => (
+    <ChatbotCore sessionId={sessionId} language={language}>
+      {({
+        messages,
+        input,
+        handleInputChange,
+        handleSubmit,
+        isLoading,
+        error,
+        messagesEndRef,
+        renderMessageContent,
+      }) => (
         <div className='mx-auto mt-8 max-w-xl rounded-2xl border bg-white p-4 shadow-lg dark:bg-gray-900'>
           <div className='mb-3 flex items-center gap-2'>
             <svg width='24' height='24' fill='none' viewBox='0 0 24 24'>
@@ -30,7 +39,7 @@ export default function ChatbotInline({ transcript, sessionId }: { transcript: s
                   }
                   style={{ wordBreak: 'break-word', fontSize: 15 }}
                 >
-                  {msg.content}
+                  {renderMessageContent(msg)}
                 </div>
               </div>
             ))}
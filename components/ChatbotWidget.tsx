@@ -1,7 +1,14 @@
 import React, { useState, useRef } from 'react'
 import { ChatbotCore } from './ChatbotCore'
+import type { ChatCitation } from '@/lib/types'
 
-export default function ChatbotWidget({ transcript, sessionId }: { transcript: string; sessionId: string }) {
+interface ChatbotWidgetProps {
+  sessionId: string
+  language?: string
+  onCitationClick?: (citation: ChatCitation) => void
+}
+
+export default function ChatbotWidget({ sessionId, language, onCitationClick }: ChatbotWidgetProps) {
   const [open, setOpen] = useState(false)
   // Draggable position state
   const [position, setPosition] = useState<{ x: number; y: number } | null>(null)
@@ -142,8 +149,17 @@ export default function ChatbotWidget({ transcript, sessionId }: { transcript: s
             touchAction: 'none',
           }}
         >
-          <ChatbotCore transcript={transcript} sessionId={sessionId}>
-            {({ messages, input, handleInputChange, handleSubmit, isLoading, error, messagesEndRef }) => (
+          <ChatbotCore sessionId={sessionId} language={language} onCitationClick={onCitationClick}>
+            {({
+              messages,
+              input,
+              handleInputChange,
+              handleSubmit,
+              isLoading,
+              error,
+              messagesEndRef,
+              renderMessageContent,
+            }) => (
               <div
                 className='flex h-[520px] flex-col'
                 style={{
@@ -198,7 +214,7 @@ export default function ChatbotWidget({ transcript, sessionId }: { transcript: s
                         }
                         style={{ wordBreak: 'break-word', fontSize: 15 }}
                       >
-                        {msg.content}
+                        {renderMessageContent(msg)}
                       </div>
                     </div>
                   ))}
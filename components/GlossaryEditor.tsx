@@ -0,0 +1,195 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { BookOpen, Loader2, Plus, X } from 'lucide-react'
+import { LANGUAGE_OPTIONS } from '@/lib/languages'
+import type { GlossaryEntry } from '@/lib/types'
+
+// 🆕 용어집 편집 카드 (호스트 대시보드)
+// - endpoint '/api/glossary': 호스트 용어집 (모든 세션에 적용)
+// - endpoint '/api/session/[id]/glossary': 세션 용어집 (저장하면 다음 줄부터 검수 / 번역에 반영)
+// 용어마다 올바른 표기, STT 가 잘못 알아듣는 표기, 언어별 고정 번역을 입력한다.
+
+interface GlossaryEditorProps {
+  endpoint: string
+  title: string
+  description: string
+  languages: string[] // 고정 번역을 입력할 언어 (세션 대상 언어)
+  onGlossaryChange?: (applied: GlossaryEntry[]) => void // 실제 적용되는 목록 (세션이면 호스트 용어집과 합친 목록)
+}
+
+interface DraftEntry {
+  term: string
+  aliases: string // 쉼표로 구분
+  translations: Record<string, string>
+  note?: string
+}
+
+function toDraft(entry: GlossaryEntry): DraftEntry {
+  return {
+    term: entry.term,
+    aliases: (entry.aliases || []).join(', '),
+    translations: entry.translations || {},
+    note: entry.note,
+  }
+}
+
+function fromDraft(draft: DraftEntry): GlossaryEntry {
+  return {
+    term: draft.term,
+    aliases: draft.aliases.split(',').map((alias) => alias.trim()),
+    translations: draft.translations,
+    note: draft.note,
+  }
+}
+
+export function GlossaryEditor({ endpoint, title, description, languages, onGlossaryChange }: GlossaryEditorProps) {
+  const [entries, setEntries] = useState<DraftEntry[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+  const [status, setStatus] = useState<'idle' | 'saved' | 'error'>('idle')
+  const [error, setError] = useState<string | null>(null)
+
+  const applyResponse = (data: { glossary: GlossaryEntry[]; merged?: GlossaryEntry[] }) => {
+    setEntries(data.glossary.map(toDraft))
+    onGlossaryChange?.(data.merged || data.glossary)
+  }
+
+  useEffect(() => {
+    const loadGlossary = async () => {
+      setIsLoading(true)
+      try {
+        const response = await fetch(endpoint)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Failed to load glossary')
+        applyResponse(data)
+      } catch (loadError) {
+        console.error('❌ Failed to load glossary:', loadError)
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load glossary')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    loadGlossary()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [endpoint])
+
+  const updateEntry = (index: number, patch: Partial<DraftEntry>) => {
+    setStatus('idle')
+    setEntries((prev) => prev.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)))
+  }
+
+  const saveGlossary = async () => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ glossary: entries.filter((entry) => entry.term.trim()).map(fromDraft) }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to save glossary')
+
+      console.log(`✅ Glossary saved: ${data.glossary.length} terms`)
+      applyResponse(data)
+      setStatus('saved')
+    } catch (saveError) {
+      console.error('❌ Failed to save glossary:', saveError)
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save glossary')
+      setStatus('error')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className='flex items-center'>
+          <BookOpen className='mr-2 h-5 w-5' />
+          {title}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-3'>
+        {isLoading ? (
+          <Loader2 className='h-4 w-4 animate-spin text-gray-500' />
+        ) : (
+          <>
+            {entries.length === 0 && <p className='text-sm text-gray-500'>No terms yet.</p>}
+
+            {entries.map((entry, index) => (
+              <div key={index} className='space-y-2 rounded-lg border p-3'>
+                <div className='flex items-center space-x-2'>
+                  <Input
+                    value={entry.term}
+                    placeholder='Term (e.g. Y Combinator)'
+                    maxLength={100}
+                    onChange={(event) => updateEntry(index, { term: event.target.value })}
+                  />
+                  <Button
+                    variant='ghost'
+                    size='sm'
+                    title='Remove term'
+                    onClick={() => {
+                      setStatus('idle')
+                      setEntries((prev) => prev.filter((_, i) => i !== index))
+                    }}
+                  >
+                    <X className='h-4 w-4' />
+                  </Button>
+                </div>
+                <Input
+                  value={entry.aliases}
+                  placeholder='Often misheard as (comma separated, e.g. My Combinator)'
+                  onChange={(event) => updateEntry(index, { aliases: event.target.value })}
+                />
+                {languages.length > 0 && (
+                  <div className='grid grid-cols-2 gap-2'>
+                    {languages.map((lang) => (
+                      <Input
+                        key={lang}
+                        value={entry.translations[lang] || ''}
+                        placeholder={`${LANGUAGE_OPTIONS.find((option) => option.code === lang)?.name || lang} translation`}
+                        maxLength={100}
+                        onChange={(event) =>
+                          updateEntry(index, { translations: { ...entry.translations, [lang]: event.target.value } })
+                        }
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {error && <p className='text-sm text-red-600'>{error}</p>}
+
+            <div className='flex items-center justify-between'>
+              <Button
+                variant='outline'
+                size='sm'
+                onClick={() => setEntries((prev) => [...prev, { term: '', aliases: '', translations: {} }])}
+              >
+                <Plus className='mr-1 h-4 w-4' />
+                Add term
+              </Button>
+              <div className='flex items-center space-x-2'>
+                {status === 'saved' && <span className='text-xs text-green-600'>Saved</span>}
+                <Button size='sm' onClick={saveGlossary} disabled={isSaving}>
+                  {isSaving && <Loader2 className='mr-1 h-4 w-4 animate-spin' />}
+                  Save glossary
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
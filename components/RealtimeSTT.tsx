@@ -2,6 +2,9 @@
 'use client'
 
 import { useEffect, useRef, useState, useCallback } from 'react'
+import { buildSpeechGrammar } from '@/lib/glossary'
+import { TranscriptOutbox } from '@/lib/transcript-outbox'
+import type { GlossaryEntry } from '@/lib/types'
 
 interface RealtimeSTTProps {
   sessionId: string
@@ -9,16 +12,33 @@ interface RealtimeSTTProps {
   onTranscriptUpdate: (transcript: string, isPartial: boolean) => void
   onError: (error: string) => void
   lang?: string
+  speakerId?: string // 🆕 공동 발표자 session_participants.id (호스트는 없음)
+  glossary?: GlossaryEntry[] // 🆕 용어집 → SpeechGrammarList (지원하는 브라우저만, 다음 재시작부터 반영)
 }
 
+// 🆕 interim 결과 중계 간격 (ms)
+const PARTIAL_SEND_INTERVAL = 300
+// 🆕 마지막 final 이후 이만큼 조용하면 서버 문장 버퍼를 flush (문장 부호 없이 끝난 말 저장)
+const SEGMENT_FLUSH_DELAY = 2000
+
 declare global {
   interface Window {
     SpeechRecognition: any
     webkitSpeechRecognition: any
+    SpeechGrammarList?: any
+    webkitSpeechGrammarList?: any
   }
 }
 
-export function RealtimeSTT({ sessionId, isRecording, onTranscriptUpdate, onError, lang = 'en-US' }: RealtimeSTTProps) {
+export function RealtimeSTT({
+  sessionId,
+  isRecording,
+  onTranscriptUpdate,
+  onError,
+  lang = 'en-US',
+  speakerId,
+  glossary,
+}: RealtimeSTTProps) {
   const [isListening, setIsListening] = useState(false)
   const [isSupported, setIsSupported] = useState(false)
   const [hasPermission, setHasPermission] = useState(false)
@@ -31,6 +51,26 @@ export function RealtimeSTT({ sessionId, isRecording, onTranscriptUpdate, onErro
   const finalizeTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const accumulatedTextRef = useRef<string>('')
 
+  // 🆕 청중에게 중계하는 interim(partial) 결과
+  const utteranceIdRef = useRef<string | null>(null)
+  // 🆕 현재 발화의 첫 결과 시각 (final 조각의 capturedAt → 줄 시각 / 녹음 위치가 말을 시작한 때에 맞음)
+  const utteranceStartedAtRef = useRef<number | null>(null)
+  const pendingPartialRef = useRef<string>('')
+  const partialTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const partialSentAtRef = useRef<number>(0)
+
+  // 🆕 final 조각 sequence (세션마다 1부터, 서버가 중복 검사에 사용) + 문장 버퍼 flush 타이머
+  const sequenceRef = useRef(0)
+  const flushTimerRef = useRef<NodeJS.Timeout | null>(null)
+
+  // 🆕 final / flush / end 는 IndexedDB outbox 를 거쳐 순서대로 전송 (오프라인이면 쌓아 두었다가 재전송)
+  const outboxRef = useRef<TranscriptOutbox | null>(null)
+  const [outboxBacklog, setOutboxBacklog] = useState(0)
+
+  // 🆕 재시작할 때마다 최신 용어집으로 grammar 구성
+  const glossaryRef = useRef<GlossaryEntry[]>([])
+  glossaryRef.current = glossary || []
+
   // 5분 제한 방지를 위한 주기적 재시작 타이머
   const restartTimerRef = useRef<NodeJS.Timeout | null>(null)
   const recognitionStartTimeRef = useRef<number>(0)
@@ -71,14 +111,112 @@ export function RealtimeSTT({ sessionId, isRecording, onTranscriptUpdate, onErro
     }
 
     accumulatedTextRef.current = ''
+    resetPartialTranscript()
+    clearSegmentFlush()
+  }
+
+  // 🆕 final 조각을 outbox 에 저장 후 전송 (세션별 sequence + idempotencyKey + 발화 시각)
+  const sendFinalFragment = async (text: string) => {
+    sequenceRef.current += 1
+    scheduleSegmentFlush()
+
+    const sequence = sequenceRef.current
+    const capturedAt = utteranceStartedAtRef.current ?? Date.now()
+    utteranceStartedAtRef.current = null
+    await outboxRef.current?.enqueue({
+      type: 'transcript',
+      sessionId: currentSessionRef.current!,
+      speakerId,
+      transcript: text,
+      sequence,
+      idempotencyKey: `${sequence}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      capturedAt,
+    })
+  }
+
+  const clearSegmentFlush = () => {
+    if (flushTimerRef.current) {
+      clearTimeout(flushTimerRef.current)
+      flushTimerRef.current = null
+    }
+  }
+
+  // 🆕 말이 멈추면 서버에 남은 문장 조각 저장 요청
+  const scheduleSegmentFlush = () => {
+    clearSegmentFlush()
+    flushTimerRef.current = setTimeout(() => {
+      flushTimerRef.current = null
+      if (!mountedRef.current || !currentSessionRef.current) return
+
+      outboxRef.current
+        ?.enqueue({ type: 'flush', sessionId: currentSessionRef.current, speakerId, capturedAt: Date.now() })
+        .catch((error) => {
+          console.error('❌ Error queueing sentence buffer flush:', error)
+        })
+    }, SEGMENT_FLUSH_DELAY)
+  }
+
+  // 🆕 interim 결과를 청중에게 중계 (PARTIAL_SEND_INTERVAL 마다 최대 1회, 마지막 텍스트 우선)
+  const sendPartialTranscript = (text: string) => {
+    pendingPartialRef.current = text
+    if (partialTimerRef.current) return
+
+    const wait = Math.max(0, PARTIAL_SEND_INTERVAL - (Date.now() - partialSentAtRef.current))
+    partialTimerRef.current = setTimeout(() => {
+      partialTimerRef.current = null
+      const partialText = pendingPartialRef.current
+      if (!mountedRef.current || !partialText || !currentSessionRef.current) return
+
+      // 같은 발화의 partial 은 같은 id 로 보내서 청중 화면에서 한 줄로 갱신
+      if (!utteranceIdRef.current) {
+        utteranceIdRef.current = `${Date.now()}-${Math.random().toString(36).substring(2, 8)}`
+      }
+      partialSentAtRef.current = Date.now()
+
+      fetch('/api/stt-stream', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          type: 'transcript',
+          sessionId: currentSessionRef.current,
+          transcript: partialText,
+          isPartial: true,
+          utteranceId: utteranceIdRef.current,
+          speakerId,
+        }),
+      }).catch((error) => {
+        console.error('❌ Error sending partial transcript:', error)
+      })
+    }, wait)
+  }
+
+  // 🆕 final 결과가 나오면 대기 중인 partial 전송 취소 + 다음 발화 준비
+  const resetPartialTranscript = () => {
+    if (partialTimerRef.current) {
+      clearTimeout(partialTimerRef.current)
+      partialTimerRef.current = null
+    }
+    pendingPartialRef.current = ''
+    utteranceIdRef.current = null
   }
 
   // Component cleanup on unmount
   useEffect(() => {
     mountedRef.current = true
+
+    // 🆕 outbox 시작 (이전 페이지에서 못 보낸 조각도 이어서 전송)
+    const outbox = new TranscriptOutbox()
+    outboxRef.current = outbox
+    const unsubscribe = outbox.subscribe((pending) => {
+      if (mountedRef.current) setOutboxBacklog(pending)
+    })
+    outbox.start()
+
     return () => {
       mountedRef.current = false
       cleanup()
+      unsubscribe()
+      outbox.stop()
     }
   }, [])
 
@@ -312,6 +450,20 @@ export function RealtimeSTT({ sessionId, isRecording, onTranscriptUpdate, onErro
       recognition.interimResults = true
       recognition.lang = lang
 
+      // 🆕 용어집 grammar (Chrome 은 무시할 수 있으므로 인식률 힌트로만 사용)
+      const grammar = buildSpeechGrammar(glossaryRef.current)
+      const SpeechGrammarList = window.SpeechGrammarList || window.webkitSpeechGrammarList
+      if (grammar && SpeechGrammarList) {
+        try {
+          const grammarList = new SpeechGrammarList()
+          grammarList.addFromString(grammar, 1)
+          recognition.grammars = grammarList
+          console.log(`📘 Speech grammar set with ${glossaryRef.current.length} glossary terms`)
+        } catch (grammarError) {
+          console.warn('⚠️ Speech grammar not supported:', grammarError)
+        }
+      }
+
       recognition.onstart = () => {
         if (!mountedRef.current) return
         console.log('🎤 Recognition started')
@@ -457,17 +609,24 @@ export function RealtimeSTT({ sessionId, isRecording, onTranscriptUpdate, onErro
         currentTranscript = currentTranscript.trim()
 
         if (currentTranscript) {
+          if (!utteranceStartedAtRef.current) {
+            utteranceStartedAtRef.current = Date.now()
+          }
+
           // Clear any existing timeout
           if (finalizeTimeoutRef.current) {
             clearTimeout(finalizeTimeoutRef.current)
             finalizeTimeoutRef.current = null
           }
+          // 아직 말하는 중이면 문장 버퍼 flush 보류
+          clearSegmentFlush()
 
           // Show interim results immediately for UI
           if (!isFinalResult) {
             // Show accumulated + current for interim results
             const displayText = (accumulatedTextRef.current + ' ' + currentTranscript).trim()
             onTranscriptUpdate(displayText, true) // Show as partial
+            sendPartialTranscript(displayText)
           } else {
             // Final result: accumulate and send to server
             accumulatedTextRef.current += ' ' + currentTranscript
@@ -476,27 +635,15 @@ export function RealtimeSTT({ sessionId, isRecording, onTranscriptUpdate, onErro
             // Only send final results to server (not partial)
             if (accumulatedTextRef.current.length > 0) {
               console.log('🎯 Final transcript:', accumulatedTextRef.current)
+              resetPartialTranscript()
 
-              // Send to server via STT stream
-              fetch('/api/stt-stream', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                  type: 'transcript',
-                  sessionId: currentSessionRef.current,
-                  transcript: accumulatedTextRef.current,
-                  isPartial: false, // Final result
-                }),
-              })
-                .then((response) => {
-                  if (response.ok) {
-                    console.log('✅ Final transcript sent to server')
-                  } else {
-                    console.error('❌ Failed to send transcript to server')
-                  }
+              // Send to server via STT stream outbox (서버가 문장 단위로 다시 나눠 저장)
+              sendFinalFragment(accumulatedTextRef.current)
+                .then(() => {
+                  console.log('📮 Final transcript queued for server')
                 })
                 .catch((error) => {
-                  console.error('❌ Error sending transcript:', error)
+                  console.error('❌ Error queueing transcript:', error)
                 })
 
               // Show final result in UI
@@ -512,19 +659,11 @@ export function RealtimeSTT({ sessionId, isRecording, onTranscriptUpdate, onErro
             finalizeTimeoutRef.current = setTimeout(() => {
               if (mountedRef.current && accumulatedTextRef.current) {
                 console.log('⏰ Timeout: Finalizing accumulated text')
+                resetPartialTranscript()
 
                 // Send accumulated text as final if timeout occurs
-                fetch('/api/stt-stream', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({
-                    type: 'transcript',
-                    sessionId: currentSessionRef.current,
-                    transcript: accumulatedTextRef.current,
-                    isPartial: false,
-                  }),
-                }).then(() => {
-                  console.log('✅ Timeout transcript sent to server')
+                sendFinalFragment(accumulatedTextRef.current).then(() => {
+                  console.log('📮 Timeout transcript queued for server')
                   onTranscriptUpdate(accumulatedTextRef.current, false)
                   accumulatedTextRef.current = ''
                 })
@@ -561,6 +700,7 @@ export function RealtimeSTT({ sessionId, isRecording, onTranscriptUpdate, onErro
       if (currentSessionRef.current !== sessionId) {
         currentSessionRef.current = sessionId
         isActiveRef.current = true
+        sequenceRef.current = 0
 
         console.log('🚀 Initializing NEW session:', sessionId)
         console.log('🔧 Setting isActiveRef to true:', isActiveRef.current)
@@ -572,6 +712,7 @@ export function RealtimeSTT({ sessionId, isRecording, onTranscriptUpdate, onErro
           body: JSON.stringify({
             type: 'start',
             sessionId,
+            speakerId,
           }),
         })
           .then(() => {
@@ -636,31 +777,13 @@ export function RealtimeSTT({ sessionId, isRecording, onTranscriptUpdate, onErro
       console.log('🛑 Stopping session:', sessionToEnd)
       console.log('🛑 Before cleanup - isActive:', isActiveRef.current)
 
-      // Immediately call STT stream end
-      console.log('🛑 IMMEDIATELY calling STT stream end')
+      // STT stream end 도 outbox 로 (먼저 쌓인 조각이 모두 저장된 뒤에 남은 버퍼 저장 + 상태 정리)
+      console.log('🛑 Queueing STT stream end')
 
-      fetch('/api/stt-stream', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: 'end',
-          sessionId: sessionToEnd,
-        }),
-      })
-        .then((response) => {
-          console.log('🛑 STT stream end response status:', response.status)
-          return response.json()
-        })
-        .then((data) => {
-          console.log('✅ STT stream ended successfully:', data)
-          if (data.saved) {
-            console.log(`📝 Transcript saved with record ID: ${data.recordId}`)
-          } else {
-            console.log(`⚠️ No transcript content was saved: ${data.message || 'No message'}`)
-          }
-        })
+      outboxRef.current
+        ?.enqueue({ type: 'end', sessionId: sessionToEnd, speakerId, capturedAt: Date.now() })
         .catch((error) => {
-          console.error('❌ Failed to end STT stream:', error)
+          console.error('❌ Failed to queue STT stream end:', error)
         })
 
       // Then cleanup
@@ -761,6 +884,18 @@ export function RealtimeSTT({ sessionId, isRecording, onTranscriptUpdate, onErro
         </div>
       )}
 
+      {/* 🆕 Outbox backlog (오프라인 동안 쌓인 조각) */}
+      {outboxBacklog > 0 && (
+        <div className='rounded border border-orange-200 bg-orange-50 p-2 text-xs'>
+          <p className='font-medium text-orange-800'>
+            📮 {outboxBacklog} line{outboxBacklog === 1 ? '' : 's'} waiting to upload
+          </p>
+          <p className='text-orange-700'>
+            Saved on this device and resent in order when the connection returns. Keep this tab open.
+          </p>
+        </div>
+      )}
+
       {/* Network Error Status */}
       {status === 'Reconnecting...' && (
         <div className='rounded border border-blue-200 bg-blue-50 p-2 text-xs'>
@@ -0,0 +1,192 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { VadSegmentRecorder, type AudioSegment } from '@/lib/voice-activity'
+import { toBaseLanguageCode } from '@/lib/languages'
+
+// 🆕 서버 STT (Whisper) 모드
+// MediaRecorder 로 발화 단위 오디오를 녹음해 /api/stt 로 업로드한다.
+// - VAD 로 침묵 구간에서 녹음을 끊어 독립적으로 디코딩 가능한 청크를 만든다.
+// - 업로드는 병렬로 진행하고, 응답은 sequence 순서대로 재정렬해서 전달한다.
+
+interface ServerSTTProps {
+  sessionId: string
+  isRecording: boolean
+  onTranscriptUpdate: (transcript: string, isPartial: boolean) => void
+  onError: (error: string) => void
+  lang?: string
+  speakerId?: string // 🆕 공동 발표자 session_participants.id
+}
+
+const CHUNK_TIMEOUT_MS = 30000 // 응답이 늦은 청크는 건너뛰고 다음 순서로 진행
+const PROMPT_CONTEXT_CHARS = 200 // Whisper prompt 로 보낼 직전 문맥 길이
+
+export function ServerSTT({ sessionId, isRecording, onTranscriptUpdate, onError, lang, speakerId }: ServerSTTProps) {
+  const [status, setStatus] = useState('Idle')
+  const [isSpeaking, setIsSpeaking] = useState(false)
+  const [pendingChunks, setPendingChunks] = useState(0)
+
+  const streamRef = useRef<MediaStream | null>(null)
+  const segmenterRef = useRef<VadSegmentRecorder | null>(null)
+  const activeRef = useRef(false)
+
+  // 순서 보장: 청크마다 sequence 를 붙이고, 도착한 결과는 nextEmit 부터 차례로 전달
+  const nextEmitRef = useRef(0)
+  const resultsRef = useRef<Map<number, string | null>>(new Map())
+  const lastTextRef = useRef('')
+
+  // 최신 콜백 / 설정을 ref 로 유지 (녹음 중 재생성되어도 재시작하지 않도록)
+  const onTranscriptUpdateRef = useRef(onTranscriptUpdate)
+  const onErrorRef = useRef(onError)
+  const langRef = useRef(lang)
+  useEffect(() => {
+    onTranscriptUpdateRef.current = onTranscriptUpdate
+    onErrorRef.current = onError
+    langRef.current = lang
+  }, [onTranscriptUpdate, onError, lang])
+
+  const deliverResult = (sequence: number, text: string | null) => {
+    resultsRef.current.set(sequence, text)
+
+    while (resultsRef.current.has(nextEmitRef.current)) {
+      const next = resultsRef.current.get(nextEmitRef.current)
+      resultsRef.current.delete(nextEmitRef.current)
+      nextEmitRef.current += 1
+
+      if (next) {
+        lastTextRef.current = next
+        onTranscriptUpdateRef.current(next, false)
+      }
+    }
+  }
+
+  const uploadChunk = async ({ blob, sequence, startedAt, endedAt }: AudioSegment) => {
+    const format = segmenterRef.current?.recorderFormat
+    setPendingChunks((count) => count + 1)
+
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), CHUNK_TIMEOUT_MS)
+
+    try {
+      const formData = new FormData()
+      formData.append(
+        'audio',
+        new File([blob], `chunk-${sequence}.${format?.extension || 'webm'}`, { type: blob.type }),
+      )
+      formData.append('sessionId', sessionId)
+      formData.append('language', toBaseLanguageCode(langRef.current) || 'auto')
+      formData.append('sequence', String(sequence))
+      formData.append('startedAt', String(startedAt))
+      formData.append('endedAt', String(endedAt))
+      if (speakerId) {
+        formData.append('speakerId', speakerId)
+      }
+      if (lastTextRef.current) {
+        formData.append('prompt', lastTextRef.current.slice(-PROMPT_CONTEXT_CHARS))
+      }
+
+      console.log(`📤 Uploading STT chunk #${sequence} (${Math.round(blob.size / 1024)}KB, ${endedAt - startedAt}ms)`)
+      const response = await fetch('/api/stt', { method: 'POST', body: formData, signal: controller.signal })
+      const data = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        console.error(`❌ STT chunk #${sequence} failed:`, data.error || response.status)
+        deliverResult(sequence, null)
+        return
+      }
+
+      console.log(`✅ STT chunk #${sequence}: "${(data.transcript || '').substring(0, 40)}"`)
+      deliverResult(sequence, data.transcript?.trim() || null)
+    } catch (error) {
+      console.error(`❌ STT chunk #${sequence} error:`, error)
+      deliverResult(sequence, null)
+    } finally {
+      clearTimeout(timeout)
+      setPendingChunks((count) => Math.max(0, count - 1))
+    }
+  }
+
+  const start = async () => {
+    if (activeRef.current) return
+
+    if (typeof MediaRecorder === 'undefined') {
+      setStatus('Not supported')
+      onErrorRef.current('MediaRecorder is not supported in this browser.')
+      return
+    }
+
+    try {
+      setStatus('Requesting microphone...')
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 },
+      })
+
+      streamRef.current = stream
+      activeRef.current = true
+      nextEmitRef.current = 0
+      resultsRef.current.clear()
+
+      const segmenter = new VadSegmentRecorder(stream)
+      segmenterRef.current = segmenter
+      segmenter.start({ onSegment: uploadChunk, onVoiceChange: setIsSpeaking })
+
+      setStatus('Listening...')
+      console.log(`🎙️ Server STT started (${segmenter.recorderFormat?.mimeType || 'default format'})`)
+    } catch (error) {
+      console.error('❌ Failed to start server STT:', error)
+      setStatus('Microphone error')
+      onErrorRef.current('Microphone access failed. Please allow microphone access and try again.')
+    }
+  }
+
+  const stop = () => {
+    if (!activeRef.current) return
+    activeRef.current = false
+
+    // 마지막 발화는 업로드
+    segmenterRef.current?.stop().catch(() => {})
+    segmenterRef.current = null
+    streamRef.current?.getTracks().forEach((track) => track.stop())
+    streamRef.current = null
+
+    setIsSpeaking(false)
+    setStatus('Stopped')
+    console.log('🛑 Server STT stopped')
+  }
+
+  useEffect(() => {
+    if (isRecording && sessionId) {
+      start()
+    } else {
+      stop()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRecording, sessionId])
+
+  // Component cleanup on unmount
+  useEffect(() => {
+    return () => stop()
+  }, [])
+
+  return (
+    <div className='space-y-3'>
+      {/* Status Display */}
+      <div className='flex items-center space-x-2 text-sm'>
+        <div
+          className={`h-3 w-3 rounded-full ${
+            isSpeaking ? 'animate-pulse bg-green-500' : activeRef.current ? 'bg-yellow-500' : 'bg-gray-500'
+          }`}
+        />
+        <span className={isSpeaking ? 'font-medium text-green-600' : 'text-gray-600'}>
+          {isSpeaking ? '🎤 Speaking' : status}
+        </span>
+        <span className='rounded bg-purple-100 px-2 py-1 text-xs font-medium text-purple-700'>Server (Whisper)</span>
+        {pendingChunks > 0 && (
+          <span className='text-xs text-gray-500'>
+            ⏳ {pendingChunks} chunk{pendingChunks > 1 ? 's' : ''} processing
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
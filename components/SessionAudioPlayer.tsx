@@ -0,0 +1,88 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { AudioLines } from 'lucide-react'
+
+// 🆕 세션 녹음 플레이어 (요약 페이지)
+// 녹음이 있는 세션에서만 표시된다. transcript 줄을 누르면 seekRequest 로 그 위치부터 재생하고,
+// 재생 위치는 onTimeUpdate 로 알려서 지금 들리는 줄을 표시할 수 있게 한다.
+
+export interface SessionAudio {
+  url: string // Storage signed URL (1시간)
+  mimeType: string
+  startedAt: string
+  durationMs: number
+}
+
+interface SessionAudioPlayerProps {
+  sessionId: string
+  darkMode?: boolean
+  seekRequest: { offsetMs: number; nonce: number } | null // nonce: 같은 줄을 다시 눌러도 이동
+  onRecordingChange: (recording: SessionAudio | null) => void
+  onTimeUpdate?: (offsetMs: number) => void
+}
+
+export function SessionAudioPlayer({
+  sessionId,
+  darkMode,
+  seekRequest,
+  onRecordingChange,
+  onTimeUpdate,
+}: SessionAudioPlayerProps) {
+  const [recording, setRecording] = useState<SessionAudio | null>(null)
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+  const urlRefreshedRef = useRef(false)
+
+  const loadRecording = async () => {
+    try {
+      const response = await fetch(`/api/session/${sessionId}/audio`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load recording')
+
+      setRecording(data.recording)
+      onRecordingChange(data.recording)
+    } catch (error) {
+      console.error('❌ Failed to load session recording:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (sessionId) loadRecording()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId])
+
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio || !seekRequest) return
+
+    audio.currentTime = seekRequest.offsetMs / 1000
+    audio.play().catch((error) => console.warn('⚠️ Audio playback blocked:', error))
+  }, [seekRequest])
+
+  if (!recording) return null
+
+  return (
+    <div
+      className={`mb-4 rounded-lg border p-3 ${darkMode ? 'border-gray-600 bg-gray-700' : 'border-gray-200 bg-gray-50'}`}
+    >
+      <div className={`mb-2 flex items-center space-x-2 text-sm ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+        <AudioLines className='h-4 w-4' />
+        <span>Session recording • click a line to play it</span>
+      </div>
+      <audio
+        ref={audioRef}
+        src={recording.url}
+        controls
+        preload='metadata'
+        className='w-full'
+        onTimeUpdate={(event) => onTimeUpdate?.(event.currentTarget.currentTime * 1000)}
+        onError={() => {
+          // signed URL 만료 → 한 번만 새로 받아옴
+          if (urlRefreshedRef.current) return
+          urlRefreshedRef.current = true
+          loadRecording()
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+'use client'
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { ListOrdered } from 'lucide-react'
+import { formatChapterTime, getChapterAnchor, getChapterTitle } from '@/lib/chapters'
+import type { SessionChapter } from '@/lib/types'
+
+// 🆕 챕터 목차 (요약 / transcript 페이지)
+// 챕터를 누르면 그 챕터 첫 줄로 이동하고, 주소에 #chapter-N 을 남겨 그 위치로 바로 열리는 링크를 공유할 수 있다.
+
+interface SessionChaptersCardProps {
+  chapters: SessionChapter[]
+  language?: string // 제목 언어 (번역이 없으면 영어)
+  darkMode?: boolean
+  title?: string
+  activeIndex?: number | null // 지금 보고 / 듣고 있는 챕터
+  onJump: (chapter: SessionChapter) => void
+}
+
+export function SessionChaptersCard({
+  chapters,
+  language,
+  darkMode,
+  title = 'Chapters',
+  activeIndex,
+  onJump,
+}: SessionChaptersCardProps) {
+  if (chapters.length === 0) return null
+
+  return (
+    <Card className={darkMode ? 'border-gray-700 bg-gray-800' : ''}>
+      <CardHeader>
+        <CardTitle className={`flex items-center space-x-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          <ListOrdered className='h-5 w-5' />
+          <span>{title}</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ol className='space-y-1'>
+          {chapters.map((chapter) => (
+            <li key={chapter.index}>
+              <a
+                href={`#${getChapterAnchor(chapter)}`}
+                onClick={(event) => {
+                  event.preventDefault()
+                  window.history.replaceState(null, '', `#${getChapterAnchor(chapter)}`)
+                  onJump(chapter)
+                }}
+                className={`flex items-baseline space-x-3 rounded-md px-2 py-1 text-sm ${
+                  activeIndex === chapter.index
+                    ? darkMode
+                      ? 'bg-blue-900/50 text-blue-200'
+                      : 'bg-blue-50 text-blue-800'
+                    : darkMode
+                      ? 'text-gray-200 hover:bg-gray-700'
+                      : 'text-gray-800 hover:bg-gray-100'
+                }`}
+              >
+                <span className={`w-14 shrink-0 tabular-nums ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+                  {formatChapterTime(chapter.startOffsetMs)}
+                </span>
+                <span>
+                  {chapter.index + 1}. {getChapterTitle(chapter, language)}
+                </span>
+              </a>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+}
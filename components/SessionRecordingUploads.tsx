@@ -0,0 +1,114 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { AudioLines, Loader2 } from 'lucide-react'
+import type { StoredRecording } from '@/lib/session-recorder'
+
+// 🆕 세션 녹음 업로드 상태 (호스트 페이지)
+// 세션이 끝난 직후의 업로드 진행률과, 이전에 끝내지 못한 업로드(이 브라우저에 남은 녹음)를 보여준다.
+
+export interface RecordingUploadState {
+  sessionId: string
+  status: 'uploading' | 'failed'
+  uploadedParts: number
+  totalParts: number
+  error?: string
+}
+
+interface SessionRecordingUploadsProps {
+  recordings: StoredRecording[]
+  upload: RecordingUploadState | null
+  onUpload: (sessionId: string) => void
+  onDiscard: (sessionId: string) => void
+}
+
+const formatRecordingLength = (recording: StoredRecording) => {
+  const minutes = Math.max(
+    1,
+    Math.round(((recording.stoppedAt ?? recording.lastChunkAt) - recording.startedAt) / 60000),
+  )
+  return `${minutes} min`
+}
+
+export function SessionRecordingUploads({ recordings, upload, onUpload, onDiscard }: SessionRecordingUploadsProps) {
+  if (recordings.length === 0 && !upload) return null
+
+  return (
+    <Card className='mt-6'>
+      <CardHeader>
+        <CardTitle className='flex items-center space-x-2'>
+          <AudioLines className='h-5 w-5' />
+          <span>Session Audio</span>
+        </CardTitle>
+        <CardDescription>
+          Recordings are kept in this browser until they are uploaded. Each transcript line links to its place in the
+          audio.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-3'>
+        {upload?.status === 'uploading' && (
+          <div className='rounded-lg border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800'>
+            <div className='flex items-center space-x-2'>
+              <Loader2 className='h-4 w-4 animate-spin' />
+              <span>
+                Uploading audio
+                {upload.totalParts > 0 && ` (${upload.uploadedParts}/${upload.totalParts})`}... Keep this tab open.
+              </span>
+            </div>
+            {upload.totalParts > 0 && (
+              <div className='mt-2 h-1.5 w-full overflow-hidden rounded bg-blue-100'>
+                <div
+                  className='h-full bg-blue-500 transition-all'
+                  style={{ width: `${(upload.uploadedParts / upload.totalParts) * 100}%` }}
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {upload?.status === 'failed' && (
+          <div className='rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-800'>
+            Audio upload stopped: {upload.error || 'unknown error'}. Uploaded parts are kept, so you can resume below.
+          </div>
+        )}
+
+        {recordings.map((recording) => {
+          const isUploading = upload?.status === 'uploading' && upload.sessionId === recording.sessionId
+          return (
+            <div
+              key={recording.sessionId}
+              className='flex items-center justify-between rounded-lg border border-gray-200 p-3 text-sm'
+            >
+              <div>
+                <p className='font-medium text-gray-900'>
+                  {new Date(recording.startedAt).toLocaleString()} • {formatRecordingLength(recording)}
+                </p>
+                <p className='text-gray-500'>
+                  {recording.stoppedAt ? 'Not uploaded yet' : 'Recording was interrupted'}
+                </p>
+              </div>
+              <div className='flex space-x-2'>
+                <Button
+                  size='sm'
+                  onClick={() => onUpload(recording.sessionId)}
+                  disabled={upload?.status === 'uploading'}
+                >
+                  {isUploading ? <Loader2 className='h-4 w-4 animate-spin' /> : 'Upload'}
+                </Button>
+                <Button
+                  size='sm'
+                  variant='outline'
+                  onClick={() => onDiscard(recording.sessionId)}
+                  disabled={upload?.status === 'uploading'}
+                >
+                  Discard
+                </Button>
+              </div>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,154 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Loader2, Pencil, Users } from 'lucide-react'
+import type { SessionSpeaker } from '@/lib/speakers'
+
+// 🆕 세션 화자 목록 (요약 페이지)
+// 둘 이상이 말한 세션에서만 표시되고, 호스트는 세션이 끝난 뒤 화자 이름을 바꿀 수 있다.
+// 바꾼 이름은 sessions.speaker_names 에 저장되어 청중 화면 / 내보내기 / 요약에도 쓰인다.
+
+interface SessionSpeakersCardProps {
+  sessionId: string
+  isHost: boolean
+  darkMode?: boolean
+  visible: boolean // 여러 명이 말한 세션인지 (transcript 기준)
+  onSpeakersChange: (speakers: SessionSpeaker[]) => void
+}
+
+export function SessionSpeakersCard({
+  sessionId,
+  isHost,
+  darkMode,
+  visible,
+  onSpeakersChange,
+}: SessionSpeakersCardProps) {
+  const [speakers, setSpeakers] = useState<SessionSpeaker[]>([])
+  const [draftNames, setDraftNames] = useState<Record<string, string>>({})
+  const [isEditing, setIsEditing] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const applySpeakers = (next: SessionSpeaker[]) => {
+    setSpeakers(next)
+    onSpeakersChange(next)
+  }
+
+  const loadSpeakers = async () => {
+    try {
+      const response = await fetch(`/api/session/${sessionId}/speakers`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load speakers')
+      applySpeakers(data.speakers)
+    } catch (loadError) {
+      console.error('❌ Failed to load session speakers:', loadError)
+    }
+  }
+
+  useEffect(() => {
+    if (sessionId) loadSpeakers()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessionId])
+
+  const startEditing = () => {
+    setDraftNames(Object.fromEntries(speakers.map((speaker) => [speaker.key, speaker.name])))
+    setError(null)
+    setIsEditing(true)
+  }
+
+  const saveNames = async () => {
+    setIsSaving(true)
+    setError(null)
+
+    // 기본 이름과 같으면 저장하지 않음 (나중에 참가자 이름이 바뀌어도 따라가도록)
+    const names = Object.fromEntries(
+      speakers
+        .map((speaker) => [speaker.key, (draftNames[speaker.key] || '').trim()])
+        .filter(([key, name]) => name && name !== speakers.find((speaker) => speaker.key === key)?.defaultName),
+    )
+
+    try {
+      const response = await fetch(`/api/session/${sessionId}/speakers`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ names }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to rename speakers')
+
+      console.log('✅ Speaker names saved:', data.speakerNames)
+      await loadSpeakers()
+      setIsEditing(false)
+    } catch (saveError) {
+      console.error('❌ Failed to rename speakers:', saveError)
+      setError(saveError instanceof Error ? saveError.message : 'Failed to rename speakers')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!visible || speakers.length < 2) return null
+
+  return (
+    <Card className={darkMode ? 'border-gray-700 bg-gray-800' : ''}>
+      <CardHeader>
+        <div className='flex items-center justify-between'>
+          <CardTitle className={`flex items-center ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+            <Users className='mr-2 h-5 w-5' />
+            Speakers
+          </CardTitle>
+          {isHost && !isEditing && (
+            <Button variant='outline' size='sm' onClick={startEditing}>
+              <Pencil className='mr-1 h-4 w-4' />
+              Rename
+            </Button>
+          )}
+        </div>
+        <CardDescription className={darkMode ? 'text-gray-400' : 'text-gray-600'}>
+          {speakers.length} speakers in this session
+        </CardDescription>
+      </CardHeader>
+      <CardContent className='space-y-2'>
+        {speakers.map((speaker) =>
+          isEditing ? (
+            <div key={speaker.key} className='flex items-center space-x-2'>
+              <Input
+                value={draftNames[speaker.key] ?? ''}
+                placeholder={speaker.defaultName}
+                maxLength={60}
+                onChange={(event) => setDraftNames((prev) => ({ ...prev, [speaker.key]: event.target.value }))}
+              />
+              {speaker.name !== speaker.defaultName && (
+                <span className='text-xs whitespace-nowrap text-gray-500'>was {speaker.defaultName}</span>
+              )}
+            </div>
+          ) : (
+            <div key={speaker.key} className={`text-sm ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+              🎙️ {speaker.name}
+              {speaker.name !== speaker.defaultName && (
+                <span className='ml-2 text-xs text-gray-500'>({speaker.defaultName})</span>
+              )}
+            </div>
+          ),
+        )}
+
+        {error && <p className='text-sm text-red-600'>{error}</p>}
+
+        {isEditing && (
+          <div className='flex justify-end space-x-2 pt-2'>
+            <Button variant='outline' size='sm' onClick={() => setIsEditing(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button size='sm' onClick={saveNames} disabled={isSaving}>
+              {isSaving && <Loader2 className='mr-1 h-4 w-4 animate-spin' />}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
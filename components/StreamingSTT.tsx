@@ -0,0 +1,267 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { VadSegmentRecorder, pickRecorderFormat } from '@/lib/voice-activity'
+import { STT_PROVIDER_OPTIONS, getSttProxyUrl } from '@/lib/stt-providers'
+import type { SttProvider, SttStreamEvent } from '@/lib/types'
+
+// 🆕 스트리밍 STT 프록시 클라이언트 (Deepgram / Whisper)
+// 마이크 오디오를 WebSocket 프록시(lib/stt-proxy.ts)로 보내고, 돌아오는 partial / final 을
+// RealtimeSTT 와 같은 onTranscriptUpdate(text, isPartial) 로 전달한다.
+// - deepgram: MediaRecorder timeslice 를 연속으로 전송
+// - whisper: VAD 로 끊은 발화 파일을 메시지 하나씩 전송
+// final 저장 / 검수 / 번역과 청중 partial 중계는 프록시가 처리한다.
+
+interface StreamingSTTProps {
+  sessionId: string
+  isRecording: boolean
+  provider: Exclude<SttProvider, 'web-speech'>
+  onTranscriptUpdate: (transcript: string, isPartial: boolean) => void
+  onError: (error: string) => void
+  speakerId?: string // 🆕 공동 발표자 session_participants.id
+}
+
+const AUDIO_TIMESLICE_MS = 250
+const STOP_FLUSH_TIMEOUT_MS = 10000 // stop 후 남은 결과를 기다리는 최대 시간
+
+export function StreamingSTT({
+  sessionId,
+  isRecording,
+  provider,
+  onTranscriptUpdate,
+  onError,
+  speakerId,
+}: StreamingSTTProps) {
+  const [status, setStatus] = useState('Idle')
+  const [isConnected, setIsConnected] = useState(false)
+  const [isSpeaking, setIsSpeaking] = useState(false)
+
+  const socketRef = useRef<WebSocket | null>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const segmenterRef = useRef<VadSegmentRecorder | null>(null)
+  const activeRef = useRef(false)
+
+  // 최신 콜백을 ref 로 유지 (녹음 중 재생성되어도 재연결하지 않도록)
+  const onTranscriptUpdateRef = useRef(onTranscriptUpdate)
+  const onErrorRef = useRef(onError)
+  useEffect(() => {
+    onTranscriptUpdateRef.current = onTranscriptUpdate
+    onErrorRef.current = onError
+  }, [onTranscriptUpdate, onError])
+
+  const providerName = STT_PROVIDER_OPTIONS.find((option) => option.id === provider)?.name || provider
+
+  const sendAudio = (blob: Blob) => {
+    const socket = socketRef.current
+    if (socket?.readyState === WebSocket.OPEN && blob.size > 0) {
+      socket.send(blob)
+    }
+  }
+
+  const startAudio = (stream: MediaStream) => {
+    if (provider === 'whisper') {
+      const segmenter = new VadSegmentRecorder(stream)
+      segmenterRef.current = segmenter
+      segmenter.start({ onSegment: (segment) => sendAudio(segment.blob), onVoiceChange: setIsSpeaking })
+      return
+    }
+
+    const format = pickRecorderFormat()
+    const recorder = new MediaRecorder(stream, format ? { mimeType: format.mimeType } : undefined)
+    recorder.ondataavailable = (event) => sendAudio(event.data)
+    recorder.start(AUDIO_TIMESLICE_MS)
+    recorderRef.current = recorder
+  }
+
+  // 녹음을 멈추고, 마지막 오디오까지 전송되면 resolve
+  const stopAudio = async () => {
+    const recorder = recorderRef.current
+    const segmenter = segmenterRef.current
+    recorderRef.current = null
+    segmenterRef.current = null
+
+    const flushed: Promise<void>[] = []
+    if (recorder && recorder.state !== 'inactive') {
+      flushed.push(new Promise((resolve) => recorder.addEventListener('stop', () => resolve(), { once: true })))
+      recorder.stop()
+    }
+    if (segmenter) {
+      flushed.push(segmenter.stop().catch(() => {}))
+    }
+
+    streamRef.current?.getTracks().forEach((track) => track.stop())
+    streamRef.current = null
+    setIsSpeaking(false)
+
+    await Promise.all(flushed)
+  }
+
+  const handleEvent = (event: SttStreamEvent) => {
+    switch (event.type) {
+      case 'ready':
+        setIsConnected(true)
+        setStatus('Listening...')
+        if (streamRef.current) startAudio(streamRef.current)
+        break
+      case 'partial':
+        if (provider === 'deepgram') setIsSpeaking(true)
+        onTranscriptUpdateRef.current(event.text, true)
+        break
+      case 'final':
+        if (provider === 'deepgram') setIsSpeaking(false)
+        console.log(`✅ Streamed final (${provider}): "${event.text.substring(0, 40)}"`)
+        onTranscriptUpdateRef.current(event.text, false)
+        break
+      case 'error':
+        console.error(`❌ STT proxy error (${provider}):`, event.message)
+        onErrorRef.current(event.message)
+        break
+    }
+  }
+
+  const start = async () => {
+    if (activeRef.current) return
+
+    const proxyUrl = getSttProxyUrl()
+    if (!proxyUrl) {
+      setStatus('Not configured')
+      onErrorRef.current('STT proxy is not configured (NEXT_PUBLIC_STT_PROXY_URL).')
+      return
+    }
+
+    if (typeof MediaRecorder === 'undefined') {
+      setStatus('Not supported')
+      onErrorRef.current('MediaRecorder is not supported in this browser.')
+      return
+    }
+
+    // 🆕 프록시 접속 토큰 (로그인한 호스트 / 공동 발표자만 받을 수 있음)
+    let token: string
+    try {
+      setStatus('Authorizing...')
+      const response = await fetch(`/api/session/${sessionId}/stt-token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ speakerId }),
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok || typeof data.token !== 'string') {
+        console.error('❌ STT token request failed:', data.error || response.status)
+        setStatus('Not authorized')
+        onErrorRef.current(data.error || 'You are not allowed to stream audio for this session.')
+        return
+      }
+      token = data.token
+    } catch (error) {
+      console.error('❌ STT token request failed:', error)
+      setStatus('Not authorized')
+      onErrorRef.current('Could not authorize the STT proxy connection. Please try again.')
+      return
+    }
+
+    try {
+      setStatus('Requesting microphone...')
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 },
+      })
+      streamRef.current = stream
+      activeRef.current = true
+
+      const url = new URL(proxyUrl)
+      url.searchParams.set('sessionId', sessionId)
+      url.searchParams.set('provider', provider)
+      url.searchParams.set('mimeType', pickRecorderFormat()?.mimeType || 'audio/webm')
+      if (speakerId) url.searchParams.set('speakerId', speakerId)
+      url.searchParams.set('token', token)
+
+      setStatus('Connecting...')
+      const socket = new WebSocket(url.toString())
+      socketRef.current = socket
+
+      // 오디오는 프록시가 ready 를 보낸 뒤부터 전송 (세션 확인 / 프로바이더 연결 대기)
+      socket.onmessage = (message) => {
+        try {
+          handleEvent(JSON.parse(message.data) as SttStreamEvent)
+        } catch (error) {
+          console.error('❌ Invalid STT proxy message:', error)
+        }
+      }
+
+      socket.onclose = (event) => {
+        console.log(`🔌 STT proxy closed (${event.code}${event.reason ? `: ${event.reason}` : ''})`)
+        setIsConnected(false)
+        socketRef.current = null
+
+        // 녹음 중에 끊긴 경우
+        if (activeRef.current) {
+          activeRef.current = false
+          stopAudio()
+          setStatus('Disconnected')
+          onErrorRef.current('Connection to the STT proxy was lost. Please restart the session.')
+        }
+      }
+
+      console.log(`🎙️ Streaming STT started (${provider} via ${proxyUrl})`)
+    } catch (error) {
+      console.error('❌ Failed to start streaming STT:', error)
+      activeRef.current = false
+      stopAudio()
+      setStatus('Microphone error')
+      onErrorRef.current('Microphone access failed. Please allow microphone access and try again.')
+    }
+  }
+
+  const stop = () => {
+    if (!activeRef.current) return
+    activeRef.current = false
+
+    // 마지막 오디오를 보낸 뒤 stop 전송 → 프록시가 남은 final 을 보내고 연결을 닫음
+    const socket = socketRef.current
+    stopAudio().then(() => {
+      if (socket?.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: 'stop' }))
+        setTimeout(() => {
+          if (socket.readyState !== WebSocket.CLOSED) socket.close()
+        }, STOP_FLUSH_TIMEOUT_MS)
+      } else {
+        socket?.close()
+      }
+    })
+
+    setStatus('Stopped')
+    console.log('🛑 Streaming STT stopped')
+  }
+
+  useEffect(() => {
+    if (isRecording && sessionId) {
+      start()
+    } else {
+      stop()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isRecording, sessionId])
+
+  // Component cleanup on unmount
+  useEffect(() => {
+    return () => stop()
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  return (
+    <div className='space-y-3'>
+      {/* Status Display */}
+      <div className='flex items-center space-x-2 text-sm'>
+        <div
+          className={`h-3 w-3 rounded-full ${
+            isSpeaking ? 'animate-pulse bg-green-500' : isConnected ? 'bg-yellow-500' : 'bg-gray-500'
+          }`}
+        />
+        <span className={isSpeaking ? 'font-medium text-green-600' : 'text-gray-600'}>
+          {isSpeaking ? '🎤 Speaking' : status}
+        </span>
+        <span className='rounded bg-purple-100 px-2 py-1 text-xs font-medium text-purple-700'>{providerName}</span>
+      </div>
+    </div>
+  )
+}
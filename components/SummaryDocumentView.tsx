@@ -0,0 +1,93 @@
+'use client'
+
+import { CheckSquare, BookOpen, Tag } from 'lucide-react'
+import { SUMMARY_SECTION_LABELS } from '@/lib/summary-document'
+import type { SummaryDocument } from '@/lib/types'
+
+// 🆕 구조화된 요약 문서 렌더링 (요약 / transcript 페이지)
+// 요약 문서가 없는 이전 세션은 각 페이지에서 기존 HTML 요약을 그대로 표시한다.
+
+interface SummaryDocumentViewProps {
+  document: SummaryDocument
+  darkMode?: boolean
+  onTagClick?: (tag: string) => void
+}
+
+export function SummaryDocumentView({ document, darkMode, onTagClick }: SummaryDocumentViewProps) {
+  const headingClass = `mb-1 font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`
+  const mutedClass = darkMode ? 'text-gray-400' : 'text-gray-500'
+
+  return (
+    <div className='space-y-4'>
+      <p className={darkMode ? 'text-gray-200' : 'text-gray-700'}>{document.overview}</p>
+
+      {document.sections.map((section, index) => (
+        <div key={index}>
+          <h4 className={headingClass}>
+            {index + 1}. {section.title}
+          </h4>
+          <ul className='list-disc space-y-1 pl-5'>
+            {section.bullets.map((bullet, bulletIndex) => (
+              <li key={bulletIndex}>{bullet}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+
+      {document.actionItems.length > 0 && (
+        <div>
+          <h4 className={`flex items-center space-x-2 ${headingClass}`}>
+            <CheckSquare className='h-4 w-4' />
+            <span>{SUMMARY_SECTION_LABELS.actionItems}</span>
+          </h4>
+          <ul className='space-y-1 pl-1'>
+            {document.actionItems.map((item, index) => (
+              <li key={index} className='flex items-start space-x-2'>
+                <span className={mutedClass}>☐</span>
+                <span>
+                  {item.owner && <span className='font-medium'>{item.owner}: </span>}
+                  {item.text}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {document.keyTerms.length > 0 && (
+        <div>
+          <h4 className={`flex items-center space-x-2 ${headingClass}`}>
+            <BookOpen className='h-4 w-4' />
+            <span>{SUMMARY_SECTION_LABELS.keyTerms}</span>
+          </h4>
+          <dl className='space-y-1'>
+            {document.keyTerms.map((item, index) => (
+              <div key={index}>
+                <dt className='inline font-medium'>{item.term}: </dt>
+                <dd className='inline'>{item.definition}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      )}
+
+      <div className='flex flex-wrap items-center gap-2'>
+        <Tag className={`h-4 w-4 ${mutedClass}`} />
+        {document.tags.map((tag) => {
+          const className = `rounded-full px-2 py-0.5 text-xs ${
+            darkMode ? 'bg-blue-900/50 text-blue-200' : 'bg-blue-100 text-blue-800'
+          }`
+          return onTagClick ? (
+            <button key={tag} onClick={() => onTagClick(tag)} className={`${className} hover:underline`}>
+              #{tag}
+            </button>
+          ) : (
+            <span key={tag} className={className}>
+              #{tag}
+            </span>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+'use client'
+
+import { useState, type ReactNode } from 'react'
+import { Button } from '@/components/ui/button'
+import { Textarea } from '@/components/ui/textarea'
+import { History, Loader2, Merge, Pencil, Trash2 } from 'lucide-react'
+import type { TranscriptEdit, TranscriptEditResult } from '@/lib/types'
+
+// 🆕 호스트 transcript 줄 수정 (호스트 대시보드 / transcript 페이지)
+// 고치기 → 그 줄만 다시 번역, 다음 줄과 합치기, 삭제, 수정 기록 보기
+// 바뀐 내용은 서버가 청중 화면(/s/[slug])에도 바로 반영하고, 부모는 onChange 로 자기 목록만 갱신한다.
+
+interface TranscriptLineEditorProps {
+  sessionId: string
+  transcriptId: string
+  text: string
+  nextTranscriptId?: string // 합칠 다음 줄 (없으면 합치기 버튼 숨김)
+  darkMode?: boolean
+  onChange: (result: TranscriptEditResult) => void
+  children: ReactNode // 수정 중이 아닐 때 보여줄 줄 내용
+}
+
+export function TranscriptLineEditor({
+  sessionId,
+  transcriptId,
+  text,
+  nextTranscriptId,
+  darkMode,
+  onChange,
+  children,
+}: TranscriptLineEditorProps) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(text)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [history, setHistory] = useState<TranscriptEdit[] | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+
+  const baseUrl = `/api/session/${sessionId}/transcripts`
+
+  const runEdit = async (request: () => Promise<Response>, failureMessage: string) => {
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      const response = await request()
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || failureMessage)
+
+      const result = data as TranscriptEditResult
+      console.log(`✅ Transcript ${result.action} applied:`, result)
+      setIsEditing(false)
+      setHistory(null)
+      setShowHistory(false)
+      onChange(result)
+    } catch (editError) {
+      console.error(`❌ ${failureMessage}:`, editError)
+      setError(editError instanceof Error ? editError.message : failureMessage)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const saveEdit = () =>
+    runEdit(
+      () =>
+        fetch(`${baseUrl}/${transcriptId}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ text: draft }),
+        }),
+      'Failed to edit line',
+    )
+
+  const mergeWithNext = () => {
+    if (!nextTranscriptId) return
+    runEdit(
+      () =>
+        fetch(`${baseUrl}/merge`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ transcriptIds: [transcriptId, nextTranscriptId] }),
+        }),
+      'Failed to merge lines',
+    )
+  }
+
+  const deleteLine = () => {
+    if (!confirm('Delete this line? Viewers will no longer see it.')) return
+    runEdit(() => fetch(`${baseUrl}/${transcriptId}`, { method: 'DELETE' }), 'Failed to delete line')
+  }
+
+  const toggleHistory = async () => {
+    if (showHistory) {
+      setShowHistory(false)
+      return
+    }
+
+    setShowHistory(true)
+    if (history) return
+
+    try {
+      const response = await fetch(`${baseUrl}/${transcriptId}/history`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Failed to load edit history')
+      setHistory(data.edits)
+    } catch (historyError) {
+      console.error('❌ Failed to load edit history:', historyError)
+      setError(historyError instanceof Error ? historyError.message : 'Failed to load edit history')
+    }
+  }
+
+  const iconButtonClass = `h-6 px-1.5 ${darkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500'}`
+
+  return (
+    <div>
+      {isEditing ? (
+        <div className='space-y-2'>
+          <Textarea value={draft} onChange={(event) => setDraft(event.target.value)} rows={3} disabled={isSaving} />
+          <div className='flex justify-end space-x-2'>
+            <Button variant='outline' size='sm' onClick={() => setIsEditing(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button size='sm' onClick={saveEdit} disabled={isSaving || !draft.trim()}>
+              {isSaving && <Loader2 className='mr-1 h-4 w-4 animate-spin' />}
+              Save &amp; re-translate
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className='flex items-start justify-between space-x-2'>
+          <div className='min-w-0 flex-1'>{children}</div>
+          <div className='flex shrink-0 items-center opacity-60 group-hover:opacity-100'>
+            {isSaving && <Loader2 className='mr-1 h-3 w-3 animate-spin text-gray-500' />}
+            <Button
+              variant='ghost'
+              size='sm'
+              className={iconButtonClass}
+              title='Edit line'
+              disabled={isSaving}
+              onClick={() => {
+                setDraft(text)
+                setError(null)
+                setIsEditing(true)
+              }}
+            >
+              <Pencil className='h-3 w-3' />
+            </Button>
+            {nextTranscriptId && (
+              <Button
+                variant='ghost'
+                size='sm'
+                className={iconButtonClass}
+                title='Merge with next line'
+                disabled={isSaving}
+                onClick={mergeWithNext}
+              >
+                <Merge className='h-3 w-3' />
+              </Button>
+            )}
+            <Button
+              variant='ghost'
+              size='sm'
+              className={iconButtonClass}
+              title='Delete line'
+              disabled={isSaving}
+              onClick={deleteLine}
+            >
+              <Trash2 className='h-3 w-3' />
+            </Button>
+            <Button variant='ghost' size='sm' className={iconButtonClass} title='Edit history' onClick={toggleHistory}>
+              <History className='h-3 w-3' />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className='mt-1 text-xs text-red-600'>{error}</p>}
+
+      {showHistory && (
+        <div className={`mt-2 space-y-1 border-l-2 pl-3 text-xs ${darkMode ? 'border-gray-600' : 'border-gray-300'}`}>
+          {!history ? (
+            <Loader2 className='h-3 w-3 animate-spin text-gray-500' />
+          ) : history.length === 0 ? (
+            <p className='text-gray-500'>No edits yet.</p>
+          ) : (
+            history.map((edit) => (
+              <div key={edit.id} className={darkMode ? 'text-gray-400' : 'text-gray-600'}>
+                <span className='font-medium'>{new Date(edit.created_at).toLocaleString()}</span> · {edit.action}:{' '}
+                <span className='line-through'>{edit.previous_text}</span>
+                {edit.new_text && <> → {edit.new_text}</>}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,22 @@
+// 🆕 서버 부팅 시 실행 - 재배포 / 크래시로 남은 번역 작업 재개
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  // 🆕 스트리밍 STT 프록시 / 로컬 mock Deepgram 서버 (포트가 설정된 경우에만)
+  if (process.env.STT_MOCK_SERVER_PORT) {
+    const { startMockSttServer } = await import('./lib/mock-stt-server')
+    startMockSttServer(Number(process.env.STT_MOCK_SERVER_PORT))
+  }
+
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return
+
+  if (process.env.STT_PROXY_PORT) {
+    const { startSttProxyServer } = await import('./lib/stt-proxy')
+    startSttProxyServer(Number(process.env.STT_PROXY_PORT))
+  }
+
+  const { resumeTranslationJobs } = await import('./lib/translation-queue')
+  resumeTranslationJobs().catch((error) => {
+    console.error('❌ Failed to resume translation jobs on boot:', error)
+  })
+}
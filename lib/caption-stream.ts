@@ -0,0 +1,418 @@
+import { createClient, type RealtimeChannel, type SupabaseClient } from '@supabase/supabase-js'
+import type { CaptionEvent, Transcript } from './types'
+import {
+  HOST_SPEAKER_KEY,
+  getSpeakerKey,
+  isKnownSpeakerKey,
+  loadSpeakerDirectory,
+  resolveSpeakerName,
+  type SpeakerDirectory,
+} from './speakers'
+import { loadSessionTranscriptRows } from './transcript-rows'
+
+// 🆕 세션 캡션 이벤트 허브 (SSE 스트림 라우트에서 사용)
+// 세션당 하나의 Realtime 채널을 공유하고, 연결된 구독자에게 언어별로 이벤트를 나눠준다.
+// - transcripts INSERT → final
+// - transcripts UPDATE (review_status completed) → reviewed
+// - transcripts UPDATE (translation_cache_ids 에 구독 언어 포함) → translated
+// - broadcast 'partial' → partial
+// - broadcast 'removed' → removed (호스트가 지우거나 다른 줄로 합친 줄)
+// 🆕 broadcast 는 private 채널 (Realtime Authorization) - service role 만 보내고 받을 수 있어서,
+//    공개 anon key 로는 가짜 partial / removed 를 넣을 수 없다 (sqls/add-private-caption-channel.sql)
+// 모든 이벤트에 화자 이름을 붙인다 (세션 화자 목록은 채널별로 캐시, 모르는 공동 발표자가 나오면 다시 조회)
+
+export interface CaptionSubscriber {
+  language?: string // 번역 이벤트를 받을 언어 (없으면 partial / final / reviewed / removed 만 수신)
+  onEvent: (event: CaptionEvent) => void
+}
+
+interface SessionCaptionChannel {
+  channel: RealtimeChannel
+  subscribers: Set<CaptionSubscriber>
+  lastReviewed: Map<string, string> // transcriptId → 마지막으로 보낸 reviewed_text
+  lastTranslated: Map<string, string> // `${transcriptId}:${lang}` → 마지막으로 보낸 cacheId
+  speakers: Promise<SpeakerDirectory> | null
+  queue: Promise<void> // 화자 조회로 비동기가 된 이벤트의 순서 보존 (final → reviewed)
+}
+
+type TranscriptRow = Pick<
+  Transcript,
+  | 'id'
+  | 'session_id'
+  | 'original_text'
+  | 'reviewed_text'
+  | 'detected_language'
+  | 'review_status'
+  | 'created_at'
+  | 'speaker_id'
+  | 'speaker_label'
+> & {
+  translation_cache_ids?: Record<string, string> | null
+}
+
+export const CAPTION_BROADCAST_EVENT = 'partial'
+export const CAPTION_REMOVED_EVENT = 'removed'
+
+export function getCaptionChannelName(sessionId: string): string {
+  return `captions-${sessionId}`
+}
+
+const CAPTION_CHANNEL_CONFIG = { config: { private: true } }
+
+let supabaseClient: SupabaseClient | null = null
+
+function getSupabase(): SupabaseClient {
+  if (!supabaseClient) {
+    supabaseClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+  }
+  return supabaseClient
+}
+
+const sessionChannels = new Map<string, SessionCaptionChannel>()
+
+function withSpeaker(event: CaptionEvent, speakerKey: string, directory: SpeakerDirectory): CaptionEvent {
+  return { ...event, speakerKey, speaker: resolveSpeakerName(speakerKey, directory) }
+}
+
+async function getSpeakerDirectory(
+  entry: SessionCaptionChannel,
+  sessionId: string,
+  speakerKey: string,
+): Promise<SpeakerDirectory> {
+  if (!entry.speakers) {
+    entry.speakers = loadSpeakerDirectory(getSupabase(), sessionId)
+  }
+
+  const directory = await entry.speakers
+  if (isKnownSpeakerKey(speakerKey, directory)) return directory
+
+  entry.speakers = loadSpeakerDirectory(getSupabase(), sessionId)
+  return entry.speakers
+}
+
+// 화자 이름을 붙여 순서대로 emit
+function enqueue(entry: SessionCaptionChannel, task: () => Promise<void>) {
+  entry.queue = entry.queue.then(task).catch((error) => {
+    console.error('❌ Caption event processing error:', error)
+  })
+}
+
+function toFinalEvent(row: TranscriptRow, replay = false): CaptionEvent {
+  return {
+    type: 'final',
+    sessionId: row.session_id,
+    transcriptId: row.id,
+    text: row.original_text,
+    language: row.detected_language || undefined,
+    timestamp: row.created_at,
+    ...(replay && { replay }),
+  }
+}
+
+function toReviewedEvent(row: TranscriptRow, replay = false): CaptionEvent | null {
+  if (row.review_status !== 'completed' || !row.reviewed_text) return null
+
+  return {
+    type: 'reviewed',
+    sessionId: row.session_id,
+    transcriptId: row.id,
+    text: row.reviewed_text,
+    language: row.detected_language || undefined,
+    timestamp: row.created_at,
+    ...(replay && { replay }),
+  }
+}
+
+function emit(entry: SessionCaptionChannel, event: CaptionEvent, language?: string) {
+  entry.subscribers.forEach((subscriber) => {
+    if (language && subscriber.language !== language) return
+    try {
+      subscriber.onEvent(event)
+    } catch (error) {
+      console.error('❌ Caption subscriber error:', error)
+    }
+  })
+}
+
+// translation_cache 에서 번역 조회 후 해당 언어 구독자에게 전달
+async function emitTranslations(entry: SessionCaptionChannel, row: TranscriptRow) {
+  const cacheIds = row.translation_cache_ids || {}
+  const languages = new Set(
+    Array.from(entry.subscribers)
+      .map((subscriber) => subscriber.language)
+      .filter((lang): lang is string => !!lang),
+  )
+
+  const pending = Array.from(languages).filter((lang) => {
+    const cacheId = cacheIds[lang]
+    return cacheId && entry.lastTranslated.get(`${row.id}:${lang}`) !== cacheId
+  })
+  if (pending.length === 0) return
+
+  pending.forEach((lang) => entry.lastTranslated.set(`${row.id}:${lang}`, cacheIds[lang]))
+
+  const { data, error } = await getSupabase()
+    .from('translation_cache')
+    .select('id, target_language, translated_text, quality_score')
+    .in(
+      'id',
+      pending.map((lang) => cacheIds[lang]),
+    )
+
+  if (error) {
+    console.error('❌ Caption stream translation lookup error:', error)
+    pending.forEach((lang) => entry.lastTranslated.delete(`${row.id}:${lang}`))
+    return
+  }
+
+  for (const cache of data || []) {
+    emit(
+      entry,
+      {
+        type: 'translated',
+        sessionId: row.session_id,
+        transcriptId: row.id,
+        text: cache.translated_text,
+        language: cache.target_language,
+        quality: cache.quality_score,
+        timestamp: row.created_at,
+      },
+      cache.target_language,
+    )
+  }
+}
+
+function openSessionChannel(sessionId: string): SessionCaptionChannel {
+  const channel = getSupabase().channel(getCaptionChannelName(sessionId), CAPTION_CHANNEL_CONFIG)
+
+  const entry: SessionCaptionChannel = {
+    channel,
+    subscribers: new Set(),
+    lastReviewed: new Map(),
+    lastTranslated: new Map(),
+    speakers: null,
+    queue: Promise.resolve(),
+  }
+
+  channel
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table: 'transcripts', filter: `session_id=eq.${sessionId}` },
+      (payload) => {
+        const row = payload.new as TranscriptRow
+        const speakerKey = getSpeakerKey(row)
+        enqueue(entry, async () => {
+          const directory = await getSpeakerDirectory(entry, sessionId, speakerKey)
+          emit(entry, withSpeaker(toFinalEvent(row), speakerKey, directory))
+        })
+      },
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'transcripts', filter: `session_id=eq.${sessionId}` },
+      (payload) => {
+        const row = payload.new as TranscriptRow
+
+        const reviewed = toReviewedEvent(row)
+        if (reviewed && entry.lastReviewed.get(row.id) !== reviewed.text) {
+          entry.lastReviewed.set(row.id, reviewed.text)
+          const speakerKey = getSpeakerKey(row)
+          enqueue(entry, async () => {
+            const directory = await getSpeakerDirectory(entry, sessionId, speakerKey)
+            emit(entry, withSpeaker(reviewed, speakerKey, directory))
+          })
+        }
+
+        if (row.translation_cache_ids) {
+          emitTranslations(entry, row).catch((error) => {
+            console.error('❌ Caption stream translation emit error:', error)
+          })
+        }
+      },
+    )
+    .on('broadcast', { event: CAPTION_BROADCAST_EVENT }, ({ payload }) => {
+      const partial: CaptionEvent = { ...(payload as CaptionEvent), type: 'partial', sessionId }
+      const speakerKey = partial.speakerKey || HOST_SPEAKER_KEY
+      enqueue(entry, async () => {
+        const directory = await getSpeakerDirectory(entry, sessionId, speakerKey)
+        emit(entry, withSpeaker(partial, speakerKey, directory))
+      })
+    })
+    .on('broadcast', { event: CAPTION_REMOVED_EVENT }, ({ payload }) => {
+      const removed: CaptionEvent = { ...(payload as CaptionEvent), type: 'removed', sessionId }
+      entry.lastReviewed.delete(removed.transcriptId)
+      enqueue(entry, async () => emit(entry, removed))
+    })
+    .subscribe((status) => {
+      console.log(`📡 Caption channel ${sessionId}: ${status}`)
+    })
+
+  sessionChannels.set(sessionId, entry)
+  return entry
+}
+
+// 구독하지 않은 채널로 send 하면 REST broadcast 로 전송되어, 같은 프로세스를 포함한 모든 허브가 받는다.
+let publisherClient: SupabaseClient | null = null
+
+async function broadcastCaptionEvent(sessionId: string, eventName: string, event: CaptionEvent): Promise<void> {
+  if (!publisherClient) {
+    publisherClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+  }
+
+  const channel = publisherClient.channel(getCaptionChannelName(sessionId), CAPTION_CHANNEL_CONFIG)
+  try {
+    const result = await channel.send({ type: 'broadcast', event: eventName, payload: event })
+    if (result !== 'ok') {
+      console.warn(`⚠️ Caption ${eventName} broadcast ${result} for session ${sessionId}`)
+    }
+  } finally {
+    await publisherClient.removeChannel(channel)
+  }
+}
+
+// 🆕 partial(interim) 캡션 방송
+export async function publishPartialCaption(
+  sessionId: string,
+  partial: { utteranceId: string; text: string; speakerId?: string },
+): Promise<void> {
+  const event: CaptionEvent = {
+    type: 'partial',
+    sessionId,
+    transcriptId: `partial-${partial.utteranceId}`,
+    utteranceId: partial.utteranceId,
+    text: partial.text,
+    timestamp: new Date().toISOString(),
+    speakerKey: partial.speakerId || HOST_SPEAKER_KEY, // 이름은 받는 허브에서 붙임
+  }
+
+  await broadcastCaptionEvent(sessionId, CAPTION_BROADCAST_EVENT, event)
+}
+
+// 🆕 지운 줄 / 다른 줄로 합쳐진 줄을 청중 화면에서 제거
+// (Realtime DELETE 이벤트는 session_id 필터를 쓸 수 없어 broadcast 로 알린다)
+export async function publishCaptionRemoval(sessionId: string, transcriptIds: string[]): Promise<void> {
+  const timestamp = new Date().toISOString()
+  await Promise.all(
+    transcriptIds.map((transcriptId) =>
+      broadcastCaptionEvent(sessionId, CAPTION_REMOVED_EVENT, {
+        type: 'removed',
+        sessionId,
+        transcriptId,
+        text: '',
+        timestamp,
+      }),
+    ),
+  )
+}
+
+// 세션 캡션 이벤트 구독 (마지막 구독자가 떠나면 채널 정리)
+export function subscribeToCaptionEvents(sessionId: string, subscriber: CaptionSubscriber): () => void {
+  const entry = sessionChannels.get(sessionId) || openSessionChannel(sessionId)
+  entry.subscribers.add(subscriber)
+
+  console.log(
+    `👂 Caption subscriber added for session ${sessionId} (${subscriber.language || 'no translation'}, total: ${entry.subscribers.size})`,
+  )
+
+  return () => {
+    entry.subscribers.delete(subscriber)
+    if (entry.subscribers.size === 0 && sessionChannels.get(sessionId) === entry) {
+      sessionChannels.delete(sessionId)
+      getSupabase()
+        .removeChannel(entry.channel)
+        .catch((error) => console.error('❌ Caption channel cleanup error:', error))
+      console.log(`🧹 Caption channel closed for session ${sessionId}`)
+    }
+  }
+}
+
+const TRANSLATION_LOOKUP_BATCH = 200 // .in('id', ...) 한 번에 넣는 캐시 id 수 (요청 URL 길이 제한)
+
+const BACKLOG_COLUMNS =
+  'id, session_id, original_text, reviewed_text, detected_language, review_status, translation_cache_ids, created_at, speaker_id, speaker_label'
+
+// limit 이 있으면 최근 limit 줄, null 이면 세션 전체 (페이지 단위로 읽음). 둘 다 시간순
+async function loadBacklogRows(
+  supabase: SupabaseClient,
+  sessionId: string,
+  limit: number | null,
+): Promise<TranscriptRow[]> {
+  if (limit !== null) {
+    const { data, error } = await supabase
+      .from('transcripts')
+      .select(BACKLOG_COLUMNS)
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (error) {
+      console.error('❌ Caption backlog load error:', error)
+      throw new Error('Failed to load transcripts')
+    }
+    return ((data || []) as TranscriptRow[]).reverse()
+  }
+
+  const { data, error } = await loadSessionTranscriptRows<TranscriptRow>(supabase, sessionId, BACKLOG_COLUMNS)
+  if (error) {
+    console.error('❌ Caption backlog load error:', error)
+    throw new Error('Failed to load transcripts')
+  }
+  return data || []
+}
+
+// 연결 직후 보낼 기존 캡션 (시간순). limit 이 null 이면 세션 전체
+export async function loadCaptionBacklog(
+  sessionId: string,
+  language?: string,
+  limit: number | null = 50,
+): Promise<CaptionEvent[]> {
+  const supabase = getSupabase()
+
+  const rows = await loadBacklogRows(supabase, sessionId, limit)
+  const directory = await loadSpeakerDirectory(supabase, sessionId)
+
+  // 번역은 한 번에 조회
+  const translations = new Map<string, { translated_text: string; quality_score: number }>()
+  const cacheIds = language
+    ? rows.map((row) => row.translation_cache_ids?.[language]).filter((id): id is string => !!id)
+    : []
+
+  for (let i = 0; i < cacheIds.length; i += TRANSLATION_LOOKUP_BATCH) {
+    const { data: caches, error: cacheError } = await supabase
+      .from('translation_cache')
+      .select('id, translated_text, quality_score')
+      .in('id', cacheIds.slice(i, i + TRANSLATION_LOOKUP_BATCH))
+
+    if (cacheError) {
+      console.error('❌ Caption backlog translation load error:', cacheError)
+    } else {
+      caches?.forEach((cache) => translations.set(cache.id, cache))
+    }
+  }
+
+  const events: CaptionEvent[] = []
+  for (const row of rows) {
+    const speakerKey = getSpeakerKey(row)
+    events.push(withSpeaker(toFinalEvent(row, true), speakerKey, directory))
+
+    const reviewed = toReviewedEvent(row, true)
+    if (reviewed) events.push(withSpeaker(reviewed, speakerKey, directory))
+
+    const cacheId = language ? row.translation_cache_ids?.[language] : undefined
+    const cache = cacheId ? translations.get(cacheId) : undefined
+    if (language && cache) {
+      events.push({
+        type: 'translated',
+        sessionId,
+        transcriptId: row.id,
+        text: cache.translated_text,
+        language,
+        quality: cache.quality_score,
+        timestamp: row.created_at,
+        replay: true,
+      })
+    }
+  }
+
+  return events
+}
@@ -0,0 +1,335 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { getLanguageName, getSessionTargetLanguages } from './languages'
+import { getTranscriptSpeakerName, hasMultipleSpeakers, loadSpeakerDirectory } from './speakers'
+import { requestGeminiText } from './summary-generator'
+import { formatChapterTime, toSessionChapters } from './chapters'
+import { loadSessionTranscriptRows } from './transcript-rows'
+import type { SessionChapter, Transcript } from './types'
+
+// 🆕 세션 챕터 나누기 (목차 / 내보내기)
+// 검수된 transcript 에 줄 번호를 붙여 Gemini 에 넘기고, 주제가 바뀌는 줄 번호와 챕터 제목을 JSON 으로 받는다.
+// 긴 세션은 CHAPTER_WINDOW_CHARS 단위 구간으로 나눠 순서대로 보내고, 구간의 마지막 챕터는 끝났는지 알 수 없으므로
+// 다음 구간을 그 챕터 시작 줄부터 다시 보낸다. live 갱신도 같은 방식으로 마지막 챕터부터만 다시 나눈다.
+// 세션이 끝나면 처음부터 다시 나눠 sessions.chapters 를 덮어쓴다.
+
+const CHAPTER_WINDOW_CHARS = 16000
+const CHAPTER_LINE_CHARS = 300 // 프롬프트에 넣는 줄 하나의 최대 길이
+// 이보다 줄이 적은 세션은 챕터를 만들지 않음 (목차가 필요 없음)
+export const MIN_CHAPTERED_LINES = 20
+const MIN_CHAPTER_LINES = 5
+
+interface ChapterLine {
+  id: string
+  text: string
+  createdAt: string
+  offsetMs: number
+}
+
+interface ChapterDraft {
+  start: number // lines 배열 index
+  title: string
+}
+
+export interface ChapterGenerationResult {
+  chapters: SessionChapter[]
+  updated: boolean
+  reason?: 'not-found' | 'ended' | 'too-short'
+}
+
+function getServiceSupabase(): SupabaseClient {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+}
+
+function parseJsonResponse(content: string): unknown {
+  let jsonContent = content.trim()
+
+  if (jsonContent.startsWith('```json')) {
+    jsonContent = jsonContent.replace(/^```json\s*/, '').replace(/\s*```$/, '')
+  } else if (jsonContent.startsWith('```')) {
+    jsonContent = jsonContent.replace(/^```\s*/, '').replace(/\s*```$/, '')
+  }
+
+  return JSON.parse(jsonContent)
+}
+
+function cleanTitle(value: unknown): string {
+  if (typeof value !== 'string') return ''
+  return value
+    .replace(/<[^>]+>/g, '')
+    .replace(/^\s*(chapter\s*)?\d+[.:)]\s*/i, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, 120)
+}
+
+// 구간 끝 index (exclusive) - 글자 수 제한까지, 최소 MIN_CHAPTER_LINES 줄
+function getWindowEnd(lines: ChapterLine[], start: number): number {
+  let length = 0
+  let end = start
+  while (end < lines.length && (end - start < MIN_CHAPTER_LINES || length < CHAPTER_WINDOW_CHARS)) {
+    length += Math.min(lines[end].text.length, CHAPTER_LINE_CHARS) + 16
+    end++
+  }
+  return end
+}
+
+function buildChapterPrompt(
+  lines: ChapterLine[],
+  start: number,
+  end: number,
+  category: string,
+  previousTitle: string | null,
+) {
+  const numbered = lines
+    .slice(start, end)
+    .map(
+      (line, offset) =>
+        `[${start + offset} | ${formatChapterTime(line.offsetMs)}] ${
+          line.text.length > CHAPTER_LINE_CHARS ? `${line.text.substring(0, CHAPTER_LINE_CHARS)}...` : line.text
+        }`,
+    )
+    .join('\n')
+
+  return `You are splitting the transcript of a ${category} session into chapters so that readers can navigate it.
+The transcript comes from speech recognition and may contain transcription errors. Each line starts with [line number | time from the session start].
+${previousTitle ? `\nThe previous part of the session ended with a chapter titled "${previousTitle}". If the first lines continue that topic, give the first chapter the same title.\n` : ''}
+${numbered}
+
+Please follow these instructions:
+1. The first chapter starts at line ${start}.
+2. Start a new chapter only where the topic clearly changes. A chapter should usually cover at least ${MIN_CHAPTER_LINES} lines and a few minutes.
+3. Give each chapter a specific English title of 2-8 words, without numbering or quotes.
+4. Return only JSON in the following format:
+{ "chapters": [{ "startLine": ${start}, "title": "Chapter title" }] }`
+}
+
+// 구간 하나 나누기 - 범위를 벗어나거나 순서가 틀린 줄 번호는 버리고, 첫 챕터는 항상 구간 시작 줄
+async function requestWindowChapters(
+  lines: ChapterLine[],
+  start: number,
+  end: number,
+  category: string,
+  previousTitle: string | null,
+): Promise<ChapterDraft[]> {
+  const parsed = parseJsonResponse(
+    await requestGeminiText(buildChapterPrompt(lines, start, end, category, previousTitle), {
+      temperature: 0.2,
+      maxOutputTokens: 1000,
+      responseMimeType: 'application/json',
+    }),
+  ) as { chapters?: unknown }
+
+  if (!Array.isArray(parsed?.chapters)) {
+    throw new Error('Chapter response is missing the chapters array')
+  }
+
+  const drafts: ChapterDraft[] = []
+  for (const item of parsed.chapters as { startLine?: unknown; title?: unknown }[]) {
+    const title = cleanTitle(item?.title)
+    const lineNumber = Number(item?.startLine)
+    if (!title || !Number.isInteger(lineNumber) || lineNumber < start || lineNumber >= end) continue
+    if (drafts.length > 0 && lineNumber <= drafts[drafts.length - 1].start) continue
+    drafts.push({ start: drafts.length === 0 ? start : lineNumber, title })
+  }
+
+  if (drafts.length === 0) {
+    throw new Error('Chapter response has no valid chapters')
+  }
+  return drafts
+}
+
+// kept 챕터 뒤로 from 줄부터 끝까지 나누기 (openTitle: from 에서 시작하던 챕터 제목, 같은 주제면 제목 유지)
+async function segmentLines(
+  lines: ChapterLine[],
+  kept: ChapterDraft[],
+  from: number,
+  category: string,
+  openTitle: string | null,
+): Promise<ChapterDraft[]> {
+  const drafts = [...kept]
+  let start = from
+  let previousTitle = openTitle ?? (drafts.length > 0 ? drafts[drafts.length - 1].title : null)
+
+  while (start < lines.length) {
+    const end = getWindowEnd(lines, start)
+    const windowChapters = await requestWindowChapters(lines, start, end, category, previousTitle)
+
+    if (end >= lines.length) {
+      drafts.push(...windowChapters)
+      break
+    }
+
+    if (windowChapters.length > 1) {
+      // 마지막 챕터는 다음 구간에서 다시 나눔
+      drafts.push(...windowChapters.slice(0, -1))
+      start = windowChapters[windowChapters.length - 1].start
+    } else {
+      drafts.push(windowChapters[0])
+      start = end
+    }
+    previousTitle = windowChapters[windowChapters.length - 1].title
+  }
+
+  // 구간 경계에서 이어진 같은 주제는 하나로 합침
+  return drafts.filter(
+    (draft, index) => index === 0 || draft.title.toLowerCase() !== drafts[index - 1].title.toLowerCase(),
+  )
+}
+
+function toChapters(drafts: ChapterDraft[], lines: ChapterLine[]): SessionChapter[] {
+  return drafts.map((draft, index) => {
+    const endIndex = index + 1 < drafts.length ? drafts[index + 1].start - 1 : lines.length - 1
+    const first = lines[draft.start]
+    const last = lines[endIndex]
+    return {
+      index,
+      title: draft.title,
+      startTranscriptId: first.id,
+      endTranscriptId: last.id,
+      startedAt: first.createdAt,
+      endedAt: last.createdAt,
+      startOffsetMs: first.offsetMs,
+      endOffsetMs: last.offsetMs,
+      lineCount: endIndex - draft.start + 1,
+    }
+  })
+}
+
+// 챕터 제목 번역 - 이전 챕터에 같은 제목 번역이 있으면 재사용, 실패한 언어는 영어 제목 사용
+async function translateChapterTitles(
+  chapters: SessionChapter[],
+  languages: string[],
+  previous: SessionChapter[],
+): Promise<void> {
+  const known = new Map(previous.map((chapter) => [chapter.title, chapter.titleTranslations || {}]))
+
+  for (const lang of languages) {
+    const missing = Array.from(
+      new Set(chapters.map((chapter) => chapter.title).filter((title) => !known.get(title)?.[lang])),
+    )
+
+    const translated: Record<string, string> = {}
+    if (missing.length > 0) {
+      try {
+        const parsed = parseJsonResponse(
+          await requestGeminiText(
+            `Translate the following chapter titles of a session to ${getLanguageName(lang)}. Keep them short. Return only a JSON array of strings in the same order.
+
+${JSON.stringify(missing)}`,
+            { temperature: 0.1, maxOutputTokens: 800, responseMimeType: 'application/json' },
+          ),
+        )
+
+        if (!Array.isArray(parsed) || parsed.length !== missing.length) {
+          throw new Error('Translated chapter titles do not match the original list')
+        }
+        missing.forEach((title, index) => {
+          const text = cleanTitle(parsed[index])
+          if (text) translated[title] = text
+        })
+      } catch (error) {
+        console.error(`❌ Chapter title translation to ${lang} failed:`, error)
+      }
+    }
+
+    chapters.forEach((chapter) => {
+      const text = known.get(chapter.title)?.[lang] || translated[chapter.title]
+      if (text) chapter.titleTranslations = { ...chapter.titleTranslations, [lang]: text }
+    })
+  }
+}
+
+// 🆕 세션 챕터 만들기
+// live: 진행 중인 세션의 저장된 챕터 중 마지막 챕터부터 다시 나눔 (세션이 끝났으면 건너뜀)
+// 아니면 처음부터 다시 나눔 (세션 종료 / 요약 재생성)
+export async function generateSessionChapters(
+  sessionId: string,
+  options: { live?: boolean; supabase?: SupabaseClient } = {},
+): Promise<ChapterGenerationResult> {
+  const { live = false, supabase = getServiceSupabase() } = options
+
+  const { data: session, error: sessionError } = await supabase
+    .from('sessions')
+    .select('id, status, category, created_at, target_languages, chapters')
+    .eq('id', sessionId)
+    .maybeSingle()
+
+  if (sessionError || !session) return { chapters: [], updated: false, reason: 'not-found' }
+  if (live && session.status !== 'active') return { chapters: [], updated: false, reason: 'ended' }
+
+  // 🆕 1000 줄이 넘는 세션도 끝까지 (페이지 단위)
+  const { data: transcripts, error: transcriptError } = await loadSessionTranscriptRows<
+    Pick<Transcript, 'id' | 'original_text' | 'reviewed_text' | 'created_at' | 'speaker_id' | 'speaker_label'>
+  >(supabase, sessionId, 'id, original_text, reviewed_text, created_at, speaker_id, speaker_label')
+
+  if (transcriptError) {
+    console.error(`❌ Chapter transcript load error for ${sessionId}:`, transcriptError)
+    throw new Error('Failed to fetch transcripts')
+  }
+
+  const rows = transcripts || []
+  const directory = hasMultipleSpeakers(rows) ? await loadSpeakerDirectory(supabase, sessionId) : null
+  const sessionStart = new Date(session.created_at).getTime()
+  const lines: ChapterLine[] = rows
+    .map((t) => {
+      const text = (t.reviewed_text || t.original_text || '').trim()
+      return {
+        id: t.id,
+        text: directory && text ? `${getTranscriptSpeakerName(t, directory)}: ${text}` : text,
+        createdAt: t.created_at,
+        offsetMs: Math.max(0, new Date(t.created_at).getTime() - sessionStart),
+      }
+    })
+    .filter((line) => line.text)
+
+  if (lines.length < MIN_CHAPTERED_LINES) {
+    return { chapters: [], updated: false, reason: 'too-short' }
+  }
+
+  // live: 저장된 챕터의 시작 줄을 다시 찾아 마지막 챕터 전까지 유지 (줄이 지워졌으면 처음부터)
+  const previous = toSessionChapters(session.chapters)
+  let kept: ChapterDraft[] = []
+  if (live && previous.length > 0) {
+    const starts = previous.map((chapter) => lines.findIndex((line) => line.id === chapter.startTranscriptId))
+    if (starts.every((start, index) => start >= 0 && (index === 0 || start > starts[index - 1]))) {
+      kept = previous.map((chapter, index) => ({ start: starts[index], title: chapter.title }))
+    }
+  }
+  const reopened = kept.pop()
+  const from = reopened ? reopened.start : 0
+
+  console.log(
+    `📑 ${live ? 'Updating live' : 'Generating'} chapters for session ${sessionId} (${lines.length} lines, from line ${from})`,
+  )
+
+  const drafts = await segmentLines(lines, kept, from, session.category || 'general', reopened?.title ?? null)
+  const chapters = toChapters(drafts, lines)
+
+  const languages = getSessionTargetLanguages(session).filter((lang) => lang !== 'en')
+  await translateChapterTitles(chapters, languages, previous)
+
+  // live 갱신은 그 사이 세션이 끝났으면 저장하지 않음 (종료 시 만든 챕터를 덮어쓰지 않도록)
+  let query = supabase
+    .from('sessions')
+    .update({ chapters, chapters_updated_at: new Date().toISOString() })
+    .eq('id', sessionId)
+  if (live) query = query.eq('status', 'active')
+
+  const { data: saved, error: saveError } = await query.select('id')
+  if (saveError) {
+    console.error(`❌ Failed to save chapters for session ${sessionId}:`, saveError)
+    throw new Error('Failed to save chapters')
+  }
+  if (!saved || saved.length === 0) {
+    console.log(`⚠️ Session ${sessionId} ended while updating live chapters, dropping them`)
+    return { chapters: [], updated: false, reason: 'ended' }
+  }
+
+  console.log(`✅ ${chapters.length} chapter(s) saved for session ${sessionId}`)
+  return { chapters, updated: true }
+}
+
+// 🆕 live 챕터는 LIVE_CHAPTERS=true 일 때만 (live 요약 갱신 주기에 맞춰 호출)
+export function isLiveChaptersEnabled(): boolean {
+  return process.env.LIVE_CHAPTERS === 'true'
+}
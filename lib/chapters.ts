@@ -0,0 +1,71 @@
+import type { SessionChapter } from './types'
+
+// 🆕 세션 챕터 공용 함수 (목차 / 내보내기)
+// 챕터는 lib/chapter-generator.ts 가 만들어 sessions.chapters 에 저장한다.
+// 서버 / 클라이언트 공용 (DB 접근 없음)
+
+// DB 값(jsonb) → 챕터 목록 (형식이 틀린 항목은 버림)
+export function toSessionChapters(value: unknown): SessionChapter[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .filter(
+      (chapter): chapter is SessionChapter =>
+        !!chapter &&
+        typeof chapter === 'object' &&
+        typeof chapter.title === 'string' &&
+        typeof chapter.startTranscriptId === 'string' &&
+        typeof chapter.startedAt === 'string' &&
+        typeof chapter.startOffsetMs === 'number',
+    )
+    .sort((a, b) => a.startOffsetMs - b.startOffsetMs)
+    .map((chapter, index) => ({ ...chapter, index }))
+}
+
+// 요청 언어 제목 (번역이 없으면 영어)
+export function getChapterTitle(chapter: SessionChapter, language?: string): string {
+  return (language && language !== 'en' && chapter.titleTranslations?.[language]) || chapter.title
+}
+
+// "12:05" / "1:02:05" (세션 시작 기준)
+export function formatChapterTime(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`
+}
+
+// 공유용 링크 조각 (#chapter-1)
+export function getChapterAnchor(chapter: SessionChapter): string {
+  return `chapter-${chapter.index + 1}`
+}
+
+export function getChapterIndexFromHash(hash: string): number | null {
+  const match = hash.match(/^#chapter-(\d+)$/)
+  return match ? Number(match[1]) - 1 : null
+}
+
+// 챕터 첫 줄 id - 호스트가 그 줄을 지우거나 합쳤으면 챕터 시작 시각 이후 첫 줄
+export function findChapterStartLineId(
+  chapter: SessionChapter,
+  lines: { id: string; created_at: string }[],
+): string | null {
+  if (lines.some((line) => line.id === chapter.startTranscriptId)) return chapter.startTranscriptId
+
+  const startedAt = new Date(chapter.startedAt).getTime()
+  return lines.find((line) => new Date(line.created_at).getTime() >= startedAt)?.id || null
+}
+
+// transcriptId → 그 줄에서 시작하는 챕터 (목록 / 내보내기에서 챕터 제목을 줄 앞에 넣을 때)
+export function getChapterStartMap(
+  chapters: SessionChapter[],
+  lines: { id: string; created_at: string }[],
+): Map<string, SessionChapter> {
+  const starts = new Map<string, SessionChapter>()
+  chapters.forEach((chapter) => {
+    const lineId = findChapterStartLineId(chapter, lines)
+    if (lineId && !starts.has(lineId)) starts.set(lineId, chapter)
+  })
+  return starts
+}
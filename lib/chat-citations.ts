@@ -0,0 +1,63 @@
+import type { Message } from 'ai'
+import type { ChatCitation } from './types'
+
+// 🆕 세션 챗봇 답변의 transcript 인용 (클라이언트)
+// 서버(/api/session/[id]/chatbot)는 모델에 보낸 줄들을 message annotation 으로 보내고,
+// 답변 본문의 [L12] / [L12, L15] 를 그 줄로 바꿔 링크로 보여준다.
+
+export type CitationSegment = { type: 'text'; text: string } | { type: 'citation'; refs: number[] }
+
+const CITATION_PATTERN = /\[(L\d+(?:\s*[,;]\s*L?\d+)*)\]/g
+
+// 답변 message 의 인용 후보 (ref → 줄)
+export function getMessageCitations(message: Message): Map<number, ChatCitation> {
+  const citations = new Map<number, ChatCitation>()
+  message.annotations?.forEach((annotation) => {
+    if (!annotation || typeof annotation !== 'object' || Array.isArray(annotation)) return
+    const { type, citations: items } = annotation as { type?: string; citations?: ChatCitation[] }
+    if (type !== 'citations' || !Array.isArray(items)) return
+    items.forEach((item) => {
+      if (typeof item?.ref === 'number' && typeof item.transcriptId === 'string') citations.set(item.ref, item)
+    })
+  })
+  return citations
+}
+
+// 답변 본문을 텍스트 / 인용 조각으로 나눔 (스트리밍 중 아직 닫히지 않은 "[L1" 은 텍스트로 둠)
+export function splitCitationText(content: string): CitationSegment[] {
+  const segments: CitationSegment[] = []
+  let lastIndex = 0
+
+  for (const match of content.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > lastIndex) segments.push({ type: 'text', text: content.slice(lastIndex, index) })
+    segments.push({ type: 'citation', refs: (match[1].match(/\d+/g) || []).map(Number) })
+    lastIndex = index + match[0].length
+  }
+
+  if (lastIndex < content.length) segments.push({ type: 'text', text: content.slice(lastIndex) })
+  return segments
+}
+
+// 🆕 화면에 없는 줄은 transcript 페이지의 그 줄로 연다 (#line-<id>)
+export function getTranscriptLineUrl(sessionId: string, transcriptId: string): string {
+  return `/session/${sessionId}/transcript#line-${transcriptId}`
+}
+
+export function getTranscriptLineIdFromHash(hash: string): string | null {
+  const match = hash.match(/^#line-(.+)$/)
+  return match ? decodeURIComponent(match[1]) : null
+}
+
+// 화면에 보이는 줄(id="line-..." 또는 data-line-id)로 스크롤하고 잠시 강조. 줄이 화면에 없으면 false
+export function scrollToTranscriptLine(transcriptId: string): boolean {
+  const element = Array.from(
+    document.querySelectorAll<HTMLElement>(`[id="line-${transcriptId}"], [data-line-id="${transcriptId}"]`),
+  ).find((candidate) => candidate.getClientRects().length > 0)
+  if (!element) return false
+
+  element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  element.classList.add('ring-2', 'ring-yellow-400')
+  setTimeout(() => element.classList.remove('ring-2', 'ring-yellow-400'), 2000)
+  return true
+}
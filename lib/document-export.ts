@@ -0,0 +1,755 @@
+import { getLanguageName } from './languages'
+import type { SessionExportData } from './session-export'
+import { SUMMARY_SECTION_LABELS } from './summary-document'
+import { getChapterStartMap, getChapterTitle } from './chapters'
+import type { SummaryDocument } from './types'
+import { createZip } from './zip-store'
+import { PDF_A4, PdfWriter, wrapRuns, type PdfCjkLanguage, type PdfRun } from './pdf-writer'
+
+// 🆕 세션 문서 내보내기 (Markdown / DOCX / PDF / 인쇄용 HTML)
+// 요약 문서(lib/summary-document.ts)를 블록 구조로 바꾼 뒤 각 형식으로 렌더링한다.
+// 요약 문서가 없는 이전 세션은 요약 HTML(<b>, <br/>, "- " 글머리)을 블록으로 바꿔서 사용한다.
+
+// pdf 는 서버에서 만든 PDF 파일, print 는 브라우저 인쇄 대화상자를 여는 HTML 페이지
+// (PDF 표준 글꼴에 없는 문자 - 예: 힌디어 - 는 print 로 브라우저에서 저장)
+export type DocumentFormat = 'md' | 'docx' | 'pdf' | 'print'
+
+export const DOCUMENT_FORMATS: DocumentFormat[] = ['md', 'docx', 'pdf', 'print']
+
+export interface InlineRun {
+  text: string
+  bold?: boolean
+}
+
+export interface SummaryBlock {
+  type: 'heading' | 'bullet' | 'paragraph'
+  runs: InlineRun[]
+}
+
+export interface DocumentTranscriptLine {
+  time: string // 세션 시작 기준 HH:MM:SS
+  original: string
+  translated?: string
+  speaker?: string // 🆕 멀티 화자 세션만
+  chapter?: string // 🆕 이 줄에서 시작하는 챕터 제목 ("1. 제목")
+}
+
+// 🆕 목차 항목
+export interface DocumentChapter {
+  title: string // 요청 언어 제목 (번호 없음)
+  time: string // 세션 시작 기준 HH:MM:SS
+}
+
+export interface SessionDocument {
+  title: string
+  hostName: string
+  category: string
+  date: string
+  duration?: string
+  summaryLanguage: string
+  summary: SummaryBlock[]
+  translationLanguage?: string // 있으면 원문 / 번역을 나란히 표시
+  hasSpeakers: boolean // 🆕 둘 이상이 말한 세션이면 화자 열 표시
+  chapters: DocumentChapter[] // 🆕 챕터가 없으면 빈 배열 (목차 생략)
+  lines: DocumentTranscriptLine[]
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+// 한 줄 안의 <b>/<strong> 을 굵은 글씨 run 으로 분리하고 나머지 태그는 제거
+function parseInlineRuns(line: string): InlineRun[] {
+  const runs: InlineRun[] = []
+  const pattern = /<(b|strong)\b[^>]*>([\s\S]*?)<\/\1>/gi
+  let lastIndex = 0
+  let match: RegExpExecArray | null
+
+  const push = (raw: string, bold: boolean) => {
+    const text = decodeEntities(raw.replace(/<[^>]+>/g, ''))
+    if (text) runs.push(bold ? { text, bold } : { text })
+  }
+
+  while ((match = pattern.exec(line)) !== null) {
+    push(line.slice(lastIndex, match.index), false)
+    push(match[2], true)
+    lastIndex = pattern.lastIndex
+  }
+  push(line.slice(lastIndex), false)
+
+  return runs
+}
+
+function runsToText(runs: InlineRun[]): string {
+  return runs.map((run) => run.text).join('')
+}
+
+// 요약 HTML → 블록 (굵은 글씨만 있는 줄은 제목, "- " / "• " 로 시작하는 줄은 글머리)
+export function parseSummaryHtml(html: string): SummaryBlock[] {
+  const normalized = html
+    .replace(/\r\n?/g, '\n')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<h[1-6]\b[^>]*>([\s\S]*?)<\/h[1-6]>/gi, '\n<b>$1</b>\n')
+    .replace(/<\/(p|div|li|ul|ol)>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+
+  const blocks: SummaryBlock[] = []
+  for (const rawLine of normalized.split('\n')) {
+    const line = rawLine.trim()
+    if (!line) continue
+
+    const bulletMatch = line.match(/^[-•*]\s+(.*)$/)
+    if (bulletMatch) {
+      const runs = parseInlineRuns(bulletMatch[1])
+      if (runs.length > 0) blocks.push({ type: 'bullet', runs })
+      continue
+    }
+
+    const runs = parseInlineRuns(line)
+    if (runs.length === 0 || !runsToText(runs).trim()) continue
+
+    const isHeading = runs.every((run) => run.bold || !run.text.trim())
+    blocks.push({
+      type: isHeading ? 'heading' : 'paragraph',
+      runs: isHeading ? [{ text: runsToText(runs).trim() }] : runs,
+    })
+  }
+
+  return blocks
+}
+
+// 🆕 요약 문서 → 블록 (개요, 섹션, 할 일, 용어, 태그 순)
+export function summaryDocumentToBlocks(doc: SummaryDocument): SummaryBlock[] {
+  const blocks: SummaryBlock[] = [{ type: 'paragraph', runs: [{ text: doc.overview }] }]
+
+  doc.sections.forEach((section) => {
+    blocks.push({ type: 'heading', runs: [{ text: section.title }] })
+    section.bullets.forEach((bullet) => blocks.push({ type: 'bullet', runs: [{ text: bullet }] }))
+  })
+
+  if (doc.actionItems.length > 0) {
+    blocks.push({ type: 'heading', runs: [{ text: SUMMARY_SECTION_LABELS.actionItems }] })
+    doc.actionItems.forEach((item) =>
+      blocks.push({
+        type: 'bullet',
+        runs: item.owner ? [{ text: `${item.owner}: `, bold: true }, { text: item.text }] : [{ text: item.text }],
+      }),
+    )
+  }
+
+  if (doc.keyTerms.length > 0) {
+    blocks.push({ type: 'heading', runs: [{ text: SUMMARY_SECTION_LABELS.keyTerms }] })
+    doc.keyTerms.forEach((item) =>
+      blocks.push({ type: 'bullet', runs: [{ text: `${item.term}: `, bold: true }, { text: item.definition }] }),
+    )
+  }
+
+  blocks.push({ type: 'heading', runs: [{ text: SUMMARY_SECTION_LABELS.tags }] })
+  blocks.push({ type: 'paragraph', runs: [{ text: doc.tags.map((tag) => `#${tag.replace(/\s+/g, '-')}`).join(' ') }] })
+
+  return blocks
+}
+
+function pad(value: number): string {
+  return value.toString().padStart(2, '0')
+}
+
+function formatOffset(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor((totalSeconds % 3600) / 60))}:${pad(totalSeconds % 60)}`
+}
+
+function formatDuration(ms: number): string {
+  const totalMinutes = Math.max(0, Math.round(ms / 60000))
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}h ${pad(minutes)}m` : `${minutes}m`
+}
+
+export function buildSessionDocument(
+  data: SessionExportData,
+  options: { translationLanguage?: string } = {},
+): SessionDocument {
+  const {
+    session,
+    transcripts,
+    translations,
+    speakers,
+    summary,
+    summaryDocument,
+    summaryLanguage,
+    chapters,
+    language,
+  } = data
+  const chapterStarts = getChapterStartMap(chapters, transcripts)
+  const startedAt = new Date(session.created_at).getTime()
+  const endedAt = session.ended_at
+    ? new Date(session.ended_at).getTime()
+    : transcripts.length > 0
+      ? new Date(transcripts[transcripts.length - 1].created_at).getTime()
+      : undefined
+
+  return {
+    title: session.title,
+    hostName: session.host_name,
+    category: session.category,
+    date: new Date(session.created_at).toISOString().replace('T', ' ').substring(0, 16) + ' UTC',
+    duration: endedAt ? formatDuration(endedAt - startedAt) : undefined,
+    summaryLanguage,
+    summary: summaryDocument ? summaryDocumentToBlocks(summaryDocument) : summary ? parseSummaryHtml(summary) : [],
+    translationLanguage: options.translationLanguage,
+    hasSpeakers: Object.keys(speakers).length > 0,
+    chapters: chapters.map((chapter) => ({
+      title: getChapterTitle(chapter, language),
+      time: formatOffset(chapter.startOffsetMs),
+    })),
+    lines: transcripts
+      .map((t) => {
+        const chapter = chapterStarts.get(t.id)
+        return {
+          time: formatOffset(new Date(t.created_at).getTime() - startedAt),
+          original: (t.reviewed_text || t.original_text || '').trim(),
+          translated: options.translationLanguage ? translations[t.id] : undefined,
+          speaker: speakers[t.id],
+          chapter: chapter ? `${chapter.index + 1}. ${getChapterTitle(chapter, language)}` : undefined,
+        }
+      })
+      .filter((line) => line.original.length > 0),
+  }
+}
+
+function getMetadata(doc: SessionDocument): [string, string][] {
+  return [
+    ['Host', doc.hostName],
+    ['Category', doc.category],
+    ['Date', doc.date],
+    ...(doc.duration ? ([['Duration', doc.duration]] as [string, string][]) : []),
+  ]
+}
+
+function getSummaryTitle(doc: SessionDocument): string {
+  return doc.summaryLanguage === 'en' ? 'Summary' : `Summary (${getLanguageName(doc.summaryLanguage)})`
+}
+
+// ---------- Markdown ----------
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1')
+}
+
+function runsToMarkdown(runs: InlineRun[]): string {
+  return runs
+    .map((run) => {
+      const text = escapeMarkdown(run.text)
+      return run.bold && text.trim() ? `**${text.trim()}**` : text
+    })
+    .join('')
+}
+
+export function renderMarkdown(doc: SessionDocument): string {
+  const out: string[] = [`# ${escapeMarkdown(doc.title)}`, '']
+  getMetadata(doc).forEach(([label, value]) => out.push(`- **${label}:** ${escapeMarkdown(value)}`))
+  out.push('')
+
+  if (doc.summary.length > 0) {
+    out.push(`## ${getSummaryTitle(doc)}`, '')
+    doc.summary.forEach((block, index) => {
+      if (block.type === 'heading') {
+        if (index > 0) out.push('')
+        out.push(`### ${escapeMarkdown(runsToText(block.runs))}`, '')
+      } else if (block.type === 'bullet') {
+        out.push(`- ${runsToMarkdown(block.runs)}`)
+      } else {
+        out.push(runsToMarkdown(block.runs), '')
+      }
+    })
+    out.push('')
+  }
+
+  // 🆕 목차
+  if (doc.chapters.length > 0) {
+    out.push('## Chapters', '')
+    doc.chapters.forEach((chapter, index) =>
+      out.push(`${index + 1}. \`${chapter.time}\` ${escapeMarkdown(chapter.title)}`),
+    )
+    out.push('')
+  }
+
+  out.push('## Transcript', '')
+  if (doc.translationLanguage) {
+    const speakerHeader = doc.hasSpeakers ? ' Speaker |' : ''
+    out.push(
+      `| Time |${speakerHeader} Original | ${getLanguageName(doc.translationLanguage)} |`,
+      `| --- |${doc.hasSpeakers ? ' --- |' : ''} --- | --- |`,
+    )
+    doc.lines.forEach((line) => {
+      if (line.chapter) {
+        out.push(`| **${line.time}** |${doc.hasSpeakers ? ' |' : ''} **${escapeMarkdown(line.chapter)}** | |`)
+      }
+      out.push(
+        `| ${line.time} |${doc.hasSpeakers ? ` ${escapeMarkdown(line.speaker || '')} |` : ''} ${escapeMarkdown(line.original)} | ${escapeMarkdown(line.translated || '')} |`,
+      )
+    })
+  } else {
+    doc.lines.forEach((line) => {
+      if (line.chapter) out.push(`### ${escapeMarkdown(line.chapter)}`, '')
+      out.push(
+        `**[${line.time}]${line.speaker ? ` ${escapeMarkdown(line.speaker)}:` : ''}** ${escapeMarkdown(line.original)}`,
+        '',
+      )
+    })
+  }
+
+  return (
+    out
+      .join('\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim() + '\n'
+  )
+}
+
+// ---------- HTML (인쇄용) ----------
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function runsToHtml(runs: InlineRun[]): string {
+  return runs.map((run) => (run.bold ? `<strong>${escapeHtml(run.text)}</strong>` : escapeHtml(run.text))).join('')
+}
+
+// 브라우저 인쇄(PDF 로 저장)용 문서. 모든 언어 글꼴을 브라우저가 처리하므로 CJK 등도 그대로 출력된다.
+export function renderPrintHtml(doc: SessionDocument, options: { autoPrint?: boolean } = {}): string {
+  const summaryHtml: string[] = []
+  let openList = false
+  for (const block of doc.summary) {
+    if (block.type === 'bullet' && !openList) {
+      summaryHtml.push('<ul>')
+      openList = true
+    } else if (block.type !== 'bullet' && openList) {
+      summaryHtml.push('</ul>')
+      openList = false
+    }
+
+    if (block.type === 'heading') summaryHtml.push(`<h3>${runsToHtml(block.runs)}</h3>`)
+    else if (block.type === 'bullet') summaryHtml.push(`<li>${runsToHtml(block.runs)}</li>`)
+    else summaryHtml.push(`<p>${runsToHtml(block.runs)}</p>`)
+  }
+  if (openList) summaryHtml.push('</ul>')
+
+  const translationHeader = doc.translationLanguage
+    ? `<th>${escapeHtml(getLanguageName(doc.translationLanguage))}</th>`
+    : ''
+  const columnCount = 2 + (doc.hasSpeakers ? 1 : 0) + (doc.translationLanguage ? 1 : 0)
+  const rows = doc.lines
+    .map(
+      (line) =>
+        `${
+          line.chapter ? `<tr class="chapter"><td colspan="${columnCount}">${escapeHtml(line.chapter)}</td></tr>` : ''
+        }<tr><td class="time">${line.time}</td>${
+          doc.hasSpeakers ? `<td class="speaker">${escapeHtml(line.speaker || '')}</td>` : ''
+        }<td>${escapeHtml(line.original)}</td>${
+          doc.translationLanguage ? `<td>${escapeHtml(line.translated || '')}</td>` : ''
+        }</tr>`,
+    )
+    .join('\n')
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(doc.title)}</title>
+<style>
+  @page { margin: 18mm; }
+  body { font-family: -apple-system, 'Segoe UI', 'Noto Sans', 'Noto Sans CJK KR', 'Malgun Gothic', sans-serif; color: #111827; font-size: 11pt; line-height: 1.5; }
+  h1 { font-size: 20pt; margin: 0 0 8px; }
+  h2 { font-size: 14pt; margin: 24px 0 8px; border-bottom: 1px solid #e5e7eb; padding-bottom: 4px; }
+  h3 { font-size: 12pt; margin: 12px 0 4px; }
+  .meta { color: #4b5563; margin: 0; padding: 0; list-style: none; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; vertical-align: top; padding: 4px 6px; border-bottom: 1px solid #f3f4f6; }
+  td.time { white-space: nowrap; color: #6b7280; font-variant-numeric: tabular-nums; width: 1%; }
+  td.speaker { white-space: nowrap; font-weight: 600; width: 1%; }
+  tr { page-break-inside: avoid; }
+  tr.chapter td { font-weight: 700; padding-top: 12px; border-bottom: 1px solid #d1d5db; page-break-after: avoid; }
+  ol.chapters { padding-left: 20px; }
+  ol.chapters span { color: #6b7280; font-variant-numeric: tabular-nums; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(doc.title)}</h1>
+<ul class="meta">
+${getMetadata(doc)
+  .map(([label, value]) => `<li><strong>${label}:</strong> ${escapeHtml(value)}</li>`)
+  .join('\n')}
+</ul>
+${doc.summary.length > 0 ? `<h2>${escapeHtml(getSummaryTitle(doc))}</h2>\n${summaryHtml.join('\n')}` : ''}
+${
+  doc.chapters.length > 0
+    ? `<h2>Chapters</h2>\n<ol class="chapters">\n${doc.chapters
+        .map((chapter) => `<li><span>${chapter.time}</span> ${escapeHtml(chapter.title)}</li>`)
+        .join('\n')}\n</ol>`
+    : ''
+}
+<h2>Transcript</h2>
+<table>
+<thead><tr><th>Time</th>${doc.hasSpeakers ? '<th>Speaker</th>' : ''}<th>Original</th>${translationHeader}</tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+${options.autoPrint ? '<script>window.addEventListener("load", function () { window.print() })</script>' : ''}
+</body>
+</html>
+`
+}
+
+// ---------- DOCX ----------
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+}
+
+function docxRun(run: InlineRun): string {
+  return `<w:r>${run.bold ? '<w:rPr><w:b/></w:rPr>' : ''}<w:t xml:space="preserve">${escapeXml(run.text)}</w:t></w:r>`
+}
+
+function docxParagraph(runs: InlineRun[], style?: string): string {
+  return `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${runs.map(docxRun).join('')}</w:p>`
+}
+
+function docxCell(text: string, width: number, options: { bold?: boolean; muted?: boolean } = {}): string {
+  const rPr = options.bold ? '<w:rPr><w:b/></w:rPr>' : options.muted ? '<w:rPr><w:color w:val="6B7280"/></w:rPr>' : ''
+  return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr><w:p><w:r>${rPr}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p></w:tc>`
+}
+
+function docxTable(doc: SessionDocument): string {
+  // 화자 열은 원문 폭에서 떼어 씀 (전체 폭 9360 dxa 유지)
+  const speakerWidth = doc.hasSpeakers ? 1400 : 0
+  const textWidths = doc.translationLanguage
+    ? [4080 - speakerWidth / 2, 4080 - speakerWidth / 2]
+    : [8160 - speakerWidth]
+  const widths = [1200, ...(doc.hasSpeakers ? [speakerWidth] : []), ...textWidths]
+  const headers = [
+    'Time',
+    ...(doc.hasSpeakers ? ['Speaker'] : []),
+    'Original',
+    ...(doc.translationLanguage ? [getLanguageName(doc.translationLanguage)] : []),
+  ]
+
+  const headerRow = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${headers.map((h, i) => docxCell(h, widths[i], { bold: true })).join('')}</w:tr>`
+  const rows = doc.lines.map((line) => {
+    // 🆕 챕터 첫 줄 앞에 전체 폭 챕터 제목 행
+    const chapterRow = line.chapter
+      ? `<w:tr><w:trPr><w:cantSplit/></w:trPr><w:tc><w:tcPr><w:tcW w:w="${widths.reduce((a, b) => a + b, 0)}" w:type="dxa"/><w:gridSpan w:val="${widths.length}"/></w:tcPr><w:p><w:pPr><w:keepNext/></w:pPr><w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve">${escapeXml(line.chapter)}</w:t></w:r></w:p></w:tc></w:tr>`
+      : ''
+    const cells = [
+      docxCell(line.time, 1200, { muted: true }),
+      ...(doc.hasSpeakers ? [docxCell(line.speaker || '', speakerWidth, { bold: true })] : []),
+      docxCell(line.original, textWidths[0]),
+      ...(doc.translationLanguage ? [docxCell(line.translated || '', textWidths[1])] : []),
+    ]
+    return `${chapterRow}<w:tr><w:trPr><w:cantSplit/></w:trPr>${cells.join('')}</w:tr>`
+  })
+
+  return `<w:tbl><w:tblPr><w:tblStyle w:val="TranscriptTable"/><w:tblW w:w="${widths.reduce((a, b) => a + b, 0)}" w:type="dxa"/></w:tblPr><w:tblGrid>${widths
+    .map((w) => `<w:gridCol w:w="${w}"/>`)
+    .join('')}</w:tblGrid>${headerRow}${rows.join('')}</w:tbl>`
+}
+
+const DOCX_CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`
+
+const DOCX_ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`
+
+const DOCX_DOCUMENT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`
+
+const DOCX_STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Malgun Gothic" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="200"/></w:pPr><w:rPr><w:b/><w:sz w:val="40"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="360" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="30"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="200" w:after="80"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:ind w:left="360" w:hanging="360"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Meta"><w:name w:val="Meta"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="40"/></w:pPr><w:rPr><w:color w:val="4B5563"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="TranscriptTable"><w:name w:val="Transcript Table"/><w:tblPr><w:tblBorders><w:insideH w:val="single" w:sz="4" w:space="0" w:color="E5E7EB"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="E5E7EB"/></w:tblBorders><w:tblCellMar><w:top w:w="40" w:type="dxa"/><w:left w:w="80" w:type="dxa"/><w:bottom w:w="40" w:type="dxa"/><w:right w:w="80" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>
+</w:styles>`
+
+export function renderDocx(doc: SessionDocument): Buffer {
+  const body: string[] = [docxParagraph([{ text: doc.title }], 'Title')]
+  getMetadata(doc).forEach(([label, value]) =>
+    body.push(docxParagraph([{ text: `${label}: `, bold: true }, { text: value }], 'Meta')),
+  )
+
+  if (doc.summary.length > 0) {
+    body.push(docxParagraph([{ text: getSummaryTitle(doc) }], 'Heading1'))
+    doc.summary.forEach((block) => {
+      if (block.type === 'heading') body.push(docxParagraph(block.runs, 'Heading2'))
+      else if (block.type === 'bullet') body.push(docxParagraph([{ text: '•\t' }, ...block.runs], 'ListBullet'))
+      else body.push(docxParagraph(block.runs))
+    })
+  }
+
+  if (doc.chapters.length > 0) {
+    body.push(docxParagraph([{ text: 'Chapters' }], 'Heading1'))
+    doc.chapters.forEach((chapter, index) =>
+      body.push(
+        docxParagraph([{ text: `${chapter.time}\t`, bold: true }, { text: `${index + 1}. ${chapter.title}` }], 'Meta'),
+      ),
+    )
+  }
+
+  body.push(docxParagraph([{ text: 'Transcript' }], 'Heading1'))
+  body.push(docxTable(doc))
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>${body.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`
+
+  const coreXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(doc.title)}</dc:title>
+<dc:creator>${escapeXml(doc.hostName)}</dc:creator>
+<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString()}</dcterms:created>
+</cp:coreProperties>`
+
+  return createZip([
+    { name: '[Content_Types].xml', data: DOCX_CONTENT_TYPES },
+    { name: '_rels/.rels', data: DOCX_ROOT_RELS },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/_rels/document.xml.rels', data: DOCX_DOCUMENT_RELS },
+    { name: 'word/styles.xml', data: DOCX_STYLES },
+    { name: 'docProps/core.xml', data: coreXml },
+  ])
+}
+
+// ---------- PDF ----------
+
+const PDF_MARGIN = 51 // 18mm
+const PDF_TEXT_COLOR: [number, number, number] = [0.07, 0.09, 0.15]
+const PDF_MUTED_COLOR: [number, number, number] = [0.42, 0.45, 0.5]
+const PDF_RULE_COLOR: [number, number, number] = [0.9, 0.91, 0.92]
+
+// 한글 / 가나가 없는 한자 구간을 그릴 CJK 글꼴 (번역 → 요약 언어 순, 기본 한국어)
+function getPdfCjkLanguage(doc: SessionDocument): PdfCjkLanguage {
+  for (const language of [doc.translationLanguage, doc.summaryLanguage]) {
+    const base = language?.split('-')[0]
+    if (base === 'ko' || base === 'ja' || base === 'zh') return base
+  }
+  return 'ko'
+}
+
+export function renderPdf(doc: SessionDocument): Buffer {
+  const pdf = new PdfWriter({ cjkLanguage: getPdfCjkLanguage(doc) })
+  const left = PDF_MARGIN
+  const right = PDF_A4.width - PDF_MARGIN
+  const contentWidth = right - left
+  const pageTop = PDF_A4.height - PDF_MARGIN
+  let y = pageTop // 다음에 그릴 줄의 위쪽 경계
+
+  const newPage = () => {
+    pdf.addPage()
+    y = pageTop
+  }
+  // 남은 공간이 height 보다 작으면 다음 페이지로
+  const ensureSpace = (height: number) => {
+    if (y - height < PDF_MARGIN) newPage()
+  }
+
+  const paragraph = (
+    runs: PdfRun[],
+    options: { size: number; indent?: number; color?: [number, number, number]; spaceAfter?: number },
+  ) => {
+    const indent = options.indent || 0
+    const leading = options.size * 1.45
+    wrapRuns(runs, options.size, contentWidth - indent).forEach((line) => {
+      ensureSpace(leading)
+      pdf.text(line, left + indent, y - options.size * 1.1, { size: options.size, color: options.color })
+      y -= leading
+    })
+    y -= options.spaceAfter ?? 0
+  }
+
+  const sectionHeading = (title: string) => {
+    y -= 14
+    ensureSpace(60) // 제목만 페이지 끝에 남지 않도록
+    paragraph([{ text: title, bold: true }], { size: 14 })
+    pdf.line(left, y - 1, right, y - 1)
+    y -= 8
+  }
+
+  newPage()
+  paragraph([{ text: doc.title, bold: true }], { size: 20, spaceAfter: 4 })
+  getMetadata(doc).forEach(([label, value]) =>
+    paragraph([{ text: `${label}: `, bold: true }, { text: value }], { size: 10.5, color: [0.29, 0.33, 0.39] }),
+  )
+
+  if (doc.summary.length > 0) {
+    sectionHeading(getSummaryTitle(doc))
+    doc.summary.forEach((block) => {
+      if (block.type === 'heading') {
+        y -= 6
+        ensureSpace(40)
+        paragraph(
+          block.runs.map((run) => ({ ...run, bold: true })),
+          { size: 12, spaceAfter: 2 },
+        )
+      } else if (block.type === 'bullet') {
+        ensureSpace(16)
+        pdf.text([{ text: '•' }], left + 2, y - 11, { size: 10 })
+        paragraph(block.runs, { size: 10, indent: 14, spaceAfter: 2 })
+      } else {
+        paragraph(block.runs, { size: 10, spaceAfter: 6 })
+      }
+    })
+  }
+
+  if (doc.chapters.length > 0) {
+    sectionHeading('Chapters')
+    doc.chapters.forEach((chapter, index) =>
+      paragraph([{ text: `${chapter.time}  `, bold: true }, { text: `${index + 1}. ${chapter.title}` }], {
+        size: 10,
+        spaceAfter: 1,
+      }),
+    )
+  }
+
+  sectionHeading('Transcript')
+
+  // 표: 시간 | (화자) | 원문 | (번역) - 화자 열은 원문 폭에서 떼어 씀
+  const cellPadding = 4
+  const size = 9.5
+  const leading = size * 1.4
+  const timeWidth = 56
+  const speakerWidth = doc.hasSpeakers ? 80 : 0
+  const textWidth = contentWidth - timeWidth - speakerWidth
+  const columns = [
+    { width: timeWidth, color: PDF_MUTED_COLOR, bold: false },
+    ...(doc.hasSpeakers ? [{ width: speakerWidth, color: PDF_TEXT_COLOR, bold: true }] : []),
+    { width: doc.translationLanguage ? textWidth / 2 : textWidth, color: PDF_TEXT_COLOR, bold: false },
+    ...(doc.translationLanguage ? [{ width: textWidth / 2, color: PDF_TEXT_COLOR, bold: false }] : []),
+  ]
+  const headers = [
+    'Time',
+    ...(doc.hasSpeakers ? ['Speaker'] : []),
+    'Original',
+    ...(doc.translationLanguage ? [getLanguageName(doc.translationLanguage)] : []),
+  ]
+
+  // 행 하나 (셀마다 줄바꿈, 한 페이지보다 긴 행만 페이지를 넘어 이어짐)
+  const drawRow = (cells: PdfRun[][][], colors: [number, number, number][], repeatHeader: boolean) => {
+    const lineCount = Math.max(1, ...cells.map((lines) => lines.length))
+    const height = lineCount * leading + cellPadding * 2
+    if (height <= pageTop - PDF_MARGIN && y - height < PDF_MARGIN) {
+      newPage()
+      if (repeatHeader) drawHeader()
+    }
+
+    y -= cellPadding
+    for (let i = 0; i < lineCount; i++) {
+      if (y - leading < PDF_MARGIN) {
+        newPage()
+        if (repeatHeader) drawHeader()
+        y -= cellPadding
+      }
+      let x = left
+      cells.forEach((lines, column) => {
+        if (lines[i]) pdf.text(lines[i], x + cellPadding, y - size * 1.05, { size, color: colors[column] })
+        x += cells.length === 1 ? contentWidth : columns[column].width
+      })
+      y -= leading
+    }
+    y -= cellPadding
+    pdf.line(left, y, right, y, { color: PDF_RULE_COLOR })
+  }
+
+  const drawHeader = () => {
+    drawRow(
+      headers.map((header, column) =>
+        wrapRuns([{ text: header, bold: true }], size, columns[column].width - cellPadding * 2),
+      ),
+      headers.map(() => PDF_TEXT_COLOR),
+      false,
+    )
+  }
+
+  drawHeader()
+  doc.lines.forEach((line) => {
+    if (line.chapter) {
+      // 챕터 제목 행이 페이지 끝에 혼자 남지 않도록 다음 행 공간까지 확인
+      y -= 6
+      ensureSpace(leading * 3 + cellPadding * 4)
+      drawRow(
+        [wrapRuns([{ text: line.chapter, bold: true }], size, contentWidth - cellPadding * 2)],
+        [PDF_TEXT_COLOR],
+        true,
+      )
+    }
+    const texts = [
+      line.time,
+      ...(doc.hasSpeakers ? [line.speaker || ''] : []),
+      line.original,
+      ...(doc.translationLanguage ? [line.translated || ''] : []),
+    ]
+    drawRow(
+      texts.map((text, column) =>
+        wrapRuns([{ text, bold: columns[column].bold }], size, columns[column].width - cellPadding * 2),
+      ),
+      columns.map((column) => column.color),
+      true,
+    )
+  })
+
+  return pdf.toBuffer({ title: doc.title, author: doc.hostName })
+}
+
+export function getDocumentContentType(format: DocumentFormat): string {
+  switch (format) {
+    case 'md':
+      return 'text/markdown; charset=utf-8'
+    case 'docx':
+      return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    case 'pdf':
+      return 'application/pdf'
+    case 'print':
+      return 'text/html; charset=utf-8'
+  }
+}
@@ -0,0 +1,170 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { GlossaryEntry } from './types'
+
+// 🆕 세션 / 호스트 용어집 (클라이언트 / 서버 공용)
+// - 호스트 용어집(host_glossaries)은 모든 세션에, 세션 용어집(sessions.glossary)은 그 세션에만 적용
+// - 같은 용어는 세션 용어집이 우선
+// 검수 프롬프트, Web Speech grammar, GPT / Gemini 번역 프롬프트에 들어가고,
+// 번역 결과는 enforceGlossaryTranslations 로 고정 번역을 한 번 더 맞춘다.
+
+export const MAX_GLOSSARY_ENTRIES = 200
+const MAX_TERM_LENGTH = 100
+const MAX_NOTE_LENGTH = 200
+
+function cleanString(value: unknown, maxLength: number): string {
+  return typeof value === 'string' ? value.replace(/\s+/g, ' ').trim().slice(0, maxLength) : ''
+}
+
+// API 입력 / DB 값 정리 (잘못된 항목 제거, 같은 용어는 뒤의 항목 사용)
+export function sanitizeGlossary(input: unknown): GlossaryEntry[] {
+  if (!Array.isArray(input)) return []
+
+  const entries = new Map<string, GlossaryEntry>()
+  for (const raw of input) {
+    if (!raw || typeof raw !== 'object') continue
+    const { term, aliases, translations, note } = raw as Record<string, unknown>
+
+    const cleanTerm = cleanString(term, MAX_TERM_LENGTH)
+    if (!cleanTerm) continue
+
+    const cleanAliases = Array.isArray(aliases)
+      ? Array.from(new Set(aliases.map((alias) => cleanString(alias, MAX_TERM_LENGTH)))).filter(
+          (alias) => alias && alias.toLowerCase() !== cleanTerm.toLowerCase(),
+        )
+      : []
+
+    const cleanTranslations =
+      translations && typeof translations === 'object'
+        ? Object.fromEntries(
+            Object.entries(translations as Record<string, unknown>)
+              .map(([lang, value]) => [lang, cleanString(value, MAX_TERM_LENGTH)])
+              .filter(([lang, value]) => /^[a-z]{2}$/.test(lang) && value),
+          )
+        : {}
+
+    const cleanNote = cleanString(note, MAX_NOTE_LENGTH)
+
+    entries.set(cleanTerm.toLowerCase(), {
+      term: cleanTerm,
+      ...(cleanAliases.length > 0 && { aliases: cleanAliases }),
+      ...(Object.keys(cleanTranslations).length > 0 && { translations: cleanTranslations }),
+      ...(cleanNote && { note: cleanNote }),
+    })
+  }
+
+  return Array.from(entries.values()).slice(0, MAX_GLOSSARY_ENTRIES)
+}
+
+// 호스트 용어집 + 세션 용어집 (뒤의 목록이 같은 용어를 덮어씀)
+export function mergeGlossaries(...glossaries: GlossaryEntry[][]): GlossaryEntry[] {
+  return sanitizeGlossary(glossaries.flat())
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// 단어 경계 매칭 (한글 / 한자처럼 띄어쓰기가 없는 언어도 글자 경계로 처리)
+function phrasePattern(phrase: string): RegExp {
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(phrase)}(?![\\p{L}\\p{N}])`, 'giu')
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return phrasePattern(phrase).test(text)
+}
+
+// 이 문장에 등장하는 용어만 (번역 프롬프트를 짧게 유지)
+export function findGlossaryMatches(text: string, glossary: GlossaryEntry[]): GlossaryEntry[] {
+  return glossary.filter((entry) =>
+    [entry.term, ...(entry.aliases || [])].some((phrase) => containsPhrase(text, phrase)),
+  )
+}
+
+// 잘못 알아들은 표기를 용어집 표기로 교정 ("My Combinator" → "Y Combinator")
+export function applyGlossarySpelling(text: string, glossary: GlossaryEntry[]): string {
+  let result = text
+  for (const entry of glossary) {
+    for (const alias of entry.aliases || []) {
+      result = result.replace(phrasePattern(alias), entry.term)
+    }
+  }
+  return result
+}
+
+// 번역 결과 후처리: 원문에 나온 용어의 고정 번역을 강제
+// 엔진이 용어를 번역하지 않고 남겨두면 고정 번역으로 바꾸고, 다른 말로 옮겼으면 경고만 남긴다.
+export function enforceGlossaryTranslations(
+  translatedText: string,
+  sourceText: string,
+  targetLanguage: string,
+  glossary: GlossaryEntry[],
+): string {
+  let result = translatedText
+
+  for (const entry of findGlossaryMatches(sourceText, glossary)) {
+    const fixed = entry.translations?.[targetLanguage]
+    if (!fixed || result.includes(fixed)) continue
+
+    const leftovers = [entry.term, ...(entry.aliases || [])].filter((phrase) => containsPhrase(result, phrase))
+    if (leftovers.length > 0) {
+      for (const phrase of leftovers) {
+        result = result.replace(phrasePattern(phrase), fixed)
+      }
+      console.log(`📘 Glossary enforced: "${entry.term}" → "${fixed}" (${targetLanguage})`)
+    } else {
+      console.warn(`⚠️ Glossary translation for "${entry.term}" not found in ${targetLanguage} output`)
+    }
+  }
+
+  return result
+}
+
+// 번역 프롬프트용 용어 목록 (이 문장에 나온 용어만)
+export function buildGlossaryPromptSection(text: string, targetLanguages: string[], glossary: GlossaryEntry[]): string {
+  const matches = findGlossaryMatches(text, glossary)
+  if (matches.length === 0) return ''
+
+  const lines = matches.map((entry) => {
+    const fixed = targetLanguages
+      .filter((lang) => entry.translations?.[lang])
+      .map((lang) => `${lang}: ${entry.translations![lang]}`)
+      .join(', ')
+    return `- ${entry.term}${fixed ? ` → ${fixed}` : ' (keep as is)'}${entry.note ? ` - ${entry.note}` : ''}`
+  })
+
+  return `Glossary (use these terms and translations exactly):\n${lines.join('\n')}`
+}
+
+// Web Speech API grammar (JSGF) - 지원하는 브라우저에서 용어 인식률을 높인다
+export function buildSpeechGrammar(glossary: GlossaryEntry[]): string | null {
+  const terms = glossary.map((entry) => entry.term.replace(/[;|<>=*+()[\]{}"/\\]/g, ' ').trim()).filter(Boolean)
+  if (terms.length === 0) return null
+  return `#JSGF V1.0; grammar glossary; public <term> = ${terms.join(' | ')} ;`
+}
+
+// 세션에 적용되는 용어집 (호스트 용어집 + 세션 용어집)
+// host_glossaries 는 RLS 로 막혀 있으므로 service role 클라이언트로 호출
+export async function loadSessionGlossary(supabase: SupabaseClient, sessionId: string): Promise<GlossaryEntry[]> {
+  const { data: session, error } = await supabase
+    .from('sessions')
+    .select('host_id, glossary')
+    .eq('id', sessionId)
+    .maybeSingle()
+
+  if (error || !session) {
+    if (error) console.error('❌ Session glossary load error:', error)
+    return []
+  }
+
+  const hostGlossary = await loadHostGlossary(supabase, session.host_id)
+  return mergeGlossaries(hostGlossary, sanitizeGlossary(session.glossary))
+}
+
+export async function loadHostGlossary(supabase: SupabaseClient, hostId: string): Promise<GlossaryEntry[]> {
+  const { data, error } = await supabase.from('host_glossaries').select('entries').eq('host_id', hostId).maybeSingle()
+
+  if (error) {
+    console.error('❌ Host glossary load error:', error)
+  }
+  return sanitizeGlossary(data?.entries)
+}
@@ -0,0 +1,221 @@
+// 🆕 로컬 언어 식별 (클라이언트 / 서버 공용, 외부 API 없음)
+// 1. 문자 체계로 1차 판별: 한글 → ko, 가나 → ja, 한자만 → zh, 데바나가리 → hi, 태국 → th, 아랍 → ar, 그리스 → el
+//    (가나 없이 한자만 있는 문장은 zh 와 ja 가 후보 - 세션 주 언어가 ja 면 ja)
+// 2. 라틴 / 키릴 문자는 문자 3-gram 나이브 베이즈로 언어를 고른다 (언어별 고빈도 단어 샘플로 프로파일 생성)
+// confidence 가 낮으면 (짧은 문장, 비슷한 언어) 호출 측에서 세션 primary_language 로 대체한다.
+
+export interface LanguageIdResult {
+  language: string
+  confidence: number // 0 ~ 1
+  script: LanguageScript | 'unknown'
+}
+
+type LanguageScript = 'hangul' | 'kana' | 'han' | 'devanagari' | 'thai' | 'arabic' | 'greek' | 'cyrillic' | 'latin'
+
+// 이 값보다 낮으면 세션 주 언어로 대체
+export const LANGUAGE_ID_CONFIDENCE_THRESHOLD = 0.5
+
+const SCRIPT_PATTERNS: Record<LanguageScript, RegExp> = {
+  hangul: /[가-힯ᄀ-ᇿ㄰-㆏]/g,
+  kana: /[぀-ヿ]/g,
+  han: /[一-鿿㐀-䶿]/g,
+  devanagari: /[ऀ-ॿ]/g,
+  thai: /[฀-๿]/g,
+  arabic: /[؀-ۿ]/g,
+  greek: /[Ͱ-Ͽ]/g,
+  cyrillic: /[Ѐ-ӿ]/g,
+  latin: /[a-zA-ZÀ-ɏḀ-ỿ]/g,
+}
+
+// 문자 체계 하나로 정해지는 언어
+const SINGLE_SCRIPT_LANGUAGES: Partial<Record<LanguageScript, string>> = {
+  hangul: 'ko',
+  devanagari: 'hi',
+  thai: 'th',
+  arabic: 'ar',
+  greek: 'el',
+}
+
+// 3-gram 프로파일용 고빈도 단어 샘플 (기능어 위주라 짧은 발화에서도 신호가 강하다)
+const LANGUAGE_SAMPLES: Record<'latin' | 'cyrillic', Record<string, string>> = {
+  latin: {
+    en: "the and of to in is that it for you was with on as have be at this are not but they from by we his or an will my one all would there their what so up out if about who get which go me when make can like time no just him know take people into year your good some could them see other than then now look only come its over think also back after use two how our work first well way even new want because any these give day most us were been has had do does did said very here where why thank don't it's i'm",
+    es: 'el la de que y a en un ser se no haber por con su para como estar tener le lo todo pero más hacer o poder decir este ir otro ese si me ya ver porque dar cuando él muy sin vez mucho saber qué sobre mi alguno mismo yo también hasta año dos querer entre así primero desde grande eso ni nos llegar pasar tiempo ella sí día uno bien poco deber entonces poner cosa tanto hombre parecer nuestro tan donde ahora parte después vida quedar siempre creer hablar llevar dejar nada cada seguir menos nuevo encontrar algo solo estos trabajar gracias señor están es son fue hay esta está las los del al una años mañana',
+    fr: "le de un à être et en avoir que pour dans ce il qui ne sur se pas plus pouvoir par je avec tout faire son mettre autre on mais nous comme ou si leur y dire elle devoir avant deux même prendre aussi celui donner bien où fois vous encore nouveau aller cela entre premier vouloir déjà grand mon me moins aucun lui temps très savoir falloir voir quelque sans raison notre dont non an monde jour monsieur demander alors après trouver personne rendre part dernier venir pendant passer peu lequel suivre est sont était les des du la une au aux c'est qu'il n'est beaucoup merci aujourd'hui être français",
+    de: 'der die und in den von zu das mit sich des auf für ist im dem nicht ein eine als auch es an werden aus er hat dass sie nach wird bei einer um am sind noch wie einem über einen so zum war haben nur oder aber vor zur bis mehr durch man sein wurde sei hatte kann gegen vom können schon wenn habe seine ihre dann unter wir soll ich eines jahr zwei jahren diese dieser wieder keine seiner worden will zwischen immer was sagte gibt alle seit muss doch heute weil ganz große schön danke möchte müssen würde gehen',
+    pt: 'o de a e do da em um para é com não uma os no se na por mais as dos como mas foi ao ele das tem à seu sua ou ser quando muito há nos já está eu também só pelo pela até isso ela entre era depois sem mesmo aos ter seus quem nas me esse eles estão você tinha foram essa num nem suas meu às minha têm numa pelos elas havia seja qual será nós tenho lhe deles essas esses pelas este fosse dele vocês obrigado então agora porque coisa trabalho informação situação todos hoje olá bom dia',
+    it: 'il di che e la a per un in è del non una sono mi si le da lo ma con ho ti cosa ci io questo al bene come tu hai se qui della lei anche era o gli ne più mio fatto lui solo perché dei sei me mia ha tutto nel fare niente chi grazie molto ancora sta stato quando adesso alla delle dove sempre questa tutti siamo essere allora ciao così nella degli dopo prima quello oggi anni già ecco loro vogliamo',
+    pl: 'i w nie się na to że z do jest co jak ale o tak za od po już tylko jego jej by czy też może przez był być mnie ja ty on ona my wy oni tym tego który która które jeszcze gdy jednak bardzo bez więc dla ich nawet tu teraz kiedy można trzeba przy pan pani będzie było była były dziękuję wszystko przed sobie ze tej jestem mam wiem dzień rok czas ludzie życie szczególnie właśnie',
+    nl: 'de van het een en in is dat op te zijn voor met die niet aan er om ook als dan bij of maar door nog heeft wordt naar wat uit worden kan zo al over ze hij jaar meer tot we zich was wel moet geen hun heb tegen na onder deze nu haar doen onze veel goed waar twee dit zou mijn ik je jij zij hebben kunnen moeten omdat alleen werd dank gaan vandaag mensen',
+    da: 'og i at det er en til på den som af med for de ikke har jeg et der var han vi kan om men sig så fra være hun skal blev eller vil efter have også du når man ham kunne over år nu hvor havde sin ud hvad bliver meget mod hende end dem mig jo alle dette deres under mange op noget sådan godt dag tak hvordan hvorfor må skulle siger gør både øjeblik',
+    sv: 'och i att det som en på är av för med till den har de inte om ett han men var jag sig från vi så kan man när år säger hon under också efter eller nu sin där vid mot ska skulle kommer ut får finns vad går två då dem blir sedan bara alla mycket även många tack hur varför här något våra måste ännu än bli gör hälsning',
+    no: 'og i det som på er en til av at for med har de ikke om et han men var jeg seg fra vi så kan man når år sier hun under også etter eller nå sin der ved mot skal skulle kommer ut får finnes hva går to da dem blir siden bare alle mye mange takk hvordan hvorfor her noe våre ble gjør må kunne hvis jo være vært dette disse dere veldig bra hei',
+    fi: 'ja on ei se että hän oli ovat mutta kun niin kuin mitä tämä myös jo vain sen hänen ole olla voi sitten nyt tai minä sinä me te he joka jotka kanssa koska mukaan vuonna sekä ollut siitä tässä kaikki paljon hyvä kiitos missä miksi miten tänään huomenna suomen kieli ihmiset aina vielä pitää täytyy',
+    cs: 'a se na je v že to s z do o jako ale i k by jsem jsou není jeho jak tak už po jen pro za co které který která bylo byl byla bude při jsme také nebo ve když ještě můžete mohu děkuji prosím velmi dnes tady protože všechno něco nic být mít řekl před tím této toho tohle říká člověk lidé',
+    sk: 'a sa na je v že to s z do o ako ale i k by som sú nie jeho tak už po len pre za čo ktoré ktorý ktorá bolo bol bola bude pri sme tiež alebo vo keď ešte môžete môžem ďakujem prosím veľmi dnes tu pretože všetko niečo nič byť mať povedal pred tým tejto toho človek ľudia',
+    sl: 'in je v da se na za so z ki pa ne bo tudi to ali pri po kot ga bi od iz sem smo ste še le kaj samo vse zelo lahko kjer kako zakaj hvala prosim danes tukaj ker nekaj nič biti imeti rekel pred tem tega človek ljudje jih jim med leto let',
+    et: 'ja on ei et see oli ta kui ka aga mis nii või siis ma sa me te nad kes mida oma veel kõik üle pärast juba väga aitäh palun täna siin sest midagi mitte olla olema ütles enne inimene inimesed aasta päev hea seda selle kuid',
+    lv: 'un ir ar ka uz no par kā bet to tas tā arī vai kas jau vēl tikai ļoti paldies lūdzu šodien šeit jo kaut nekas būt būs bija teica pirms cilvēks cilvēki gads diena labs mēs jūs viņš viņa viņi savu',
+    lt: 'ir yra kad su į iš kaip bet tai tas ta taip pat ar kas jau dar tik labai ačiū prašau šiandien čia nes kažkas nieko būti bus buvo sakė prieš žmogus žmonės metai diena geras mes jūs jis ji jie savo',
+    hu: 'a az és hogy nem is egy ez meg van de csak már el még mint volt ki azt ha itt kell vagy mi te én ő ti ők lesz nagyon köszönöm kérem ma mert valami semmi lenni mondta előtt ember emberek év nap jó szerint között után',
+    ro: 'și de la în a cu pe nu este că o un care se din mai pentru ca au sunt fost dar ce sau să lui ei el ea noi voi ne le foarte mulțumesc vă rog astăzi aici ceva nimic fi avea spus înainte om oameni an zi bun acest această',
+    tr: 've bir bu da de için ile ne çok daha ama gibi olarak var ben sen o biz siz onlar değil mi mı mu mü kadar sonra şey olan en her şimdi nasıl neden teşekkür ederim lütfen bugün burada çünkü hiç olmak söyledi önce insan insanlar yıl gün iyi',
+    id: 'yang dan di ini itu dengan untuk tidak dari dalam akan pada juga saya anda kami kita mereka ada adalah bisa sudah atau karena oleh seperti ke tahun lebih harus banyak sangat terima kasih tolong hari sini apa bagaimana mengapa orang baik jadi hanya saat tersebut telah dapat',
+    vi: 'và của là có trong không được cho với một những các người này đã đến khi như từ để cũng về ra làm thì năm tôi bạn chúng ta họ nhiều rất cảm ơn xin hôm nay ở đây vì gì tại sao ngày tốt việc còn nhưng đó sẽ phải nói',
+  },
+  cyrillic: {
+    ru: 'и в не на я что он с как а то это по но все она так его к у же вы за бы от мне было из ты о ещё нет только когда уже для вот мы они да где есть был быть если очень спасибо пожалуйста сегодня здесь потому что-то ничего сказал перед человек люди год день хороший',
+    uk: 'і в не на я що він з як а то це по але все вона так його до у ж ви за б від мені було із ти про ще ні тільки коли вже для ось ми вони де є був бути якщо дуже дякую будь ласка сьогодні тут тому щось нічого сказав перед людина люди рік день добрий їх її',
+    bg: 'и в не на аз че той с като а то това по но всички тя така към у же вие за би от мен беше из ти още няма само когато вече ето ние те да къде има бил бъде ако много благодаря моля днес тук защото нещо нищо каза преди човек хора година ден добър ще съм',
+  },
+}
+
+// 본 적 없는 3-gram 의 스무딩 (프로파일 어휘 크기 가정)
+const SMOOTHING_VOCABULARY = 4000
+
+interface NgramProfile {
+  counts: Map<string, number>
+  total: number
+}
+
+let profiles: Record<'latin' | 'cyrillic', Record<string, NgramProfile>> | null = null
+
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}']+/gu, ' ')
+    .trim()
+}
+
+function extractTrigrams(text: string): string[] {
+  const trigrams: string[] = []
+  for (const word of normalizeText(text).split(' ')) {
+    if (!word) continue
+    const padded = ` ${word} `
+    for (let i = 0; i < padded.length - 2; i++) {
+      trigrams.push(padded.slice(i, i + 3))
+    }
+  }
+  return trigrams
+}
+
+function buildProfile(sample: string): NgramProfile {
+  const counts = new Map<string, number>()
+  const trigrams = extractTrigrams(sample)
+  for (const trigram of trigrams) {
+    counts.set(trigram, (counts.get(trigram) || 0) + 1)
+  }
+  return { counts, total: trigrams.length }
+}
+
+function getProfiles() {
+  if (!profiles) {
+    profiles = {
+      latin: Object.fromEntries(
+        Object.entries(LANGUAGE_SAMPLES.latin).map(([lang, sample]) => [lang, buildProfile(sample)]),
+      ),
+      cyrillic: Object.fromEntries(
+        Object.entries(LANGUAGE_SAMPLES.cyrillic).map(([lang, sample]) => [lang, buildProfile(sample)]),
+      ),
+    }
+  }
+  return profiles
+}
+
+// 3-gram 로그 우도 평균으로 후보 언어 순위 매기기
+function rankByNgrams(
+  text: string,
+  script: 'latin' | 'cyrillic',
+): { language: string; margin: number; trigrams: number } {
+  const trigrams = extractTrigrams(text)
+  const scores = Object.entries(getProfiles()[script]).map(([language, profile]) => {
+    const logLikelihood = trigrams.reduce(
+      (sum, trigram) =>
+        sum + Math.log(((profile.counts.get(trigram) || 0) + 0.5) / (profile.total + 0.5 * SMOOTHING_VOCABULARY)),
+      0,
+    )
+    return { language, score: trigrams.length > 0 ? logLikelihood / trigrams.length : 0 }
+  })
+
+  scores.sort((a, b) => b.score - a.score)
+  return {
+    language: scores[0].language,
+    margin: scores.length > 1 ? scores[0].score - scores[1].score : 1,
+    trigrams: trigrams.length,
+  }
+}
+
+function countScripts(text: string): Record<LanguageScript, number> {
+  return Object.fromEntries(
+    Object.entries(SCRIPT_PATTERNS).map(([script, pattern]) => [script, (text.match(pattern) || []).length]),
+  ) as Record<LanguageScript, number>
+}
+
+// 텍스트 언어 식별
+export function identifyLanguage(text: string): LanguageIdResult {
+  const counts = countScripts(text)
+  const totalLetters = Object.values(counts).reduce((sum, count) => sum + count, 0)
+  if (totalLetters === 0) {
+    return { language: 'en', confidence: 0, script: 'unknown' }
+  }
+
+  // 가나가 섞여 있으면 한자도 일본어로 본다
+  const japaneseLetters = counts.kana > 0 ? counts.kana + counts.han : 0
+  const ranked = (Object.entries(counts) as [LanguageScript, number][])
+    .map(([script, count]): [LanguageScript, number] => [
+      script,
+      script === 'kana' ? japaneseLetters : script === 'han' && counts.kana > 0 ? 0 : count,
+    ])
+    .sort((a, b) => b[1] - a[1])
+
+  const [script, scriptLetters] = ranked[0]
+  const share = scriptLetters / totalLetters
+
+  if (script === 'kana') {
+    return { language: 'ja', confidence: share, script }
+  }
+
+  if (script === 'han') {
+    // 가나 없는 한자 문장은 중국어 (아주 짧으면 일본어일 수도 있어 confidence 를 낮춤)
+    return { language: 'zh', confidence: share * Math.min(1, scriptLetters / 6), script }
+  }
+
+  const singleScriptLanguage = SINGLE_SCRIPT_LANGUAGES[script]
+  if (singleScriptLanguage) {
+    return { language: singleScriptLanguage, confidence: share, script }
+  }
+
+  if (script === 'latin' || script === 'cyrillic') {
+    const { language, margin, trigrams } = rankByNgrams(text, script)
+    // 1위와 2위의 평균 로그 우도 차이 + 길이로 confidence 계산
+    const separation = 1 - Math.exp(-margin * 4)
+    const lengthFactor = Math.min(1, trigrams / 15)
+    return { language, confidence: Math.round(separation * lengthFactor * share * 100) / 100, script }
+  }
+
+  return { language: 'en', confidence: 0, script: 'unknown' }
+}
+
+// 'ko-KR' → 'ko', 'auto' / 빈 값 → undefined
+function toFallbackLanguage(language?: string | null): string | undefined {
+  if (!language || language === 'auto') return undefined
+  return language.split('-')[0].toLowerCase()
+}
+
+// 발화 언어 결정: confidence 가 낮으면 세션 주 언어 (auto 면 식별 결과 그대로)
+// 줄마다 호출되므로 로그를 남기지 않는다
+export function detectSpokenLanguage(text: string, primaryLanguage?: string | null): string {
+  const result = identifyLanguage(text)
+  const fallback = toFallbackLanguage(primaryLanguage)
+
+  // 한자만 있는 일본어 문장 (예: "会議開始") 은 문자로 zh 와 구분할 수 없으므로 일본어 세션이면 ja
+  if (result.script === 'han' && fallback === 'ja') {
+    return 'ja'
+  }
+
+  if (fallback && result.confidence < LANGUAGE_ID_CONFIDENCE_THRESHOLD) {
+    return fallback
+  }
+
+  return result.language
+}
@@ -0,0 +1,90 @@
+// 🆕 번역 대상 언어 정의 (클라이언트 / 서버 공용)
+// 세션별 target_languages 는 이 목록 안에서 선택한다.
+
+export interface LanguageOption {
+  code: string
+  name: string
+  flag: string
+}
+
+export const LANGUAGE_OPTIONS: LanguageOption[] = [
+  { code: 'ko', name: 'Korean', flag: '🇰🇷' },
+  { code: 'en', name: 'English', flag: '🇺🇸' },
+  { code: 'zh', name: 'Chinese', flag: '🇨🇳' },
+  { code: 'hi', name: 'Hindi', flag: '🇮🇳' },
+  { code: 'ja', name: 'Japanese', flag: '🇯🇵' },
+  { code: 'es', name: 'Spanish', flag: '🇪🇸' },
+  { code: 'vi', name: 'Vietnamese', flag: '🇻🇳' },
+  { code: 'fr', name: 'French', flag: '🇫🇷' },
+  { code: 'de', name: 'German', flag: '🇩🇪' },
+  { code: 'pt', name: 'Portuguese', flag: '🇵🇹' },
+  { code: 'ru', name: 'Russian', flag: '🇷🇺' },
+  { code: 'it', name: 'Italian', flag: '🇮🇹' },
+  { code: 'id', name: 'Indonesian', flag: '🇮🇩' },
+  { code: 'th', name: 'Thai', flag: '🇹🇭' },
+  { code: 'ar', name: 'Arabic', flag: '🇸🇦' },
+  { code: 'tr', name: 'Turkish', flag: '🇹🇷' },
+  { code: 'pl', name: 'Polish', flag: '🇵🇱' },
+  { code: 'nl', name: 'Dutch', flag: '🇳🇱' },
+  { code: 'sv', name: 'Swedish', flag: '🇸🇪' },
+  { code: 'da', name: 'Danish', flag: '🇩🇰' },
+  { code: 'no', name: 'Norwegian', flag: '🇳🇴' },
+  { code: 'fi', name: 'Finnish', flag: '🇫🇮' },
+  { code: 'cs', name: 'Czech', flag: '🇨🇿' },
+  { code: 'sk', name: 'Slovak', flag: '🇸🇰' },
+  { code: 'sl', name: 'Slovenian', flag: '🇸🇮' },
+  { code: 'et', name: 'Estonian', flag: '🇪🇪' },
+  { code: 'lv', name: 'Latvian', flag: '🇱🇻' },
+  { code: 'lt', name: 'Lithuanian', flag: '🇱🇹' },
+  { code: 'hu', name: 'Hungarian', flag: '🇭🇺' },
+  { code: 'bg', name: 'Bulgarian', flag: '🇧🇬' },
+  { code: 'ro', name: 'Romanian', flag: '🇷🇴' },
+  { code: 'el', name: 'Greek', flag: '🇬🇷' },
+  { code: 'uk', name: 'Ukrainian', flag: '🇺🇦' },
+]
+
+// 세션에 target_languages 가 없을 때 사용하는 기본 언어 (기존 고정 4개 언어)
+export const DEFAULT_TARGET_LANGUAGES = ['ko', 'en', 'zh', 'hi']
+
+// 최대 선택 가능 언어 수 (검수 프롬프트 / 응답 토큰 제한)
+export const MAX_TARGET_LANGUAGES = 8
+
+export function getLanguageName(code: string): string {
+  return LANGUAGE_OPTIONS.find((lang) => lang.code === code)?.name || code.toUpperCase()
+}
+
+// 'ko-KR' → 'ko', 'auto' → undefined
+export function toBaseLanguageCode(language?: string | null): string | undefined {
+  if (!language || language === 'auto') return undefined
+  return language.split('-')[0].toLowerCase()
+}
+
+// 요청 값 정리: 지원 언어만, 중복 제거, 주 언어 포함, 최대 개수 제한
+export function normalizeTargetLanguages(languages: unknown, primaryLanguage?: string | null): string[] {
+  const requested = Array.isArray(languages) ? languages : []
+  const codes = requested
+    .filter((code): code is string => typeof code === 'string')
+    .map((code) => code.trim().toLowerCase())
+    .filter((code) => LANGUAGE_OPTIONS.some((lang) => lang.code === code))
+
+  const primary = toBaseLanguageCode(primaryLanguage)
+  if (codes.length > 0 && primary && LANGUAGE_OPTIONS.some((lang) => lang.code === primary)) {
+    codes.unshift(primary)
+  }
+
+  const unique = Array.from(new Set(codes)).slice(0, MAX_TARGET_LANGUAGES)
+  return unique.length > 0 ? unique : DEFAULT_TARGET_LANGUAGES
+}
+
+// 세션 row 에서 대상 언어 목록 가져오기 (컬럼 없는 이전 세션은 기본값)
+export function getSessionTargetLanguages(session?: { target_languages?: string[] | null } | null): string[] {
+  return session?.target_languages && session.target_languages.length > 0
+    ? session.target_languages
+    : DEFAULT_TARGET_LANGUAGES
+}
+
+export function getLanguageOptions(codes: string[]): LanguageOption[] {
+  return codes.map(
+    (code) => LANGUAGE_OPTIONS.find((lang) => lang.code === code) || { code, name: code.toUpperCase(), flag: '🌐' },
+  )
+}
@@ -0,0 +1,334 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { getSessionTargetLanguages } from './languages'
+import { getTranscriptSpeakerName, hasMultipleSpeakers, loadSpeakerDirectory } from './speakers'
+import { requestGeminiText, translateSummaryDocument } from './summary-generator'
+import { generateSessionChapters, isLiveChaptersEnabled } from './chapter-generator'
+import {
+  SUMMARY_DOCUMENT_JSON_SHAPE,
+  parseSummaryDocument,
+  renderSummaryHtml,
+  toSummaryDocument,
+} from './summary-document'
+import type { SessionSummaryCache, SummaryDocument } from './types'
+
+// 🆕 진행 중인 세션의 "지금까지" 요약 (Catch me up)
+// 새 줄이 LIVE_SUMMARY_LINE_THRESHOLD 개 쌓이거나 LIVE_SUMMARY_INTERVAL_MS 가 지나면 이전 요약 + 새 줄로 요약을 갱신한다.
+// 언어별로 session_summary_cache 에 kind = 'live' 로 저장하고, 갱신할 때마다 version 을 올린다 (동시에 갱신되면 한쪽만 저장).
+// 🆕 최종 요약과 같은 요약 문서(JSON, lib/summary-document.ts)로 받아 summary_doc 에 저장 (summary_text 는 escape 된 HTML 렌더링)
+// 세션이 끝나면 최종 요약(summary-generator)이 같은 줄을 kind = 'final' 로 덮어쓴다.
+
+export const LIVE_SUMMARY_INTERVAL_MS = 3 * 60 * 1000
+export const LIVE_SUMMARY_LINE_THRESHOLD = 20
+// 새 줄이 너무 많으면 최근 부분만 넘김 (이전 요약이 앞부분을 대신함)
+const MAX_NEW_TRANSCRIPT_CHARS = 12000
+const MAX_ACTIVE_SESSIONS_PER_RUN = 50
+
+type LiveSummaryRow = Pick<
+  SessionSummaryCache,
+  'kind' | 'version' | 'summary_text' | 'summary_doc' | 'line_count' | 'covered_until' | 'updated_at'
+>
+
+export interface LiveSummaryRefreshResult {
+  updated: boolean
+  reason?: 'not-found' | 'ended' | 'final' | 'not-due' | 'no-lines' | 'conflict'
+  version?: number
+  lineCount?: number
+}
+
+function getServiceSupabase(): SupabaseClient {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+}
+
+function buildLiveSummaryPrompt(previousSummary: string | null, newTranscript: string, multiSpeaker: boolean) {
+  return `You are keeping a running summary of a live session for people who join late or lose track.
+The transcript comes from speech recognition and may contain transcription errors - correct them from context.
+${
+  previousSummary
+    ? `
+Here is the summary of the session so far:
+${previousSummary}
+
+Here is what was said since then:`
+    : `
+Here is what was said so far:`
+}
+${newTranscript}
+
+Write an updated summary that covers the whole session so far${multiSpeaker ? ' (each transcript line starts with the speaker name - attribute key points to the speaker)' : ''}:
+1. Write a 1-2 sentence overview of the session so far.
+2. Organize the key points into 2-5 sections, each with a short title and 1-3 concise bullet points.
+3. Keep the points from the previous summary that still matter, and make the last section about what is being discussed right now.
+4. List action items only if tasks or follow-ups were mentioned, and up to 3 key terms. Otherwise use empty arrays.
+5. Add 3-5 relevant lowercase tags (without "#").
+6. Use plain text in every field - no HTML or Markdown. Do not exceed 700 characters of text in total.
+7. Return only JSON in the following format:
+${SUMMARY_DOCUMENT_JSON_SHAPE}`
+}
+
+const LIVE_SUMMARY_GENERATION_CONFIG = {
+  temperature: 0.3,
+  maxOutputTokens: 1200,
+  responseMimeType: 'application/json' as const,
+}
+
+// 형식이 틀린 응답은 이유를 알려주고 한 번 더 요청 (최종 요약과 같은 방식)
+async function generateLiveSummaryDocument(prompt: string): Promise<SummaryDocument> {
+  try {
+    return parseSummaryDocument(await requestGeminiText(prompt, LIVE_SUMMARY_GENERATION_CONFIG))
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error'
+    console.warn(`⚠️ Live summary document rejected, retrying once: ${reason}`)
+    return parseSummaryDocument(
+      await requestGeminiText(
+        `${prompt}\nYour previous answer was rejected (${reason}). Return only valid JSON in the format above.`,
+        LIVE_SUMMARY_GENERATION_CONFIG,
+      ),
+    )
+  }
+}
+
+// 언어 하나 저장 - 'en' 은 previousVersion 으로 잠금, 다른 언어는 live 줄만 덮어씀 (final 은 건드리지 않음)
+async function saveLiveSummaryRow(
+  supabase: SupabaseClient,
+  sessionId: string,
+  language: string,
+  fields: Pick<SessionSummaryCache, 'summary_text' | 'summary_doc' | 'version' | 'line_count' | 'covered_until'>,
+  previousVersion?: number | null,
+): Promise<boolean> {
+  let query = supabase
+    .from('session_summary_cache')
+    .update(fields)
+    .eq('session_id', sessionId)
+    .eq('language_code', language)
+    .eq('kind', 'live')
+  if (typeof previousVersion === 'number') query = query.eq('version', previousVersion)
+
+  const { data: updated, error: updateError } = await query.select('id')
+  if (updateError) {
+    console.error(`❌ Live summary update error (${sessionId}, ${language}):`, updateError)
+    return false
+  }
+  if (updated && updated.length > 0) return true
+
+  // 잠금 버전이 맞지 않으면 다른 갱신이 먼저 저장된 것, 줄이 없으면 새로 만듦 (final 줄과 겹치면 unique 에러)
+  if (typeof previousVersion === 'number') return false
+
+  const { error: insertError } = await supabase
+    .from('session_summary_cache')
+    .insert({ session_id: sessionId, language_code: language, kind: 'live', ...fields })
+
+  if (insertError) {
+    if (insertError.code !== '23505') {
+      console.error(`❌ Live summary insert error (${sessionId}, ${language}):`, insertError)
+    }
+    return false
+  }
+  return true
+}
+
+// 🆕 세션 하나의 live 요약 갱신 - 갱신할 때가 아니면 건너뜀 (force 면 새 줄이 하나라도 있으면 갱신)
+export async function refreshLiveSummary(
+  sessionId: string,
+  options: { force?: boolean; supabase?: SupabaseClient } = {},
+): Promise<LiveSummaryRefreshResult> {
+  const { force = false, supabase = getServiceSupabase() } = options
+
+  const { data: session, error: sessionError } = await supabase
+    .from('sessions')
+    .select('id, status, created_at, target_languages')
+    .eq('id', sessionId)
+    .maybeSingle()
+
+  if (sessionError || !session) return { updated: false, reason: 'not-found' }
+  if (session.status !== 'active') return { updated: false, reason: 'ended' }
+
+  const { data: current } = await supabase
+    .from('session_summary_cache')
+    .select('kind, version, summary_text, summary_doc, line_count, covered_until, updated_at')
+    .eq('session_id', sessionId)
+    .eq('language_code', 'en')
+    .maybeSingle<LiveSummaryRow>()
+
+  if (current?.kind === 'final') return { updated: false, reason: 'final' }
+
+  const { count } = await supabase
+    .from('transcripts')
+    .select('id', { count: 'exact', head: true })
+    .eq('session_id', sessionId)
+
+  const lineCount = count || 0
+  const newLineCount = lineCount - (current?.line_count || 0)
+  const lastUpdatedAt = new Date(current?.updated_at || session.created_at).getTime()
+  const due =
+    newLineCount > 0 &&
+    (force || newLineCount >= LIVE_SUMMARY_LINE_THRESHOLD || Date.now() - lastUpdatedAt >= LIVE_SUMMARY_INTERVAL_MS)
+
+  if (!due) return { updated: false, reason: 'not-due' }
+
+  let linesQuery = supabase
+    .from('transcripts')
+    .select('original_text, reviewed_text, created_at, speaker_id, speaker_label')
+    .eq('session_id', sessionId)
+    .order('created_at', { ascending: true })
+  if (current?.summary_text && current.covered_until) linesQuery = linesQuery.gt('created_at', current.covered_until)
+
+  const { data: transcripts, error: transcriptError } = await linesQuery
+  if (transcriptError) {
+    console.error(`❌ Live summary transcript load error for ${sessionId}:`, transcriptError)
+    throw new Error('Failed to fetch transcripts')
+  }
+
+  const rows = transcripts || []
+  const multiSpeaker = hasMultipleSpeakers(rows)
+  const directory = multiSpeaker ? await loadSpeakerDirectory(supabase, sessionId) : null
+  const lines = rows
+    .map((t) => {
+      const text = (t.reviewed_text || t.original_text || '').trim()
+      return directory && text ? `${getTranscriptSpeakerName(t, directory)}: ${text}` : text
+    })
+    .filter(Boolean)
+
+  if (lines.length === 0) return { updated: false, reason: 'no-lines' }
+
+  let newTranscript = lines.join(multiSpeaker ? '\n' : ' ')
+  if (newTranscript.length > MAX_NEW_TRANSCRIPT_CHARS) {
+    newTranscript = `...${newTranscript.slice(-MAX_NEW_TRANSCRIPT_CHARS)}`
+  }
+
+  console.log(`📰 Updating live summary for session ${sessionId} (${lines.length} new lines, ${lineCount} total)`)
+
+  // 이전 요약: 문서가 있으면 JSON, 이 기능 전에 만든 live 요약이면 HTML 텍스트
+  const previousDocument = toSummaryDocument(current?.summary_doc)
+  const previousSummary = previousDocument ? JSON.stringify(previousDocument) : current?.summary_text || null
+  const englishDocument = await generateLiveSummaryDocument(
+    buildLiveSummaryPrompt(previousSummary, newTranscript, multiSpeaker),
+  )
+
+  const version = (current?.version || 0) + 1
+  const fields = {
+    version,
+    line_count: lineCount,
+    covered_until: rows[rows.length - 1].created_at as string,
+  }
+
+  const saved = await saveLiveSummaryRow(
+    supabase,
+    sessionId,
+    'en',
+    { summary_text: renderSummaryHtml(englishDocument), summary_doc: englishDocument, ...fields },
+    current ? current.version : null,
+  )
+  if (!saved) {
+    console.log(`⚠️ Live summary for session ${sessionId} was updated elsewhere, dropping version ${version}`)
+    return { updated: false, reason: 'conflict' }
+  }
+
+  // 세션 대상 언어로 번역 (실패한 언어는 이전 버전 유지 → 다음 갱신 때 다시 시도)
+  const languages = getSessionTargetLanguages(session).filter((lang) => lang !== 'en')
+  for (const lang of languages) {
+    try {
+      const translated = await translateSummaryDocument(englishDocument, lang)
+      await saveLiveSummaryRow(supabase, sessionId, lang, {
+        summary_text: renderSummaryHtml(translated),
+        summary_doc: translated,
+        ...fields,
+      })
+    } catch (error) {
+      console.error(`❌ Live summary translation to ${lang} failed for session ${sessionId}:`, error)
+    }
+  }
+
+  console.log(`✅ Live summary v${version} saved for session ${sessionId} (${languages.length + 1} languages)`)
+
+  // 🆕 live 챕터 (LIVE_CHAPTERS=true) - 같은 주기로 마지막 챕터부터 다시 나눔
+  if (isLiveChaptersEnabled()) {
+    try {
+      await generateSessionChapters(sessionId, { live: true, supabase })
+    } catch (error) {
+      console.error(`❌ Live chapters update failed for session ${sessionId}:`, error)
+    }
+  }
+
+  return { updated: true, version, lineCount }
+}
+
+// 🆕 새 줄이 들어올 때마다 호출되는 예약기 (세션별 줄 수 + 타이머, 프로세스 메모리)
+// 서버리스처럼 타이머가 사라지는 환경은 /api/live-summary/worker cron 이 대신 갱신한다.
+class LiveSummaryScheduler {
+  private pendingLines = new Map<string, number>()
+  private timers = new Map<string, NodeJS.Timeout>()
+  private running = new Set<string>()
+
+  // 싱글톤 인스턴스
+  private static instance: LiveSummaryScheduler | null = null
+
+  static getInstance(): LiveSummaryScheduler {
+    if (!LiveSummaryScheduler.instance) {
+      LiveSummaryScheduler.instance = new LiveSummaryScheduler()
+    }
+    return LiveSummaryScheduler.instance
+  }
+
+  noteLine(sessionId: string): void {
+    const pending = (this.pendingLines.get(sessionId) || 0) + 1
+    this.pendingLines.set(sessionId, pending)
+
+    if (pending >= LIVE_SUMMARY_LINE_THRESHOLD) {
+      this.run(sessionId)
+    } else if (!this.timers.has(sessionId)) {
+      this.timers.set(
+        sessionId,
+        setTimeout(() => this.run(sessionId), LIVE_SUMMARY_INTERVAL_MS),
+      )
+    }
+  }
+
+  private run(sessionId: string): void {
+    if (this.running.has(sessionId)) return
+
+    const timer = this.timers.get(sessionId)
+    if (timer) clearTimeout(timer)
+    this.timers.delete(sessionId)
+    this.pendingLines.delete(sessionId)
+    this.running.add(sessionId)
+
+    refreshLiveSummary(sessionId)
+      .catch((error) => console.error(`❌ Live summary refresh failed for session ${sessionId}:`, error))
+      .finally(() => this.running.delete(sessionId))
+  }
+}
+
+export const liveSummaryScheduler = LiveSummaryScheduler.getInstance()
+
+export function noteLiveSummaryLine(sessionId: string) {
+  liveSummaryScheduler.noteLine(sessionId)
+}
+
+// 🆕 cron 진입점: 진행 중인 모든 세션 중 갱신할 때가 된 세션만 갱신
+export async function refreshActiveLiveSummaries(): Promise<{ checked: number; updated: number }> {
+  const supabase = getServiceSupabase()
+  const { data: sessions, error } = await supabase
+    .from('sessions')
+    .select('id')
+    .eq('status', 'active')
+    .order('created_at', { ascending: false })
+    .limit(MAX_ACTIVE_SESSIONS_PER_RUN)
+
+  if (error) {
+    console.error('❌ Failed to load active sessions for live summaries:', error)
+    throw new Error('Failed to load active sessions')
+  }
+
+  let updated = 0
+  for (const session of sessions || []) {
+    try {
+      const result = await refreshLiveSummary(session.id, { supabase })
+      if (result.updated) updated++
+    } catch (error) {
+      console.error(`❌ Live summary refresh failed for session ${session.id}:`, error)
+    }
+  }
+
+  console.log(`📰 Live summaries checked for ${sessions?.length || 0} active sessions (${updated} updated)`)
+  return { checked: sessions?.length || 0, updated }
+}
@@ -0,0 +1,156 @@
+import { WebSocketServer, type RawData, type WebSocket } from 'ws'
+import type { LiveTranscriptionEvent } from '@deepgram/sdk'
+import type { IncomingMessage } from 'http'
+
+// 🆕 Deepgram live API 를 흉내 내는 로컬 mock 서버 (오프라인 개발 / 어댑터 테스트용)
+// DEEPGRAM_API_URL=ws://localhost:STT_MOCK_SERVER_PORT 로 지정하면 Deepgram 어댑터가 이 서버에 접속한다.
+// 오디오 내용은 해석하지 않고, 받은 오디오 메시지 수에 맞춰 준비된 문장을 한 단어씩 interim → final 로 보낸다.
+// diarize=true 로 접속하면 세 번째 문장마다 두 번째 화자(speaker 1)가 말한 것으로 표시한다.
+
+const MOCK_SENTENCES = [
+  "Welcome to today's lecture on artificial intelligence.",
+  'Machine learning is transforming various industries.',
+  'Deep learning models require large amounts of data.',
+  'Natural language processing enables human-computer interaction.',
+  'Computer vision allows machines to interpret visual information.',
+]
+
+const MESSAGES_PER_WORD = 2 // 250ms timeslice 기준 약 0.5초에 한 단어
+
+function buildResults(
+  words: string[],
+  start: number,
+  flags: { isFinal: boolean; speechFinal: boolean; fromFinalize?: boolean },
+  speaker?: number,
+): LiveTranscriptionEvent {
+  const wordDuration = 0.5
+  return {
+    type: 'Results',
+    channel_index: [0, 1],
+    duration: words.length * wordDuration,
+    start,
+    is_final: flags.isFinal,
+    speech_final: flags.speechFinal,
+    from_finalize: flags.fromFinalize,
+    channel: {
+      alternatives: [
+        {
+          transcript: words.join(' '),
+          confidence: 0.95,
+          languages: ['en'],
+          words: words.map((word, index) => ({
+            word: word.toLowerCase().replace(/[^\w'-]/g, ''),
+            punctuated_word: word,
+            start: start + index * wordDuration,
+            end: start + (index + 1) * wordDuration,
+            confidence: 0.95,
+            language: 'en',
+            ...(speaker !== undefined && { speaker }),
+          })),
+        },
+      ],
+    },
+    metadata: {
+      request_id: 'mock-request',
+      model_info: { name: 'mock', version: '1', arch: 'mock' },
+      model_uuid: 'mock-model',
+    },
+  }
+}
+
+function handleConnection(socket: WebSocket, req: IncomingMessage) {
+  const diarize = new URL(req.url || '/', 'http://localhost').searchParams.get('diarize') === 'true'
+  let sentenceIndex = 0
+  let wordCount = 0
+  let audioMessages = 0
+  let utteranceStart = 0
+  let totalBytes = 0
+
+  const currentWords = () => MOCK_SENTENCES[sentenceIndex % MOCK_SENTENCES.length].split(' ')
+  const currentSpeaker = () => (diarize ? (sentenceIndex % 3 === 2 ? 1 : 0) : undefined)
+
+  const sendJson = (payload: unknown) => {
+    if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(payload))
+  }
+
+  const finishSentence = (fromFinalize = false) => {
+    const words = currentWords().slice(0, wordCount)
+    if (words.length > 0) {
+      sendJson(
+        buildResults(words, utteranceStart, { isFinal: true, speechFinal: true, fromFinalize }, currentSpeaker()),
+      )
+      utteranceStart += words.length * 0.5
+    } else if (fromFinalize) {
+      sendJson(buildResults([], utteranceStart, { isFinal: true, speechFinal: false, fromFinalize }))
+    }
+
+    sentenceIndex += 1
+    wordCount = 0
+  }
+
+  console.log('🧪 Mock Deepgram client connected')
+
+  socket.on('message', (data: RawData, isBinary: boolean) => {
+    if (isBinary) {
+      totalBytes += Array.isArray(data) ? data.reduce((sum, chunk) => sum + chunk.length, 0) : (data as Buffer).length
+      audioMessages += 1
+      if (audioMessages % MESSAGES_PER_WORD !== 0) return
+
+      wordCount += 1
+      const words = currentWords()
+      if (wordCount >= words.length) {
+        finishSentence()
+      } else {
+        sendJson(
+          buildResults(
+            words.slice(0, wordCount),
+            utteranceStart,
+            { isFinal: false, speechFinal: false },
+            currentSpeaker(),
+          ),
+        )
+      }
+      return
+    }
+
+    // Deepgram 제어 메시지: KeepAlive / Finalize / CloseStream
+    try {
+      const message = JSON.parse(data.toString())
+      if (message.type === 'Finalize') {
+        finishSentence(true)
+      } else if (message.type === 'CloseStream') {
+        sendJson({
+          type: 'Metadata',
+          request_id: 'mock-request',
+          duration: utteranceStart,
+          channels: 1,
+          transaction_key: 'mock',
+          sha256: 'mock',
+          created: new Date().toISOString(),
+          models: ['mock-model'],
+        })
+        socket.close(1000)
+      }
+    } catch {
+      // 알 수 없는 텍스트 메시지는 무시
+    }
+  })
+
+  socket.on('close', () => {
+    console.log(`🧪 Mock Deepgram client disconnected (${audioMessages} audio messages, ${totalBytes} bytes)`)
+  })
+}
+
+export function startMockSttServer(port: number): WebSocketServer {
+  const server = new WebSocketServer({ port })
+
+  server.on('connection', handleConnection)
+  server.on('listening', () => {
+    console.log(`🧪 Mock Deepgram STT server listening on ws://localhost:${port}`)
+  })
+  server.on('error', (error) => {
+    console.error('❌ Mock STT server error:', error)
+  })
+
+  return server
+}
@@ -0,0 +1,404 @@
+import zlib from 'zlib'
+
+// 🆕 최소 PDF 작성기 (서버 전용, 외부 라이브러리 없음)
+// 라틴 문자는 PDF 기본 글꼴(Helvetica / Helvetica-Bold, WinAnsi)로, 한글 / 가나 / 한자 등은 PDF 표준 CJK 글꼴
+// (HYGoThic-Medium, KozMinPro-Regular, STSong-Light + Unicode CMap)로 쓴다. 글꼴 파일을 넣지 않아도
+// PDF 뷰어가 시스템 글꼴로 그려주지만, 이 글꼴들에 없는 문자(데바나가리 등)는 빈 칸으로 보인다.
+// 좌표는 PDF 기본 단위 (pt, 왼쪽 아래가 원점)
+
+export type PdfCjkLanguage = 'ko' | 'ja' | 'zh'
+
+export interface PdfRun {
+  text: string
+  bold?: boolean
+}
+
+export interface PdfTextStyle {
+  size: number
+  color?: [number, number, number] // 0 ~ 1 RGB
+}
+
+export const PDF_A4 = { width: 595.28, height: 841.89 }
+
+type FontKey = 'F1' | 'F2' | 'FK' | 'FJ' | 'FC'
+
+const CJK_FONTS: Record<
+  PdfCjkLanguage,
+  { key: FontKey; baseFont: string; encoding: string; ordering: string; supplement: number }
+> = {
+  ko: { key: 'FK', baseFont: 'HYGoThic-Medium', encoding: 'UniKS-UCS2-H', ordering: 'Korea1', supplement: 1 },
+  ja: { key: 'FJ', baseFont: 'KozMinPro-Regular', encoding: 'UniJIS-UCS2-H', ordering: 'Japan1', supplement: 2 },
+  zh: { key: 'FC', baseFont: 'STSong-Light', encoding: 'UniGB-UCS2-H', ordering: 'GB1', supplement: 2 },
+}
+
+// Helvetica / Helvetica-Bold 글자 폭 (AFM, 1000 단위) - 0x20 ~ 0x7E
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+]
+
+// WinAnsi 에만 있는 문장 부호 (유니코드 → WinAnsi 코드, 폭 [regular, bold])
+const WIN_ANSI_EXTRA: Record<number, { code: number; widths: [number, number] }> = {
+  0x2018: { code: 0x91, widths: [222, 278] },
+  0x2019: { code: 0x92, widths: [222, 278] },
+  0x201c: { code: 0x93, widths: [333, 500] },
+  0x201d: { code: 0x94, widths: [333, 500] },
+  0x2022: { code: 0x95, widths: [350, 350] },
+  0x2013: { code: 0x96, widths: [556, 556] },
+  0x2014: { code: 0x97, widths: [1000, 1000] },
+  0x2026: { code: 0x85, widths: [1000, 1000] },
+}
+
+const LATIN1_WIDTH: [number, number] = [556, 611] // 악센트 문자 등 (대략)
+const CJK_WIDTH = 1000
+
+type Glyph = { char: string; code: number; cjk: boolean }
+
+function toGlyph(char: string): Glyph | null {
+  const code = char.codePointAt(0) ?? 0
+  if (char === '\t') return { char: ' ', code: 0x20, cjk: false }
+  if (code < 0x20 || (code >= 0x7f && code < 0xa0)) return null
+  if (code <= 0xff || WIN_ANSI_EXTRA[code]) return { char, code, cjk: false }
+  // BMP 밖 문자(이모지 등)는 UCS2 CMap 으로 쓸 수 없음
+  if (code > 0xffff) return { char: '?', code: 0x3f, cjk: false }
+  return { char, code, cjk: true }
+}
+
+function glyphWidth(glyph: Glyph, bold: boolean): number {
+  if (glyph.cjk) return CJK_WIDTH
+  if (glyph.code >= 0x20 && glyph.code <= 0x7e) {
+    return (bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[glyph.code - 0x20]
+  }
+  const extra = WIN_ANSI_EXTRA[glyph.code]
+  if (extra) return extra.widths[bold ? 1 : 0]
+  return glyph.code === 0xa0 ? 278 : LATIN1_WIDTH[bold ? 1 : 0]
+}
+
+export function measureText(text: string, size: number, bold = false): number {
+  let width = 0
+  for (const char of text) {
+    const glyph = toGlyph(char)
+    if (glyph) width += glyphWidth(glyph, bold)
+  }
+  return (width * size) / 1000
+}
+
+// 한 줄 안의 글자 (굵기 포함)
+type StyledGlyph = Glyph & { bold: boolean }
+
+// 한자 / 가나는 글자 사이 어디서나 끊을 수 있음 (한글은 띄어쓰기 단위)
+function breaksAnywhere(glyph: StyledGlyph): boolean {
+  return glyph.cjk && !hasHangul(glyph.char)
+}
+
+function isBreakableAfter(glyph: StyledGlyph): boolean {
+  return glyph.char === ' ' || breaksAnywhere(glyph)
+}
+
+// 주어진 폭에 맞게 줄바꿈 (공백 / 한자 / 가나 사이에서 끊고, 한 단어가 폭보다 길면 글자 단위로)
+export function wrapRuns(runs: PdfRun[], size: number, maxWidth: number): PdfRun[][] {
+  const lines: StyledGlyph[][] = []
+  const paragraphs: StyledGlyph[][] = [[]]
+  for (const run of runs) {
+    for (const char of run.text) {
+      if (char === '\n') {
+        paragraphs.push([])
+        continue
+      }
+      const glyph = toGlyph(char)
+      if (glyph) paragraphs[paragraphs.length - 1].push({ ...glyph, bold: !!run.bold })
+    }
+  }
+
+  for (const glyphs of paragraphs) {
+    let line: StyledGlyph[] = []
+    let width = 0
+    let breakAt = -1 // line 에서 마지막으로 끊을 수 있는 위치 (그 글자 다음)
+
+    for (const glyph of glyphs) {
+      const glyphSize = (glyphWidth(glyph, glyph.bold) * size) / 1000
+      if (width + glyphSize > maxWidth && line.length > 0) {
+        if (glyph.char === ' ') {
+          lines.push(line)
+          line = []
+          width = 0
+          breakAt = -1
+          continue
+        }
+        const cut = breakAt >= 0 && !breaksAnywhere(glyph) ? breakAt + 1 : line.length
+        lines.push(line.slice(0, cut))
+        line = line.slice(cut)
+        while (line[0]?.char === ' ') line.shift()
+        width = line.reduce((sum, item) => sum + (glyphWidth(item, item.bold) * size) / 1000, 0)
+        breakAt = -1
+        line.forEach((item, index) => isBreakableAfter(item) && (breakAt = index))
+      }
+      line.push(glyph)
+      width += glyphSize
+      if (isBreakableAfter(glyph)) breakAt = line.length - 1
+    }
+    lines.push(line)
+  }
+
+  return lines.map((line) => {
+    while (line.length > 0 && line[line.length - 1].char === ' ') line.pop()
+    const merged: PdfRun[] = []
+    for (const glyph of line) {
+      const last = merged[merged.length - 1]
+      if (last && !!last.bold === glyph.bold) last.text += glyph.char
+      else merged.push(glyph.bold ? { text: glyph.char, bold: true } : { text: glyph.char })
+    }
+    return merged
+  })
+}
+
+function toPdfNumber(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
+
+function escapeLatin(glyphs: Glyph[]): string {
+  return glyphs
+    .map(({ code }) => {
+      const byte = WIN_ANSI_EXTRA[code]?.code ?? code
+      if (byte === 0x28 || byte === 0x29 || byte === 0x5c) return `\\${String.fromCharCode(byte)}`
+      if (byte < 0x20 || byte > 0x7e) return `\\${byte.toString(8).padStart(3, '0')}`
+      return String.fromCharCode(byte)
+    })
+    .join('')
+}
+
+function toUtf16Hex(text: string): string {
+  return Array.from(text)
+    .map((char) => (char.codePointAt(0) ?? 0).toString(16).padStart(4, '0'))
+    .join('')
+    .toUpperCase()
+}
+
+function hasHangul(text: string): boolean {
+  return /[ᄀ-ᇿ㄰-㆏가-힯]/.test(text)
+}
+
+function hasKana(text: string): boolean {
+  return /[぀-ヿㇰ-ㇿｦ-ﾟ]/.test(text)
+}
+
+// PDF 정보 사전용 문자열 (UTF-16BE + BOM)
+function toInfoString(text: string): string {
+  const units: string[] = []
+  for (let i = 0; i < text.length; i++) units.push(text.charCodeAt(i).toString(16).padStart(4, '0'))
+  return `<FEFF${units.join('').toUpperCase()}>`
+}
+
+export class PdfWriter {
+  private pages: string[][] = []
+  private usedFonts = new Set<FontKey>()
+  private cjkLanguage: PdfCjkLanguage
+
+  // cjkLanguage: 한글 / 가나가 없는 한자 구간을 그릴 글꼴 (문서 언어)
+  constructor(options: { cjkLanguage?: PdfCjkLanguage } = {}) {
+    this.cjkLanguage = options.cjkLanguage || 'ko'
+  }
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  addPage() {
+    this.pages.push([])
+  }
+
+  private get current(): string[] {
+    if (this.pages.length === 0) this.addPage()
+    return this.pages[this.pages.length - 1]
+  }
+
+  private getCjkFont(text: string): (typeof CJK_FONTS)[PdfCjkLanguage] {
+    if (hasKana(text)) return CJK_FONTS.ja
+    if (hasHangul(text)) return CJK_FONTS.ko
+    return CJK_FONTS[this.cjkLanguage]
+  }
+
+  // 한 줄 텍스트 (x, y 는 글자 기준선 시작점)
+  text(runs: PdfRun[], x: number, y: number, style: PdfTextStyle) {
+    const [r, g, b] = style.color || [0.07, 0.09, 0.15]
+    const color = `${toPdfNumber(r)} ${toPdfNumber(g)} ${toPdfNumber(b)}`
+    const ops: string[] = [`BT ${color} rg ${color} RG`]
+    let cursor = x
+
+    for (const run of runs) {
+      const bold = !!run.bold
+      // 라틴 / CJK 구간으로 나눠 글꼴을 바꿈
+      const segments: { cjk: boolean; glyphs: Glyph[] }[] = []
+      for (const char of run.text) {
+        const glyph = toGlyph(char)
+        if (!glyph) continue
+        const last = segments[segments.length - 1]
+        if (last && last.cjk === glyph.cjk) last.glyphs.push(glyph)
+        else segments.push({ cjk: glyph.cjk, glyphs: [glyph] })
+      }
+
+      for (const segment of segments) {
+        const position = `1 0 0 1 ${toPdfNumber(cursor)} ${toPdfNumber(y)} Tm`
+        if (segment.cjk) {
+          const font = this.getCjkFont(segment.glyphs.map((glyph) => glyph.char).join(''))
+          this.usedFonts.add(font.key)
+          // CJK 표준 글꼴에는 굵은 글꼴이 없으므로 외곽선을 같이 그려 굵게 보이게 함
+          const boldOn = bold ? ` 2 Tr ${toPdfNumber(style.size * 0.03)} w` : ''
+          const boldOff = bold ? ' 0 Tr' : ''
+          ops.push(
+            `/${font.key} ${toPdfNumber(style.size)} Tf ${position}${boldOn} <${toUtf16Hex(segment.glyphs.map((glyph) => glyph.char).join(''))}> Tj${boldOff}`,
+          )
+        } else {
+          const key: FontKey = bold ? 'F2' : 'F1'
+          this.usedFonts.add(key)
+          ops.push(`/${key} ${toPdfNumber(style.size)} Tf ${position} (${escapeLatin(segment.glyphs)}) Tj`)
+        }
+        cursor += segment.glyphs.reduce((sum, glyph) => sum + (glyphWidth(glyph, bold) * style.size) / 1000, 0)
+      }
+    }
+
+    ops.push('ET')
+    this.current.push(ops.join('\n'))
+  }
+
+  line(
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number,
+    options: { color?: [number, number, number]; width?: number } = {},
+  ) {
+    const [r, g, b] = options.color || [0.9, 0.91, 0.92]
+    this.current.push(
+      `${toPdfNumber(r)} ${toPdfNumber(g)} ${toPdfNumber(b)} RG ${toPdfNumber(options.width ?? 0.5)} w ${toPdfNumber(x1)} ${toPdfNumber(y1)} m ${toPdfNumber(x2)} ${toPdfNumber(y2)} l S`,
+    )
+  }
+
+  toBuffer(info: { title?: string; author?: string } = {}): Buffer {
+    if (this.pages.length === 0) this.addPage()
+
+    const objects: (string | Buffer)[] = []
+    const reserve = () => objects.push('') // 번호만 먼저 잡음 (1부터)
+    const set = (id: number, value: string | Buffer) => (objects[id - 1] = value)
+
+    reserve() // 1: catalog
+    reserve() // 2: pages
+    const catalogId = 1
+    const pagesId = 2
+
+    // 글꼴
+    const fontRefs: string[] = []
+    for (const key of ['F1', 'F2'] as FontKey[]) {
+      if (!this.usedFonts.has(key)) continue
+      reserve()
+      const id = objects.length
+      set(
+        id,
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${key === 'F1' ? 'Helvetica' : 'Helvetica-Bold'} /Encoding /WinAnsiEncoding >>`,
+      )
+      fontRefs.push(`/${key} ${id} 0 R`)
+    }
+    for (const font of Object.values(CJK_FONTS)) {
+      if (!this.usedFonts.has(font.key)) continue
+      reserve()
+      const descriptorId = objects.length
+      set(
+        descriptorId,
+        `<< /Type /FontDescriptor /FontName /${font.baseFont} /Flags 6 /FontBBox [-100 -150 1100 900] /ItalicAngle 0 /Ascent 880 /Descent -120 /CapHeight 700 /StemV 80 >>`,
+      )
+      reserve()
+      const cidFontId = objects.length
+      set(
+        cidFontId,
+        `<< /Type /Font /Subtype /CIDFontType0 /BaseFont /${font.baseFont} /CIDSystemInfo << /Registry (Adobe) /Ordering (${font.ordering}) /Supplement ${font.supplement} >> /FontDescriptor ${descriptorId} 0 R /DW 1000 >>`,
+      )
+      reserve()
+      const id = objects.length
+      set(
+        id,
+        `<< /Type /Font /Subtype /Type0 /BaseFont /${font.baseFont}-${font.encoding} /Encoding /${font.encoding} /DescendantFonts [${cidFontId} 0 R] >>`,
+      )
+      fontRefs.push(`/${font.key} ${id} 0 R`)
+    }
+
+    // 페이지
+    const pageIds: number[] = []
+    for (const content of this.pages) {
+      const data = zlib.deflateSync(Buffer.from(content.join('\n'), 'latin1'))
+      reserve()
+      const contentId = objects.length
+      set(
+        contentId,
+        Buffer.concat([
+          Buffer.from(`<< /Length ${data.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+          data,
+          Buffer.from('\nendstream', 'latin1'),
+        ]),
+      )
+      reserve()
+      const pageId = objects.length
+      set(
+        pageId,
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PDF_A4.width} ${PDF_A4.height}] /Resources << /Font << ${fontRefs.join(' ')} >> >> /Contents ${contentId} 0 R >>`,
+      )
+      pageIds.push(pageId)
+    }
+
+    set(catalogId, `<< /Type /Catalog /Pages ${pagesId} 0 R >>`)
+    set(pagesId, `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`)
+
+    const now = new Date().toISOString().replace(/[-:T]/g, '').substring(0, 14)
+    reserve()
+    const infoId = objects.length
+    set(
+      infoId,
+      `<< ${info.title ? `/Title ${toInfoString(info.title)} ` : ''}${info.author ? `/Author ${toInfoString(info.author)} ` : ''}/CreationDate (D:${now}Z) >>`,
+    )
+
+    // 본문 + xref
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')]
+    const offsets: number[] = []
+    let length = chunks[0].length
+    objects.forEach((object, index) => {
+      offsets.push(length)
+      const body = typeof object === 'string' ? Buffer.from(object, 'latin1') : object
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+        body,
+        Buffer.from('\nendobj\n', 'latin1'),
+      ])
+      chunks.push(chunk)
+      length += chunk.length
+    })
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map((offset) => `${offset.toString().padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+      'startxref',
+      `${length}`,
+      '%%EOF',
+    ].join('\n')
+    chunks.push(Buffer.from(`${xref}\n`, 'latin1'))
+
+    return Buffer.concat(chunks)
+  }
+}
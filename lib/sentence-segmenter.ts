@@ -0,0 +1,190 @@
+// 🆕 Web Speech final 결과 문장 단위 재분할 (서버, 세션 / 발표자별 상태)
+// Web Speech 는 반 문장이나 여러 문장이 붙은 결과를 final 로 주기 때문에
+// 조각을 버퍼에 모았다가 문장 부호로 끝난 문장만 내보낸다. transcript 한 줄 = 한 문장.
+// - 문장 부호가 없는 언어 / 엔진: 말이 멈추면(flush 또는 PAUSE_FLUSH_MS 이상 간격) 버퍼를 한 문장으로 내보냄
+// - 너무 긴 문장(run-on)은 MAX_SENTENCE_LENGTH 근처의 쉼표 / 공백에서 자름
+// - 중복 검사는 텍스트가 아니라 클라이언트 sequence / idempotency key 로 (같은 말을 다시 해도 저장)
+// - 순서가 바뀌어 도착한 조각은 앞 번호가 올 때까지 pending 에 보관 (MAX_PENDING_FRAGMENTS 초과 시 건너뜀)
+// - 문장 시각은 첫 조각의 발화 시각 (클라이언트 capturedAt) → 오프라인 후 늦게 도착해도 타임라인 유지
+// 상태는 직렬화 가능한 plain object 라 DB(stt_stream_states)에 보관한다.
+
+export interface SegmenterFragment {
+  sequence: number
+  key: string
+  text: string
+  capturedAt: number // 발화 시각 (ms, 클라이언트 캡처 시각 - 없으면 서버 수신 시각)
+}
+
+export interface SegmentedSentence {
+  text: string
+  startedAt: number // 문장 첫 조각의 발화 시각 (ms)
+}
+
+export interface SegmenterState {
+  buffer: string // 아직 문장이 끝나지 않은 텍스트
+  bufferStartedAt: number | null // 버퍼 첫 조각의 발화 시각
+  lastSequence: number // 순서대로 반영한 마지막 sequence
+  pending: SegmenterFragment[] // 앞 번호를 기다리는 조각
+  recent: { key: string; sequence: number; sentences: SegmentedSentence[] }[] // 최근 조각 키 → 그 조각이 끝낸 문장 (재시도 재생용)
+  lastFragmentAt: number | null // 마지막으로 반영한 조각의 발화 시각 (ms)
+}
+
+export interface SegmentResult {
+  state: SegmenterState
+  sentences: SegmentedSentence[] // 완성된 문장 (순서대로 저장)
+  duplicate: boolean // 이미 받은 조각 (sentences 는 그때 끝낸 문장 - 저장이 실패했을 수 있으므로 다시 저장)
+}
+
+export const PAUSE_FLUSH_MS = 4000
+export const MAX_SENTENCE_LENGTH = 250
+const MAX_PENDING_FRAGMENTS = 5
+const RECENT_FRAGMENT_LIMIT = 50
+
+// 문장 끝 (라틴 계열은 뒤가 공백 / 끝이어야 문장 끝으로 봄 - "3.5", "node.js" 보호)
+const SENTENCE_END = /([.!?…]+["'”’)\]]*)(?=\s|$)|([。！？]+["'”’」』)\]]*)/g
+const ABBREVIATIONS = new Set(['mr', 'mrs', 'ms', 'dr', 'prof', 'st', 'vs', 'etc', 'e.g', 'i.e', 'no', 'jr', 'sr'])
+// 띄어쓰기 없이 이어 붙이는 문자 (한자 / 가나)
+const NO_SPACE_SCRIPT = /[぀-ヿ一-鿿㐀-䶿]/
+
+export function createSegmenterState(): SegmenterState {
+  return { buffer: '', bufferStartedAt: null, lastSequence: 0, pending: [], recent: [], lastFragmentAt: null }
+}
+
+// DB 값 정리 (빈 값 / 누락된 필드 보정)
+export function normalizeSegmenterState(value: unknown): SegmenterState {
+  const state = (value && typeof value === 'object' ? value : {}) as Partial<SegmenterState>
+  return {
+    ...createSegmenterState(),
+    ...state,
+    pending: Array.isArray(state.pending) ? state.pending : [],
+    recent: Array.isArray(state.recent) ? state.recent : [],
+  }
+}
+
+function joinFragments(buffer: string, fragment: string): string {
+  if (!buffer) return fragment
+  const needsSpace = !(NO_SPACE_SCRIPT.test(buffer.slice(-1)) && NO_SPACE_SCRIPT.test(fragment[0]))
+  return needsSpace ? `${buffer} ${fragment}` : `${buffer}${fragment}`
+}
+
+function isAbbreviation(text: string, endIndex: number): boolean {
+  const word = text.slice(0, endIndex).split(/\s+/).pop()?.toLowerCase()
+  return !!word && ABBREVIATIONS.has(word)
+}
+
+// 버퍼에서 완성된 문장 분리 → [문장들, 남은 텍스트]
+export function splitSentences(text: string): [string[], string] {
+  const sentences: string[] = []
+  let start = 0
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length
+    if (match[0] === '.' && isAbbreviation(text, match.index!)) continue
+
+    const sentence = text.slice(start, end).trim()
+    if (sentence) sentences.push(sentence)
+    start = end
+  }
+
+  let rest = text.slice(start).trim()
+
+  // run-on 문장: 제한 길이 안쪽의 마지막 쉼표, 없으면 마지막 공백에서 자름
+  while (rest.length > MAX_SENTENCE_LENGTH) {
+    const head = rest.slice(0, MAX_SENTENCE_LENGTH)
+    const comma = Math.max(head.lastIndexOf(', '), head.lastIndexOf('，'), head.lastIndexOf('、'))
+    const space = head.lastIndexOf(' ')
+    const cut = comma > MAX_SENTENCE_LENGTH / 2 ? comma + 1 : space > 0 ? space : MAX_SENTENCE_LENGTH
+    sentences.push(rest.slice(0, cut).trim())
+    rest = rest.slice(cut).trim()
+  }
+
+  return [sentences, rest]
+}
+
+// 버퍼를 한 문장으로 내보냄
+function takeBuffer(state: SegmenterState, sentences: SegmentedSentence[]) {
+  const text = state.buffer.trim()
+  if (text) {
+    sentences.push({ text, startedAt: state.bufferStartedAt ?? state.lastFragmentAt ?? Date.now() })
+  }
+  state.buffer = ''
+  state.bufferStartedAt = null
+}
+
+// 조각 하나를 버퍼에 반영 (state 를 직접 수정, 끝난 문장을 sentences 에 추가)
+function applyFragment(state: SegmenterState, fragment: SegmenterFragment, sentences: SegmentedSentence[]) {
+  // 말이 한동안 멈췄으면 이전 버퍼는 끝난 문장으로 본다
+  if (state.buffer && state.lastFragmentAt && fragment.capturedAt - state.lastFragmentAt > PAUSE_FLUSH_MS) {
+    takeBuffer(state, sentences)
+  }
+
+  const startedAt = state.buffer ? (state.bufferStartedAt ?? fragment.capturedAt) : fragment.capturedAt
+  const [complete, rest] = splitSentences(joinFragments(state.buffer, fragment.text.trim()))
+  // 첫 문장은 버퍼 시작 시각, 같은 조각에서 이어진 문장은 조각 시각
+  complete.forEach((text, index) => sentences.push({ text, startedAt: index === 0 ? startedAt : fragment.capturedAt }))
+
+  state.buffer = rest
+  state.bufferStartedAt = rest ? (complete.length > 0 ? fragment.capturedAt : startedAt) : null
+  state.lastSequence = Math.max(state.lastSequence, fragment.sequence)
+  state.lastFragmentAt = fragment.capturedAt
+}
+
+// 차례가 된 pending 조각 반영 (force 면 빈 번호를 건너뛰고 전부)
+function drainPending(state: SegmenterState, sentences: SegmentedSentence[], force = false) {
+  state.pending.sort((a, b) => a.sequence - b.sequence)
+  while (
+    state.pending.length > 0 &&
+    (force || state.pending[0].sequence <= state.lastSequence + 1 || state.pending.length > MAX_PENDING_FRAGMENTS)
+  ) {
+    const fragment = state.pending.shift()!
+    if (fragment.sequence > state.lastSequence + 1) {
+      console.warn(`⚠️ Fragments ${state.lastSequence + 1}-${fragment.sequence - 1} never arrived, skipping ahead`)
+    }
+    applyFragment(state, fragment, sentences)
+  }
+}
+
+// final 조각 추가 (sequence 가 없으면 마지막 번호 다음, key 가 없으면 sequence 를 키로 사용)
+export function segmentFragment(
+  state: SegmenterState,
+  text: string,
+  options: { sequence?: number; key?: string; capturedAt?: number } = {},
+): SegmentResult {
+  const { capturedAt = Date.now() } = options
+  const sequence =
+    options.sequence ?? Math.max(state.lastSequence, ...state.pending.map((fragment) => fragment.sequence)) + 1
+  const key = options.key || String(sequence)
+
+  const seen = state.recent.find((entry) => entry.key === key)
+  if (seen || state.pending.some((fragment) => fragment.key === key)) {
+    console.log(`⚠️ Duplicate fragment #${sequence} (${key}) skipped`)
+    return { state, sentences: seen?.sentences || [], duplicate: true }
+  }
+
+  const next: SegmenterState = { ...state, pending: [...state.pending] }
+  const sentences: SegmentedSentence[] = []
+
+  // 번호가 1부터 다시 시작 (새로고침 등) → 기다리던 조각을 먼저 반영하고 번호 초기화
+  if (sequence === 1 && next.lastSequence > 0) {
+    console.log('🔄 Fragment sequence restarted, resetting order tracking')
+    drainPending(next, sentences, true)
+    next.lastSequence = 0
+  }
+
+  next.pending.push({ sequence, key, text, capturedAt })
+  drainPending(next, sentences)
+
+  next.recent = [...state.recent, { key, sequence, sentences }].slice(-RECENT_FRAGMENT_LIMIT)
+  return { state: next, sentences, duplicate: false }
+}
+
+// 남은 조각 / 버퍼를 문장으로 내보냄 (발표자가 말을 멈췄을 때 / 세션 종료)
+export function flushSegmenter(state: SegmenterState): SegmentResult {
+  const next: SegmenterState = { ...state, pending: [...state.pending] }
+  const sentences: SegmentedSentence[] = []
+
+  drainPending(next, sentences, true)
+  takeBuffer(next, sentences)
+
+  return { state: next, sentences, duplicate: false }
+}
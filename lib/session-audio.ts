@@ -0,0 +1,211 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { SessionRecording } from './types'
+
+// 🆕 세션 녹음 저장소 (서버, Storage 'session-audio' 버킷)
+// 호스트가 세션 종료 후 녹음을 part 단위로 올리면 <session>/parts/<번호> 에 저장하고,
+// complete 요청에서 순서대로 이어 붙여 <session>/recording.<ext> 한 파일로 만든다.
+// 이미 올라간 part 는 Storage 목록으로 확인 → 중간에 끊겨도 빠진 part 만 다시 올리면 됨.
+
+export const SESSION_AUDIO_BUCKET = 'session-audio'
+export const MAX_AUDIO_PART_BYTES = 8 * 1024 * 1024
+export const MAX_AUDIO_PARTS = 500
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+  'audio/mpeg': 'mp3',
+}
+
+// 'audio/webm;codecs=opus' → 'audio/webm' (지원하지 않는 형식이면 null)
+export function normalizeAudioMimeType(mimeType: unknown): string | null {
+  if (typeof mimeType !== 'string') return null
+  const base = mimeType.split(';')[0].trim().toLowerCase()
+  return AUDIO_EXTENSIONS[base] ? base : null
+}
+
+function getPartPath(sessionId: string, part: number) {
+  return `${sessionId}/parts/${String(part).padStart(4, '0')}`
+}
+
+export function getRecordingPath(sessionId: string, mimeType: string) {
+  return `${sessionId}/recording.${AUDIO_EXTENSIONS[mimeType] || 'webm'}`
+}
+
+export async function uploadAudioPart(supabase: SupabaseClient, sessionId: string, part: number, data: ArrayBuffer) {
+  const { error } = await supabase.storage
+    .from(SESSION_AUDIO_BUCKET)
+    .upload(getPartPath(sessionId, part), data, { contentType: 'application/octet-stream', upsert: true })
+
+  if (error) {
+    console.error(`❌ Audio part ${part} upload error for session ${sessionId}:`, error)
+    throw new Error('Failed to store audio part')
+  }
+}
+
+// 이미 올라간 part 번호 (재개용)
+export async function listAudioParts(supabase: SupabaseClient, sessionId: string): Promise<number[]> {
+  const { data, error } = await supabase.storage
+    .from(SESSION_AUDIO_BUCKET)
+    .list(`${sessionId}/parts`, { limit: MAX_AUDIO_PARTS + 1 })
+
+  if (error) {
+    console.error(`❌ Audio part list error for session ${sessionId}:`, error)
+    throw new Error('Failed to list audio parts')
+  }
+
+  return (data || [])
+    .map((file) => Number.parseInt(file.name, 10))
+    .filter((part) => Number.isInteger(part))
+    .sort((a, b) => a - b)
+}
+
+export async function loadSessionRecording(
+  supabase: SupabaseClient,
+  sessionId: string,
+): Promise<SessionRecording | null> {
+  const { data, error } = await supabase
+    .from('session_recordings')
+    .select('*')
+    .eq('session_id', sessionId)
+    .maybeSingle()
+
+  if (error) {
+    console.error(`❌ Session recording load error for ${sessionId}:`, error)
+    return null
+  }
+  return data
+}
+
+export async function getRecordingUrl(supabase: SupabaseClient, recording: SessionRecording): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from(SESSION_AUDIO_BUCKET)
+    .createSignedUrl(recording.storage_path, SIGNED_URL_TTL_SECONDS)
+
+  if (error) {
+    console.error(`❌ Signed audio URL error for session ${recording.session_id}:`, error)
+    return null
+  }
+  return data.signedUrl
+}
+
+// 줄별 녹음 위치 저장 (이미 위치가 있는 줄은 그대로, overwrite 면 전부 다시 계산)
+export async function applyTranscriptAudioOffsets(
+  supabase: SupabaseClient,
+  recording: Pick<SessionRecording, 'session_id' | 'started_at' | 'duration_ms'>,
+  overwrite = false,
+): Promise<number> {
+  const { data, error } = await supabase.rpc('set_transcript_audio_offsets', {
+    p_session_id: recording.session_id,
+    p_started_at: recording.started_at,
+    p_duration_ms: recording.duration_ms,
+    p_overwrite: overwrite,
+  })
+
+  if (error) {
+    console.error(`❌ Transcript audio offset update error for ${recording.session_id}:`, error)
+    return 0
+  }
+  return data || 0
+}
+
+// part 들을 순서대로 이어 붙여 녹음 파일 하나로 저장 + 줄 위치 계산 + part 삭제
+// MediaRecorder 조각은 첫 조각에만 헤더가 있으므로 그대로 이어 붙이면 재생 가능한 파일이 된다.
+export async function completeSessionRecording(
+  supabase: SupabaseClient,
+  sessionId: string,
+  options: { partCount: number; mimeType: string; startedAt: string; durationMs: number },
+): Promise<{ recording: SessionRecording; offsetsUpdated: number }> {
+  const { partCount, mimeType, startedAt, durationMs } = options
+
+  const received = new Set(await listAudioParts(supabase, sessionId))
+  const missing = Array.from({ length: partCount }, (_, part) => part).filter((part) => !received.has(part))
+  if (missing.length > 0) {
+    throw new Error(`Missing audio parts: ${missing.slice(0, 10).join(', ')}`)
+  }
+
+  const buffers: Uint8Array[] = []
+  for (let part = 0; part < partCount; part++) {
+    const { data, error } = await supabase.storage.from(SESSION_AUDIO_BUCKET).download(getPartPath(sessionId, part))
+    if (error || !data) {
+      console.error(`❌ Audio part ${part} download error for session ${sessionId}:`, error)
+      throw new Error('Failed to read audio part')
+    }
+    buffers.push(new Uint8Array(await data.arrayBuffer()))
+  }
+
+  const sizeBytes = buffers.reduce((total, buffer) => total + buffer.byteLength, 0)
+  const audio = new Uint8Array(sizeBytes)
+  let position = 0
+  for (const buffer of buffers) {
+    audio.set(buffer, position)
+    position += buffer.byteLength
+  }
+
+  const storagePath = getRecordingPath(sessionId, mimeType)
+  const { error: uploadError } = await supabase.storage
+    .from(SESSION_AUDIO_BUCKET)
+    .upload(storagePath, audio, { contentType: mimeType, upsert: true })
+
+  if (uploadError) {
+    console.error(`❌ Recording upload error for session ${sessionId}:`, uploadError)
+    throw new Error('Failed to store recording')
+  }
+
+  const { data: recording, error: saveError } = await supabase
+    .from('session_recordings')
+    .upsert(
+      {
+        session_id: sessionId,
+        storage_path: storagePath,
+        mime_type: mimeType,
+        started_at: startedAt,
+        duration_ms: durationMs,
+        size_bytes: sizeBytes,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'session_id' },
+    )
+    .select()
+    .single()
+
+  if (saveError || !recording) {
+    console.error(`❌ Session recording save error for ${sessionId}:`, saveError)
+    throw new Error('Failed to save recording')
+  }
+
+  // 다시 올린 녹음이면 시작 시각이 바뀌었을 수 있으므로 전부 다시 계산
+  const offsetsUpdated = await applyTranscriptAudioOffsets(supabase, recording, true)
+
+  const { error: removeError } = await supabase.storage
+    .from(SESSION_AUDIO_BUCKET)
+    .remove(Array.from({ length: partCount }, (_, part) => getPartPath(sessionId, part)))
+  if (removeError) {
+    console.warn(`⚠️ Could not remove audio parts for session ${sessionId}:`, removeError.message)
+  }
+
+  console.log(
+    `🎙️ Session ${sessionId} recording saved (${partCount} parts, ${(sizeBytes / 1024 / 1024).toFixed(1)}MB, ${offsetsUpdated} lines linked)`,
+  )
+  return { recording, offsetsUpdated }
+}
+
+// 줄의 녹음 위치 (ms) - 녹음 업로드 뒤에 도착한 줄은 audio_offset_ms 가 없으므로 created_at 으로 계산
+// created_at 은 엔진과 상관없이 말하기 시작한 시각이므로 앞당기지 않음 (lib/subtitle-export.ts 참고)
+export function getLineAudioOffset(
+  line: { created_at: string; audio_offset_ms?: number | null },
+  recording: { startedAt: string; durationMs: number },
+): number {
+  if (typeof line.audio_offset_ms === 'number') return line.audio_offset_ms
+  const offset = new Date(line.created_at).getTime() - new Date(recording.startedAt).getTime()
+  return Math.max(0, Math.min(recording.durationMs, offset))
+}
+
+export function formatAudioOffset(offsetMs: number): string {
+  const totalSeconds = Math.floor(offsetMs / 1000)
+  const hours = Math.floor(totalSeconds / 3600)
+  const minutes = Math.floor((totalSeconds % 3600) / 60)
+  const seconds = String(totalSeconds % 60).padStart(2, '0')
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`
+}
@@ -0,0 +1,163 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { Session, SessionChapter, SummaryDocument, Transcript } from './types'
+import { getTranscriptSpeakerName, hasMultipleSpeakers, loadSpeakerDirectory } from './speakers'
+import { toSummaryDocument } from './summary-document'
+import { toSessionChapters } from './chapters'
+import { loadSessionTranscriptRows } from './transcript-rows'
+
+// 🆕 세션 내보내기(자막 / 문서)에 필요한 데이터를 한 번에 조회하는 서버 모듈
+
+export type ExportTranscript = Pick<
+  Transcript,
+  'id' | 'original_text' | 'reviewed_text' | 'created_at' | 'speaker_id' | 'speaker_label'
+> & {
+  translation_cache_ids?: Record<string, string> | null
+}
+
+export interface SessionExportData {
+  session: Session
+  transcripts: ExportTranscript[]
+  translations: Record<string, string> // transcriptId → 요청 언어 번역
+  speakers: Record<string, string> // 🆕 transcriptId → 화자 이름 (둘 이상이 말한 세션만, 아니면 빈 객체)
+  summary: string | null
+  summaryDocument: SummaryDocument | null // 🆕 구조화된 요약 (있으면 summary HTML 대신 사용)
+  summaryLanguage: string // 실제로 사용된 요약 언어 (번역 요약이 없으면 'en')
+  chapters: SessionChapter[] // 🆕 챕터 (없으면 빈 배열)
+  language?: string // 🆕 요청 언어 (챕터 제목 번역)
+}
+
+export interface SessionExportOptions {
+  language?: string // 번역 / 요약 언어
+  includeSummary?: boolean
+  supabase?: SupabaseClient
+}
+
+const TRANSLATION_LOOKUP_BATCH = 200 // .in('id', ...) 한 번에 넣는 캐시 id 수 (긴 세션에서 요청 URL 이 너무 길어지지 않도록)
+
+// transcript 의 translation_cache_ids 로 요청 언어 번역을 조회 (200개씩 나눠서)
+// 조회에 실패하면 번역 없는 파일을 200 으로 내보내지 않도록 에러를 던진다
+export async function loadTranscriptTranslations(
+  supabase: SupabaseClient,
+  transcripts: ExportTranscript[],
+  language: string,
+): Promise<Record<string, string>> {
+  // 같은 문장이 나온 줄들은 캐시 행 하나를 같이 씀
+  const cacheIdToTranscripts = new Map<string, string[]>()
+  transcripts.forEach((t) => {
+    const cacheId = t.translation_cache_ids?.[language]
+    if (cacheId) cacheIdToTranscripts.set(cacheId, [...(cacheIdToTranscripts.get(cacheId) || []), t.id])
+  })
+
+  const translations: Record<string, string> = {}
+  const cacheIds = Array.from(cacheIdToTranscripts.keys())
+
+  for (let i = 0; i < cacheIds.length; i += TRANSLATION_LOOKUP_BATCH) {
+    const { data: caches, error } = await supabase
+      .from('translation_cache')
+      .select('id, translated_text')
+      .in('id', cacheIds.slice(i, i + TRANSLATION_LOOKUP_BATCH))
+
+    if (error) {
+      console.error('Error fetching translations for export:', error)
+      throw new Error('Failed to fetch translations')
+    }
+
+    caches?.forEach((cache) => {
+      for (const transcriptId of cacheIdToTranscripts.get(cache.id) || []) {
+        translations[transcriptId] = cache.translated_text
+      }
+    })
+  }
+
+  return translations
+}
+
+// 세션이 없으면 null
+export async function loadSessionExportData(
+  sessionId: string,
+  options: SessionExportOptions = {},
+): Promise<SessionExportData | null> {
+  const {
+    language,
+    includeSummary = false,
+    supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!),
+  } = options
+
+  const { data: session, error: sessionError } = await supabase
+    .from('sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .single()
+
+  if (sessionError || !session) {
+    return null
+  }
+
+  // 🆕 1000 줄이 넘는 세션도 끝까지 내보내도록 페이지 단위로
+  const { data: transcripts, error: transcriptError } = await loadSessionTranscriptRows<ExportTranscript>(
+    supabase,
+    sessionId,
+    'id, original_text, reviewed_text, translation_cache_ids, created_at, speaker_id, speaker_label',
+  )
+
+  if (transcriptError) {
+    console.error('Error fetching transcripts for export:', transcriptError)
+    throw new Error('Failed to fetch transcripts')
+  }
+
+  const rows = transcripts || []
+  const translations = language ? await loadTranscriptTranslations(supabase, rows, language) : {}
+
+  const speakers: Record<string, string> = {}
+  if (hasMultipleSpeakers(rows)) {
+    const directory = await loadSpeakerDirectory(supabase, sessionId)
+    rows.forEach((row) => (speakers[row.id] = getTranscriptSpeakerName(row, directory)))
+  }
+
+  // 요약: 요청 언어 번역(session_summary_cache)이 있으면 사용, 없으면 영어 원본
+  let summary: string | null = includeSummary ? session.summary || null : null
+  let summaryDocument = includeSummary ? toSummaryDocument(session.summary_doc) : null
+  let summaryLanguage = 'en'
+
+  if (includeSummary && language && language !== 'en') {
+    const { data: cached } = await supabase
+      .from('session_summary_cache')
+      .select('summary_text, summary_doc')
+      .eq('session_id', sessionId)
+      .eq('language_code', language)
+      .eq('kind', 'final')
+      .maybeSingle()
+
+    if (cached?.summary_text) {
+      summary = cached.summary_text
+      summaryDocument = toSummaryDocument(cached.summary_doc)
+      summaryLanguage = language
+    }
+  }
+
+  return {
+    session,
+    transcripts: rows,
+    translations,
+    speakers,
+    summary,
+    summaryDocument,
+    summaryLanguage,
+    chapters: toSessionChapters(session.chapters),
+    language,
+  }
+}
+
+// 다운로드 파일명 헤더 (비 ASCII 제목은 filename* 로 전달)
+export function getAttachmentDisposition(
+  title: string | undefined,
+  extension: string,
+  language?: string,
+  disposition: 'attachment' | 'inline' = 'attachment',
+): string {
+  const baseName = (title || 'session').replace(/[\\/:*?"<>|]+/g, '').trim() || 'session'
+  const fileName = `${baseName}${language ? `.${language}` : ''}.${extension}`
+  const asciiFileName = fileName.replace(/[^\x20-\x7e]/g, '_')
+
+  return `${disposition}; filename="${asciiFileName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+}
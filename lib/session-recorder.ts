@@ -0,0 +1,300 @@
+// 🆕 호스트 세션 녹음 (브라우저 MediaRecorder + IndexedDB)
+// 녹음 조각(RECORDER_TIMESLICE_MS 마다)을 바로 IndexedDB 에 저장하고, 세션이 끝나면 part 단위로 업로드한다.
+// part 번호는 조각 번호로 정해지므로 업로드가 끊겨도 서버에 없는 part 만 다시 올리면 된다 (새로고침 후에도).
+// 업로드가 끝나면 서버가 part 를 한 파일로 합치고 줄별 녹음 위치를 저장 → 로컬 데이터 삭제.
+// IndexedDB 를 쓸 수 없으면 메모리에만 보관한다 (같은 페이지에서만 업로드 가능).
+
+const DB_NAME = 'onvoice-session-audio'
+const RECORDINGS_STORE = 'recordings'
+const CHUNKS_STORE = 'chunks'
+const RECORDER_TIMESLICE_MS = 10000
+const CHUNKS_PER_PART = 12 // part 하나 = 약 2분
+const AUDIO_BITS_PER_SECOND = 32000 // 음성용 (2시간 ≈ 30MB)
+const PART_UPLOAD_ATTEMPTS = 3
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4']
+
+export interface StoredRecording {
+  sessionId: string
+  mimeType: string
+  startedAt: number // 녹음 시작 시각 (ms)
+  lastChunkAt: number // 마지막 조각 저장 시각 (녹음 중 페이지가 닫힌 경우 길이 계산용)
+  stoppedAt: number | null
+  chunkCount: number
+}
+
+interface StoredChunk {
+  sessionId: string
+  index: number
+  data: Blob
+}
+
+export interface RecordingUploadProgress {
+  uploadedParts: number
+  totalParts: number
+}
+
+export interface RecordingUploadResult {
+  durationMs: number
+  sizeBytes: number
+  linkedLines: number
+}
+
+const memoryRecordings = new Map<string, StoredRecording>()
+const memoryChunks = new Map<string, Blob[]>()
+let databasePromise: Promise<IDBDatabase | null> | null = null
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function getDatabase(): Promise<IDBDatabase | null> {
+  if (databasePromise) return databasePromise
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+
+  databasePromise = new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(RECORDINGS_STORE, { keyPath: 'sessionId' })
+      request.result.createObjectStore(CHUNKS_STORE, { keyPath: ['sessionId', 'index'] })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      console.warn('⚠️ IndexedDB unavailable, keeping session audio in memory:', request.error)
+      resolve(null)
+    }
+  })
+  return databasePromise
+}
+
+async function saveRecording(recording: StoredRecording) {
+  const database = await getDatabase()
+  if (!database) {
+    memoryRecordings.set(recording.sessionId, recording)
+    return
+  }
+  await requestToPromise(
+    database.transaction(RECORDINGS_STORE, 'readwrite').objectStore(RECORDINGS_STORE).put(recording),
+  )
+}
+
+async function saveChunk(chunk: StoredChunk) {
+  const database = await getDatabase()
+  if (!database) {
+    const chunks = memoryChunks.get(chunk.sessionId) || []
+    chunks[chunk.index] = chunk.data
+    memoryChunks.set(chunk.sessionId, chunks)
+    return
+  }
+  await requestToPromise(database.transaction(CHUNKS_STORE, 'readwrite').objectStore(CHUNKS_STORE).put(chunk))
+}
+
+async function loadRecording(sessionId: string): Promise<StoredRecording | undefined> {
+  const database = await getDatabase()
+  if (!database) return memoryRecordings.get(sessionId)
+  return requestToPromise(
+    database.transaction(RECORDINGS_STORE, 'readonly').objectStore(RECORDINGS_STORE).get(sessionId) as IDBRequest<
+      StoredRecording | undefined
+    >,
+  )
+}
+
+async function loadChunks(sessionId: string, from: number, to: number): Promise<Blob[]> {
+  const database = await getDatabase()
+  if (!database) return (memoryChunks.get(sessionId) || []).slice(from, to).filter(Boolean)
+
+  const range = IDBKeyRange.bound([sessionId, from], [sessionId, to - 1])
+  const chunks = await requestToPromise(
+    database.transaction(CHUNKS_STORE, 'readonly').objectStore(CHUNKS_STORE).getAll(range) as IDBRequest<StoredChunk[]>,
+  )
+  return chunks.map((chunk) => chunk.data)
+}
+
+// 업로드가 끝났거나 호스트가 버린 녹음 삭제
+export async function discardSessionRecording(sessionId: string) {
+  const database = await getDatabase()
+  if (!database) {
+    memoryRecordings.delete(sessionId)
+    memoryChunks.delete(sessionId)
+    return
+  }
+
+  const transaction = database.transaction([RECORDINGS_STORE, CHUNKS_STORE], 'readwrite')
+  transaction.objectStore(RECORDINGS_STORE).delete(sessionId)
+  transaction.objectStore(CHUNKS_STORE).delete(IDBKeyRange.bound([sessionId, 0], [sessionId, Infinity]))
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+// 아직 업로드하지 못한 녹음 (이전 페이지 / 실패한 업로드 포함)
+export async function listPendingRecordings(): Promise<StoredRecording[]> {
+  const database = await getDatabase()
+  if (!database) return Array.from(memoryRecordings.values())
+  return requestToPromise(
+    database.transaction(RECORDINGS_STORE, 'readonly').objectStore(RECORDINGS_STORE).getAll() as IDBRequest<
+      StoredRecording[]
+    >,
+  )
+}
+
+export function isSessionRecordingSupported(): boolean {
+  return typeof window !== 'undefined' && typeof MediaRecorder !== 'undefined' && !!navigator.mediaDevices
+}
+
+function pickMimeType(): string {
+  return PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) || ''
+}
+
+export class SessionRecorder {
+  private recorder: MediaRecorder | null = null
+  private stream: MediaStream | null = null
+  private recording: StoredRecording | null = null
+  private writes: Promise<void> = Promise.resolve()
+
+  get active() {
+    return !!this.recorder && this.recorder.state !== 'inactive'
+  }
+
+  async start(sessionId: string) {
+    if (this.active) return
+
+    this.stream = await navigator.mediaDevices.getUserMedia({
+      audio: { echoCancellation: true, noiseSuppression: true },
+    })
+    const recorder = new MediaRecorder(this.stream, {
+      mimeType: pickMimeType() || undefined,
+      audioBitsPerSecond: AUDIO_BITS_PER_SECOND,
+    })
+
+    recorder.ondataavailable = (event) => {
+      const recording = this.recording
+      if (!recording || event.data.size === 0) return
+
+      const index = recording.chunkCount++
+      recording.lastChunkAt = Date.now()
+      this.writes = this.writes
+        .then(() => saveChunk({ sessionId: recording.sessionId, index, data: event.data }))
+        .then(() => saveRecording({ ...recording }))
+        .catch((error) => console.error(`❌ Failed to store audio chunk ${index}:`, error))
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      recorder.onstart = () => {
+        // 녹음 시작 시각 = 줄별 녹음 위치의 기준
+        const now = Date.now()
+        this.recording = {
+          sessionId,
+          mimeType: recorder.mimeType || 'audio/webm',
+          startedAt: now,
+          lastChunkAt: now,
+          stoppedAt: null,
+          chunkCount: 0,
+        }
+        resolve()
+      }
+      recorder.onerror = (event) => reject(event)
+      recorder.start(RECORDER_TIMESLICE_MS)
+    })
+
+    this.recorder = recorder
+    await saveRecording({ ...this.recording! })
+    console.log(`🎙️ Session audio recording started (${recorder.mimeType})`)
+  }
+
+  // 녹음 종료 → 마지막 조각까지 저장된 녹음 정보 (업로드는 uploadSessionRecording)
+  async stop(): Promise<StoredRecording | null> {
+    const recorder = this.recorder
+    const recording = this.recording
+    if (!recorder || !recording) return null
+
+    if (recorder.state !== 'inactive') {
+      await new Promise<void>((resolve) => {
+        recorder.onstop = () => resolve()
+        recorder.stop()
+      })
+    }
+    this.stream?.getTracks().forEach((track) => track.stop())
+
+    recording.stoppedAt = Date.now()
+    await this.writes
+    await saveRecording({ ...recording })
+
+    this.recorder = null
+    this.stream = null
+    this.recording = null
+    console.log(`🎙️ Session audio recording stopped (${recording.chunkCount} chunks)`)
+    return recording
+  }
+}
+
+// 5xx / 네트워크 오류는 재시도, 4xx 는 바로 실패
+async function uploadPart(sessionId: string, part: number, data: Blob) {
+  for (let attempt = 1; ; attempt++) {
+    let response: Response | null = null
+    try {
+      response = await fetch(`/api/session/${sessionId}/audio/parts/${part}`, { method: 'PUT', body: data })
+    } catch (error) {
+      console.warn(`⚠️ Audio part ${part} network error, attempt ${attempt}:`, error)
+    }
+
+    if (response?.ok) return
+    if (response && response.status < 500) {
+      const { error } = await response.json().catch(() => ({}))
+      throw new Error(error || `Audio part ${part} rejected (${response.status})`)
+    }
+    if (attempt >= PART_UPLOAD_ATTEMPTS) {
+      throw new Error(`Audio part ${part} upload failed`)
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1000 * attempt))
+  }
+}
+
+// 저장된 녹음 업로드 (서버에 이미 있는 part 는 건너뜀) → 성공하면 로컬 녹음 삭제
+// 실패하면 Error (로컬 녹음은 남아 있으므로 다시 호출하면 이어서 올림)
+export async function uploadSessionRecording(
+  sessionId: string,
+  onProgress?: (progress: RecordingUploadProgress) => void,
+): Promise<RecordingUploadResult> {
+  const recording = await loadRecording(sessionId)
+  if (!recording || recording.chunkCount === 0) {
+    throw new Error('No recorded audio for this session')
+  }
+
+  const totalParts = Math.ceil(recording.chunkCount / CHUNKS_PER_PART)
+  const partsResponse = await fetch(`/api/session/${sessionId}/audio/parts`)
+  const partsData = await partsResponse.json()
+  if (!partsResponse.ok) throw new Error(partsData.error || 'Failed to check uploaded audio')
+
+  const uploaded = new Set<number>(partsData.parts || [])
+  onProgress?.({ uploadedParts: uploaded.size, totalParts })
+
+  for (let part = 0; part < totalParts; part++) {
+    if (uploaded.has(part)) continue
+
+    const chunks = await loadChunks(sessionId, part * CHUNKS_PER_PART, (part + 1) * CHUNKS_PER_PART)
+    await uploadPart(sessionId, part, new Blob(chunks, { type: recording.mimeType }))
+    uploaded.add(part)
+    onProgress?.({ uploadedParts: uploaded.size, totalParts })
+  }
+
+  const response = await fetch(`/api/session/${sessionId}/audio`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      partCount: totalParts,
+      mimeType: recording.mimeType,
+      startedAt: recording.startedAt,
+      durationMs: Math.max(0, (recording.stoppedAt ?? recording.lastChunkAt) - recording.startedAt),
+    }),
+  })
+  const data = await response.json()
+  if (!response.ok) throw new Error(data.error || 'Failed to save session recording')
+
+  await discardSessionRecording(sessionId)
+  console.log(`✅ Session ${sessionId} audio uploaded (${totalParts} parts, ${data.linkedLines} lines linked)`)
+  return { durationMs: data.durationMs, sizeBytes: data.sizeBytes, linkedLines: data.linkedLines }
+}
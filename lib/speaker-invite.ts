@@ -0,0 +1,23 @@
+import crypto from 'crypto'
+
+// 🆕 공동 발표자 초대 토큰 (서버 전용)
+// sessions 행은 청중도 읽을 수 있으므로 초대 코드를 DB 에 두지 않고 세션 id 의 HMAC 으로 만든다.
+// SPEAKER_INVITE_SECRET 이 없으면 service role key 로 서명 (키를 바꾸면 기존 초대 링크는 무효)
+
+function getInviteSecret(): string {
+  const secret = process.env.SPEAKER_INVITE_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!secret) {
+    throw new Error('SPEAKER_INVITE_SECRET is not configured')
+  }
+  return secret
+}
+
+export function createSpeakerInviteToken(sessionId: string): string {
+  return crypto.createHmac('sha256', getInviteSecret()).update(`speaker-invite:${sessionId}`).digest('base64url')
+}
+
+export function verifySpeakerInviteToken(sessionId: string, token: string): boolean {
+  const expected = Buffer.from(createSpeakerInviteToken(sessionId))
+  const actual = Buffer.from(token)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
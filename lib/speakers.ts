@@ -0,0 +1,119 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Transcript } from './types'
+
+// 🆕 멀티 화자 세션 유틸 (클라이언트 / 서버 공용)
+// 화자 key:
+// - 'host': speaker_id / speaker_label 이 없는 줄 (기존 세션의 모든 줄)
+// - session_participants.id: 공동 발표자의 RealtimeSTT 가 태깅한 줄
+// - 'label:<speaker_label>': 서버 STT 화자 분리 라벨 ('Speaker 2', 마이크 주인이 아닌 다른 목소리)
+// 호스트가 바꾼 이름은 sessions.speaker_names[key] 에 저장된다.
+
+export const HOST_SPEAKER_KEY = 'host'
+const LABEL_KEY_PREFIX = 'label:'
+
+export interface SpeakerDirectory {
+  hostName: string
+  names: Record<string, string> // sessions.speaker_names (호스트가 바꾼 이름)
+  participants: Record<string, string> // session_participants.id → user_name (role 'speaker')
+}
+
+export interface SessionSpeaker {
+  key: string
+  name: string // 표시 이름 (바꾼 이름 우선)
+  defaultName: string // 바꾸기 전 이름
+}
+
+// DB 행은 값이 없으면 null
+interface SpeakerFields {
+  speaker_id?: Transcript['speaker_id'] | null
+  speaker_label?: Transcript['speaker_label'] | null
+}
+
+export function getSpeakerKey(row: SpeakerFields): string {
+  if (row.speaker_label) return `${LABEL_KEY_PREFIX}${row.speaker_label}`
+  if (row.speaker_id) return row.speaker_id
+  return HOST_SPEAKER_KEY
+}
+
+function getDefaultSpeakerName(key: string, directory: SpeakerDirectory): string {
+  if (key === HOST_SPEAKER_KEY) return directory.hostName
+  if (key.startsWith(LABEL_KEY_PREFIX)) return key.slice(LABEL_KEY_PREFIX.length)
+  return directory.participants[key] || 'Speaker'
+}
+
+export function resolveSpeakerName(key: string, directory: SpeakerDirectory): string {
+  return directory.names[key]?.trim() || getDefaultSpeakerName(key, directory)
+}
+
+// 디렉터리에 없는 공동 발표자 id (세션 중간에 참여) → 다시 불러와야 함
+export function isKnownSpeakerKey(key: string, directory: SpeakerDirectory): boolean {
+  return key === HOST_SPEAKER_KEY || key.startsWith(LABEL_KEY_PREFIX) || key in directory.participants
+}
+
+export function getTranscriptSpeakerName(row: SpeakerFields, directory: SpeakerDirectory): string {
+  return resolveSpeakerName(getSpeakerKey(row), directory)
+}
+
+// 세션에 등장한 화자 목록 (호스트 → 등장 순서, 말하지 않은 공동 발표자도 포함)
+export function listSessionSpeakers(rows: SpeakerFields[], directory: SpeakerDirectory): SessionSpeaker[] {
+  const keys = [HOST_SPEAKER_KEY, ...Object.keys(directory.participants), ...rows.map(getSpeakerKey)]
+
+  return Array.from(new Set(keys)).map((key) => ({
+    key,
+    name: resolveSpeakerName(key, directory),
+    defaultName: getDefaultSpeakerName(key, directory),
+  }))
+}
+
+// 둘 이상이 말한 세션에서만 자막 / 문서에 화자 이름을 붙인다
+export function hasMultipleSpeakers(rows: SpeakerFields[]): boolean {
+  return new Set(rows.map(getSpeakerKey)).size > 1
+}
+
+// Deepgram diarize 의 화자 번호(0부터) → 표시 라벨
+// 0 번은 처음 들린 목소리 = 마이크 주인(호스트 / 공동 발표자)으로 보고 라벨을 붙이지 않는다.
+export function formatDiarizationLabel(speakerIndex: number): string | undefined {
+  return speakerIndex > 0 ? `Speaker ${speakerIndex + 1}` : undefined
+}
+
+export async function loadSpeakerDirectory(supabase: SupabaseClient, sessionId: string): Promise<SpeakerDirectory> {
+  const [{ data: session, error: sessionError }, { data: participants, error: participantsError }] = await Promise.all([
+    supabase.from('sessions').select('host_name, speaker_names').eq('id', sessionId).single(),
+    supabase.from('session_participants').select('id, user_name').eq('session_id', sessionId).eq('role', 'speaker'),
+  ])
+
+  if (sessionError) {
+    console.error('❌ Speaker directory session load error:', sessionError)
+  }
+  if (participantsError) {
+    console.error('❌ Speaker directory participants load error:', participantsError)
+  }
+
+  return {
+    hostName: session?.host_name || 'Host',
+    names: (session?.speaker_names as Record<string, string> | null) || {},
+    participants: Object.fromEntries(
+      (participants || []).map((participant) => [participant.id, participant.user_name]),
+    ),
+  }
+}
+
+// 공동 발표자 id 확인 (STT 라우트 / 프록시가 speakerId 를 받을 때)
+export async function isSessionSpeaker(
+  supabase: SupabaseClient,
+  sessionId: string,
+  speakerId: string,
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('session_participants')
+    .select('id')
+    .eq('id', speakerId)
+    .eq('session_id', sessionId)
+    .eq('role', 'speaker')
+    .maybeSingle()
+
+  if (error) {
+    console.error('❌ Speaker lookup error:', error)
+  }
+  return !!data
+}
@@ -0,0 +1,85 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { AddressInfo } from 'net'
+import type { WebSocketServer } from 'ws'
+import { startMockSttServer } from './mock-stt-server'
+import { createDeepgramAdapter, type StreamingSttFinal } from './stt-adapters'
+
+// 🆕 Deepgram 어댑터를 로컬 mock 서버(lib/mock-stt-server.ts)에 연결해서 partial / final 흐름 확인
+// mock 서버는 오디오 메시지 2개마다 한 단어씩 interim 을 보내고, 문장이 끝나면 is_final + speech_final 을 보낸다.
+
+const MESSAGES_PER_WORD = 2
+const SENTENCE_WORD_COUNTS = [7, 6, 8] // mock 서버의 첫 세 문장
+const WORD_SECONDS = 0.5
+
+function listen(server: WebSocketServer): Promise<number> {
+  return new Promise((resolve) => server.on('listening', () => resolve((server.address() as AddressInfo).port)))
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5000) {
+  const deadline = Date.now() + timeoutMs
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for the mock STT server')
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+}
+
+test('Deepgram adapter emits partials and finals with utterance start times from the stream', async () => {
+  const server = startMockSttServer(0)
+  const port = await listen(server)
+  process.env.DEEPGRAM_API_KEY = 'test'
+  process.env.DEEPGRAM_API_URL = `ws://127.0.0.1:${port}`
+
+  const partials: string[] = []
+  const finals: StreamingSttFinal[] = []
+  const errors: string[] = []
+
+  const createdFrom = Date.now()
+  const adapter = createDeepgramAdapter({
+    language: 'en',
+    onPartial: (_utteranceId, text) => partials.push(text),
+    onFinal: (final) => finals.push(final),
+    onError: (message) => errors.push(message),
+  })
+  const createdTo = Date.now()
+
+  try {
+    const totalWords = SENTENCE_WORD_COUNTS.reduce((sum, count) => sum + count, 0)
+    for (let i = 0; i < totalWords * MESSAGES_PER_WORD; i++) {
+      adapter.sendAudio(Buffer.alloc(16))
+    }
+
+    await waitFor(() => finals.length >= SENTENCE_WORD_COUNTS.length)
+    await adapter.finish()
+
+    assert.deepEqual(errors, [])
+    assert.deepEqual(
+      finals.map((final) => final.text),
+      [
+        "Welcome to today's lecture on artificial intelligence.",
+        'Machine learning is transforming various industries.',
+        'Deep learning models require large amounts of data.',
+      ],
+    )
+    assert.ok(partials.includes('Welcome to'))
+    assert.equal(new Set(finals.map((final) => final.utteranceId)).size, finals.length)
+
+    // 발화 시작 = 어댑터를 만든 시각 + mock 서버가 보낸 첫 단어의 start
+    assert.ok(finals[0].startedAt >= createdFrom && finals[0].startedAt <= createdTo)
+    assert.equal(finals[1].startedAt - finals[0].startedAt, SENTENCE_WORD_COUNTS[0] * WORD_SECONDS * 1000)
+    assert.equal(
+      finals[2].startedAt - finals[0].startedAt,
+      (SENTENCE_WORD_COUNTS[0] + SENTENCE_WORD_COUNTS[1]) * WORD_SECONDS * 1000,
+    )
+
+    // 세 번째 문장은 mock 서버가 두 번째 화자로 표시
+    assert.deepEqual(
+      finals.map((final) => final.speakerLabel),
+      [undefined, undefined, 'Speaker 2'],
+    )
+    assert.ok(finals.every((final) => final.confidence === 0.95))
+  } finally {
+    adapter.close()
+    await new Promise((resolve) => server.close(resolve))
+  }
+})
@@ -0,0 +1,255 @@
+import {
+  createClient as createDeepgramClient,
+  LiveTranscriptionEvents,
+  type DeepgramClientOptions,
+  type LiveTranscriptionEvent,
+} from '@deepgram/sdk'
+import { WebSocket as NodeWebSocket } from 'ws'
+import { transcribeWithWhisper } from './whisper'
+import { formatDiarizationLabel } from './speakers'
+import type { SttProvider } from './types'
+
+// 🆕 스트리밍 STT 프로바이더 어댑터 (서버 전용)
+// 프록시(lib/stt-proxy.ts)는 어떤 엔진이든 같은 인터페이스로 오디오를 넘기고 partial / final 을 받는다.
+
+// 🆕 확정된 발화 (startedAt: 말하기 시작한 시각, epoch ms - 줄의 created_at 으로 저장)
+export interface StreamingSttFinal {
+  utteranceId: string
+  text: string
+  confidence?: number
+  speakerLabel?: string
+  startedAt: number
+}
+
+export interface StreamingSttCallbacks {
+  onPartial: (utteranceId: string, text: string) => void
+  onFinal: (final: StreamingSttFinal) => void
+  onError: (message: string) => void
+}
+
+export interface StreamingSttOptions extends StreamingSttCallbacks {
+  language?: string // 'ko', 'en' ... (없으면 자동 감지)
+  mimeType?: string // 브라우저 MediaRecorder 형식
+}
+
+export interface StreamingSttAdapter {
+  provider: SttProvider
+  sendAudio: (chunk: Buffer) => void
+  finish: () => Promise<void> // 남은 오디오를 모두 처리한 뒤 resolve
+  close: () => void
+}
+
+const DEEPGRAM_KEEP_ALIVE_MS = 8000
+const DEEPGRAM_FINISH_TIMEOUT_MS = 3000
+
+// Deepgram 접속 옵션 (DEEPGRAM_API_URL 로 로컬 mock 서버를 가리킬 수 있음)
+// Node 20 에는 전역 WebSocket 이 없어 SDK 기본 경로가 이벤트 핸들러를 연결하지 못하므로 ws 를 transport 로 지정한다.
+function getDeepgramClientOptions(): DeepgramClientOptions {
+  const url = process.env.DEEPGRAM_API_URL
+  return {
+    global: {
+      websocket: {
+        client: NodeWebSocket as unknown as typeof WebSocket,
+        ...(url ? { options: { url } } : {}),
+      },
+    },
+  }
+}
+
+export function isDeepgramConfigured(): boolean {
+  return !!process.env.DEEPGRAM_API_KEY
+}
+
+// Deepgram live: 연속 오디오 스트림 → interim(partial) / is_final 조각 → speech_final 에서 한 문장으로 확정
+// 🆕 발화 시작 시각 = 스트림 시작 시각 + 결과의 start (스트림 오디오 기준 초)
+// 스트림 시작 시각은 어댑터를 만든 시각 (프록시가 바로 ready 를 보내고, 클라이언트는 ready 를 받자마자 녹음을 시작)
+export function createDeepgramAdapter(options: StreamingSttOptions): StreamingSttAdapter {
+  const { language, onPartial, onFinal, onError } = options
+  const streamStartedAt = Date.now()
+
+  const deepgram = createDeepgramClient(process.env.DEEPGRAM_API_KEY, getDeepgramClientOptions())
+  const live = deepgram.listen.live({
+    model: process.env.DEEPGRAM_MODEL || 'nova-3',
+    language: language || 'multi',
+    interim_results: true,
+    smart_format: true,
+    punctuate: true,
+    endpointing: 300,
+    utterance_end_ms: 1000,
+    diarize: true, // 🆕 한 마이크에 여러 명이 말하는 경우 단어별 화자 번호
+  })
+
+  let utteranceCount = 0
+  let utteranceId = `dg-${Date.now()}-${utteranceCount}`
+  let segments: string[] = []
+  let confidences: number[] = []
+  let speakerWordCounts = new Map<number, number>() // 화자 번호 → 단어 수
+  let utteranceStartSeconds: number | null = null // 발화 첫 조각의 start
+  let finishResolve: (() => void) | null = null
+  // 🆕 연결 전에 받은 오디오 (SDK 는 연결 전 send 를 sendBuffer 에 넣기만 하고 보내지 않으므로 직접 보관 후 Open 시 전송)
+  let opened = false
+  let pendingAudio: ArrayBuffer[] = []
+
+  const flushUtterance = () => {
+    const text = segments.join(' ').trim()
+    if (text) {
+      const confidence = confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+      // 발화에서 가장 많이 말한 화자
+      const dominantSpeaker = Array.from(speakerWordCounts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0]
+      onFinal({
+        utteranceId,
+        text,
+        confidence,
+        speakerLabel: dominantSpeaker !== undefined ? formatDiarizationLabel(dominantSpeaker) : undefined,
+        startedAt: streamStartedAt + Math.round((utteranceStartSeconds ?? 0) * 1000),
+      })
+    }
+
+    segments = []
+    confidences = []
+    speakerWordCounts = new Map()
+    utteranceStartSeconds = null
+    utteranceCount += 1
+    utteranceId = `dg-${Date.now()}-${utteranceCount}`
+  }
+
+  const keepAlive = setInterval(() => {
+    if (live.isConnected()) live.keepAlive()
+  }, DEEPGRAM_KEEP_ALIVE_MS)
+
+  live.on(LiveTranscriptionEvents.Open, () => {
+    console.log(`🔌 Deepgram live connection opened (language: ${language || 'multi'})`)
+    opened = true
+    pendingAudio.forEach((chunk) => live.send(chunk))
+    pendingAudio = []
+  })
+
+  live.on(LiveTranscriptionEvents.Transcript, (data: LiveTranscriptionEvent) => {
+    const alternative = data.channel?.alternatives?.[0]
+    const text = alternative?.transcript?.trim() || ''
+
+    if (data.is_final) {
+      if (text) {
+        if (utteranceStartSeconds === null) utteranceStartSeconds = alternative.words?.[0]?.start ?? data.start
+        segments.push(text)
+        confidences.push(alternative.confidence)
+        alternative.words?.forEach(({ speaker }) => {
+          if (speaker !== undefined) speakerWordCounts.set(speaker, (speakerWordCounts.get(speaker) || 0) + 1)
+        })
+      }
+
+      if (data.speech_final || data.from_finalize) {
+        flushUtterance()
+      } else if (segments.length > 0) {
+        onPartial(utteranceId, segments.join(' '))
+      }
+
+      if (data.from_finalize && finishResolve) {
+        finishResolve()
+      }
+      return
+    }
+
+    if (text) {
+      onPartial(utteranceId, [...segments, text].join(' '))
+    }
+  })
+
+  // speech_final 을 놓친 경우(잡음 등)의 보조 확정 신호
+  live.on(LiveTranscriptionEvents.UtteranceEnd, () => {
+    flushUtterance()
+  })
+
+  live.on(LiveTranscriptionEvents.Error, (error: unknown) => {
+    console.error('❌ Deepgram live error:', error)
+    onError('Deepgram streaming error')
+  })
+
+  live.on(LiveTranscriptionEvents.Close, () => {
+    clearInterval(keepAlive)
+    finishResolve?.()
+  })
+
+  return {
+    provider: 'deepgram',
+    sendAudio: (chunk) => {
+      const data = new Uint8Array(chunk).buffer
+      // 첫 조각에 webm 헤더가 있으므로 연결 전 오디오도 버리지 않고 Open 때 순서대로 전송
+      if (opened) live.send(data)
+      else pendingAudio.push(data)
+    },
+    finish: async () => {
+      if (!live.isConnected()) {
+        flushUtterance()
+        return
+      }
+
+      await new Promise<void>((resolve) => {
+        const timeout = setTimeout(resolve, DEEPGRAM_FINISH_TIMEOUT_MS)
+        finishResolve = () => {
+          clearTimeout(timeout)
+          resolve()
+        }
+        live.finalize()
+      })
+      finishResolve = null
+      flushUtterance()
+    },
+    close: () => {
+      clearInterval(keepAlive)
+      if (live.isConnected()) live.requestClose()
+    },
+  }
+}
+
+// Whisper: 클라이언트가 VAD 로 끊은 발화(독립 디코딩 가능한 파일)를 메시지 하나로 보냄 → 순서대로 전사
+// 🆕 발화는 끝난 직후에 도착하므로 시작 시각 = 도착 시각 - 오디오 길이 + 첫 말소리 위치
+export function createWhisperAdapter(options: StreamingSttOptions): StreamingSttAdapter {
+  const { language, mimeType = 'audio/webm', onFinal, onError } = options
+  const extension = mimeType.includes('mp4') ? 'mp4' : mimeType.includes('ogg') ? 'ogg' : 'webm'
+
+  let queue = Promise.resolve()
+  let segmentCount = 0
+  let lastText = ''
+
+  return {
+    provider: 'whisper',
+    sendAudio: (chunk) => {
+      const receivedAt = Date.now()
+      const segmentId = `whisper-${receivedAt}-${segmentCount++}`
+      const audio = new Blob([new Uint8Array(chunk)], { type: mimeType })
+
+      queue = queue.then(async () => {
+        try {
+          const { text, confidence, durationMs, speechStartMs } = await transcribeWithWhisper(
+            audio,
+            `${segmentId}.${extension}`,
+            { language, prompt: lastText.slice(-200) },
+          )
+          if (text) {
+            lastText = text
+            const startedAt =
+              durationMs !== undefined ? receivedAt - durationMs + Math.min(speechStartMs ?? 0, durationMs) : receivedAt
+            onFinal({ utteranceId: segmentId, text, confidence, startedAt })
+          }
+        } catch (error) {
+          console.error('❌ Whisper segment failed:', error)
+          onError('Whisper transcription failed for one segment')
+        }
+      })
+    },
+    finish: () => queue,
+    close: () => {},
+  }
+}
+
+export function createStreamingSttAdapter(provider: SttProvider, options: StreamingSttOptions): StreamingSttAdapter {
+  switch (provider) {
+    case 'deepgram':
+      return createDeepgramAdapter(options)
+    case 'whisper':
+      return createWhisperAdapter(options)
+    default:
+      throw new Error(`STT provider "${provider}" runs in the browser and cannot be proxied`)
+  }
+}
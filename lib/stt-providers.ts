@@ -0,0 +1,48 @@
+import type { SttProvider } from './types'
+
+// 🆕 STT 엔진 정의 (클라이언트 / 서버 공용)
+// web-speech 는 브라우저 안에서 끝나고, whisper / deepgram 은 스트리밍 프록시(lib/stt-proxy.ts)를 거친다.
+// whisper 는 프록시가 없으면 /api/stt 청크 업로드(ServerSTT)로 동작한다.
+
+export interface SttProviderOption {
+  id: SttProvider
+  name: string
+  description: string
+  requiresProxy: boolean
+}
+
+export const STT_PROVIDER_OPTIONS: SttProviderOption[] = [
+  {
+    id: 'web-speech',
+    name: 'Browser (Web Speech API)',
+    description: 'Fastest live captions with instant previews. Requires Chrome, Edge or Safari.',
+    requiresProxy: false,
+  },
+  {
+    id: 'whisper',
+    name: 'Whisper (chunks)',
+    description: 'Audio is split at pauses and transcribed by Whisper on the server. Works in every browser.',
+    requiresProxy: false,
+  },
+  {
+    id: 'deepgram',
+    name: 'Deepgram (streaming)',
+    description: 'Audio is streamed to Deepgram through the STT proxy, with live previews in every browser.',
+    requiresProxy: true,
+  },
+]
+
+export const DEFAULT_STT_PROVIDER: SttProvider = 'web-speech'
+
+export function isSttProvider(value: unknown): value is SttProvider {
+  return STT_PROVIDER_OPTIONS.some((option) => option.id === value)
+}
+
+export function normalizeSttProvider(value: unknown): SttProvider {
+  return isSttProvider(value) ? value : DEFAULT_STT_PROVIDER
+}
+
+// 호스트 브라우저가 접속할 프록시 주소 (설정되지 않으면 프록시 엔진 비활성화)
+export function getSttProxyUrl(): string | null {
+  return process.env.NEXT_PUBLIC_STT_PROXY_URL || null
+}
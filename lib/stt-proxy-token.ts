@@ -0,0 +1,39 @@
+import crypto from 'crypto'
+
+// 🆕 STT 프록시 접속 토큰 (서버 전용)
+// 프록시(lib/stt-proxy.ts)는 Clerk 세션을 볼 수 없으므로, 로그인한 호스트 / 공동 발표자에게
+// /api/session/[id]/stt-token 이 짧게 유효한 서명 토큰을 주고 프록시는 연결할 때 서명과 만료만 확인한다.
+// 토큰 형식: `${만료 시각(ms)}.${HMAC(sessionId, speakerId, 만료 시각)}`
+// STT_PROXY_SECRET 이 없으면 service role key 로 서명
+
+export const STT_PROXY_TOKEN_TTL_MS = 2 * 60 * 1000 // 연결 시작까지만 유효 (연결된 뒤에는 다시 확인하지 않음)
+
+function getProxySecret(): string {
+  const secret = process.env.STT_PROXY_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!secret) {
+    throw new Error('STT_PROXY_SECRET is not configured')
+  }
+  return secret
+}
+
+function sign(sessionId: string, speakerId: string | undefined, expiresAt: number): string {
+  return crypto
+    .createHmac('sha256', getProxySecret())
+    .update(`stt-proxy:${sessionId}:${speakerId || 'host'}:${expiresAt}`)
+    .digest('base64url')
+}
+
+export function createSttProxyToken(sessionId: string, speakerId?: string): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + STT_PROXY_TOKEN_TTL_MS
+  return { token: `${expiresAt}.${sign(sessionId, speakerId, expiresAt)}`, expiresAt }
+}
+
+export function verifySttProxyToken(sessionId: string, speakerId: string | undefined, token: string): boolean {
+  const [expiresPart, signature] = token.split('.')
+  const expiresAt = Number(expiresPart)
+  if (!signature || !Number.isFinite(expiresAt) || expiresAt < Date.now()) return false
+
+  const expected = Buffer.from(sign(sessionId, speakerId, expiresAt))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,200 @@
+import { createClient } from '@supabase/supabase-js'
+import { WebSocketServer, type RawData, type WebSocket } from 'ws'
+import type { IncomingMessage } from 'http'
+import { createStreamingSttAdapter, isDeepgramConfigured, type StreamingSttAdapter } from './stt-adapters'
+import { isWhisperConfigured } from './whisper'
+import { saveFinalTranscript } from './transcript-review'
+import { publishPartialCaption } from './caption-stream'
+import { toBaseLanguageCode } from './languages'
+import { isSessionSpeaker } from './speakers'
+import { verifySttProxyToken } from './stt-proxy-token'
+import type { SttProvider, SttStreamEvent } from './types'
+
+// 🆕 스트리밍 STT WebSocket 프록시
+// ws://host:STT_PROXY_PORT/?sessionId=...&provider=deepgram|whisper&mimeType=audio/webm&token=...[&speakerId=...]
+// token: /api/session/[id]/stt-token 이 로그인한 호스트 / 공동 발표자에게 주는 짧은 서명 토큰 (lib/stt-proxy-token.ts)
+// - 바이너리 메시지: 오디오 (deepgram: MediaRecorder timeslice, whisper: VAD 로 끊은 발화 파일)
+// - 텍스트 메시지: { "type": "stop" } → 남은 오디오 처리 후 연결 종료
+// - 서버 → 클라이언트: SttStreamEvent (ready / partial / final / error)
+// final 은 stt-stream 과 같은 저장 + 검수 / 번역 파이프라인으로 저장하고, partial 은 청중에게 중계한다.
+
+const PROXY_PROVIDERS: SttProvider[] = ['deepgram', 'whisper']
+const PARTIAL_PUBLISH_INTERVAL = 300 // RealtimeSTT 와 같은 partial 중계 주기
+const MAX_AUDIO_MESSAGE_BYTES = 10 * 1024 * 1024
+
+function send(socket: WebSocket, event: SttStreamEvent) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(event))
+  }
+}
+
+async function handleConnection(socket: WebSocket, req: IncomingMessage) {
+  const url = new URL(req.url || '/', 'http://localhost')
+  const sessionId = url.searchParams.get('sessionId')
+  const provider = url.searchParams.get('provider') as SttProvider | null
+  const mimeType = url.searchParams.get('mimeType') || undefined
+  const speakerId = url.searchParams.get('speakerId') || undefined // 🆕 공동 발표자
+  const token = url.searchParams.get('token') || '' // 🆕 /api/session/[id]/stt-token 이 준 서명 토큰
+
+  if (!sessionId || !provider || !PROXY_PROVIDERS.includes(provider)) {
+    send(socket, { type: 'error', message: 'sessionId and a streaming provider (deepgram, whisper) are required' })
+    socket.close(1008, 'Invalid parameters')
+    return
+  }
+
+  // 로그인한 호스트 / 공동 발표자만 (세션 id 만 알아서는 오디오를 보낼 수 없음)
+  if (!verifySttProxyToken(sessionId, speakerId, token)) {
+    send(socket, { type: 'error', message: 'Invalid or expired STT token. Please restart the session.' })
+    socket.close(1008, 'Unauthorized')
+    return
+  }
+
+  // 세션 확인 (진행 중인 세션에만 오디오를 받음)
+  const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+  const { data: session, error } = await supabase
+    .from('sessions')
+    .select('id, status, primary_language, stt_provider')
+    .eq('id', sessionId)
+    .single()
+
+  if (error || !session || session.status !== 'active') {
+    send(socket, { type: 'error', message: 'Session not found or already ended' })
+    socket.close(1008, 'Session not active')
+    return
+  }
+
+  if (session.stt_provider && session.stt_provider !== provider) {
+    send(socket, { type: 'error', message: `This session uses the ${session.stt_provider} STT engine` })
+    socket.close(1008, 'Provider mismatch')
+    return
+  }
+
+  if (speakerId && !(await isSessionSpeaker(supabase, sessionId, speakerId))) {
+    send(socket, { type: 'error', message: 'Speaker is not part of this session' })
+    socket.close(1008, 'Invalid speaker')
+    return
+  }
+
+  // 세션 확인 중에 호스트가 연결을 끊은 경우
+  if (socket.readyState !== socket.OPEN) return
+
+  const configured = provider === 'deepgram' ? isDeepgramConfigured() : isWhisperConfigured()
+  if (!configured) {
+    const keyName = provider === 'deepgram' ? 'DEEPGRAM_API_KEY' : 'OPENAI_API_KEY'
+    send(socket, { type: 'error', message: `${provider} STT is not configured on the server (${keyName})` })
+    socket.close(1011, 'Provider not configured')
+    return
+  }
+
+  const language = toBaseLanguageCode(session.primary_language)
+  let lastPartialPublishedAt = 0
+
+  // final 은 도착 순서대로 저장 (검수 / 번역이 느려도 transcript 순서 보존)
+  let finalQueue = Promise.resolve()
+
+  let adapter: StreamingSttAdapter
+  try {
+    adapter = createStreamingSttAdapter(provider, {
+      language,
+      mimeType,
+      onPartial: (utteranceId, text) => {
+        send(socket, { type: 'partial', utteranceId, text })
+
+        const now = Date.now()
+        if (now - lastPartialPublishedAt >= PARTIAL_PUBLISH_INTERVAL) {
+          lastPartialPublishedAt = now
+          publishPartialCaption(sessionId, { utteranceId, text, speakerId }).catch((publishError) => {
+            console.error('❌ Failed to publish partial caption:', publishError)
+          })
+        }
+      },
+      onFinal: ({ utteranceId, text, confidence, speakerLabel, startedAt }) => {
+        // 🆕 줄의 created_at = 말하기 시작한 시각 (결과가 도착한 시각이 아님)
+        const createdAt = new Date(startedAt)
+        finalQueue = finalQueue.then(async () => {
+          try {
+            const saved = await saveFinalTranscript(sessionId, text, {
+              createdAt,
+              detectedLanguage: language,
+              speakerId,
+              speakerLabel,
+            })
+            send(socket, {
+              type: 'final',
+              utteranceId,
+              text,
+              confidence,
+              transcriptId: saved.transcriptId,
+              speakerLabel,
+            })
+          } catch (saveError) {
+            console.error('❌ Failed to save streamed transcript:', saveError)
+            // 저장 실패해도 호스트 화면에는 표시
+            send(socket, { type: 'final', utteranceId, text, confidence, speakerLabel })
+          }
+        })
+      },
+      onError: (message) => send(socket, { type: 'error', message }),
+    })
+  } catch (adapterError) {
+    console.error('❌ Failed to create STT adapter:', adapterError)
+    send(socket, { type: 'error', message: `Failed to start ${provider} STT` })
+    socket.close(1011, 'Adapter error')
+    return
+  }
+
+  console.log(
+    `🎙️ STT proxy connected: session ${sessionId}, provider ${provider}, language ${language || 'auto'}, speaker ${speakerId || 'host'}`,
+  )
+  send(socket, { type: 'ready', provider })
+
+  let stopping = false
+
+  socket.on('message', async (data: RawData, isBinary: boolean) => {
+    if (isBinary) {
+      if (!stopping) {
+        adapter.sendAudio(Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data as ArrayBuffer))
+      }
+      return
+    }
+
+    try {
+      const message = JSON.parse(data.toString())
+      if (message.type === 'stop' && !stopping) {
+        stopping = true
+        await adapter.finish()
+        await finalQueue
+        socket.close(1000, 'Stopped')
+      }
+    } catch {
+      console.warn('⚠️ Ignoring invalid STT proxy control message')
+    }
+  })
+
+  socket.on('close', () => {
+    adapter.close()
+    console.log(`🔌 STT proxy disconnected: session ${sessionId}`)
+  })
+}
+
+export function startSttProxyServer(port: number): WebSocketServer {
+  const server = new WebSocketServer({ port, maxPayload: MAX_AUDIO_MESSAGE_BYTES })
+
+  server.on('connection', (socket, req) => {
+    handleConnection(socket, req).catch((error) => {
+      console.error('❌ STT proxy connection error:', error)
+      send(socket, { type: 'error', message: 'Internal proxy error' })
+      socket.close(1011, 'Internal error')
+    })
+  })
+
+  server.on('listening', () => {
+    console.log(`🎧 STT proxy listening on ws://localhost:${port}`)
+  })
+
+  server.on('error', (error) => {
+    console.error('❌ STT proxy server error:', error)
+  })
+
+  return server
+}
@@ -0,0 +1,105 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  createSegmenterState,
+  normalizeSegmenterState,
+  type SegmentResult,
+  type SegmenterState,
+} from './sentence-segmenter'
+
+// 🆕 stt-stream 문장 분할 상태 저장소 (stt_stream_states)
+// 서버리스 인스턴스마다 메모리가 다르므로 세션 / 발표자 스트림 상태를 DB 에 두고,
+// version 으로 낙관적 잠금 → 동시에 들어온 조각이 서로의 버퍼를 덮어쓰지 않게 한다.
+
+const MAX_UPDATE_ATTEMPTS = 5
+
+export interface StreamStateUpdate extends SegmentResult {
+  version: number // 저장된 상태의 version (flush 문장 키에 사용)
+}
+
+// 공동 발표자는 각자 버퍼를 가짐 (같은 문장을 다른 사람이 말해도 저장)
+export function getStreamKey(sessionId: string, speakerId?: string): string {
+  return speakerId ? `${sessionId}:${speakerId}` : sessionId
+}
+
+export async function loadStreamState(
+  supabase: SupabaseClient,
+  streamKey: string,
+): Promise<{ state: SegmenterState; version: number; updatedAt?: string } | null> {
+  const { data, error } = await supabase
+    .from('stt_stream_states')
+    .select('state, version, updated_at')
+    .eq('stream_key', streamKey)
+    .maybeSingle()
+
+  if (error) {
+    console.error('❌ STT stream state load error:', error)
+    throw new Error('Failed to load stream state')
+  }
+  if (!data) return null
+
+  return { state: normalizeSegmenterState(data.state), version: data.version, updatedAt: data.updated_at }
+}
+
+// 상태 읽기 → update 계산 → version 이 그대로일 때만 저장 (충돌 시 다시 읽고 재시도)
+// 중복 조각이면 저장 없이 결과만 돌려준다.
+export async function updateStreamState(
+  supabase: SupabaseClient,
+  streamKey: string,
+  sessionId: string,
+  update: (state: SegmenterState) => SegmentResult,
+): Promise<StreamStateUpdate> {
+  for (let attempt = 1; attempt <= MAX_UPDATE_ATTEMPTS; attempt++) {
+    const current = await loadStreamState(supabase, streamKey)
+    const result = update(current?.state || createSegmenterState())
+
+    if (result.duplicate) {
+      return { ...result, version: current?.version || 0 }
+    }
+
+    const now = new Date().toISOString()
+
+    if (!current) {
+      const { error } = await supabase
+        .from('stt_stream_states')
+        .insert({ stream_key: streamKey, session_id: sessionId, state: result.state, version: 1, updated_at: now })
+
+      if (!error) return { ...result, version: 1 }
+      if (error.code !== '23505') {
+        console.error('❌ STT stream state insert error:', error)
+        throw new Error('Failed to save stream state')
+      }
+    } else {
+      const version = current.version + 1
+      const { data, error } = await supabase
+        .from('stt_stream_states')
+        .update({ state: result.state, version, updated_at: now })
+        .eq('stream_key', streamKey)
+        .eq('version', current.version)
+        .select('version')
+
+      if (error) {
+        console.error('❌ STT stream state update error:', error)
+        throw new Error('Failed to save stream state')
+      }
+      if (data && data.length > 0) return { ...result, version }
+    }
+
+    console.log(`🔁 STT stream state conflict for ${streamKey}, retrying (${attempt}/${MAX_UPDATE_ATTEMPTS})`)
+  }
+
+  throw new Error('Stream state is busy, please retry')
+}
+
+export async function deleteStreamState(supabase: SupabaseClient, streamKey: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('stt_stream_states')
+    .delete()
+    .eq('stream_key', streamKey)
+    .select('stream_key')
+
+  if (error) {
+    console.error('❌ STT stream state delete error:', error)
+    return false
+  }
+  return (data || []).length > 0
+}
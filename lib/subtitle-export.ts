@@ -0,0 +1,170 @@
+import type { SessionChapter, Transcript } from './types'
+import { findChapterStartLineId, getChapterTitle } from './chapters'
+
+// 🆕 transcript → 자막 파일 (SRT / WebVTT) 변환
+// transcript created_at 은 모든 STT 엔진에서 발화를 시작한 시각이므로 cue 시작 시각으로 쓰고
+// (Web Speech: 발화 첫 결과의 capturedAt, /api/stt: 청크 startedAt, 프록시: Deepgram start / Whisper 도착 시각 - 길이),
+// 텍스트 길이로 추정한 발화 시간만큼 보여준다 (다음 줄이 시작되면 그 전에 끝냄).
+
+export type SubtitleFormat = 'srt' | 'vtt'
+
+export const SUBTITLE_FORMATS: SubtitleFormat[] = ['srt', 'vtt']
+
+// 🆕 captions: 자막, chapters: 챕터 트랙 (cue 하나 = 챕터 하나, 플레이어 챕터 탐색용)
+export type SubtitleKind = 'captions' | 'chapters'
+
+export const SUBTITLE_KINDS: SubtitleKind[] = ['captions', 'chapters']
+
+export interface SubtitleCue {
+  index: number
+  startMs: number
+  endMs: number
+  text: string
+  speaker?: string // 🆕 멀티 화자 세션에서만 (SRT: "이름: " 접두어, VTT: <v 이름> 태그)
+  transcriptId?: string // 🆕 챕터 트랙을 만들 때 챕터 첫 줄 cue 를 찾는 용도
+  chapter?: string // 🆕 이 cue 에서 시작하는 챕터 ("1. 제목", VTT 에서 NOTE 로 표시)
+}
+
+type SubtitleTranscript = Pick<Transcript, 'id' | 'original_text' | 'reviewed_text' | 'created_at'> & {
+  translation_cache_ids?: Record<string, string> | null
+}
+
+const CHARS_PER_SECOND = 15
+const MIN_CUE_MS = 1500
+const MAX_CUE_MS = 7000
+
+function estimateDurationMs(text: string): number {
+  return Math.min(Math.max((text.length / CHARS_PER_SECOND) * 1000, MIN_CUE_MS), MAX_CUE_MS)
+}
+
+// startedAt: 영상 기준 시각 (보통 세션 생성 시각)
+// translations: transcriptId → 번역 텍스트 (없으면 검수된 원문 사용)
+// speakers: transcriptId → 화자 이름 (한 사람만 말한 세션은 비워서 이름 없이 내보냄)
+// chapters: transcriptId → 그 줄에서 시작하는 챕터 표시 ("1. 제목")
+export function buildSubtitleCues(
+  transcripts: SubtitleTranscript[],
+  startedAt: string,
+  translations: Record<string, string> = {},
+  speakers: Record<string, string> = {},
+  chapters: Record<string, string> = {},
+): SubtitleCue[] {
+  const origin = new Date(startedAt).getTime()
+  const lines = transcripts
+    .map((transcript) => ({
+      transcript,
+      text: (translations[transcript.id] || transcript.reviewed_text || transcript.original_text || '').trim(),
+      spokenAtMs: Math.max(new Date(transcript.created_at).getTime() - origin, 0),
+    }))
+    .filter((line) => line.text)
+
+  const cues: SubtitleCue[] = []
+  let previousEnd = 0
+
+  lines.forEach(({ transcript, text, spokenAtMs }, index) => {
+    const startMs = Math.max(spokenAtMs, previousEnd)
+    const nextStartMs = lines[index + 1]?.spokenAtMs
+    let endMs = startMs + estimateDurationMs(text)
+    if (nextStartMs !== undefined && nextStartMs >= startMs + MIN_CUE_MS) {
+      endMs = Math.min(endMs, nextStartMs)
+    }
+
+    cues.push({
+      index: cues.length + 1,
+      startMs,
+      endMs,
+      text,
+      speaker: speakers[transcript.id],
+      transcriptId: transcript.id,
+      chapter: chapters[transcript.id],
+    })
+    previousEnd = endMs
+  })
+
+  return cues
+}
+
+// 🆕 챕터 표시 (transcriptId → "1. 제목") - 챕터 첫 줄이 지워졌으면 시작 시각 이후 첫 줄
+export function getChapterCueLabels(
+  chapters: SessionChapter[],
+  transcripts: SubtitleTranscript[],
+  language?: string,
+): Record<string, string> {
+  const labels: Record<string, string> = {}
+  chapters.forEach((chapter) => {
+    const lineId = findChapterStartLineId(chapter, transcripts)
+    if (lineId && !labels[lineId]) labels[lineId] = `${chapter.index + 1}. ${getChapterTitle(chapter, language)}`
+  })
+  return labels
+}
+
+// 🆕 챕터 트랙 - 챕터 첫 줄 cue 부터 다음 챕터 직전까지 (마지막 챕터는 마지막 cue 까지)
+export function buildChapterCues(
+  chapters: SessionChapter[],
+  cues: SubtitleCue[],
+  transcripts: SubtitleTranscript[],
+  language?: string,
+): SubtitleCue[] {
+  const cueByTranscript = new Map(cues.map((cue) => [cue.transcriptId, cue]))
+  const starts = chapters
+    .map((chapter) => {
+      const lineId = findChapterStartLineId(chapter, transcripts)
+      const cue = lineId ? cueByTranscript.get(lineId) : undefined
+      return cue ? { startMs: cue.startMs, text: getChapterTitle(chapter, language) } : null
+    })
+    .filter((start): start is { startMs: number; text: string } => !!start)
+    .filter((start, index, list) => index === 0 || start.startMs > list[index - 1].startMs)
+
+  const lastEnd = cues.length > 0 ? cues[cues.length - 1].endMs : 0
+  return starts.map((start, index) => ({
+    index: index + 1,
+    startMs: start.startMs,
+    endMs: index + 1 < starts.length ? starts[index + 1].startMs : Math.max(lastEnd, start.startMs + MIN_CUE_MS),
+    text: start.text,
+  }))
+}
+
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(ms))
+  const hours = Math.floor(totalMs / 3600000)
+  const minutes = Math.floor((totalMs % 3600000) / 60000)
+  const seconds = Math.floor((totalMs % 60000) / 1000)
+  const millis = totalMs % 1000
+
+  const pad = (value: number, length = 2) => value.toString().padStart(length, '0')
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`
+}
+
+export function formatSrt(cues: SubtitleCue[]): string {
+  return cues
+    .map(
+      (cue) =>
+        `${cue.index}\n${formatTimestamp(cue.startMs, ',')} --> ${formatTimestamp(cue.endMs, ',')}\n${cue.speaker ? `${cue.speaker}: ` : ''}${cue.text}\n`,
+    )
+    .join('\n')
+}
+
+// WebVTT 화자 태그 (<v 이름>) - 이름에 태그 문자는 들어갈 수 없음
+function formatVoiceTag(speaker?: string): string {
+  const name = speaker?.replace(/[<>&]/g, '').trim()
+  return name ? `<v ${name}>` : ''
+}
+
+export function formatVtt(cues: SubtitleCue[]): string {
+  const body = cues
+    .map(
+      (cue) =>
+        // WebVTT 에서는 "-->" 가 cue 본문 / NOTE 에 들어갈 수 없음
+        `${cue.chapter ? `NOTE Chapter ${cue.chapter.replace(/-->/g, '->')}\n\n` : ''}${cue.index}\n${formatTimestamp(cue.startMs, '.')} --> ${formatTimestamp(cue.endMs, '.')}\n${formatVoiceTag(cue.speaker)}${cue.text.replace(/-->/g, '->')}\n`,
+    )
+    .join('\n')
+
+  return `WEBVTT\n\n${body}`
+}
+
+export function formatSubtitles(cues: SubtitleCue[], format: SubtitleFormat): string {
+  return format === 'srt' ? formatSrt(cues) : formatVtt(cues)
+}
+
+export function getSubtitleContentType(format: SubtitleFormat): string {
+  return format === 'srt' ? 'application/x-subrip; charset=utf-8' : 'text/vtt; charset=utf-8'
+}
@@ -0,0 +1,151 @@
+import crypto from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// 🆕 긴 세션 요약용 chunk (map-reduce)
+// transcript 를 세션 시작 기준 SUMMARY_CHUNK_MINUTES 단위 시간 구간으로 나누고, 구간이 너무 길면 글자 수로 다시 나눈다.
+// 구간은 줄의 created_at 으로 정해지므로 줄이 추가 / 수정되어도 그 구간의 chunk 만 바뀐다.
+// chunk 요약은 session_summary_chunks 에 텍스트 hash 와 함께 저장 → 다시 요약할 때 hash 가 같으면 재사용.
+
+export const SUMMARY_CHUNK_MINUTES = 10
+export const MAX_SUMMARY_CHUNK_CHARS = 12000
+// 이보다 짧은 transcript 는 chunk 없이 한 번에 요약
+export const SINGLE_PASS_MAX_CHARS = 12000
+
+export interface SummaryLine {
+  text: string // 검수된 문장 (여러 화자 세션은 "이름: 문장")
+  createdAt: string
+}
+
+export interface SummaryChunk {
+  key: string
+  index: number
+  text: string
+  hash: string
+  lineCount: number
+  startedAt: string
+  endedAt: string
+  startOffsetMs: number // 세션 시작 기준
+  endOffsetMs: number
+}
+
+interface StoredChunkSummary {
+  chunk_key: string
+  content_hash: string
+  summary_text: string
+}
+
+function hashText(text: string): string {
+  return crypto.createHash('sha256').update(text).digest('hex')
+}
+
+export function buildSummaryChunks(lines: SummaryLine[], sessionStartedAt: string, joiner: string): SummaryChunk[] {
+  const sessionStart = new Date(sessionStartedAt).getTime()
+  const windowMs = SUMMARY_CHUNK_MINUTES * 60 * 1000
+
+  // 시간 구간별로 묶고, 구간 안에서 글자 수가 넘치면 part 로 나눔
+  const groups: { key: string; lines: SummaryLine[] }[] = []
+  let current: { window: number; part: number; lines: SummaryLine[]; length: number } | null = null
+
+  for (const line of lines) {
+    const window = Math.max(0, Math.floor((new Date(line.createdAt).getTime() - sessionStart) / windowMs))
+
+    if (!current || current.window !== window) {
+      current = { window, part: 0, lines: [], length: 0 }
+      groups.push({ key: `w${window}`, lines: current.lines })
+    } else if (current.length + line.text.length > MAX_SUMMARY_CHUNK_CHARS) {
+      current = { window, part: current.part + 1, lines: [], length: 0 }
+      groups.push({ key: `w${window}.${current.part}`, lines: current.lines })
+    }
+
+    current.lines.push(line)
+    current.length += line.text.length + joiner.length
+  }
+
+  return groups.map((group, index) => {
+    const text = group.lines.map((line) => line.text).join(joiner)
+    const startedAt = group.lines[0].createdAt
+    const endedAt = group.lines[group.lines.length - 1].createdAt
+    return {
+      key: group.key,
+      index,
+      text,
+      hash: hashText(text),
+      lineCount: group.lines.length,
+      startedAt,
+      endedAt,
+      startOffsetMs: Math.max(0, new Date(startedAt).getTime() - sessionStart),
+      endOffsetMs: Math.max(0, new Date(endedAt).getTime() - sessionStart),
+    }
+  })
+}
+
+// "[00:10-00:20]" (시:분, 세션 시작 기준)
+export function formatChunkRange(chunk: Pick<SummaryChunk, 'startOffsetMs' | 'endOffsetMs'>): string {
+  const format = (ms: number) => {
+    const totalMinutes = Math.floor(ms / 60000)
+    return `${String(Math.floor(totalMinutes / 60)).padStart(2, '0')}:${String(totalMinutes % 60).padStart(2, '0')}`
+  }
+  return `[${format(chunk.startOffsetMs)}-${format(chunk.endOffsetMs)}]`
+}
+
+// 저장된 chunk 요약 (chunk key → hash / 요약)
+export async function loadStoredChunkSummaries(
+  supabase: SupabaseClient,
+  sessionId: string,
+): Promise<Map<string, { hash: string; summary: string }>> {
+  const { data, error } = await supabase
+    .from('session_summary_chunks')
+    .select('chunk_key, content_hash, summary_text')
+    .eq('session_id', sessionId)
+
+  if (error) {
+    console.warn(`⚠️ Could not load stored chunk summaries for session ${sessionId}:`, error.message)
+    return new Map()
+  }
+
+  return new Map(
+    ((data || []) as StoredChunkSummary[]).map((row) => [
+      row.chunk_key,
+      { hash: row.content_hash, summary: row.summary_text },
+    ]),
+  )
+}
+
+export async function saveChunkSummary(
+  supabase: SupabaseClient,
+  sessionId: string,
+  chunk: SummaryChunk,
+  summary: string,
+) {
+  const { error } = await supabase.from('session_summary_chunks').upsert(
+    {
+      session_id: sessionId,
+      chunk_key: chunk.key,
+      chunk_index: chunk.index,
+      content_hash: chunk.hash,
+      line_count: chunk.lineCount,
+      started_at: chunk.startedAt,
+      ended_at: chunk.endedAt,
+      summary_text: summary,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'session_id,chunk_key' },
+  )
+
+  if (error) {
+    console.warn(`⚠️ Could not store summary of chunk ${chunk.key} for session ${sessionId}:`, error.message)
+  }
+}
+
+// 더 이상 없는 chunk (줄이 지워지거나 구간이 나뉜 경우) 삭제
+export async function pruneChunkSummaries(supabase: SupabaseClient, sessionId: string, chunks: SummaryChunk[]) {
+  const { data, error } = await supabase.from('session_summary_chunks').select('chunk_key').eq('session_id', sessionId)
+  if (error) return
+
+  const keep = new Set(chunks.map((chunk) => chunk.key))
+  const stale = (data || []).map((row) => row.chunk_key as string).filter((key) => !keep.has(key))
+  if (stale.length === 0) return
+
+  await supabase.from('session_summary_chunks').delete().eq('session_id', sessionId).in('chunk_key', stale)
+  console.log(`🧹 Removed ${stale.length} stale summary chunk(s) for session ${sessionId}`)
+}
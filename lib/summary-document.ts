@@ -0,0 +1,260 @@
+import type { SummaryActionItem, SummaryDocument, SummaryKeyTerm, SummarySection } from './types'
+
+// 🆕 구조화된 세션 요약 문서
+// summary-generator 가 Gemini 에 JSON 으로 받은 요약을 여기서 검증 / 정리하고 sessions.summary_doc 에 저장한다.
+// 웹(components/SummaryDocumentView), Markdown, 문서 내보내기(lib/document-export.ts) 모두 이 문서를 렌더링하며,
+// sessions.summary / session_summary_cache.summary_text 에는 이전 화면과 호환되도록 renderSummaryHtml 결과를 저장한다.
+// 서버 / 클라이언트 공용 (DB 접근 없음)
+
+export const SUMMARY_DOCUMENT_VERSION = 1
+
+export const SUMMARY_DOCUMENT_LIMITS = {
+  sections: 8,
+  bullets: 6,
+  actionItems: 10,
+  keyTerms: 10,
+  tags: 8,
+  textLength: 600, // 문자열 하나의 최대 길이
+}
+
+// Gemini 프롬프트에 넣는 JSON 형식 설명
+export const SUMMARY_DOCUMENT_JSON_SHAPE = `{
+  "overview": "1-2 sentences about what the session was about",
+  "sections": [{ "title": "Section title", "bullets": ["Key point", "Key point"] }],
+  "actionItems": [{ "text": "Follow-up task or assignment", "owner": "Person responsible (omit if not mentioned)" }],
+  "keyTerms": [{ "term": "Term", "definition": "Short definition as used in the session" }],
+  "tags": ["tag", "tag", "tag", "tag", "tag"]
+}`
+
+export interface SummaryDocumentValidation {
+  document: SummaryDocument | null
+  errors: string[]
+}
+
+// 모델이 섞어 넣는 HTML 태그 / 글머리 / 공백 정리
+function cleanText(value: string): string {
+  return value
+    .replace(/<[^>]+>/g, '')
+    .replace(/^\s*[-•*]\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .substring(0, SUMMARY_DOCUMENT_LIMITS.textLength)
+}
+
+function readString(value: unknown, path: string, errors: string[], required = true): string {
+  if (typeof value !== 'string') {
+    if (required || value !== undefined) errors.push(`${path} must be a string`)
+    return ''
+  }
+  const text = cleanText(value)
+  if (required && !text) errors.push(`${path} is empty`)
+  return text
+}
+
+function readArray(value: unknown, path: string, errors: string[]): unknown[] {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be an array`)
+    return []
+  }
+  return value
+}
+
+// 문서 검증 + 정리 (빈 항목 제거, 개수 제한, 태그 소문자 / 중복 제거). 필수 항목이 없으면 document 는 null
+export function validateSummaryDocument(value: unknown): SummaryDocumentValidation {
+  const errors: string[] = []
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { document: null, errors: ['summary must be a JSON object'] }
+  }
+  const input = value as Record<string, unknown>
+
+  const overview = readString(input.overview, 'overview', errors)
+
+  const sections: SummarySection[] = readArray(input.sections, 'sections', errors)
+    .map((section, index) => {
+      const path = `sections[${index}]`
+      if (!section || typeof section !== 'object') {
+        errors.push(`${path} must be an object`)
+        return null
+      }
+      const { title, bullets } = section as Record<string, unknown>
+      const items = readArray(bullets, `${path}.bullets`, errors)
+        .map((bullet, bulletIndex) => readString(bullet, `${path}.bullets[${bulletIndex}]`, errors, false))
+        .filter(Boolean)
+        .slice(0, SUMMARY_DOCUMENT_LIMITS.bullets)
+      if (items.length === 0) errors.push(`${path}.bullets is empty`)
+      return { title: readString(title, `${path}.title`, errors), bullets: items }
+    })
+    .filter((section): section is SummarySection => !!section && !!section.title && section.bullets.length > 0)
+    .slice(0, SUMMARY_DOCUMENT_LIMITS.sections)
+  if (sections.length === 0) errors.push('sections is empty')
+
+  const actionItems: SummaryActionItem[] = readArray(input.actionItems, 'actionItems', errors)
+    .map((item, index) => {
+      const fields = (item && typeof item === 'object' ? item : { text: item }) as Record<string, unknown>
+      const text = readString(fields.text, `actionItems[${index}].text`, errors)
+      const owner = readString(fields.owner ?? undefined, `actionItems[${index}].owner`, errors, false)
+      return owner ? { text, owner } : { text }
+    })
+    .filter((item) => item.text)
+    .slice(0, SUMMARY_DOCUMENT_LIMITS.actionItems)
+
+  const keyTerms: SummaryKeyTerm[] = readArray(input.keyTerms, 'keyTerms', errors)
+    .map((item, index) => {
+      const fields = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>
+      return {
+        term: readString(fields.term, `keyTerms[${index}].term`, errors),
+        definition: readString(fields.definition, `keyTerms[${index}].definition`, errors),
+      }
+    })
+    .filter((item) => item.term && item.definition)
+    .slice(0, SUMMARY_DOCUMENT_LIMITS.keyTerms)
+
+  const tags = Array.from(
+    new Set(
+      readArray(input.tags, 'tags', errors)
+        .map((tag, index) => readString(tag, `tags[${index}]`, errors, false).replace(/^#/, '').toLowerCase())
+        .filter(Boolean),
+    ),
+  ).slice(0, SUMMARY_DOCUMENT_LIMITS.tags)
+  if (tags.length === 0) errors.push('tags is empty')
+
+  // 형식이 조금 틀린 항목은 버리고 쓰되, 요약의 뼈대(overview / sections / tags)가 없으면 실패
+  const document =
+    overview && sections.length > 0 && tags.length > 0
+      ? { version: SUMMARY_DOCUMENT_VERSION as 1, overview, sections, actionItems, keyTerms, tags }
+      : null
+
+  return { document, errors }
+}
+
+// LLM 응답 → 문서 (마크다운 코드 블록 제거). 검증에 실패하면 에러 목록을 담아 throw
+export function parseSummaryDocument(content: string): SummaryDocument {
+  let jsonContent = content.trim()
+
+  if (jsonContent.startsWith('```json')) {
+    jsonContent = jsonContent.replace(/^```json\s*/, '').replace(/\s*```$/, '')
+  } else if (jsonContent.startsWith('```')) {
+    jsonContent = jsonContent.replace(/^```\s*/, '').replace(/\s*```$/, '')
+  }
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(jsonContent)
+  } catch {
+    throw new Error('Summary response is not valid JSON')
+  }
+
+  const { document, errors } = validateSummaryDocument(parsed)
+  if (!document) {
+    throw new Error(`Invalid summary document: ${errors.slice(0, 5).join('; ')}`)
+  }
+  if (errors.length > 0) {
+    console.warn(`⚠️ Summary document had ${errors.length} invalid field(s), dropped:`, errors.slice(0, 5))
+  }
+  return document
+}
+
+// DB 값(jsonb) → 문서 (없거나 형식이 틀리면 null → 호출 측은 이전 HTML 요약을 사용)
+export function toSummaryDocument(value: unknown): SummaryDocument | null {
+  if (!value) return null
+  return validateSummaryDocument(value).document
+}
+
+// ---------- 렌더링 ----------
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+export const SUMMARY_SECTION_LABELS = {
+  overview: 'Overview',
+  actionItems: 'Action items',
+  keyTerms: 'Key terms',
+  tags: 'Important tags',
+}
+
+// 이전 요약과 같은 <b> / <br/> 형식 (sessions.summary, session_summary_cache.summary_text 저장용)
+export function renderSummaryHtml(doc: SummaryDocument): string {
+  const parts: string[] = [`${escapeHtml(doc.overview)}<br/><br/>`]
+
+  doc.sections.forEach((section, index) => {
+    parts.push(`<b>${index + 1}. ${escapeHtml(section.title)}</b><br/>`)
+    section.bullets.forEach((bullet) => parts.push(`- ${escapeHtml(bullet)}<br/>`))
+    parts.push('<br/>')
+  })
+
+  if (doc.actionItems.length > 0) {
+    parts.push(`<b>${SUMMARY_SECTION_LABELS.actionItems}</b><br/>`)
+    doc.actionItems.forEach((item) =>
+      parts.push(`- ${item.owner ? `<b>${escapeHtml(item.owner)}</b>: ` : ''}${escapeHtml(item.text)}<br/>`),
+    )
+    parts.push('<br/>')
+  }
+
+  if (doc.keyTerms.length > 0) {
+    parts.push(`<b>${SUMMARY_SECTION_LABELS.keyTerms}</b><br/>`)
+    doc.keyTerms.forEach((item) => parts.push(`- <b>${escapeHtml(item.term)}</b>: ${escapeHtml(item.definition)}<br/>`))
+    parts.push('<br/>')
+  }
+
+  parts.push(`<b>${SUMMARY_SECTION_LABELS.tags}</b><br/>`)
+  doc.tags.forEach((tag) => parts.push(`- ${escapeHtml(tag)}<br/>`))
+
+  return parts.join('\n')
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]<>#|])/g, '\\$1')
+}
+
+// Markdown (요약 복사 / 공유용). headingLevel 은 섹션 제목 수준
+export function renderSummaryMarkdown(doc: SummaryDocument, options: { headingLevel?: number } = {}): string {
+  const heading = '#'.repeat(Math.min(Math.max(options.headingLevel ?? 3, 1), 6))
+  const out: string[] = [escapeMarkdown(doc.overview), '']
+
+  doc.sections.forEach((section) => {
+    out.push(`${heading} ${escapeMarkdown(section.title)}`, '')
+    section.bullets.forEach((bullet) => out.push(`- ${escapeMarkdown(bullet)}`))
+    out.push('')
+  })
+
+  if (doc.actionItems.length > 0) {
+    out.push(`${heading} ${SUMMARY_SECTION_LABELS.actionItems}`, '')
+    doc.actionItems.forEach((item) =>
+      out.push(`- [ ] ${item.owner ? `**${escapeMarkdown(item.owner)}:** ` : ''}${escapeMarkdown(item.text)}`),
+    )
+    out.push('')
+  }
+
+  if (doc.keyTerms.length > 0) {
+    out.push(`${heading} ${SUMMARY_SECTION_LABELS.keyTerms}`, '')
+    doc.keyTerms.forEach((item) => out.push(`- **${escapeMarkdown(item.term)}:** ${escapeMarkdown(item.definition)}`))
+    out.push('')
+  }
+
+  out.push(doc.tags.map((tag) => `#${tag.replace(/\s+/g, '-')}`).join(' '))
+
+  return out.join('\n').trim() + '\n'
+}
+
+// 글자 수 표시 / 검색용 평문
+export function getSummaryDocumentText(doc: SummaryDocument): string {
+  return [
+    doc.overview,
+    ...doc.sections.flatMap((section) => [section.title, ...section.bullets]),
+    ...doc.actionItems.map((item) => (item.owner ? `${item.owner}: ${item.text}` : item.text)),
+    ...doc.keyTerms.map((item) => `${item.term}: ${item.definition}`),
+    doc.tags.join(', '),
+  ].join('\n')
+}
+
+// 번역 결과가 원문 문서와 같은 구조인지 (섹션 / 항목 수가 같아야 저장)
+export function hasSameSummaryShape(a: SummaryDocument, b: SummaryDocument): boolean {
+  return (
+    a.sections.length === b.sections.length &&
+    a.sections.every((section, index) => section.bullets.length === b.sections[index].bullets.length) &&
+    a.actionItems.length === b.actionItems.length &&
+    a.keyTerms.length === b.keyTerms.length
+  )
+}
@@ -1,4 +1,27 @@
 import { createClient } from '@supabase/supabase-js'
+import { getLanguageName, getSessionTargetLanguages } from './languages'
+import { getTranscriptSpeakerName, hasMultipleSpeakers, loadSpeakerDirectory } from './speakers'
+import {
+  SINGLE_PASS_MAX_CHARS,
+  SUMMARY_CHUNK_MINUTES,
+  buildSummaryChunks,
+  formatChunkRange,
+  loadStoredChunkSummaries,
+  pruneChunkSummaries,
+  saveChunkSummary,
+  type SummaryChunk,
+  type SummaryLine,
+} from './summary-chunks'
+import {
+  SUMMARY_DOCUMENT_JSON_SHAPE,
+  hasSameSummaryShape,
+  parseSummaryDocument,
+  renderSummaryHtml,
+  toSummaryDocument,
+} from './summary-document'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { loadSessionTranscriptRows } from './transcript-rows'
+import type { SummaryDocument, Transcript } from './types'
 
 const CATEGORY_PROMPTS = {
   general:
@@ -29,10 +52,123 @@ export interface SummaryGenerationOptions {
 }
 
 export interface SummaryResult {
-  summary: string
+  summary: string // summaryDocument 를 HTML 로 렌더링한 것 (이전 세션은 저장된 HTML)
+  summaryDocument: SummaryDocument | null // 🆕 구조화된 요약 (이 기능 전에 만든 요약은 null)
   category: string
   transcriptCount: number
   fromCache: boolean
+  chunkCount?: number // 🆕 map-reduce 로 요약한 chunk 수 (짧은 세션은 0)
+  reusedChunks?: number // 🆕 저장된 요약을 재사용한 chunk 수
+}
+
+const CHUNK_SUMMARY_CONCURRENCY = 3
+const CHUNK_FALLBACK_CHARS = 1500
+
+export async function requestGeminiText(
+  prompt: string,
+  generationConfig: { temperature: number; maxOutputTokens: number; responseMimeType?: 'application/json' },
+) {
+  if (!process.env.GEMINI_API_KEY) {
+    throw new Error('Gemini API key not configured')
+  }
+
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${process.env.GEMINI_API_KEY}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ contents: [{ parts: [{ text: prompt }] }], generationConfig }),
+    },
+  )
+
+  if (!response.ok) {
+    throw new Error(`Gemini API error: ${response.status}`)
+  }
+
+  const data = await response.json()
+  const text = data.candidates?.[0]?.content?.parts?.[0]?.text?.trim()
+  if (!text) {
+    throw new Error('Gemini response missing text')
+  }
+  return text as string
+}
+
+// 🆕 map 단계: chunk 하나를 자세한 노트로 요약 (최종 요약의 재료)
+function buildChunkSummaryPrompt(chunk: SummaryChunk, totalChunks: number, category: string, multiSpeaker: boolean) {
+  return `You are summarizing part ${chunk.index + 1} of ${totalChunks} of a transcribed ${category} session ${formatChunkRange(chunk)}.
+The transcript comes from speech recognition and may contain transcription errors - correct them from context.
+
+Write detailed notes for this part only, as plain-text bullet points starting with "- ":
+- key ideas, arguments and conclusions
+- facts, names, numbers, dates and examples that were mentioned
+- questions raised and answers given${multiSpeaker ? '\n- who said what (each transcript line starts with the speaker name)' : ''}
+Do not add an introduction or a conclusion. Do not exceed 800 characters.
+
+Transcript:
+${chunk.text}`
+}
+
+// 🆕 chunk 요약 (hash 가 같은 저장된 요약은 재사용, 실패한 chunk 는 원문 앞부분으로 대체하고 저장하지 않음)
+async function summarizeChunks(
+  supabase: SupabaseClient,
+  sessionId: string,
+  chunks: SummaryChunk[],
+  category: string,
+  multiSpeaker: boolean,
+): Promise<{ summaries: string[]; reused: number }> {
+  const stored = await loadStoredChunkSummaries(supabase, sessionId)
+  const summaries: string[] = new Array(chunks.length)
+  let reused = 0
+
+  const pending = chunks.filter((chunk) => {
+    const cached = stored.get(chunk.key)
+    if (cached && cached.hash === chunk.hash) {
+      summaries[chunk.index] = cached.summary
+      reused++
+      return false
+    }
+    return true
+  })
+
+  console.log(`🧩 Summarizing ${pending.length}/${chunks.length} chunk(s) for session ${sessionId} (${reused} reused)`)
+
+  for (let i = 0; i < pending.length; i += CHUNK_SUMMARY_CONCURRENCY) {
+    await Promise.all(
+      pending.slice(i, i + CHUNK_SUMMARY_CONCURRENCY).map(async (chunk) => {
+        try {
+          const summary = await requestGeminiText(
+            buildChunkSummaryPrompt(chunk, chunks.length, category, multiSpeaker),
+            { temperature: 0.2, maxOutputTokens: 600 },
+          )
+          summaries[chunk.index] = summary
+          await saveChunkSummary(supabase, sessionId, chunk, summary)
+        } catch (error) {
+          console.error(`❌ Chunk ${chunk.key} summary failed for session ${sessionId}:`, error)
+          summaries[chunk.index] = `${chunk.text.substring(0, CHUNK_FALLBACK_CHARS)}...`
+        }
+      }),
+    )
+  }
+
+  await pruneChunkSummaries(supabase, sessionId, chunks)
+  return { summaries, reused }
+}
+
+// 🆕 요약 문서 번역 - 같은 구조의 JSON 으로 받아 검증 (항목 수가 달라지면 실패)
+export async function translateSummaryDocument(document: SummaryDocument, language: string): Promise<SummaryDocument> {
+  const translated = parseSummaryDocument(
+    await requestGeminiText(
+      `Translate every text value of the following JSON session summary to ${getLanguageName(language)}. Maintain the professional tone and technical accuracy. Keep the keys, the structure and the number of items unchanged. Return only JSON.
+
+${JSON.stringify(document, null, 2)}`,
+      { temperature: 0.1, maxOutputTokens: 2000, responseMimeType: 'application/json' },
+    ),
+  )
+
+  if (!hasSameSummaryShape(document, translated)) {
+    throw new Error('Translated summary does not match the original structure')
+  }
+  return translated
 }
 
 export async function generateSessionSummary(options: SummaryGenerationOptions): Promise<SummaryResult> {
@@ -58,18 +194,17 @@ export async function generateSessionSummary(options: SummaryGenerationOptions):
     console.log(`✅ Summary already exists for session ${sessionId}`)
     return {
       summary: session.summary,
+      summaryDocument: toSummaryDocument(session.summary_doc),
       category: session.category,
       transcriptCount: 0,
       fromCache: true,
     }
   }
 
-  // Get all transcripts for this session
-  const { data: transcripts, error: transcriptError } = await supabase
-    .from('transcripts')
-    .select('original_text, created_at')
-    .eq('session_id', sessionId)
-    .order('created_at', { ascending: true })
+  // Get all transcripts for this session (🆕 1000 줄이 넘는 세션도 끝까지 페이지 단위로)
+  const { data: transcripts, error: transcriptError } = await loadSessionTranscriptRows<
+    Pick<Transcript, 'original_text' | 'reviewed_text' | 'created_at' | 'speaker_id' | 'speaker_label'>
+  >(supabase, sessionId, 'original_text, reviewed_text, created_at, speaker_id, speaker_label')
 
   if (transcriptError) {
     console.error('Error fetching transcripts:', transcriptError)
@@ -81,17 +216,43 @@ export async function generateSessionSummary(options: SummaryGenerationOptions):
   }
 
   // Combine all transcripts
-  const fullTranscript = transcripts.map((t) => t.original_text).join(' ')
+  // 🆕 검수된 문장(reviewed_text) 사용, 여러 명이 말한 세션은 "이름: 문장" 줄로 넘겨 누가 무엇을 말했는지 요약에 반영
+  const multiSpeaker = hasMultipleSpeakers(transcripts)
+  const directory = multiSpeaker ? await loadSpeakerDirectory(supabase, sessionId) : null
+  const lines: SummaryLine[] = transcripts
+    .map((t) => {
+      const text = (t.reviewed_text || t.original_text || '').trim()
+      return {
+        text: directory && text ? `${getTranscriptSpeakerName(t, directory)}: ${text}` : text,
+        createdAt: t.created_at,
+      }
+    })
+    .filter((line) => line.text)
+  const joiner = multiSpeaker ? '\n' : ' '
+  const fullTranscript = lines.map((line) => line.text).join(joiner)
+
+  // 🆕 긴 세션은 map-reduce: 시간 구간 chunk 별 요약 → chunk 요약들을 합쳐 최종 요약
+  let sourceSection: string
+  let chunkCount = 0
+  let reusedChunks = 0
+  if (fullTranscript.length <= SINGLE_PASS_MAX_CHARS) {
+    sourceSection = `Here is the transcript which may contain transcription errors:
+${fullTranscript}`
+  } else {
+    const chunks = buildSummaryChunks(lines, session.created_at, joiner)
+    const { summaries, reused } = await summarizeChunks(supabase, sessionId, chunks, session.category, multiSpeaker)
+    chunkCount = chunks.length
+    reusedChunks = reused
 
-  // Limit transcript length for API efficiency
-  const maxLength = 8000
-  const truncatedTranscript =
-    fullTranscript.length > maxLength ? fullTranscript.substring(0, maxLength) + '...' : fullTranscript
+    sourceSection = `The session is too long to include in full. Here are notes on each ${SUMMARY_CHUNK_MINUTES}-minute part, in order (time from the session start). Cover the whole session, not just the beginning:
+${chunks.map((chunk) => `${formatChunkRange(chunk)}\n${summaries[chunk.index]}`).join('\n\n')}`
+  }
 
   // Get category-specific prompt
   const categoryPrompt = CATEGORY_PROMPTS[session.category as keyof typeof CATEGORY_PROMPTS] || CATEGORY_PROMPTS.general
 
   // Generate English summary using Gemini
+  // 🆕 HTML 대신 JSON 요약 문서 (lib/summary-document.ts) 로 받아서 검증 후 저장
   const summaryPrompt = `
 **C – Context:**  
 You are a large language model tasked with summarizing spoken content that has been transcribed using the WebSpeech API. The source may be lectures, discussions, or events with a few speakers and many listeners. These transcripts often contain transcription errors (e.g., "My Combinator" instead of "Y Combinator") that must be corrected using contextual understanding.
@@ -99,8 +260,8 @@ You are a large language model tasked with summarizing spoken content that has b
 **O – Objective:**  
 Your goal is to produce an accurate and concise summary by:  
 1. Correcting transcription errors based on context.  
-2. Following a specific HTML-based structure for clarity and usability.  
-3. Including five relevant tags at the end.
+2. Returning a JSON document with a fixed structure so it can be displayed and exported in different formats.  
+3. Including five relevant tags.
 
 **S – Style:**  
 Concise, clear, and professional. Avoid repetition or filler.
@@ -114,105 +275,57 @@ Users who want a brief but accurate overview of the spoken content. Including, b
 **R – Response:**  
 Use the following structure:
 
-${categoryPrompt}
-Here is the transcript which may contain transcription errors:
-${truncatedTranscript}
+${categoryPrompt}${multiSpeaker ? '\nEach line starts with the speaker name. Attribute key points and opinions to the speaker who made them.' : ''}
+${sourceSection}
 
 Please follow these instructions:
 1. Carefully analyze the transcript and fix any transcription errors using context clues.
-2. Organize the summary into 2-4 key sections, each with a clear heading using HTML <b> tags (e.g., <b>Section Title</b>).
-3. Under each heading, list 1-3 concise bullet points with the most important facts, insights, or conclusions.
-4. Use <br/> for line breaks between sections and bullet points.
-5. Be clear and detailed, grouping related information together.
-6. Use professional, easy-to-understand language.
-7. Do not exceed 500 characters total.
-8. End the summary with 5 relevant tags in the following format:
-<b>Important tags</b><br/>
-- tag 1<br/>
-- tag 2<br/>
-- tag 3<br/>
-- tag 4<br/>
-- tag 5<br/>
-9. Example format:
-
-<b>1. Section Title</b><br/>
-- Key point one<br/>
-- Key point two<br/><br/>
-<b>2. Next Section</b><br/>
-- Key point one<br/>
-- Key point two<br/><br/>
-<b>Important tags</b><br/>
-- topic<br/>
-- keyword<br/>
-- theme<br/>
-- event<br/>
-- takeaway<br/>
+2. Write a 1-2 sentence overview of the whole session.
+3. Organize the key points into ${chunkCount > 0 ? '3-6' : '2-4'} sections, each with a short title and 1-3 concise bullet points with the most important facts, insights, or conclusions.
+4. List action items only if tasks, assignments, deadlines or follow-ups were mentioned, otherwise use an empty array. Set "owner" only when the responsible person is named.
+5. List up to 5 key terms (names, technical terms, concepts) that a reader may need explained, with short definitions. Use an empty array if there are none.
+6. Add exactly 5 relevant lowercase tags (a word or a short phrase, without "#").
+7. Use plain text in every field - no HTML or Markdown.
+8. Do not exceed ${chunkCount > 0 ? 1500 : 700} characters of text in total.
+9. Return only JSON in the following format:
+${SUMMARY_DOCUMENT_JSON_SHAPE}
 `
 
   console.log(`🤖 Generating English summary for session ${sessionId} (category: ${session.category})`)
 
-  // Generate summary using Gemini
-  const geminiApiKey = process.env.GEMINI_API_KEY
-  if (!geminiApiKey) {
-    console.error('Gemini API key not found')
-    throw new Error('Gemini API key not configured')
-  }
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${geminiApiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              {
-                text: summaryPrompt,
-              },
-            ],
-          },
-        ],
-        generationConfig: {
-          temperature: 0.3,
-          maxOutputTokens: 800,
-        },
-      }),
-    },
-  )
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    console.error('Gemini API error:', response.status, errorText)
-    throw new Error('Failed to generate summary with Gemini')
+  const generationConfig = {
+    temperature: 0.3,
+    maxOutputTokens: chunkCount > 0 ? 2000 : 1200,
+    responseMimeType: 'application/json' as const,
   }
 
-  const data = await response.json()
-  console.log('🔍 Full Gemini API response:', JSON.stringify(data, null, 2))
-
-  let englishSummary = null
-  if (data.candidates && data.candidates[0] && data.candidates[0].content) {
-    const candidate = data.candidates[0]
-
-    if (candidate.content.parts && candidate.content.parts[0] && candidate.content.parts[0].text) {
-      englishSummary = candidate.content.parts[0].text.trim()
-    } else {
-      console.error('❌ Gemini response missing content.parts:', candidate.content)
-    }
-  } else {
-    console.error('❌ Invalid Gemini response structure:', data)
+  // 형식이 틀린 응답은 이유를 알려주고 한 번 더 요청
+  let summaryDocument: SummaryDocument
+  try {
+    summaryDocument = parseSummaryDocument(await requestGeminiText(summaryPrompt, generationConfig))
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown error'
+    console.warn(`⚠️ Summary document rejected for session ${sessionId}, retrying once: ${reason}`)
+    summaryDocument = parseSummaryDocument(
+      await requestGeminiText(
+        `${summaryPrompt}\nYour previous answer was rejected (${reason}). Return only valid JSON in the format above.`,
+        generationConfig,
+      ),
+    )
   }
 
-  if (!englishSummary) {
-    throw new Error('Failed to generate summary')
-  }
+  // 이전 화면 / live 요약과 같은 HTML 형식으로도 저장
+  const englishSummary = renderSummaryHtml(summaryDocument)
 
-  console.log(`✅ Gemini summary generated: ${englishSummary.substring(0, 100)}...`)
+  console.log(
+    `✅ Gemini summary generated: ${summaryDocument.sections.length} sections, tags: ${summaryDocument.tags.join(', ')}`,
+  )
 
   // Save English summary to database
-  const { error: updateError } = await supabase.from('sessions').update({ summary: englishSummary }).eq('id', sessionId)
+  const { error: updateError } = await supabase
+    .from('sessions')
+    .update({ summary: englishSummary, summary_doc: summaryDocument })
+    .eq('id', sessionId)
 
   if (updateError) {
     console.error('Error saving summary:', updateError)
@@ -221,78 +334,44 @@ Please follow these instructions:
     console.log(`✅ English summary cached for session ${sessionId}`)
   }
 
-  // Generate translations for supported languages and save to session_summary_cache
-  const supportedLanguages = ['ko', 'zh', 'hi']
+  // Generate translations for the session's target languages and save to session_summary_cache
+  const supportedLanguages = getSessionTargetLanguages(session).filter((lang) => lang !== 'en')
 
   console.log(`🌍 Generating translations for summary...`)
 
   // Save English summary to cache first
-  await supabase.from('session_summary_cache').upsert({
-    session_id: sessionId,
-    language_code: 'en',
-    summary_text: englishSummary,
-  })
+  // 🆕 진행 중에 쌓인 live 요약 (lib/live-summary.ts) 이 있으면 같은 줄을 final 로 덮어씀
+  await supabase.from('session_summary_cache').upsert(
+    {
+      session_id: sessionId,
+      language_code: 'en',
+      summary_text: englishSummary,
+      summary_doc: summaryDocument,
+      kind: 'final',
+    },
+    { onConflict: 'session_id,language_code' },
+  )
 
   for (const lang of supportedLanguages) {
     try {
-      const translationPrompt = `Translate the following English summary to ${lang === 'ko' ? 'Korean' : lang === 'zh' ? 'Chinese' : 'Hindi'}. Maintain the professional tone and technical accuracy:
+      const translatedDocument = await translateSummaryDocument(summaryDocument, lang)
 
-${englishSummary}`
-
-      const translationResponse = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${geminiApiKey}`,
+      // Save to session_summary_cache
+      const { error: cacheError } = await supabase.from('session_summary_cache').upsert(
         {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [
-              {
-                parts: [
-                  {
-                    text: translationPrompt,
-                  },
-                ],
-              },
-            ],
-            generationConfig: {
-              temperature: 0.1,
-              maxOutputTokens: 800,
-            },
-          }),
-        },
-      )
-
-      if (!translationResponse.ok) {
-        console.error(`Gemini translation API error for ${lang}:`, translationResponse.status)
-        continue
-      }
-
-      const translationData = await translationResponse.json()
-
-      let translatedSummary = null
-      if (translationData.candidates && translationData.candidates[0] && translationData.candidates[0].content) {
-        const candidate = translationData.candidates[0]
-
-        if (candidate.content.parts && candidate.content.parts[0] && candidate.content.parts[0].text) {
-          translatedSummary = candidate.content.parts[0].text.trim()
-        }
-      }
-
-      if (translatedSummary) {
-        // Save to session_summary_cache
-        const { error: cacheError } = await supabase.from('session_summary_cache').upsert({
           session_id: sessionId,
           language_code: lang,
-          summary_text: translatedSummary,
-        })
+          summary_text: renderSummaryHtml(translatedDocument),
+          summary_doc: translatedDocument,
+          kind: 'final',
+        },
+        { onConflict: 'session_id,language_code' },
+      )
 
-        if (cacheError) {
-          console.error(`Error caching ${lang} summary translation:`, cacheError)
-        } else {
-          console.log(`✅ Cached ${lang} summary translation`)
-        }
+      if (cacheError) {
+        console.error(`Error caching ${lang} summary translation:`, cacheError)
+      } else {
+        console.log(`✅ Cached ${lang} summary translation`)
       }
     } catch (error) {
       console.error(`Error translating summary to ${lang}:`, error)
@@ -300,12 +379,14 @@ ${englishSummary}`
   }
 
   console.log(`✅ Summary generated and saved for session ${sessionId}`)
-  console.log(`✅ Summary generated: ${englishSummary.substring(0, 100)}...`)
 
   return {
     summary: englishSummary,
+    summaryDocument,
     category: session.category,
     transcriptCount: transcripts.length,
     fromCache: false,
+    chunkCount,
+    reusedChunks,
   }
 }
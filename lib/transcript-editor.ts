@@ -0,0 +1,320 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { detectSpokenLanguage } from './language-id'
+import { performBatchTranslation, saveBatchTranslationsToCache } from './translation-queue'
+import { publishCaptionRemoval } from './caption-stream'
+import { getSessionTargetLanguages } from './languages'
+import { getSpeakerKey } from './speakers'
+import { loadSessionGlossary } from './glossary'
+import { loadPrecedingLines } from './translation-context'
+import type { Transcript, TranscriptEdit, TranscriptEditAction, TranscriptEditResult } from './types'
+
+// 🆕 호스트 transcript 수정 (서버 전용)
+// - edit: reviewed_text 를 호스트가 고친 문장으로 바꾸고 그 줄만 다시 번역 (translation_cache_ids 교체)
+// - merge: 이어진 줄들을 첫 줄로 합치고 나머지는 삭제
+// - delete: 줄 삭제
+// 바뀐 reviewed_text / translation_cache_ids 는 Realtime UPDATE 로, 사라진 줄은 removed broadcast 로 청중에게 전달된다.
+// 모든 수정은 transcript_edits 에 줄마다 기록한다.
+
+const MAX_LINE_LENGTH = 5000
+
+type EditableTranscript = Pick<
+  Transcript,
+  | 'id'
+  | 'session_id'
+  | 'original_text'
+  | 'reviewed_text'
+  | 'detected_language'
+  | 'created_at'
+  | 'speaker_id'
+  | 'speaker_label'
+  | 'translation_cache_ids'
+>
+
+const EDITABLE_COLUMNS =
+  'id, session_id, original_text, reviewed_text, detected_language, created_at, speaker_id, speaker_label, translation_cache_ids'
+
+function getServiceSupabase(): SupabaseClient {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+}
+
+function getLineText(line: Pick<Transcript, 'original_text' | 'reviewed_text'>): string {
+  return (line.reviewed_text || line.original_text || '').trim()
+}
+
+export function normalizeEditedText(text: unknown): string | null {
+  if (typeof text !== 'string') return null
+  const trimmed = text.replace(/\s+/g, ' ').trim()
+  return trimmed && trimmed.length <= MAX_LINE_LENGTH ? trimmed : null
+}
+
+// 세션 호스트 id (세션이 없으면 null)
+export async function loadSessionHostId(
+  sessionId: string,
+  supabase: SupabaseClient = getServiceSupabase(),
+): Promise<string | null> {
+  const { data } = await supabase.from('sessions').select('host_id').eq('id', sessionId).maybeSingle()
+  return data?.host_id ?? null
+}
+
+async function loadLines(supabase: SupabaseClient, sessionId: string, ids: string[]): Promise<EditableTranscript[]> {
+  const { data, error } = await supabase
+    .from('transcripts')
+    .select(EDITABLE_COLUMNS)
+    .eq('session_id', sessionId)
+    .in('id', ids)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    console.error('❌ Transcript edit lookup error:', error)
+    throw new Error('Failed to load transcripts')
+  }
+  return (data || []) as EditableTranscript[]
+}
+
+async function recordEdits(
+  supabase: SupabaseClient,
+  edits: Omit<TranscriptEdit, 'id' | 'created_at'>[],
+): Promise<void> {
+  const { error } = await supabase.from('transcript_edits').insert(edits)
+  if (error) {
+    // 기록 실패로 수정 자체를 되돌리지는 않음
+    console.error('❌ Failed to record transcript edit history:', error)
+  }
+}
+
+// 고친 문장을 세션 대상 언어로 다시 번역 → 새 캐시 id 로 교체
+async function retranslateLine(
+  supabase: SupabaseClient,
+  line: EditableTranscript,
+  text: string,
+): Promise<Record<string, string>> {
+  const [{ data: session }, glossary, context] = await Promise.all([
+    supabase.from('sessions').select('target_languages, primary_language').eq('id', line.session_id).maybeSingle(),
+    loadSessionGlossary(supabase, line.session_id),
+    loadPrecedingLines(supabase, line.session_id, line.created_at, { excludeId: line.id }),
+  ])
+
+  const sourceLanguage = line.detected_language || detectSpokenLanguage(text, session?.primary_language)
+  const targetLanguages = getSessionTargetLanguages(session).filter((lang) => lang !== sourceLanguage)
+  if (targetLanguages.length === 0) return {}
+
+  const retranslateStart = Date.now()
+  const results = await performBatchTranslation(text, targetLanguages, { glossary, context })
+  const cacheIds = await saveBatchTranslationsToCache(text, results, { glossary })
+  console.log(
+    `🌍 Re-translated edited line ${line.id} → ${Object.keys(cacheIds).join(', ')} (${Date.now() - retranslateStart}ms)`,
+  )
+
+  return cacheIds
+}
+
+// 줄 텍스트 교체 + 재번역 (edit / merge 공통)
+async function rewriteLine(supabase: SupabaseClient, line: EditableTranscript, text: string): Promise<Transcript> {
+  // 1. 고친 문장을 먼저 반영 → 청중에게 reviewed 이벤트로 바로 전달
+  const { error: textError } = await supabase
+    .from('transcripts')
+    .update({
+      reviewed_text: text,
+      review_status: 'completed',
+      translation_status: 'processing',
+      edited_at: new Date().toISOString(),
+    })
+    .eq('id', line.id)
+
+  if (textError) {
+    console.error('❌ Transcript edit update error:', textError)
+    throw new Error('Failed to update transcript')
+  }
+
+  // 2. 재번역 후 캐시 id 교체 → translated 이벤트 (실패하면 기존 번역 유지)
+  let cacheIds: Record<string, string> = {}
+  try {
+    cacheIds = await retranslateLine(supabase, line, text)
+  } catch (translationError) {
+    console.error(`❌ Re-translation failed for edited line ${line.id}:`, translationError)
+  }
+
+  const { data, error } = await supabase
+    .from('transcripts')
+    .update({
+      ...(Object.keys(cacheIds).length > 0 && { translation_cache_ids: cacheIds }),
+      translation_status: Object.keys(cacheIds).length > 0 ? 'completed' : 'failed',
+    })
+    .eq('id', line.id)
+    .select()
+    .single()
+
+  if (error || !data) {
+    console.error('❌ Transcript translation update error:', error)
+    throw new Error('Failed to update transcript')
+  }
+
+  return data as Transcript
+}
+
+// 줄 하나 고치기 (줄이 없으면 null)
+export async function editTranscriptLine(
+  sessionId: string,
+  transcriptId: string,
+  text: string,
+  editedBy: string,
+  supabase: SupabaseClient = getServiceSupabase(),
+): Promise<TranscriptEditResult | null> {
+  const [line] = await loadLines(supabase, sessionId, [transcriptId])
+  if (!line) return null
+
+  const previousText = getLineText(line)
+  if (previousText === text) {
+    return { action: 'edit', removedIds: [] }
+  }
+
+  const transcript = await rewriteLine(supabase, line, text)
+  await recordEdits(supabase, [
+    {
+      session_id: sessionId,
+      transcript_id: line.id,
+      action: 'edit',
+      previous_text: previousText,
+      new_text: text,
+      edited_by: editedBy,
+    },
+  ])
+
+  console.log(`✏️ Transcript ${line.id} edited by host: "${text.substring(0, 50)}..."`)
+  return { action: 'edit', transcript, removedIds: [] }
+}
+
+// 이어진 줄 합치기 - 첫 줄에 텍스트를 모으고 나머지는 삭제
+// 줄이 없으면 null, 합칠 수 없는 줄이면 { error } (라우트에서 400)
+export async function mergeTranscriptLines(
+  sessionId: string,
+  transcriptIds: string[],
+  editedBy: string,
+  supabase: SupabaseClient = getServiceSupabase(),
+): Promise<TranscriptEditResult | { error: string } | null> {
+  const uniqueIds = Array.from(new Set(transcriptIds))
+  if (uniqueIds.length < 2) {
+    return { error: 'Select at least two lines to merge' }
+  }
+
+  const lines = await loadLines(supabase, sessionId, uniqueIds)
+  if (lines.length !== uniqueIds.length) return null
+
+  // 연속된 줄인지 확인: 첫 줄 ~ 마지막 줄 시각 사이에 고른 줄 말고 다른 줄이 없어야 함
+  // (🆕 세션 전체 순서를 읽지 않음 - 1000 줄이 넘는 세션도 그 구간만 셈)
+  const { count, error: orderError } = await supabase
+    .from('transcripts')
+    .select('id', { count: 'exact', head: true })
+    .eq('session_id', sessionId)
+    .gte('created_at', lines[0].created_at)
+    .lte('created_at', lines[lines.length - 1].created_at)
+
+  if (orderError || count === null) {
+    console.error('❌ Transcript order lookup error:', orderError)
+    throw new Error('Failed to load transcripts')
+  }
+
+  if (count !== lines.length) {
+    return { error: 'Only adjacent lines can be merged' }
+  }
+
+  if (new Set(lines.map(getSpeakerKey)).size > 1) {
+    return { error: 'Lines from different speakers cannot be merged' }
+  }
+
+  const [kept, ...removed] = lines
+  const mergedText = lines.map(getLineText).filter(Boolean).join(' ')
+  const removedIds = removed.map((line) => line.id)
+
+  // 남길 줄을 먼저 고친 뒤 나머지를 지움 (고치다 실패해도 합칠 줄의 내용이 사라지지 않게)
+  const transcript = await rewriteLine(supabase, kept, mergedText)
+
+  const { error: deleteError } = await supabase.from('transcripts').delete().in('id', removedIds)
+  if (deleteError) {
+    console.error('❌ Transcript merge delete error:', deleteError)
+    throw new Error('Failed to merge transcripts')
+  }
+
+  publishCaptionRemoval(sessionId, removedIds).catch((error) => {
+    console.error('❌ Failed to publish merged line removal:', error)
+  })
+
+  await recordEdits(supabase, [
+    {
+      session_id: sessionId,
+      transcript_id: kept.id,
+      action: 'merge',
+      previous_text: getLineText(kept),
+      new_text: mergedText,
+      merged_transcript_ids: removedIds,
+      edited_by: editedBy,
+    },
+    ...removed.map((line) => ({
+      session_id: sessionId,
+      transcript_id: line.id,
+      action: 'merge' as TranscriptEditAction,
+      previous_text: getLineText(line),
+      new_text: null,
+      merged_transcript_ids: [kept.id],
+      edited_by: editedBy,
+    })),
+  ])
+
+  console.log(`🔗 Merged ${lines.length} transcript lines into ${kept.id}`)
+  return { action: 'merge', transcript, removedIds }
+}
+
+// 줄 삭제 (줄이 없으면 null)
+export async function deleteTranscriptLine(
+  sessionId: string,
+  transcriptId: string,
+  editedBy: string,
+  supabase: SupabaseClient = getServiceSupabase(),
+): Promise<TranscriptEditResult | null> {
+  const [line] = await loadLines(supabase, sessionId, [transcriptId])
+  if (!line) return null
+
+  const { error } = await supabase.from('transcripts').delete().eq('id', line.id)
+  if (error) {
+    console.error('❌ Transcript delete error:', error)
+    throw new Error('Failed to delete transcript')
+  }
+
+  publishCaptionRemoval(sessionId, [line.id]).catch((publishError) => {
+    console.error('❌ Failed to publish line removal:', publishError)
+  })
+
+  await recordEdits(supabase, [
+    {
+      session_id: sessionId,
+      transcript_id: line.id,
+      action: 'delete',
+      previous_text: getLineText(line),
+      new_text: null,
+      edited_by: editedBy,
+    },
+  ])
+
+  console.log(`🗑️ Transcript ${line.id} deleted by host`)
+  return { action: 'delete', removedIds: [line.id] }
+}
+
+// 줄 하나의 수정 기록 (최신순)
+export async function loadTranscriptEdits(
+  sessionId: string,
+  transcriptId: string,
+  supabase: SupabaseClient = getServiceSupabase(),
+): Promise<TranscriptEdit[]> {
+  const { data, error } = await supabase
+    .from('transcript_edits')
+    .select('*')
+    .eq('session_id', sessionId)
+    .eq('transcript_id', transcriptId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('❌ Transcript edit history load error:', error)
+    throw new Error('Failed to load edit history')
+  }
+  return (data || []) as TranscriptEdit[]
+}
@@ -6,6 +6,9 @@ export interface Transcript {
   created_at: string
   session_id: string
   user_id: string | null
+  speaker_id?: string | null // 🆕 공동 발표자 (lib/speakers.ts)
+  speaker_label?: string | null
+  audio_offset_ms?: number | null // 🆕 세션 녹음 위치 (ms)
 }
 
 export async function loadSessionTranscripts(sessionId: string, token: Promise<string | null>) {
@@ -25,10 +28,11 @@ export async function loadSessionTranscripts(sessionId: string, token: Promise<s
   // 🆕 검수된 원문 텍스트로 업데이트
   const updatedTranscripts = await Promise.all(
     (transcripts || []).map(async (t) => {
-      let originalText = t.original_text
+      // 🆕 호스트가 고친 줄은 reviewed_text 가 최종 문장
+      let originalText = t.edited_at && t.reviewed_text ? t.reviewed_text : t.original_text
       
       // translation_cache_ids가 있으면 검수된 텍스트 가져오기
-      if (t.translation_cache_ids && t.translation_cache_ids.en) {
+      if (!t.edited_at && t.translation_cache_ids && t.translation_cache_ids.en) {
         try {
           const { data: reviewedCache } = await supabase
             .from('translation_cache')
@@ -0,0 +1,226 @@
+// 🆕 호스트 녹음 outbox (브라우저 IndexedDB)
+// final 조각 / flush / end 메시지를 먼저 IndexedDB 에 쌓고 순서대로 /api/stt-stream 에 보낸다.
+// 네트워크가 끊기면 멈췄다가 online 이벤트나 재시도 타이머로 이어서 보낸다 (새로고침해도 남아 있음).
+// 조각마다 capturedAt(발화 시각)과 idempotencyKey 를 함께 저장 → 늦게 보내도 타임라인이 맞고 중복 저장되지 않는다.
+// IndexedDB 를 쓸 수 없으면 메모리 큐로 동작한다.
+
+export type OutboxMessageType = 'transcript' | 'flush' | 'end'
+
+export interface OutboxMessage {
+  id?: number // IndexedDB auto increment (보낸 순서)
+  type: OutboxMessageType
+  sessionId: string
+  speakerId?: string
+  transcript?: string
+  sequence?: number
+  idempotencyKey?: string
+  capturedAt: number // 발화 시각 (ms)
+  attempts: number
+}
+
+const DB_NAME = 'onvoice-transcript-outbox'
+const STORE_NAME = 'messages'
+const ENDPOINT = '/api/stt-stream'
+const MAX_RETRY_DELAY = 30000
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDatabase(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null)
+
+  return new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      console.warn('⚠️ IndexedDB unavailable, using in-memory transcript outbox:', request.error)
+      resolve(null)
+    }
+  })
+}
+
+export class TranscriptOutbox {
+  private database: Promise<IDBDatabase | null> | null = null
+  private memory: OutboxMessage[] = []
+  private nextMemoryId = 1
+  private flushing = false
+  private flushRequested = false // flush 중에 다시 요청됨 (끝난 뒤 한 번 더 확인)
+  private retryTimer: ReturnType<typeof setTimeout> | null = null
+  private listeners = new Set<(pending: number) => void>()
+
+  private handleOnline = () => {
+    console.log('🌐 Back online, resending transcript outbox')
+    this.flush()
+  }
+
+  private getDatabase() {
+    if (!this.database) this.database = openDatabase()
+    return this.database
+  }
+
+  private async store(mode: IDBTransactionMode) {
+    const database = await this.getDatabase()
+    return database ? database.transaction(STORE_NAME, mode).objectStore(STORE_NAME) : null
+  }
+
+  // 남아 있는 메시지(이전 페이지에서 못 보낸 것 포함) 전송 시작
+  start() {
+    window.addEventListener('online', this.handleOnline)
+    this.flush()
+  }
+
+  stop() {
+    window.removeEventListener('online', this.handleOnline)
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer)
+      this.retryTimer = null
+    }
+  }
+
+  // 대기 중인 조각 수 변경 알림 (호스트 화면 표시용)
+  subscribe(listener: (pending: number) => void) {
+    this.listeners.add(listener)
+    this.pendingCount().then(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  async pendingCount(): Promise<number> {
+    const store = await this.store('readonly')
+    const messages = store ? await requestToPromise(store.getAll() as IDBRequest<OutboxMessage[]>) : this.memory
+    return messages.filter((message) => message.type === 'transcript').length
+  }
+
+  async enqueue(message: Omit<OutboxMessage, 'id' | 'attempts'>) {
+    const entry: OutboxMessage = { ...message, attempts: 0 }
+    const store = await this.store('readwrite')
+    if (store) {
+      await requestToPromise(store.add(entry))
+    } else {
+      this.memory.push({ ...entry, id: this.nextMemoryId++ })
+    }
+
+    await this.notify()
+    this.flush()
+  }
+
+  private async notify() {
+    if (this.listeners.size === 0) return
+    const pending = await this.pendingCount()
+    this.listeners.forEach((listener) => listener(pending))
+  }
+
+  private async peek(): Promise<OutboxMessage | undefined> {
+    const store = await this.store('readonly')
+    if (!store) return this.memory[0]
+
+    const cursor = await requestToPromise(store.openCursor())
+    return cursor ? (cursor.value as OutboxMessage) : undefined
+  }
+
+  private async remove(id: number) {
+    const store = await this.store('readwrite')
+    if (store) {
+      await requestToPromise(store.delete(id))
+    } else {
+      this.memory = this.memory.filter((message) => message.id !== id)
+    }
+  }
+
+  private async update(message: OutboxMessage) {
+    const store = await this.store('readwrite')
+    if (store) {
+      await requestToPromise(store.put(message))
+    }
+  }
+
+  // 실패 시 true (다음 메시지로 넘어가지 않고 재시도 대기)
+  private async send(message: OutboxMessage): Promise<boolean> {
+    const body =
+      message.type === 'transcript'
+        ? {
+            type: 'transcript',
+            sessionId: message.sessionId,
+            speakerId: message.speakerId,
+            transcript: message.transcript,
+            isPartial: false,
+            sequence: message.sequence,
+            idempotencyKey: message.idempotencyKey,
+            capturedAt: message.capturedAt,
+          }
+        : { type: message.type, sessionId: message.sessionId, speakerId: message.speakerId }
+
+    try {
+      const response = await fetch(ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+
+      if (response.status >= 500) {
+        console.warn(`⚠️ Outbox ${message.type} #${message.sequence ?? '-'} failed (${response.status}), will retry`)
+        return true
+      }
+      if (!response.ok) {
+        // 4xx 는 다시 보내도 실패하므로 버림
+        console.error(`❌ Outbox ${message.type} #${message.sequence ?? '-'} rejected (${response.status}), dropping`)
+      }
+      return false
+    } catch (error) {
+      console.warn(`⚠️ Outbox ${message.type} #${message.sequence ?? '-'} network error, will retry`, error)
+      return true
+    }
+  }
+
+  // 쌓인 순서대로 전송 (한 번에 하나만 실행)
+  async flush() {
+    if (this.flushing) {
+      this.flushRequested = true
+      return
+    }
+    this.flushing = true
+    this.flushRequested = false
+
+    try {
+      let message = await this.peek()
+      while (message) {
+        if (await this.send(message)) {
+          message.attempts += 1
+          await this.update(message)
+          this.scheduleRetry(message.attempts)
+          return
+        }
+
+        await this.remove(message.id!)
+        await this.notify()
+        message = await this.peek()
+      }
+    } catch (error) {
+      console.error('❌ Transcript outbox flush error:', error)
+    } finally {
+      this.flushing = false
+    }
+
+    // 마지막 peek 뒤에 enqueue 된 메시지가 남지 않도록 다시 확인 (재시도 대기 중이면 타이머에 맡김)
+    if (this.flushRequested && !this.retryTimer) {
+      this.flush()
+    }
+  }
+
+  private scheduleRetry(attempts: number) {
+    if (this.retryTimer) clearTimeout(this.retryTimer)
+    const delay = Math.min(MAX_RETRY_DELAY, 1000 * 2 ** Math.min(attempts, 5))
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null
+      this.flush()
+    }, delay)
+  }
+}
@@ -0,0 +1,235 @@
+import { formatChapterTime } from './chapters'
+import type { ChatCitation } from './types'
+
+// 🆕 세션 챗봇용 transcript 검색 (BM25)
+// 전체 transcript 를 프롬프트에 넣는 대신, 줄을 묶은 조각(chunk)을 색인하고 질문과 관련된 조각만 모델에 보낸다.
+// 각 줄에는 세션 순서 번호(ref)를 붙여 모델이 [L12] 처럼 인용하게 하고, 인용은 transcript id 로 되돌린다.
+// 요청마다 메모리에서 새로 색인 (DB / 외부 검색 서비스 없음)
+
+export const RETRIEVAL_CHUNK_CHARS = 800 // 조각 하나의 목표 길이
+export const RETRIEVAL_MAX_CONTEXT_CHARS = 9000 // 프롬프트에 넣는 transcript 최대 길이
+export const RETRIEVAL_MAX_CHUNKS = 8
+
+// BM25 파라미터
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+// prettier-ignore
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'did', 'do', 'does', 'for', 'from', 'had', 'has',
+  'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'our',
+  'she', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'up', 'was', 'we',
+  'were', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your', 'about', 'said',
+  'say', 'says', 'tell', 'explain', 'mention', 'mentioned', 'talk', 'talked', 'session', 'lecture', 'speaker',
+])
+
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u
+
+export interface RetrievalLine {
+  ref: number // 세션 순서 번호 (1부터) - 모델이 인용하는 번호
+  transcriptId: string
+  text: string // reviewed_text || original_text
+  translation?: string // 질문 언어 번역 (있으면 같이 색인 - 다른 언어로 물어도 찾도록)
+  speaker?: string
+  offsetMs: number // 세션 시작 기준
+}
+
+interface TranscriptChunk {
+  lines: RetrievalLine[]
+  terms: Map<string, number> // 단어 → 조각 안 출현 횟수
+  length: number // 단어 수
+  chars: number
+}
+
+export interface TranscriptIndex {
+  lines: RetrievalLine[]
+  chunks: TranscriptChunk[]
+  documentFrequency: Map<string, number> // 단어 → 그 단어가 있는 조각 수
+  averageLength: number
+}
+
+export interface TranscriptPassage {
+  lines: RetrievalLine[] // 연속된 줄 (ref 순)
+  score: number
+}
+
+export interface TranscriptRetrievalResult {
+  passages: TranscriptPassage[]
+  mode: 'full' | 'search' | 'coverage' // 전체 / 검색 결과 / 검색 결과가 없어 세션 전체에서 고르게
+}
+
+// 영어 등은 단어(불용어 제외, 간단한 복수형 정리), 한중일은 띄어쓰기 / 조사 때문에 2글자 단위
+export function tokenizeForRetrieval(text: string): string[] {
+  const tokens: string[] = []
+  for (const word of text
+    .normalize('NFKC')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || []) {
+    if (CJK_PATTERN.test(word)) {
+      if (word.length === 1) tokens.push(word)
+      for (let i = 0; i < word.length - 1; i++) tokens.push(word.slice(i, i + 2))
+    } else if (word.length > 1 && !STOP_WORDS.has(word)) {
+      tokens.push(word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word)
+    }
+  }
+  return tokens
+}
+
+function countTerms(tokens: string[]): Map<string, number> {
+  const terms = new Map<string, number>()
+  tokens.forEach((token) => terms.set(token, (terms.get(token) || 0) + 1))
+  return terms
+}
+
+function createChunk(lines: RetrievalLine[]): TranscriptChunk {
+  const text = lines.map((line) => [line.speaker, line.text, line.translation].filter(Boolean).join(' ')).join('\n')
+  const tokens = tokenizeForRetrieval(text)
+  return {
+    lines,
+    terms: countTerms(tokens),
+    length: tokens.length,
+    chars: lines.reduce((sum, line) => sum + line.text.length, 0),
+  }
+}
+
+// 줄을 순서대로 묶어 조각으로 나눈다. 이웃 조각과 한 줄씩 겹쳐 조각 경계에서 문맥이 끊기지 않게 함
+export function buildTranscriptIndex(lines: RetrievalLine[]): TranscriptIndex {
+  const chunks: TranscriptChunk[] = []
+  let current: RetrievalLine[] = []
+  let chars = 0
+
+  lines.forEach((line) => {
+    current.push(line)
+    chars += line.text.length
+    if (chars >= RETRIEVAL_CHUNK_CHARS) {
+      chunks.push(createChunk(current))
+      current = [line]
+      chars = line.text.length
+    }
+  })
+  if (current.length > 1 || chunks.length === 0) chunks.push(createChunk(current))
+
+  const documentFrequency = new Map<string, number>()
+  chunks.forEach((chunk) =>
+    chunk.terms.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)),
+  )
+
+  return {
+    lines,
+    chunks,
+    documentFrequency,
+    averageLength: chunks.reduce((sum, chunk) => sum + chunk.length, 0) / Math.max(chunks.length, 1),
+  }
+}
+
+function scoreChunk(index: TranscriptIndex, chunk: TranscriptChunk, queryTerms: string[]): number {
+  const total = index.chunks.length
+  return queryTerms.reduce((score, term) => {
+    const frequency = chunk.terms.get(term)
+    if (!frequency) return score
+    const df = index.documentFrequency.get(term) || 0
+    const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5))
+    const norm = BM25_K1 * (1 - BM25_B + BM25_B * (chunk.length / (index.averageLength || 1)))
+    return score + idf * ((frequency * (BM25_K1 + 1)) / (frequency + norm))
+  }, 0)
+}
+
+// 고른 조각의 줄을 모아 연속된 구간(passage)으로 합친다 (겹치는 줄은 한 번만)
+function toPassages(selected: { chunk: TranscriptChunk; score: number }[]): TranscriptPassage[] {
+  const scores = new Map<number, number>()
+  const lines = new Map<number, RetrievalLine>()
+  selected.forEach(({ chunk, score }) =>
+    chunk.lines.forEach((line) => {
+      lines.set(line.ref, line)
+      scores.set(line.ref, Math.max(scores.get(line.ref) || 0, score))
+    }),
+  )
+
+  const passages: TranscriptPassage[] = []
+  Array.from(lines.values())
+    .sort((a, b) => a.ref - b.ref)
+    .forEach((line) => {
+      const last = passages[passages.length - 1]
+      const score = scores.get(line.ref) || 0
+      if (last && last.lines[last.lines.length - 1].ref === line.ref - 1) {
+        last.lines.push(line)
+        last.score = Math.max(last.score, score)
+      } else {
+        passages.push({ lines: [line], score })
+      }
+    })
+  return passages
+}
+
+// 질문과 관련된 구간 검색
+// - 전체가 짧으면 검색 없이 전부
+// - 맞는 조각이 없으면 ("전체 요약해줘" 같은 질문) 세션 전체에서 고르게 뽑아 흐름을 볼 수 있게 함
+export function retrieveTranscriptPassages(
+  index: TranscriptIndex,
+  query: string,
+  options: { maxChars?: number; maxChunks?: number } = {},
+): TranscriptRetrievalResult {
+  const { maxChars = RETRIEVAL_MAX_CONTEXT_CHARS, maxChunks = RETRIEVAL_MAX_CHUNKS } = options
+  const totalChars = index.lines.reduce((sum, line) => sum + line.text.length, 0)
+
+  if (index.lines.length === 0) return { passages: [], mode: 'full' }
+  if (totalChars <= maxChars) {
+    return { passages: toPassages(index.chunks.map((chunk) => ({ chunk, score: 0 }))), mode: 'full' }
+  }
+
+  const queryTerms = Array.from(new Set(tokenizeForRetrieval(query)))
+  const ranked = index.chunks
+    .map((chunk) => ({ chunk, score: scoreChunk(index, chunk, queryTerms) }))
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score)
+
+  const selected: { chunk: TranscriptChunk; score: number }[] = []
+  let chars = 0
+  const take = (item: { chunk: TranscriptChunk; score: number }) => {
+    if (selected.length >= maxChunks || chars + item.chunk.chars > maxChars) return
+    selected.push(item)
+    chars += item.chunk.chars
+  }
+
+  if (ranked.length > 0) {
+    ranked.forEach(take)
+    return { passages: toPassages(selected), mode: 'search' }
+  }
+
+  const step = index.chunks.length / maxChunks
+  for (let i = 0; i < maxChunks && i * step < index.chunks.length; i++) {
+    take({ chunk: index.chunks[Math.floor(i * step)], score: 0 })
+  }
+  return { passages: toPassages(selected), mode: 'coverage' }
+}
+
+// 프롬프트용 구간 텍스트: "[L12] 5:31 Speaker: text"
+export function formatPassagesForPrompt(passages: TranscriptPassage[]): string {
+  return passages
+    .map((passage, index) => {
+      const first = passage.lines[0]
+      const last = passage.lines[passage.lines.length - 1]
+      const header = `--- Excerpt ${index + 1} (${formatChapterTime(first.offsetMs)}-${formatChapterTime(last.offsetMs)}) ---`
+      const body = passage.lines
+        .map(
+          (line) =>
+            `[L${line.ref}] ${formatChapterTime(line.offsetMs)} ${line.speaker ? `${line.speaker}: ` : ''}${line.text}`,
+        )
+        .join('\n')
+      return `${header}\n${body}`
+    })
+    .join('\n\n')
+}
+
+// 클라이언트로 보내는 인용 목록 (모델에 보낸 줄 전부 - 클라이언트는 답변에 나온 번호만 사용)
+export function getPassageCitations(passages: TranscriptPassage[]): ChatCitation[] {
+  return passages.flatMap((passage) =>
+    passage.lines.map((line) => ({
+      ref: line.ref,
+      transcriptId: line.transcriptId,
+      text: line.text.substring(0, 200),
+      offsetMs: line.offsetMs,
+      speaker: line.speaker || null,
+    })),
+  )
+}
@@ -0,0 +1,113 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { reviewAndTranslate, type ReviewLLMClient } from './transcript-review'
+
+// 🆕 reviewAndTranslate 테스트 (Gemini 대신 stub ReviewLLMClient 주입, DB / 네트워크 없음)
+
+function createStubClient(response: string) {
+  const calls: { prompt: string; options: { temperature: number; maxOutputTokens: number } }[] = []
+  const client: ReviewLLMClient = {
+    name: 'stub',
+    async generate(prompt, options) {
+      calls.push({ prompt, options })
+      return response
+    },
+  }
+  return { client, calls }
+}
+
+test('reviews and translates to every target language except the spoken one', async () => {
+  const { client, calls } = createStubClient(
+    JSON.stringify({
+      reviewedText: 'Hello everyone, welcome to the lecture.',
+      translations: { ko: '여러분 안녕하세요, 강의에 오신 것을 환영합니다.', ja: 'みなさん、こんにちは。' },
+      quality: 0.92,
+    }),
+  )
+
+  const result = await reviewAndTranslate('hello everyone welcome to the lecture', {
+    targetLanguages: ['en', 'ko', 'ja'],
+    detectedLanguage: 'en',
+    llmClient: client,
+  })
+
+  assert.equal(calls.length, 1)
+  assert.match(calls[0].prompt, /Original text: "hello everyone welcome to the lecture"/)
+  assert.match(calls[0].prompt, /"ko": "Korean translation here"/)
+  assert.doesNotMatch(calls[0].prompt, /"en": /)
+  assert.equal(calls[0].options.temperature, 0.3)
+
+  assert.deepEqual(result, {
+    reviewedText: 'Hello everyone, welcome to the lecture.',
+    translations: { ko: '여러분 안녕하세요, 강의에 오신 것을 환영합니다.', ja: 'みなさん、こんにちは。' },
+    quality: 0.92,
+    detectedLanguage: 'en',
+  })
+})
+
+test('detects the spoken language when none is given', async () => {
+  const { client, calls } = createStubClient(
+    JSON.stringify({
+      reviewedText: '오늘 회의를 시작하겠습니다.',
+      translations: { en: "Let's start today's meeting." },
+    }),
+  )
+
+  const result = await reviewAndTranslate('오늘 회의를 시작하겠습니다', {
+    targetLanguages: ['ko', 'en'],
+    llmClient: client,
+  })
+
+  assert.equal(result.detectedLanguage, 'ko')
+  assert.match(calls[0].prompt, /raw text straight from STT in Korean/)
+  assert.deepEqual(result.translations, { en: "Let's start today's meeting." })
+  assert.equal(result.quality, 0.9) // 응답에 quality 가 없으면 기본값
+})
+
+test('accepts a fenced JSON response and drops unrequested or empty translations', async () => {
+  const { client } = createStubClient(
+    '```json\n' +
+      JSON.stringify({
+        reviewedText: 'Good morning.',
+        translations: { ko: '좋은 아침입니다.', fr: 'Bonjour.', ja: ' ' },
+      }) +
+      '\n```',
+  )
+
+  const result = await reviewAndTranslate('good morning', {
+    targetLanguages: ['ko', 'ja'],
+    detectedLanguage: 'en',
+    llmClient: client,
+  })
+
+  assert.deepEqual(result.translations, { ko: '좋은 아침입니다.' })
+})
+
+test('applies glossary spellings and fixed translations after the LLM response', async () => {
+  const { client, calls } = createStubClient(
+    JSON.stringify({
+      reviewedText: 'My Combinator demo day starts now.',
+      translations: { ko: 'My Combinator 데모 데이가 지금 시작합니다.' },
+    }),
+  )
+
+  const result = await reviewAndTranslate('my combinator demo day starts now', {
+    targetLanguages: ['ko'],
+    detectedLanguage: 'en',
+    glossary: [{ term: 'Y Combinator', aliases: ['My Combinator'], translations: { ko: '와이 콤비네이터' } }],
+    llmClient: client,
+  })
+
+  assert.match(calls[0].prompt, /- Y Combinator \(ko: 와이 콤비네이터\), often misheard as "My Combinator"/)
+  assert.equal(result.reviewedText, 'Y Combinator demo day starts now.')
+  assert.equal(result.translations.ko, '와이 콤비네이터 데모 데이가 지금 시작합니다.')
+})
+
+test('rejects a response that is not JSON', async () => {
+  const { client } = createStubClient('Sorry, I cannot help with that.')
+
+  await assert.rejects(
+    reviewAndTranslate('hello', { targetLanguages: ['ko'], detectedLanguage: 'en', llmClient: client }),
+    /Failed to parse review response/,
+  )
+})
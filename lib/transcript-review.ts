@@ -0,0 +1,527 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { saveTranslationToCache, getTranslationCacheVariant, ALL_SUPPORTED_LANGUAGES } from './translation-cache'
+import { GEMINI_LANGUAGE_NAMES } from './translation-providers'
+import { getSessionTargetLanguages } from './languages'
+import { detectSpokenLanguage } from './language-id'
+import { buildContextPromptSection, loadPrecedingLines } from './translation-context'
+import { applyGlossarySpelling, enforceGlossaryTranslations, loadSessionGlossary } from './glossary'
+import { noteLiveSummaryLine } from './live-summary'
+import type { GlossaryEntry, Session } from './types'
+
+// 🆕 STT 검수 + 번역 + 캐시 저장을 한 곳에서 처리하는 서버 모듈
+// stt-stream / stt-review 라우트가 공통으로 사용한다.
+
+// LLM 호출부 (테스트에서는 mock 클라이언트를 주입)
+export interface ReviewLLMClient {
+  name: string
+  generate(prompt: string, options: { temperature: number; maxOutputTokens: number }): Promise<string>
+}
+
+export interface ReviewAndTranslateOptions {
+  targetLanguages?: string[] // 번역 대상 언어 (입력 언어는 자동 제외)
+  glossary?: GlossaryEntry[]
+  category?: Session['category']
+  detectedLanguage?: string // 미지정 시 로컬 언어 식별로 감지
+  primaryLanguage?: string // 🆕 감지 confidence 가 낮을 때 사용할 세션 주 언어
+  context?: string[] // 🆕 같은 세션의 직전 줄 (검수 / 번역하지 않고 문맥으로만 사용)
+  llmClient?: ReviewLLMClient
+}
+
+export interface ReviewAndTranslateResult {
+  reviewedText: string
+  detectedLanguage: string
+  translations: Record<string, string>
+  quality: number
+}
+
+export interface TranscriptReviewResult extends ReviewAndTranslateResult {
+  transcriptId: string
+  cacheIds: Record<string, string>
+  reviewTime: number
+}
+
+// Gemini 클라이언트 (기본값)
+export const geminiReviewClient: ReviewLLMClient = {
+  name: 'gemini',
+  async generate(prompt, { temperature, maxOutputTokens }) {
+    const geminiApiKey = process.env.GEMINI_API_KEY
+    if (!geminiApiKey) {
+      throw new Error('Gemini API key not found')
+    }
+
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${geminiApiKey}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          contents: [
+            {
+              parts: [
+                {
+                  text: prompt,
+                },
+              ],
+            },
+          ],
+          generationConfig: {
+            temperature,
+            maxOutputTokens,
+          },
+        }),
+      },
+    )
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('Gemini API error:', response.status, errorText)
+      throw new Error('Gemini API request failed')
+    }
+
+    const data = await response.json()
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text
+    if (!text) {
+      throw new Error('Invalid Gemini response structure')
+    }
+
+    return text
+  },
+}
+
+function getLanguageName(code: string): string {
+  return GEMINI_LANGUAGE_NAMES[code] || code
+}
+
+// 검수 + 번역 프롬프트 구성
+export function buildReviewPrompt(
+  originalText: string,
+  detectedLanguage: string,
+  targetLanguages: string[],
+  glossary: GlossaryEntry[] = [],
+  category?: Session['category'],
+  context: string[] = [],
+): string {
+  const inputLanguageName = getLanguageName(detectedLanguage)
+  const noiseExamples = detectedLanguage === 'en' ? ' like ah, emmm' : ''
+
+  let prompt = `Here is the raw text straight from STT in ${inputLanguageName}, fix the grammar and remove noise errors${noiseExamples} and add the punctuation to make it clear and easy to read.`
+
+  if (category && category !== 'general') {
+    prompt += `\nThis is from a live ${category} session, so keep ${category} terminology accurate.`
+  }
+
+  if (glossary.length > 0) {
+    const glossaryLines = glossary.map((entry) => {
+      const fixed = Object.entries(entry.translations || {})
+        .filter(([lang]) => targetLanguages.includes(lang))
+        .map(([lang, translation]) => `${lang}: ${translation}`)
+        .join(', ')
+      const misheard = entry.aliases?.length ? `, often misheard as "${entry.aliases.join('", "')}"` : ''
+      return `- ${entry.term}${fixed ? ` (${fixed})` : ''}${misheard}${entry.note ? ` - ${entry.note}` : ''}`
+    })
+    prompt += `\n\nGlossary (keep these spellings, and use the given translations exactly):\n${glossaryLines.join('\n')}`
+  }
+
+  if (targetLanguages.length > 0) {
+    prompt += `\n\nAlso translate the corrected text to ${targetLanguages.map(getLanguageName).join(', ')}.`
+  }
+
+  const contextSection = buildContextPromptSection(context)
+  if (contextSection) {
+    prompt += `\n\n${contextSection}`
+  }
+
+  prompt += `
+
+Original text: "${originalText}"
+
+Please return a JSON response with this exact format:
+{
+  "reviewedText": "corrected ${inputLanguageName} text here",
+  "translations": {
+    ${targetLanguages.map((lang) => `"${lang}": "${getLanguageName(lang)} translation here"`).join(',\n    ')}
+  },
+  "quality": 0.95
+}`
+
+  return prompt
+}
+
+// LLM 응답 파싱 (마크다운 코드 블록 제거)
+export function parseReviewResponse(
+  content: string,
+  originalText: string,
+  targetLanguages: string[],
+): Omit<ReviewAndTranslateResult, 'detectedLanguage'> {
+  let jsonContent = content.trim()
+
+  if (jsonContent.startsWith('```json')) {
+    jsonContent = jsonContent.replace(/^```json\s*/, '').replace(/\s*```$/, '')
+  } else if (jsonContent.startsWith('```')) {
+    jsonContent = jsonContent.replace(/^```\s*/, '').replace(/\s*```$/, '')
+  }
+
+  let result
+  try {
+    result = JSON.parse(jsonContent)
+  } catch (parseError) {
+    console.error('JSON parsing error:', parseError)
+    throw new Error('Failed to parse review response')
+  }
+
+  // 요청한 언어의 문자열 번역만 사용
+  const translations: Record<string, string> = {}
+  for (const [lang, translation] of Object.entries(result.translations || {})) {
+    if (typeof translation === 'string' && translation.trim() && targetLanguages.includes(lang)) {
+      translations[lang] = translation
+    }
+  }
+
+  return {
+    reviewedText: result.reviewedText || originalText,
+    translations,
+    quality: result.quality || 0.9,
+  }
+}
+
+// 검수 + 번역 (DB 접근 없음)
+export async function reviewAndTranslate(
+  originalText: string,
+  options: ReviewAndTranslateOptions = {},
+): Promise<ReviewAndTranslateResult> {
+  const {
+    targetLanguages = ALL_SUPPORTED_LANGUAGES,
+    glossary = [],
+    category,
+    primaryLanguage,
+    context = [],
+    llmClient = geminiReviewClient,
+  } = options
+  const detectedLanguage = options.detectedLanguage || detectSpokenLanguage(originalText, primaryLanguage)
+
+  // 입력 언어를 제외한 나머지 언어로 번역
+  const translateTo = targetLanguages.filter((lang) => lang !== detectedLanguage)
+  const prompt = buildReviewPrompt(originalText, detectedLanguage, translateTo, glossary, category, context)
+
+  console.log(
+    `🤖 ${llmClient.name} review + translation for: "${originalText.substring(0, 50)}..." (${detectedLanguage} → ${translateTo.join(', ')})`,
+  )
+
+  const content = await llmClient.generate(prompt, {
+    temperature: 0.3,
+    maxOutputTokens: Math.max(Math.ceil(originalText.length * 6), 1000),
+  })
+
+  const result = parseReviewResponse(content, originalText, translateTo)
+  console.log(`✅ ${llmClient.name} review + translation completed`)
+
+  // 🆕 용어집 후처리: LLM 이 놓친 표기 교정 + 고정 번역 강제
+  if (glossary.length > 0) {
+    result.reviewedText = applyGlossarySpelling(result.reviewedText, glossary)
+    for (const [lang, translation] of Object.entries(result.translations)) {
+      result.translations[lang] = enforceGlossaryTranslations(translation, result.reviewedText, lang, glossary)
+    }
+  }
+
+  return { ...result, detectedLanguage }
+}
+
+function getServiceSupabase(): SupabaseClient {
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+}
+
+// 세션 카테고리 / 대상 언어 / 용어집 / 주 언어 조회 (검수 프롬프트 컨텍스트용)
+export async function loadSessionReviewContext(
+  sessionId: string,
+  supabase: SupabaseClient = getServiceSupabase(),
+): Promise<Pick<ReviewAndTranslateOptions, 'category' | 'targetLanguages' | 'glossary' | 'primaryLanguage'>> {
+  const [{ data, error }, glossary] = await Promise.all([
+    supabase.from('sessions').select('category, target_languages, primary_language').eq('id', sessionId).single(),
+    loadSessionGlossary(supabase, sessionId),
+  ])
+
+  if (error || !data) {
+    console.warn(`⚠️ Could not load review context for session ${sessionId}:`, error?.message)
+    return { glossary }
+  }
+
+  return {
+    category: data.category,
+    targetLanguages: getSessionTargetLanguages(data),
+    glossary,
+    primaryLanguage: data.primary_language,
+  }
+}
+
+// transcript 한 줄 검수 + 번역 + 캐시 저장 + 상태 업데이트
+// 실패 시 review/translation 상태를 'failed' 로 바꾸고 에러를 다시 던진다.
+export async function reviewTranscript(
+  transcriptId: string,
+  originalText: string,
+  options: ReviewAndTranslateOptions & { supabase?: SupabaseClient } = {},
+): Promise<TranscriptReviewResult> {
+  const { supabase = getServiceSupabase(), ...reviewOptions } = options
+
+  await supabase
+    .from('transcripts')
+    .update({
+      review_status: 'processing',
+      translation_status: 'processing',
+      review_started_at: new Date().toISOString(),
+    })
+    .eq('id', transcriptId)
+
+  try {
+    const reviewStart = Date.now()
+    const result = await reviewAndTranslate(originalText, reviewOptions)
+    const reviewTime = Date.now() - reviewStart
+
+    // 1. transcripts 테이블에 검수된 텍스트 저장
+    const { error: updateError } = await supabase
+      .from('transcripts')
+      .update({
+        reviewed_text: result.reviewedText,
+        detected_language: result.detectedLanguage,
+        review_status: 'completed',
+      })
+      .eq('id', transcriptId)
+
+    if (updateError) {
+      console.error('❌ Error updating transcript with reviewed text:', updateError)
+      throw new Error('Failed to update transcript')
+    }
+
+    // 2. 번역 결과를 translation_cache에 저장하고 ID 수집
+    const cacheIds: Record<string, string> = {}
+    await Promise.all(
+      Object.entries(result.translations).map(async ([targetLang, translatedText]) => {
+        try {
+          const cacheId = await saveTranslationToCache(
+            result.reviewedText, // 검수된 텍스트를 원본으로 사용
+            targetLang,
+            translatedText,
+            'gemini-review',
+            result.quality,
+            getTranslationCacheVariant(result.reviewedText, targetLang, { glossary: reviewOptions.glossary }),
+          )
+
+          if (cacheId) {
+            cacheIds[targetLang] = cacheId
+            console.log(`✅ Cached translation: ${targetLang} (ID: ${cacheId})`)
+          }
+        } catch (cacheError) {
+          console.error(`❌ Cache error for ${targetLang}:`, cacheError)
+        }
+      }),
+    )
+
+    // 3. transcripts 테이블에 translation_cache_ids 업데이트
+    const { error: cacheIdsError } = await supabase
+      .from('transcripts')
+      .update({
+        ...(Object.keys(cacheIds).length > 0 && { translation_cache_ids: cacheIds }),
+        translation_status: 'completed',
+      })
+      .eq('id', transcriptId)
+
+    if (cacheIdsError) {
+      console.error('❌ Error updating translation_cache_ids:', cacheIdsError)
+    } else {
+      console.log(`✅ Transcript ${transcriptId} reviewed with ${Object.keys(cacheIds).length} cached translations`)
+    }
+
+    return { ...result, transcriptId, cacheIds, reviewTime }
+  } catch (error) {
+    console.error('❌ Review + translation failed:', error)
+
+    await supabase
+      .from('transcripts')
+      .update({
+        review_status: 'failed',
+        translation_status: 'failed',
+      })
+      .eq('id', transcriptId)
+
+    throw error
+  }
+}
+
+// 🆕 검수 lease - processing 상태로 이 시간이 지난 줄은 검수 중 서버가 죽은 것으로 보고 다시 검수
+// (after() 로 넘긴 검수가 실행되지 못한 경우 등)
+const REVIEW_LEASE_MS = 2 * 60 * 1000
+
+export interface SaveFinalTranscriptOptions {
+  createdAt?: Date // 발화 시각 (서버 STT 는 청크 녹음 시각을 사용해 순서를 보존)
+  detectedLanguage?: string
+  speakerId?: string // 🆕 공동 발표자 session_participants.id (호출 측에서 isSessionSpeaker 로 확인)
+  speakerLabel?: string // 🆕 서버 STT 화자 분리 라벨
+  idempotencyKey?: string // 🆕 같은 키로 다시 저장하면 기존 줄을 돌려줌 (stt-stream 재시도)
+  clientSequence?: number // 🆕 이 문장을 끝낸 클라이언트 조각 번호
+  // 🆕 있으면 검수 / 번역을 기다리지 않고 넘긴다 (stt-stream: next/server after() 로 응답 후 실행)
+  scheduleReview?: (task: () => Promise<unknown>) => void
+  supabase?: SupabaseClient
+}
+
+export interface SaveFinalTranscriptResult {
+  transcriptId: string
+  dbInsertTime: number
+  review?: TranscriptReviewResult
+  reviewError?: string
+  duplicate?: boolean // 🆕 idempotencyKey 로 이미 저장된 줄 (검수가 끝나지 않은 줄이면 검수 / 번역을 다시 실행)
+  reviewQueued?: boolean // 🆕 scheduleReview 로 넘겨서 아직 검수 중 (결과는 캡션 스트림으로 전달)
+}
+
+// 검수 + 번역 실행 (실패해도 transcript 는 저장된 상태이므로 reviewError 로 돌려줌)
+async function runFinalReview(
+  supabase: SupabaseClient,
+  sessionId: string,
+  transcriptId: string,
+  text: string,
+  createdAt: string,
+  detectedLanguage?: string,
+): Promise<Pick<SaveFinalTranscriptResult, 'review' | 'reviewError'>> {
+  try {
+    const [reviewContext, context] = await Promise.all([
+      loadSessionReviewContext(sessionId, supabase),
+      loadPrecedingLines(supabase, sessionId, createdAt, { excludeId: transcriptId }),
+    ])
+    const review = await reviewTranscript(transcriptId, text, {
+      ...reviewContext,
+      context,
+      detectedLanguage,
+      supabase,
+    })
+    return { review }
+  } catch (reviewError) {
+    // 검수 및 번역 실패해도 transcript 저장은 성공으로 처리 (상태는 reviewTranscript 에서 'failed' 로 변경)
+    return { reviewError: reviewError instanceof Error ? reviewError.message : 'Unknown error' }
+  }
+}
+
+// 🆕 final transcript 저장 + 검수 / 번역 (stt-stream, stt 라우트 공통)
+// 저장 실패는 에러를 던지고, 검수 실패는 reviewError 로 돌려준다 (transcript 는 저장된 상태).
+export async function saveFinalTranscript(
+  sessionId: string,
+  text: string,
+  options: SaveFinalTranscriptOptions = {},
+): Promise<SaveFinalTranscriptResult> {
+  const {
+    createdAt = new Date(),
+    detectedLanguage,
+    speakerId,
+    speakerLabel,
+    idempotencyKey,
+    clientSequence,
+    scheduleReview,
+    supabase = getServiceSupabase(),
+  } = options
+
+  const startReview = async (
+    transcriptId: string,
+    reviewText: string,
+    lineCreatedAt: string,
+    language?: string,
+  ): Promise<Pick<SaveFinalTranscriptResult, 'review' | 'reviewError' | 'reviewQueued'>> => {
+    if (!scheduleReview) {
+      return runFinalReview(supabase, sessionId, transcriptId, reviewText, lineCreatedAt, language)
+    }
+
+    scheduleReview(async () => {
+      const { reviewError } = await runFinalReview(
+        supabase,
+        sessionId,
+        transcriptId,
+        reviewText,
+        lineCreatedAt,
+        language,
+      )
+      if (reviewError) console.error(`❌ Background review failed for transcript ${transcriptId}:`, reviewError)
+    })
+    return { reviewQueued: true }
+  }
+
+  const dbInsertStart = Date.now()
+  console.log(`💾 Inserting transcript to DB: "${text.substring(0, 50)}..."`)
+
+  const row = {
+    session_id: sessionId,
+    timestamp: createdAt.toLocaleTimeString(),
+    original_text: text,
+    created_at: createdAt.toISOString(),
+    is_final: true,
+    speaker_id: speakerId || null,
+    speaker_label: speakerLabel || null,
+    ...(idempotencyKey && { idempotency_key: idempotencyKey, client_sequence: clientSequence ?? null }),
+    // 🆕 저장한 요청이 바로 검수하므로 lease 를 잡은 상태로 저장 (같은 키의 재시도가 중복 검수하지 않도록)
+    review_status: 'processing',
+    review_started_at: new Date().toISOString(),
+    translation_status: 'pending', // 번역 대기 상태로 설정
+  }
+
+  // 🆕 idempotencyKey 가 있으면 upsert (이미 있는 키는 무시) → 재시도해도 한 줄만 저장
+  const { data, error: insertError } = idempotencyKey
+    ? await supabase
+        .from('transcripts')
+        .upsert([row], { onConflict: 'idempotency_key', ignoreDuplicates: true })
+        .select()
+    : await supabase.from('transcripts').insert([row]).select()
+
+  const dbInsertTime = Date.now() - dbInsertStart
+
+  if (!insertError && idempotencyKey && data?.length === 0) {
+    const { data: existing } = await supabase
+      .from('transcripts')
+      .select('id, original_text, created_at, detected_language, review_status')
+      .eq('idempotency_key', idempotencyKey)
+      .maybeSingle()
+
+    if (existing) {
+      // 🆕 처음 요청이 검수 전에 끊겼거나(lease 만료) 검수가 실패한 줄은 재시도 때 다시 검수
+      // 조건부 update 한 번으로 lease 를 잡으므로, 동시에 온 재시도나 아직 검수 중인 처음 요청과 겹치지 않는다
+      if (existing.review_status !== 'completed') {
+        const leaseExpiredBefore = new Date(Date.now() - REVIEW_LEASE_MS).toISOString()
+        const { data: claimed } = await supabase
+          .from('transcripts')
+          .update({ review_status: 'processing', review_started_at: new Date().toISOString() })
+          .eq('id', existing.id)
+          .or(
+            `review_status.in.(pending,failed),and(review_status.eq.processing,review_started_at.is.null),and(review_status.eq.processing,review_started_at.lt."${leaseExpiredBefore}")`,
+          )
+          .select('id')
+
+        if (claimed && claimed.length > 0) {
+          console.log(
+            `🔁 Transcript ${existing.id} was saved for key ${idempotencyKey} but not reviewed, reviewing again`,
+          )
+          const reviewResult = await startReview(
+            existing.id,
+            existing.original_text,
+            existing.created_at,
+            detectedLanguage || existing.detected_language || undefined,
+          )
+          return { transcriptId: existing.id, dbInsertTime, duplicate: true, ...reviewResult }
+        }
+      }
+
+      console.log(`⚠️ Transcript ${existing.id} already saved for key ${idempotencyKey}, skipping`)
+      return { transcriptId: existing.id, dbInsertTime, duplicate: true }
+    }
+  }
+
+  if (insertError || !data?.[0]?.id) {
+    console.error(`❌ DB insert error (${dbInsertTime}ms):`, insertError)
+    throw new Error('Database error')
+  }
+
+  const transcriptId: string = data[0].id
+  console.log(`✅ Transcript saved (id): ${transcriptId} - DB insert: ${dbInsertTime}ms`)
+
+  // 🆕 live 요약 갱신 예약 (줄 수 / 시간 기준, lib/live-summary.ts)
+  noteLiveSummaryLine(sessionId)
+
+  // 🚀 Gemini 검수 + 번역 실행
+  const reviewResult = await startReview(transcriptId, text, createdAt.toISOString(), detectedLanguage)
+  return { transcriptId, dbInsertTime, ...reviewResult }
+}
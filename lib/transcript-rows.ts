@@ -0,0 +1,30 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js'
+
+// 🆕 세션 transcript 전체 읽기 (서버 전용)
+// Supabase 는 한 번에 최대 1000 줄만 돌려주고 나머지는 에러 없이 잘리므로, 세션 전체가 필요한 곳은 페이지 단위로 읽는다.
+// 시간순 (같은 시각은 id 순) - 결과는 supabase 조회처럼 { data, error }
+
+export const TRANSCRIPT_PAGE_SIZE = 500
+
+export async function loadSessionTranscriptRows<T>(
+  supabase: SupabaseClient,
+  sessionId: string,
+  columns: string,
+): Promise<{ data: T[] | null; error: PostgrestError | null }> {
+  const rows: T[] = []
+  for (let from = 0; ; from += TRANSCRIPT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('transcripts')
+      .select(columns)
+      .eq('session_id', sessionId)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + TRANSCRIPT_PAGE_SIZE - 1)
+
+    if (error) return { data: null, error }
+
+    rows.push(...((data || []) as T[]))
+    if (!data || data.length < TRANSCRIPT_PAGE_SIZE) break
+  }
+  return { data: rows, error: null }
+}
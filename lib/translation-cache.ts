@@ -1,6 +1,10 @@
 import { createClient } from '@supabase/supabase-js'
 import crypto from 'crypto'
-import type { TranslationCache } from './types'
+import type { GlossaryEntry, TranslationCache } from './types'
+import { getProviderEngineQuality, type TranslationEngine } from './translation-providers'
+import { DEFAULT_TARGET_LANGUAGES, getLanguageOptions } from './languages'
+import { identifyLanguage } from './language-id'
+import { findGlossaryMatches } from './glossary'
 
 // 환경 감지
 const isVercel = process.env.VERCEL === '1'
@@ -37,14 +41,38 @@ function generateUUID(): string {
 }
 
 // 콘텐츠 해시 생성
-export function generateContentHash(text: string, targetLanguage: string): string {
-  return crypto.createHash('sha256').update(`${text}:${targetLanguage}`).digest('hex')
+// 🆕 variant 가 있으면 같은 원문 / 언어라도 다른 캐시 행 (용어집 고정 번역 등, getTranslationCacheVariant)
+export function generateContentHash(text: string, targetLanguage: string, variant?: string): string {
+  const key = variant ? `${text}:${targetLanguage}:${variant}` : `${text}:${targetLanguage}`
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+// 🆕 캐시 구분값: 용어집 고정 번역이 적용된 번역은 세션(용어집)마다 다르므로 공용 캐시와 나눈다
+// 이 문장에 나온 용어와 그 언어의 고정 번역만 반영 → 용어집과 상관없는 문장은 공용 캐시를 그대로 사용
+// 직전 줄 문맥은 키에 넣지 않음 (문맥을 넣어 번역해도 같은 문장은 다른 줄 / 세션과 캐시를 같이 씀)
+export function getTranslationCacheVariant(
+  text: string,
+  targetLanguage: string,
+  options: { glossary?: GlossaryEntry[] } = {},
+): string | undefined {
+  const matches = findGlossaryMatches(text, options.glossary || [])
+  if (matches.length === 0) return undefined
+
+  const fingerprint = matches
+    .map((entry) => `${entry.term}=${entry.translations?.[targetLanguage] || ''}`)
+    .sort()
+    .join('\n')
+  return `glossary:${crypto.createHash('sha256').update(fingerprint).digest('hex').substring(0, 16)}`
 }
 
 // 캐시에서 번역 조회
-export async function getTranslationFromCache(text: string, targetLanguage: string): Promise<TranslationCache | null> {
+export async function getTranslationFromCache(
+  text: string,
+  targetLanguage: string,
+  variant?: string,
+): Promise<TranslationCache | null> {
   try {
-    const contentHash = generateContentHash(text, targetLanguage)
+    const contentHash = generateContentHash(text, targetLanguage, variant)
 
     const { data, error } = await supabase
       .from('translation_cache')
@@ -83,13 +111,20 @@ export async function saveTranslationToCache(
   text: string,
   targetLanguage: string,
   translatedText: string,
-  engine: string,
+  engine: TranslationEngine,
   qualityScore: number = 0.9,
+  variant?: string,
 ): Promise<string | null> {
   const startTime = Date.now()
 
+  // 🆕 local 결과는 번역이 아닌 자리표시 텍스트 ([한국어] ...) 이므로 캐시하지 않음 (다른 세션에 재사용되지 않도록)
+  if (engine === 'local') {
+    console.warn(`⚠️ Not caching local fallback translation: "${text.substring(0, 30)}..." → ${targetLanguage}`)
+    return null
+  }
+
   try {
-    const contentHash = generateContentHash(text, targetLanguage)
+    const contentHash = generateContentHash(text, targetLanguage, variant)
     const id = generateUUID() // 명시적 ID 생성
     const now = new Date().toISOString()
     const expiresAt = new Date()
@@ -100,7 +135,7 @@ export async function saveTranslationToCache(
 
     // 중복 체크 먼저 수행
     const duplicateCheckStart = Date.now()
-    const existing = await getTranslationFromCache(text, targetLanguage)
+    const existing = await getTranslationFromCache(text, targetLanguage, variant)
     const duplicateCheckTime = Date.now() - duplicateCheckStart
 
     if (existing) {
@@ -108,7 +143,7 @@ export async function saveTranslationToCache(
       console.log(
         `📋 Translation already cached: "${text.substring(0, 30)}..." → ${targetLanguage} (check: ${duplicateCheckTime}ms, total: ${totalTime}ms)`,
       )
-      return existing.id
+      return refreshCachedTranslation(existing, translatedText, engine, qualityScore, expiresAt)
     }
 
     const insertStart = Date.now()
@@ -141,8 +176,10 @@ export async function saveTranslationToCache(
       if (error.code === '23505') {
         // unique_violation
         console.log('🔄 Duplicate cache entry, fetching existing...')
-        const existingCache = await getTranslationFromCache(text, targetLanguage)
-        return existingCache?.id || null
+        const existingCache = await getTranslationFromCache(text, targetLanguage, variant)
+        return existingCache
+          ? refreshCachedTranslation(existingCache, translatedText, engine, qualityScore, expiresAt)
+          : null
       }
 
       return null
@@ -158,6 +195,35 @@ export async function saveTranslationToCache(
   }
 }
 
+// 🆕 같은 키의 캐시 행이 다른 번역을 갖고 있으면 새 번역으로 교체 (방금 번역한 결과와 다른 행을 돌려주지 않도록)
+async function refreshCachedTranslation(
+  existing: TranslationCache,
+  translatedText: string,
+  engine: TranslationEngine,
+  qualityScore: number,
+  expiresAt: Date,
+): Promise<string | null> {
+  if (existing.translated_text === translatedText) return existing.id
+
+  const { error } = await supabase
+    .from('translation_cache')
+    .update({
+      translated_text: translatedText,
+      translation_engine: engine,
+      quality_score: qualityScore,
+      expires_at: expiresAt.toISOString(),
+    })
+    .eq('id', existing.id)
+
+  if (error) {
+    console.error(`❌ Error updating cached translation ${existing.id}:`, error)
+    return null
+  }
+
+  console.log(`🔄 Replaced cached translation ${existing.id} (${existing.translation_engine} → ${engine})`)
+  return existing.id
+}
+
 // 여러 언어의 번역을 배치로 저장
 export async function saveBatchTranslationsToCache(
   text: string,
@@ -182,59 +248,22 @@ export async function saveBatchTranslationsToCache(
   return cacheIds
 }
 
-// 🆕 모든 지원 언어 (기존의 고정된 3개에서 확장)
-export const ALL_SUPPORTED_LANGUAGES = ['ko', 'en', 'zh', 'hi']
+// 🆕 기본 대상 언어 (세션에 target_languages 가 없을 때)
+export const ALL_SUPPORTED_LANGUAGES = DEFAULT_TARGET_LANGUAGES
 
 // 🆕 기본 우선순위 언어 (하위 호환성을 위해 유지)
 export const PRIORITY_LANGUAGES = ['ko', 'zh', 'hi']
 
 // 🆕 입력 언어에 따른 대상 언어 결정 함수
-export function getTargetLanguages(inputLanguage: string): string[] {
-  // 입력 언어를 제외한 나머지 3개 언어 반환
-  return ALL_SUPPORTED_LANGUAGES.filter((lang) => lang !== inputLanguage)
+export function getTargetLanguages(inputLanguage: string, languages: string[] = ALL_SUPPORTED_LANGUAGES): string[] {
+  // 입력 언어를 제외한 나머지 언어 반환 (세션별 target_languages 지정 가능)
+  return languages.filter((lang) => lang !== inputLanguage)
 }
 
-// 🆕 언어 감지 함수 (개선된 휴리스틱 기반)
+// 🆕 언어 감지 함수 (로컬 n-gram 언어 식별, lib/language-id.ts)
+// confidence 가 필요하거나 세션 주 언어로 대체하려면 identifyLanguage / detectSpokenLanguage 를 직접 사용
 export function detectLanguage(text: string): string {
-  // 텍스트 정리
-  const cleanText = text.trim()
-  if (cleanText.length === 0) return 'en'
-
-  // 언어별 문자 수 계산
-  const koreanChars = (cleanText.match(/[가-힣]/g) || []).length
-  const chineseChars = (cleanText.match(/[\u4e00-\u9fff]/g) || []).length
-  const hindiChars = (cleanText.match(/[\u0900-\u097f]/g) || []).length
-  const englishChars = (cleanText.match(/[a-zA-Z]/g) || []).length
-
-  const totalChars = cleanText.length
-  const threshold = 0.1 // 10% 이상이면 해당 언어로 판단
-
-  // 한글이 가장 많으면 한국어
-  if (koreanChars / totalChars > threshold && koreanChars > chineseChars && koreanChars > hindiChars) {
-    return 'ko'
-  }
-
-  // 중국어 문자가 가장 많으면 중국어
-  if (chineseChars / totalChars > threshold && chineseChars > koreanChars && chineseChars > hindiChars) {
-    return 'zh'
-  }
-
-  // 힌디어 문자가 가장 많으면 힌디어
-  if (hindiChars / totalChars > threshold && hindiChars > koreanChars && hindiChars > chineseChars) {
-    return 'hi'
-  }
-
-  // 영어 또는 기타 알파벳 문자가 많으면 영어
-  if (
-    englishChars / totalChars > threshold ||
-    (koreanChars === 0 && chineseChars === 0 && hindiChars === 0 && englishChars > 0)
-  ) {
-    return 'en'
-  }
-
-  // 판단이 어려운 경우 영어를 기본값으로
-  console.log(`🤔 Language detection uncertain for: "${cleanText.substring(0, 30)}..." - defaulting to English`)
-  return 'en'
+  return identifyLanguage(text).language
 }
 
 // 스마트 Mock 번역 생성 (즉시 응답용)
@@ -261,21 +290,13 @@ export function generateSmartMockTranslation(text: string, targetLanguage: strin
   }
 
   // 긴 텍스트는 번역 중 표시
-      return `[AI Translating...] ${text}`
+  return `[AI Translating...] ${text}`
 }
 
 // 번역 엔진 품질 평가
-export function getEngineQuality(engine: string): number {
-  switch (engine) {
-    case 'gpt':
-      return 0.95
-    case 'google':
-      return 0.75
-    case 'local':
-      return 0.3
-    default:
-      return 0.5
-  }
+export function getEngineQuality(engine: TranslationEngine): number {
+  // 등록된 번역 프로바이더 기준 (미등록 엔진은 0.5)
+  return getProviderEngineQuality(engine) ?? 0.5
 }
 
 // 캐시 통계 조회
@@ -497,12 +518,7 @@ export function getPerformanceStats(): {
 }
 
 // 🆕 UI에서 사용할 언어 정의
-export const LANGUAGE_DEFINITIONS = [
-  { code: 'ko', name: 'Korean', flag: '🇰🇷' },
-  { code: 'en', name: 'English', flag: '🇺🇸' },
-  { code: 'zh', name: 'Chinese', flag: '🇨🇳' },
-  { code: 'hi', name: 'Hindi', flag: '🇮🇳' },
-]
+export const LANGUAGE_DEFINITIONS = getLanguageOptions(ALL_SUPPORTED_LANGUAGES)
 
 // 🆕 특정 언어를 제외한 언어 목록 가져오기 (UI용)
 export function getAvailableLanguagesForUI(excludeLanguage?: string) {
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// 🆕 번역 문맥 (같은 세션의 직전 N줄)
+// 한 문장씩 따로 번역하면 대명사, 용어, 두 줄로 나뉜 문장이 틀어지므로
+// 직전 줄(검수된 텍스트 우선)을 "번역하지 말 것" 표시와 함께 프롬프트에 넣는다.
+// 문맥을 넣은 번역은 그 줄에만 맞으므로 줄 id 로 캐시를 나눈다 (getTranslationCacheVariant 의 transcriptId).
+
+export const TRANSLATION_CONTEXT_LINES = 3
+const MAX_CONTEXT_LINE_LENGTH = 300
+
+interface ContextRow {
+  id: string
+  original_text: string
+  reviewed_text?: string | null
+}
+
+function toContextLines(rows: ContextRow[]): string[] {
+  return rows
+    .map((row) => (row.reviewed_text || row.original_text || '').trim())
+    .filter(Boolean)
+    .map((line) => line.slice(0, MAX_CONTEXT_LINE_LENGTH))
+}
+
+// before 시각 이전의 줄 N개 (오래된 순) - transcripts 에는 final 줄만 저장된다
+export async function loadPrecedingLines(
+  supabase: SupabaseClient,
+  sessionId: string,
+  before: string,
+  options: { excludeId?: string; limit?: number } = {},
+): Promise<string[]> {
+  const { excludeId, limit = TRANSLATION_CONTEXT_LINES } = options
+  if (limit <= 0) return []
+
+  let query = supabase
+    .from('transcripts')
+    .select('id, original_text, reviewed_text')
+    .eq('session_id', sessionId)
+    .lt('created_at', before)
+
+  if (excludeId) {
+    query = query.neq('id', excludeId)
+  }
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(limit)
+
+  if (error) {
+    console.warn(`⚠️ Could not load translation context for session ${sessionId}:`, error.message)
+    return []
+  }
+
+  return toContextLines(((data || []) as ContextRow[]).reverse())
+}
+
+// transcript id 기준 문맥 (stt-review 라우트, 번역 큐 작업)
+// sessionId 를 주면 그 세션의 줄일 때만 (클라이언트가 보낸 id 로 다른 세션 문맥을 읽지 않도록)
+export async function loadLineContext(
+  supabase: SupabaseClient,
+  transcriptId: string,
+  sessionId?: string,
+): Promise<string[]> {
+  let query = supabase.from('transcripts').select('session_id, created_at').eq('id', transcriptId)
+  if (sessionId) {
+    query = query.eq('session_id', sessionId)
+  }
+
+  const { data: line } = await query.maybeSingle()
+  if (!line) return []
+  return loadPrecedingLines(supabase, line.session_id, line.created_at, { excludeId: transcriptId })
+}
+
+// 프롬프트용 문맥 섹션 (번역 대상이 아님을 명시)
+export function buildContextPromptSection(context: string[] = []): string {
+  if (context.length === 0) return ''
+
+  return `Previous lines from the same talk (context only - do NOT translate or include them in the output):
+${context.map((line) => `- "${line}"`).join('\n')}`
+}
@@ -0,0 +1,705 @@
+// 🆕 번역 엔진 프로바이더 레지스트리
+// performTranslation / performBatchTranslation 은 여기 등록된 순서대로 엔진을 시도한다.
+// 새 엔진(DeepL, LibreTranslate 등)은 registerTranslationProvider 로 추가하고,
+// 배포별 순서는 TRANSLATION_PROVIDERS=gemini,gpt,google,local 환경변수로 지정한다.
+
+import { buildGlossaryPromptSection } from './glossary'
+import { buildContextPromptSection } from './translation-context'
+import type { GlossaryEntry } from './types'
+
+export interface TranslationProviderResult {
+  text: string
+  quality: number
+  engine?: string // 프로바이더 이름과 다른 엔진명으로 캐시에 저장할 때 (예: gemini-batch)
+}
+
+// 🆕 번역 요청별 추가 정보 (프롬프트를 쓰는 엔진만 사용)
+export interface TranslationRequestOptions {
+  glossary?: GlossaryEntry[] // 세션 용어집 (고정 번역은 performBatchTranslation 이 후처리로 한 번 더 맞춤)
+  context?: string[] // 🆕 같은 세션의 직전 줄 (번역하지 않고 문맥으로만 사용, 캐시는 줄 id 로 나눔)
+}
+
+export interface TranslationProvider {
+  name: string
+  quality: number // 캐시 통계 / getEngineQuality 에서 사용하는 기본 품질 점수
+  translate(
+    text: string,
+    targetLanguage: string,
+    options?: TranslationRequestOptions,
+  ): Promise<TranslationProviderResult | null>
+  translateBatch?(
+    text: string,
+    targetLanguages: string[],
+    options?: TranslationRequestOptions,
+  ): Promise<Record<string, TranslationProviderResult> | null>
+  engines?: Record<string, number> // translate 외에 이 프로바이더가 기록하는 엔진명 → 품질
+}
+
+// Google Translate 언어 코드 매핑
+const GOOGLE_LANGUAGE_MAP: Record<string, string> = {
+  ko: 'ko',
+  en: 'en',
+  ja: 'ja',
+  zh: 'zh-cn',
+  es: 'es',
+  fr: 'fr',
+  de: 'de',
+  pt: 'pt',
+  ru: 'ru',
+  it: 'it',
+  pl: 'pl',
+  nl: 'nl',
+  da: 'da',
+  sv: 'sv',
+  no: 'no',
+  fi: 'fi',
+  cs: 'cs',
+  sk: 'sk',
+  sl: 'sl',
+  et: 'et',
+  lv: 'lv',
+  lt: 'lt',
+  hu: 'hu',
+  bg: 'bg',
+  ro: 'ro',
+  el: 'el',
+  tr: 'tr',
+  ar: 'ar',
+  id: 'id',
+  uk: 'uk',
+  hi: 'hi',
+  vi: 'vi',
+  th: 'th',
+}
+
+// Gemini 언어 이름 매핑 (더 정확한 번역을 위해)
+export const GEMINI_LANGUAGE_NAMES: Record<string, string> = {
+  ko: 'Korean',
+  ja: 'Japanese',
+  zh: 'Chinese',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  it: 'Italian',
+  pl: 'Polish',
+  nl: 'Dutch',
+  da: 'Danish',
+  sv: 'Swedish',
+  no: 'Norwegian',
+  fi: 'Finnish',
+  cs: 'Czech',
+  sk: 'Slovak',
+  sl: 'Slovenian',
+  et: 'Estonian',
+  lv: 'Latvian',
+  lt: 'Lithuanian',
+  hu: 'Hungarian',
+  bg: 'Bulgarian',
+  ro: 'Romanian',
+  el: 'Greek',
+  tr: 'Turkish',
+  ar: 'Arabic',
+  id: 'Indonesian',
+  uk: 'Ukrainian',
+  hi: 'Hindi',
+  en: 'English',
+  vi: 'Vietnamese',
+  th: 'Thai',
+}
+
+// GPT 언어 이름 매핑 (더 정확한 번역을 위해)
+const GPT_LANGUAGE_NAMES: Record<string, string> = {
+  ko: 'Korean',
+  ja: 'Japanese',
+  zh: 'Chinese',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  pt: 'Portuguese',
+  ru: 'Russian',
+  it: 'Italian',
+  pl: 'Polish',
+  nl: 'Dutch',
+  da: 'Danish',
+  sv: 'Swedish',
+  no: 'Norwegian',
+  fi: 'Finnish',
+  cs: 'Czech',
+  sk: 'Slovak',
+  sl: 'Slovenian',
+  et: 'Estonian',
+  lv: 'Latvian',
+  lt: 'Lithuanian',
+  hu: 'Hungarian',
+  bg: 'Bulgarian',
+  ro: 'Romanian',
+  el: 'Greek',
+  tr: 'Turkish',
+  ar: 'Arabic',
+  id: 'Indonesian',
+  uk: 'Ukrainian',
+  hi: 'Hindi',
+  en: 'English',
+  vi: 'Vietnamese',
+  th: 'Thai',
+}
+
+// 🆕 Gemini 2.5 Flash 번역 (최고 품질 + 최적 비용)
+async function translateWithGemini(
+  text: string,
+  targetLanguage: string,
+  options: TranslationRequestOptions = {},
+): Promise<{ text: string; quality: number } | null> {
+  try {
+    const geminiApiKey = process.env.GEMINI_API_KEY
+    if (!geminiApiKey) {
+      console.log('Gemini API key not found, skipping Gemini translation')
+      return null
+    }
+
+    const targetLangName = GEMINI_LANGUAGE_NAMES[targetLanguage]
+    if (!targetLangName) {
+      console.log(`Unsupported language for Gemini: ${targetLanguage}`)
+      return null
+    }
+
+    // 간단한 프롬프트로 토큰 사용량 최적화 (용어집은 이 문장에 나온 용어만, 문맥은 직전 줄만 추가)
+    const glossarySection = buildGlossaryPromptSection(text, [targetLanguage], options.glossary || [])
+    const contextSection = buildContextPromptSection(options.context)
+    const prompt = [contextSection, glossarySection, `Translate to ${targetLangName}: "${text}"`]
+      .filter(Boolean)
+      .join('\n\n')
+
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${geminiApiKey}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          contents: [
+            {
+              parts: [
+                {
+                  text: prompt,
+                },
+              ],
+            },
+          ],
+          generationConfig: {
+            temperature: 0.3,
+            maxOutputTokens: Math.max(Math.ceil(text.length * 4), 800), // 토큰 제한 증가
+          },
+        }),
+      },
+    )
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('Gemini API error:', response.status, errorText)
+      return null
+    }
+
+    const data = await response.json()
+
+    if (data.candidates && data.candidates[0] && data.candidates[0].content) {
+      const candidate = data.candidates[0]
+
+      // MAX_TOKENS로 잘린 경우 처리
+      if (candidate.finishReason === 'MAX_TOKENS') {
+        console.log('⚠️ Gemini individual response was truncated due to MAX_TOKENS')
+        return null
+      }
+
+      // content.parts가 있는지 확인
+      if (candidate.content.parts && candidate.content.parts[0] && candidate.content.parts[0].text) {
+        let translatedText = candidate.content.parts[0].text.trim()
+
+        // 마크다운 코드 블록 제거 (```로 감싸진 경우)
+        if (translatedText.startsWith('```') && translatedText.endsWith('```')) {
+          translatedText = translatedText
+            .replace(/^```[a-zA-Z]*\s*/, '')
+            .replace(/\s*```$/, '')
+            .trim()
+        }
+
+        // JSON 형태로 응답이 온 경우 파싱 시도
+        if (translatedText.startsWith('{') && translatedText.endsWith('}')) {
+          try {
+            const parsed = JSON.parse(translatedText)
+            // 대상 언어의 번역 찾기
+            if (parsed[targetLanguage]) {
+              translatedText = parsed[targetLanguage]
+            }
+          } catch {
+            // JSON 파싱 실패 시 원본 텍스트 사용
+            console.log('Individual Gemini response is not valid JSON, using as-is')
+          }
+        }
+
+        console.log('✅ Gemini translation successful')
+        return {
+          text: translatedText,
+          quality: 0.96, // Gemini는 최고 품질 점수
+        }
+      } else {
+        console.log('❌ Gemini individual response missing content.parts:', candidate.content)
+      }
+    }
+
+    return null
+  } catch (error) {
+    console.error('Gemini translation error:', error)
+    return null
+  }
+}
+
+// 🆕 Gemini 통합 번역 (비용 최적화)
+async function translateWithGeminiBatch(
+  text: string,
+  targetLanguages: string[],
+  options: TranslationRequestOptions = {},
+): Promise<Record<string, TranslationProviderResult> | null> {
+  try {
+    const geminiApiKey = process.env.GEMINI_API_KEY
+    if (!geminiApiKey) {
+      console.log('Gemini API key not found, skipping Gemini batch translation')
+      return null
+    }
+
+    console.log(`🔑 Gemini API key found (${geminiApiKey.substring(0, 10)}...)`)
+
+    // 지원되는 언어만 필터링
+    const supportedLanguages = targetLanguages.filter((lang) => GEMINI_LANGUAGE_NAMES[lang])
+    console.log(
+      `🌍 Supported languages for Gemini: ${supportedLanguages.join(', ')} (from ${targetLanguages.join(', ')})`,
+    )
+
+    if (supportedLanguages.length === 0) {
+      console.log('❌ No supported languages found for Gemini batch translation')
+      return null
+    }
+
+    // 언어 리스트 생성
+    const languageList = supportedLanguages.map((lang) => `${lang}: ${GEMINI_LANGUAGE_NAMES[lang]}`).join(', ')
+
+    const glossarySection = buildGlossaryPromptSection(text, supportedLanguages, options.glossary || [])
+    const contextSection = buildContextPromptSection(options.context)
+
+    const prompt = `Translate the following text to these languages: ${languageList}
+${contextSection ? `\n${contextSection}\n` : ''}${glossarySection ? `\n${glossarySection}\n` : ''}
+Text: "${text}"
+
+Return only a JSON object with language codes as keys and translations as values:
+${JSON.stringify(Object.fromEntries(supportedLanguages.map((lang) => [lang, `translation in ${GEMINI_LANGUAGE_NAMES[lang]}`])), null, 2)}`
+
+    console.log(`📝 Gemini batch prompt prepared (${prompt.length} chars)`)
+
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${geminiApiKey}`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          contents: [
+            {
+              parts: [
+                {
+                  text: prompt,
+                },
+              ],
+            },
+          ],
+          generationConfig: {
+            temperature: 0.3,
+            maxOutputTokens: Math.max(Math.ceil(text.length * supportedLanguages.length * 4), 1500), // 토큰 제한 증가
+          },
+        }),
+      },
+    )
+
+    console.log(`🌐 Gemini API response status: ${response.status}`)
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('Gemini Batch API error:', response.status, errorText)
+      return null
+    }
+
+    const data = await response.json()
+    console.log(`📦 Gemini API response received:`, JSON.stringify(data, null, 2))
+
+    if (data.candidates && data.candidates[0] && data.candidates[0].content && data.candidates[0].content.parts) {
+      const content = data.candidates[0].content.parts[0].text
+      console.log(`🎯 Gemini raw response: ${content}`)
+
+      try {
+        // JSON 파싱 시도 (markdown 코드 블록 처리)
+        let jsonContent = content.trim()
+
+        // ```json ... ``` 형태의 마크다운 코드 블록 제거
+        if (jsonContent.startsWith('```json')) {
+          jsonContent = jsonContent.replace(/^```json\s*/, '').replace(/\s*```$/, '')
+        } else if (jsonContent.startsWith('```')) {
+          jsonContent = jsonContent.replace(/^```\s*/, '').replace(/\s*```$/, '')
+        }
+
+        const translations = JSON.parse(jsonContent)
+        const result: Record<string, TranslationProviderResult> = {}
+
+        for (const [lang, translation] of Object.entries(translations)) {
+          if (typeof translation === 'string' && supportedLanguages.includes(lang)) {
+            result[lang] = {
+              text: translation,
+              quality: 0.92, // Gemini 품질 점수
+              engine: 'gemini-batch',
+            }
+          }
+        }
+
+        if (Object.keys(result).length > 0) {
+          console.log(`✅ Gemini batch translation parsed successfully: ${Object.keys(result).join(', ')}`)
+          return result
+        }
+      } catch (parseError) {
+        console.error('Failed to parse Gemini batch response:', parseError)
+        console.error('Raw response:', content)
+
+        // 정규식으로 JSON 추출 시도 (폴백)
+        try {
+          const jsonMatch = content.match(/\{[\s\S]*\}/)
+          if (jsonMatch) {
+            const extractedJson = jsonMatch[0]
+            const translations = JSON.parse(extractedJson)
+            const result: Record<string, TranslationProviderResult> = {}
+
+            for (const [lang, translation] of Object.entries(translations)) {
+              if (typeof translation === 'string' && supportedLanguages.includes(lang)) {
+                result[lang] = {
+                  text: translation,
+                  quality: 0.92,
+                  engine: 'gemini-batch',
+                }
+              }
+            }
+
+            if (Object.keys(result).length > 0) {
+              console.log(`✅ Gemini batch translation extracted via regex: ${Object.keys(result).join(', ')}`)
+              return result
+            }
+          }
+        } catch (regexError) {
+          console.error('Regex extraction also failed:', regexError)
+        }
+      }
+    } else {
+      console.log('❌ Gemini response structure invalid:', data)
+    }
+
+    return null
+  } catch (error) {
+    console.error('Gemini batch translation error:', error)
+    return null
+  }
+}
+
+// GPT-4 번역 (폴백)
+async function translateWithGPT(
+  text: string,
+  targetLanguage: string,
+  options: TranslationRequestOptions = {},
+): Promise<{ text: string; quality: number } | null> {
+  try {
+    const openaiApiKey = process.env.OPENAI_API_KEY
+    if (!openaiApiKey) {
+      console.log('OpenAI API key not found, skipping GPT translation')
+      return null
+    }
+
+    const targetLangName = GPT_LANGUAGE_NAMES[targetLanguage]
+    if (!targetLangName) {
+      console.log(`Unsupported language for GPT: ${targetLanguage}`)
+      return null
+    }
+
+    // 컨텍스트에 맞는 프롬프트 작성
+    const glossarySection = buildGlossaryPromptSection(text, [targetLanguage], options.glossary || [])
+    const contextSection = buildContextPromptSection(options.context)
+    const prompt = `You are a professional translator specializing in live lecture and presentation content. 
+
+Please translate the following text to ${targetLangName}. This is from a live speech/lecture, so:
+- Maintain the speaker's tone and intent
+- Fix any obvious speech recognition errors naturally
+- Use appropriate formal/informal register for academic context
+- Keep technical terms accurate
+- Make it sound natural in the target language
+${contextSection ? `\n${contextSection}\n` : ''}${glossarySection ? `\n${glossarySection}\n` : ''}
+Text to translate: "${text}"
+
+Provide ONLY the translation without any explanation.`
+
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${openaiApiKey}`,
+      },
+      body: JSON.stringify({
+        model: 'gpt-4o-mini', // 더 저렴하고 빠른 모델
+        messages: [
+          {
+            role: 'user',
+            content: prompt,
+          },
+        ],
+        max_tokens: Math.min(Math.ceil(text.length * 3), 500), // 적응적 토큰 수
+        temperature: 0.3, // 일관성을 위해 낮은 temperature
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('GPT API error:', response.status, errorText)
+      return null
+    }
+
+    const data = await response.json()
+
+    if (data.choices && data.choices[0] && data.choices[0].message) {
+      const translatedText = data.choices[0].message.content.trim()
+      console.log('✅ GPT translation successful')
+      return {
+        text: translatedText,
+        quality: 0.95, // GPT는 높은 품질 점수
+      }
+    }
+
+    return null
+  } catch (error) {
+    console.error('GPT translation error:', error)
+    return null
+  }
+}
+
+// Google Translate 번역 (폴백)
+async function translateWithGoogle(
+  text: string,
+  targetLanguage: string,
+): Promise<{ text: string; quality: number } | null> {
+  try {
+    const targetLang = GOOGLE_LANGUAGE_MAP[targetLanguage]
+    if (!targetLang) return null
+
+    const encodedText = encodeURIComponent(text)
+    const url = `https://translate.googleapis.com/translate_a/single?client=gtx&sl=auto&tl=${targetLang}&dt=t&q=${encodedText}`
+
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      },
+    })
+
+    if (response.ok) {
+      const data = await response.json()
+      if (data && data[0] && data[0][0] && data[0][0][0]) {
+        return {
+          text: data[0][0][0],
+          quality: 0.75,
+        }
+      }
+    }
+    return null
+  } catch (error) {
+    console.error('Google Translate error:', error)
+    return null
+  }
+}
+
+// 로컬 번역 (최종 fallback)
+function getLocalTranslation(text: string, targetLang: string): { text: string; quality: number } {
+  const translations: Record<string, Record<string, string>> = {
+    hello: {
+      ko: '안녕하세요',
+      ja: 'こんにちは',
+      zh: '你好',
+      es: 'hola',
+      fr: 'bonjour',
+      de: 'hallo',
+    },
+    welcome: {
+      ko: '환영합니다',
+      ja: 'ようこそ',
+      zh: '欢迎',
+      es: 'bienvenido',
+      fr: 'bienvenue',
+      de: 'willkommen',
+    },
+    'thank you': {
+      ko: '감사합니다',
+      ja: 'ありがとう',
+      zh: '谢谢',
+      es: 'gracias',
+      fr: 'merci',
+      de: 'danke',
+    },
+    lecture: {
+      ko: '강의',
+      ja: '講義',
+      zh: '讲座',
+      es: 'conferencia',
+      fr: 'conférence',
+      de: 'vorlesung',
+    },
+    presentation: {
+      ko: '발표',
+      ja: 'プレゼンテーション',
+      zh: '演示',
+      es: 'presentación',
+      fr: 'présentation',
+      de: 'präsentation',
+    },
+  }
+
+  let translatedText = text.toLowerCase()
+  let hasTranslation = false
+
+  for (const [englishWord, langTranslations] of Object.entries(translations)) {
+    if (langTranslations[targetLang]) {
+      const regex = new RegExp(`\\b${englishWord}\\b`, 'gi')
+      if (regex.test(translatedText)) {
+        translatedText = translatedText.replace(regex, langTranslations[targetLang])
+        hasTranslation = true
+      }
+    }
+  }
+
+  if (!hasTranslation) {
+    const languageNames: Record<string, string> = {
+      ko: '한국어',
+      ja: '日本語',
+      zh: '中文',
+      es: 'Español',
+      fr: 'Français',
+      de: 'Deutsch',
+      it: 'Italiano',
+      pt: 'Português',
+      ru: 'Русский',
+      ar: 'العربية',
+    }
+    const langName = languageNames[targetLang] || targetLang.toUpperCase()
+    translatedText = `[${langName}] ${text}`
+  } else {
+    translatedText = translatedText.charAt(0).toUpperCase() + translatedText.slice(1)
+  }
+
+  return {
+    text: translatedText,
+    quality: hasTranslation ? 0.6 : 0.3,
+  }
+}
+
+// 🆕 기본 프로바이더 정의
+const geminiProvider = {
+  name: 'gemini',
+  quality: 0.96,
+  engines: { 'gemini-batch': 0.92, 'gemini-review': 0.95 },
+  translate: translateWithGemini,
+  translateBatch: translateWithGeminiBatch,
+} as const satisfies TranslationProvider
+
+const gptProvider = {
+  name: 'gpt',
+  quality: 0.95,
+  translate: translateWithGPT,
+} as const satisfies TranslationProvider
+
+const googleProvider = {
+  name: 'google',
+  quality: 0.75,
+  translate: translateWithGoogle,
+} as const satisfies TranslationProvider
+
+// 로컬 번역은 항상 결과를 반환하므로 체인의 마지막 폴백으로 사용
+const localProvider = {
+  name: 'local',
+  quality: 0.3,
+  translate: async (text: string, targetLanguage: string) => getLocalTranslation(text, targetLanguage),
+} as const satisfies TranslationProvider
+
+const BUILTIN_PROVIDERS = [geminiProvider, gptProvider, googleProvider, localProvider] as const
+
+type BuiltinProvider = (typeof BUILTIN_PROVIDERS)[number]
+
+// 캐시에 기록될 수 있는 엔진명 (기본 프로바이더 + 부가 엔진명 + 즉시 응답용 mock)
+// 커스텀 프로바이더 이름도 허용하되, 기본 엔진명은 자동완성되도록 유지
+export type TranslationEngine =
+  | BuiltinProvider['name']
+  | keyof typeof geminiProvider.engines
+  | 'mock'
+  | (string & Record<never, never>)
+
+const providers = new Map<string, TranslationProvider>(BUILTIN_PROVIDERS.map((provider) => [provider.name, provider]))
+
+// 프로바이더 등록 (같은 이름이면 교체). 기본 순서에서는 항상 local 앞에 온다
+export function registerTranslationProvider(provider: TranslationProvider): void {
+  providers.set(provider.name, provider)
+  console.log(`🔌 Registered translation provider: ${provider.name}`)
+}
+
+export function unregisterTranslationProvider(name: string): boolean {
+  return providers.delete(name)
+}
+
+export function getTranslationProvider(name: string): TranslationProvider | undefined {
+  return providers.get(name)
+}
+
+// 등록 순서 그대로, 단 항상 결과를 내는 local 은 맨 뒤 (나중에 등록한 DeepL 등이 local 뒤에 가려지지 않게)
+function getDefaultProviderOrder(): TranslationProvider[] {
+  const registered = Array.from(providers.values())
+  return [
+    ...registered.filter((provider) => provider.name !== localProvider.name),
+    ...registered.filter((provider) => provider.name === localProvider.name),
+  ]
+}
+
+// 시도 순서대로 정렬된 프로바이더 목록
+// TRANSLATION_PROVIDERS 가 지정되면 그 목록만, 아니면 등록 순서 (local 은 마지막)
+export function getTranslationProviders(): TranslationProvider[] {
+  const order = process.env.TRANSLATION_PROVIDERS?.split(',')
+    .map((name) => name.trim())
+    .filter(Boolean)
+
+  if (!order || order.length === 0) {
+    return getDefaultProviderOrder()
+  }
+
+  const ordered = order
+    .map((name) => {
+      const provider = providers.get(name)
+      if (!provider) console.warn(`⚠️ Unknown translation provider in TRANSLATION_PROVIDERS: ${name}`)
+      return provider
+    })
+    .filter((provider): provider is TranslationProvider => !!provider)
+
+  return ordered.length > 0 ? ordered : getDefaultProviderOrder()
+}
+
+// 엔진명 → 품질 점수 (등록된 프로바이더 기준)
+export function getProviderEngineQuality(engine: string): number | undefined {
+  for (const provider of providers.values()) {
+    if (provider.name === engine) return provider.quality
+    if (provider.engines && engine in provider.engines) return provider.engines[engine]
+  }
+  return undefined
+}
+
+// 체인 전체가 실패했을 때 사용하는 최종 폴백
+export function getFallbackTranslation(text: string, targetLanguage: string): TranslationProviderResult {
+  return { ...getLocalTranslation(text, targetLanguage), engine: 'local' }
+}
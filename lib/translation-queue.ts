@@ -1,628 +1,84 @@
-import type { TranslationJob } from './types'
-import { saveTranslationToCache, ALL_SUPPORTED_LANGUAGES } from './translation-cache'
-
-// Google Translate 언어 코드 매핑
-const GOOGLE_LANGUAGE_MAP: Record<string, string> = {
-  ko: 'ko',
-  en: 'en',
-  ja: 'ja',
-  zh: 'zh-cn',
-  es: 'es',
-  fr: 'fr',
-  de: 'de',
-  pt: 'pt',
-  ru: 'ru',
-  it: 'it',
-  pl: 'pl',
-  nl: 'nl',
-  da: 'da',
-  sv: 'sv',
-  no: 'no',
-  fi: 'fi',
-  cs: 'cs',
-  sk: 'sk',
-  sl: 'sl',
-  et: 'et',
-  lv: 'lv',
-  lt: 'lt',
-  hu: 'hu',
-  bg: 'bg',
-  ro: 'ro',
-  el: 'el',
-  tr: 'tr',
-  ar: 'ar',
-  id: 'id',
-  uk: 'uk',
-}
-
-// Gemini 언어 이름 매핑 (더 정확한 번역을 위해)
-const GEMINI_LANGUAGE_NAMES: Record<string, string> = {
-  ko: 'Korean',
-  ja: 'Japanese',
-  zh: 'Chinese',
-  es: 'Spanish',
-  fr: 'French',
-  de: 'German',
-  pt: 'Portuguese',
-  ru: 'Russian',
-  it: 'Italian',
-  pl: 'Polish',
-  nl: 'Dutch',
-  da: 'Danish',
-  sv: 'Swedish',
-  no: 'Norwegian',
-  fi: 'Finnish',
-  cs: 'Czech',
-  sk: 'Slovak',
-  sl: 'Slovenian',
-  et: 'Estonian',
-  lv: 'Latvian',
-  lt: 'Lithuanian',
-  hu: 'Hungarian',
-  bg: 'Bulgarian',
-  ro: 'Romanian',
-  el: 'Greek',
-  tr: 'Turkish',
-  ar: 'Arabic',
-  id: 'Indonesian',
-  uk: 'Ukrainian',
-  hi: 'Hindi',
-  en: 'English',
-}
-
-// GPT 언어 이름 매핑 (더 정확한 번역을 위해)
-const GPT_LANGUAGE_NAMES: Record<string, string> = {
-  ko: 'Korean',
-  ja: 'Japanese',
-  zh: 'Chinese',
-  es: 'Spanish',
-  fr: 'French',
-  de: 'German',
-  pt: 'Portuguese',
-  ru: 'Russian',
-  it: 'Italian',
-  pl: 'Polish',
-  nl: 'Dutch',
-  da: 'Danish',
-  sv: 'Swedish',
-  no: 'Norwegian',
-  fi: 'Finnish',
-  cs: 'Czech',
-  sk: 'Slovak',
-  sl: 'Slovenian',
-  et: 'Estonian',
-  lv: 'Latvian',
-  lt: 'Lithuanian',
-  hu: 'Hungarian',
-  bg: 'Bulgarian',
-  ro: 'Romanian',
-  el: 'Greek',
-  tr: 'Turkish',
-  ar: 'Arabic',
-  id: 'Indonesian',
-  uk: 'Ukrainian',
-  hi: 'Hindi',
-  en: 'English',
-}
-
-// 🆕 Gemini 2.5 Flash 번역 (최고 품질 + 최적 비용)
-async function translateWithGemini(
-  text: string,
-  targetLanguage: string,
-): Promise<{ text: string; quality: number } | null> {
-  try {
-    const geminiApiKey = process.env.GEMINI_API_KEY
-    if (!geminiApiKey) {
-      console.log('Gemini API key not found, skipping Gemini translation')
-      return null
-    }
-
-    const targetLangName = GEMINI_LANGUAGE_NAMES[targetLanguage]
-    if (!targetLangName) {
-      console.log(`Unsupported language for Gemini: ${targetLanguage}`)
-      return null
-    }
-
-    // 간단한 프롬프트로 토큰 사용량 최적화
-    const prompt = `Translate to ${targetLangName}: "${text}"`
-
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: prompt,
-                },
-              ],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.3,
-            maxOutputTokens: Math.max(Math.ceil(text.length * 4), 800), // 토큰 제한 증가
-          },
-        }),
-      },
-    )
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Gemini API error:', response.status, errorText)
-      return null
-    }
-
-    const data = await response.json()
-
-    if (data.candidates && data.candidates[0] && data.candidates[0].content) {
-      const candidate = data.candidates[0]
-
-      // MAX_TOKENS로 잘린 경우 처리
-      if (candidate.finishReason === 'MAX_TOKENS') {
-        console.log('⚠️ Gemini individual response was truncated due to MAX_TOKENS')
-        return null
-      }
-
-      // content.parts가 있는지 확인
-      if (candidate.content.parts && candidate.content.parts[0] && candidate.content.parts[0].text) {
-        let translatedText = candidate.content.parts[0].text.trim()
-
-        // 마크다운 코드 블록 제거 (```로 감싸진 경우)
-        if (translatedText.startsWith('```') && translatedText.endsWith('```')) {
-          translatedText = translatedText
-            .replace(/^```[a-zA-Z]*\s*/, '')
-            .replace(/\s*```$/, '')
-            .trim()
-        }
-
-        // JSON 형태로 응답이 온 경우 파싱 시도
-        if (translatedText.startsWith('{') && translatedText.endsWith('}')) {
-          try {
-            const parsed = JSON.parse(translatedText)
-            // 대상 언어의 번역 찾기
-            if (parsed[targetLanguage]) {
-              translatedText = parsed[targetLanguage]
-            }
-          } catch {
-            // JSON 파싱 실패 시 원본 텍스트 사용
-            console.log('Individual Gemini response is not valid JSON, using as-is')
-          }
-        }
-
-        console.log('✅ Gemini translation successful')
-        return {
-          text: translatedText,
-          quality: 0.96, // Gemini는 최고 품질 점수
-        }
-      } else {
-        console.log('❌ Gemini individual response missing content.parts:', candidate.content)
-      }
-    }
-
-    return null
-  } catch (error) {
-    console.error('Gemini translation error:', error)
-    return null
-  }
-}
-
-// 🆕 Gemini 통합 번역 (비용 최적화)
-async function translateWithGeminiBatch(
-  text: string,
-  targetLanguages: string[],
-): Promise<Record<string, { text: string; quality: number }> | null> {
-  try {
-    const geminiApiKey = process.env.GEMINI_API_KEY
-    if (!geminiApiKey) {
-      console.log('Gemini API key not found, skipping Gemini batch translation')
-      return null
-    }
-
-    console.log(`🔑 Gemini API key found (${geminiApiKey.substring(0, 10)}...)`)
-
-    // 지원되는 언어만 필터링
-    const supportedLanguages = targetLanguages.filter((lang) => GEMINI_LANGUAGE_NAMES[lang])
-    console.log(
-      `🌍 Supported languages for Gemini: ${supportedLanguages.join(', ')} (from ${targetLanguages.join(', ')})`,
-    )
-
-    if (supportedLanguages.length === 0) {
-      console.log('❌ No supported languages found for Gemini batch translation')
-      return null
-    }
-
-    // 언어 리스트 생성
-    const languageList = supportedLanguages.map((lang) => `${lang}: ${GEMINI_LANGUAGE_NAMES[lang]}`).join(', ')
-
-    const prompt = `Translate the following text to these languages: ${languageList}
-
-Text: "${text}"
-
-Return only a JSON object with language codes as keys and translations as values:
-${JSON.stringify(Object.fromEntries(supportedLanguages.map((lang) => [lang, `translation in ${GEMINI_LANGUAGE_NAMES[lang]}`])), null, 2)}`
-
-    console.log(`📝 Gemini batch prompt prepared (${prompt.length} chars)`)
-
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash-exp:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: prompt,
-                },
-              ],
-            },
-          ],
-          generationConfig: {
-            temperature: 0.3,
-            maxOutputTokens: Math.max(Math.ceil(text.length * supportedLanguages.length * 4), 1500), // 토큰 제한 증가
-          },
-        }),
-      },
-    )
-
-    console.log(`🌐 Gemini API response status: ${response.status}`)
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Gemini Batch API error:', response.status, errorText)
-      return null
-    }
-
-    const data = await response.json()
-    console.log(`📦 Gemini API response received:`, JSON.stringify(data, null, 2))
-
-    if (data.candidates && data.candidates[0] && data.candidates[0].content && data.candidates[0].content.parts) {
-      const content = data.candidates[0].content.parts[0].text
-      console.log(`🎯 Gemini raw response: ${content}`)
-
-      try {
-        // JSON 파싱 시도 (markdown 코드 블록 처리)
-        let jsonContent = content.trim()
-
-        // ```json ... ``` 형태의 마크다운 코드 블록 제거
-        if (jsonContent.startsWith('```json')) {
-          jsonContent = jsonContent.replace(/^```json\s*/, '').replace(/\s*```$/, '')
-        } else if (jsonContent.startsWith('```')) {
-          jsonContent = jsonContent.replace(/^```\s*/, '').replace(/\s*```$/, '')
-        }
-
-        const translations = JSON.parse(jsonContent)
-        const result: Record<string, { text: string; quality: number }> = {}
-
-        for (const [lang, translation] of Object.entries(translations)) {
-          if (typeof translation === 'string' && supportedLanguages.includes(lang)) {
-            result[lang] = {
-              text: translation,
-              quality: 0.92, // Gemini 품질 점수
-            }
-          }
-        }
-
-        if (Object.keys(result).length > 0) {
-          console.log(`✅ Gemini batch translation parsed successfully: ${Object.keys(result).join(', ')}`)
-          return result
-        }
-      } catch (parseError) {
-        console.error('Failed to parse Gemini batch response:', parseError)
-        console.error('Raw response:', content)
-
-        // 정규식으로 JSON 추출 시도 (폴백)
-        try {
-          const jsonMatch = content.match(/\{[\s\S]*\}/)
-          if (jsonMatch) {
-            const extractedJson = jsonMatch[0]
-            const translations = JSON.parse(extractedJson)
-            const result: Record<string, { text: string; quality: number }> = {}
-
-            for (const [lang, translation] of Object.entries(translations)) {
-              if (typeof translation === 'string' && supportedLanguages.includes(lang)) {
-                result[lang] = {
-                  text: translation,
-                  quality: 0.92,
-                }
-              }
-            }
-
-            if (Object.keys(result).length > 0) {
-              console.log(`✅ Gemini batch translation extracted via regex: ${Object.keys(result).join(', ')}`)
-              return result
-            }
-          }
-        } catch (regexError) {
-          console.error('Regex extraction also failed:', regexError)
-        }
-      }
-    } else {
-      console.log('❌ Gemini response structure invalid:', data)
-    }
-
-    return null
-  } catch (error) {
-    console.error('Gemini batch translation error:', error)
-    return null
-  }
-}
-
-// GPT-4 번역 (폴백)
-async function translateWithGPT(
-  text: string,
-  targetLanguage: string,
-): Promise<{ text: string; quality: number } | null> {
-  try {
-    const openaiApiKey = process.env.OPENAI_API_KEY
-    if (!openaiApiKey) {
-      console.log('OpenAI API key not found, skipping GPT translation')
-      return null
-    }
-
-    const targetLangName = GPT_LANGUAGE_NAMES[targetLanguage]
-    if (!targetLangName) {
-      console.log(`Unsupported language for GPT: ${targetLanguage}`)
-      return null
-    }
-
-    // 컨텍스트에 맞는 프롬프트 작성
-    const prompt = `You are a professional translator specializing in live lecture and presentation content. 
-
-Please translate the following text to ${targetLangName}. This is from a live speech/lecture, so:
-- Maintain the speaker's tone and intent
-- Fix any obvious speech recognition errors naturally
-- Use appropriate formal/informal register for academic context
-- Keep technical terms accurate
-- Make it sound natural in the target language
-
-Text to translate: "${text}"
-
-Provide ONLY the translation without any explanation.`
-
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${openaiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o-mini', // 더 저렴하고 빠른 모델
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        max_tokens: Math.min(Math.ceil(text.length * 3), 500), // 적응적 토큰 수
-        temperature: 0.3, // 일관성을 위해 낮은 temperature
-      }),
-    })
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('GPT API error:', response.status, errorText)
-      return null
-    }
-
-    const data = await response.json()
-
-    if (data.choices && data.choices[0] && data.choices[0].message) {
-      const translatedText = data.choices[0].message.content.trim()
-      console.log('✅ GPT translation successful')
-      return {
-        text: translatedText,
-        quality: 0.95, // GPT는 높은 품질 점수
-      }
-    }
-
-    return null
-  } catch (error) {
-    console.error('GPT translation error:', error)
-    return null
-  }
-}
-
-// Google Translate 번역 (폴백)
-async function translateWithGoogle(
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { GlossaryEntry, TranslationJob, TranslationJobRow, TranslationJobStatus } from './types'
+import { saveTranslationToCache, getTranslationCacheVariant, ALL_SUPPORTED_LANGUAGES } from './translation-cache'
+import {
+  getTranslationProviders,
+  getFallbackTranslation,
+  type TranslationRequestOptions,
+} from './translation-providers'
+import { enforceGlossaryTranslations, loadSessionGlossary } from './glossary'
+import { loadLineContext } from './translation-context'
+
+// 번역 수행 - 등록된 프로바이더 순서대로 시도 (기본: Gemini → GPT → Google → Local)
+async function performTranslation(
   text: string,
   targetLanguage: string,
-): Promise<{ text: string; quality: number } | null> {
-  try {
-    const targetLang = GOOGLE_LANGUAGE_MAP[targetLanguage]
-    if (!targetLang) return null
-
-    const encodedText = encodeURIComponent(text)
-    const url = `https://translate.googleapis.com/translate_a/single?client=gtx&sl=auto&tl=${targetLang}&dt=t&q=${encodedText}`
-
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      },
-    })
-
-    if (response.ok) {
-      const data = await response.json()
-      if (data && data[0] && data[0][0] && data[0][0][0]) {
+  options: TranslationRequestOptions = {},
+): Promise<{ text: string; engine: string; quality: number }> {
+  for (const provider of getTranslationProviders()) {
+    try {
+      const result = await provider.translate(text, targetLanguage, options)
+      if (result) {
         return {
-          text: data[0][0][0],
-          quality: 0.75,
+          text: result.text,
+          engine: result.engine ?? provider.name,
+          quality: result.quality,
         }
       }
-    }
-    return null
-  } catch (error) {
-    console.error('Google Translate error:', error)
-    return null
-  }
-}
-
-// 로컬 번역 (최종 fallback)
-function getLocalTranslation(text: string, targetLang: string): { text: string; quality: number } {
-  const translations: Record<string, Record<string, string>> = {
-    hello: {
-      ko: '안녕하세요',
-      ja: 'こんにちは',
-      zh: '你好',
-      es: 'hola',
-      fr: 'bonjour',
-      de: 'hallo',
-    },
-    welcome: {
-      ko: '환영합니다',
-      ja: 'ようこそ',
-      zh: '欢迎',
-      es: 'bienvenido',
-      fr: 'bienvenue',
-      de: 'willkommen',
-    },
-    'thank you': {
-      ko: '감사합니다',
-      ja: 'ありがとう',
-      zh: '谢谢',
-      es: 'gracias',
-      fr: 'merci',
-      de: 'danke',
-    },
-    lecture: {
-      ko: '강의',
-      ja: '講義',
-      zh: '讲座',
-      es: 'conferencia',
-      fr: 'conférence',
-      de: 'vorlesung',
-    },
-    presentation: {
-      ko: '발표',
-      ja: 'プレゼンテーション',
-      zh: '演示',
-      es: 'presentación',
-      fr: 'présentation',
-      de: 'präsentation',
-    },
-  }
-
-  let translatedText = text.toLowerCase()
-  let hasTranslation = false
-
-  for (const [englishWord, langTranslations] of Object.entries(translations)) {
-    if (langTranslations[targetLang]) {
-      const regex = new RegExp(`\\b${englishWord}\\b`, 'gi')
-      if (regex.test(translatedText)) {
-        translatedText = translatedText.replace(regex, langTranslations[targetLang])
-        hasTranslation = true
-      }
-    }
-  }
-
-  if (!hasTranslation) {
-    const languageNames: Record<string, string> = {
-      ko: '한국어',
-      ja: '日本語',
-      zh: '中文',
-      es: 'Español',
-      fr: 'Français',
-      de: 'Deutsch',
-      it: 'Italiano',
-      pt: 'Português',
-      ru: 'Русский',
-      ar: 'العربية',
-    }
-    const langName = languageNames[targetLang] || targetLang.toUpperCase()
-    translatedText = `[${langName}] ${text}`
-  } else {
-    translatedText = translatedText.charAt(0).toUpperCase() + translatedText.slice(1)
-  }
-
-  return {
-    text: translatedText,
-    quality: hasTranslation ? 0.6 : 0.3,
-  }
-}
-
-// 번역 수행 (GPT → Google → Local 순서)
-async function performTranslation(
-  text: string,
-  targetLanguage: string,
-): Promise<{ text: string; engine: string; quality: number }> {
-  // 1단계: Gemini 시도 (최고 품질)
-  const geminiResult = await translateWithGemini(text, targetLanguage)
-  if (geminiResult) {
-    return {
-      text: geminiResult.text,
-      engine: 'gemini',
-      quality: geminiResult.quality,
-    }
-  }
-
-  // 2단계: GPT-4 시도 (최고 품질)
-  const gptResult = await translateWithGPT(text, targetLanguage)
-  if (gptResult) {
-    return {
-      text: gptResult.text,
-      engine: 'gpt',
-      quality: gptResult.quality,
-    }
-  }
-
-  // 3단계: Google Translate 시도
-  const googleResult = await translateWithGoogle(text, targetLanguage)
-  if (googleResult) {
-    return {
-      text: googleResult.text,
-      engine: 'google',
-      quality: googleResult.quality,
+    } catch (error) {
+      console.error(`${provider.name} translation error:`, error)
     }
   }
 
-  // 4단계: 로컬 번역
-  const localResult = getLocalTranslation(text, targetLanguage)
+  // 모든 프로바이더 실패 시 로컬 번역
+  const fallback = getFallbackTranslation(text, targetLanguage)
   return {
-    text: localResult.text,
-    engine: 'local',
-    quality: localResult.quality,
+    text: fallback.text,
+    engine: fallback.engine ?? 'local',
+    quality: fallback.quality,
   }
 }
 
 // 🆕 하이브리드 번역 수행 (배치 + 개별 fallback) - 외부에서 직접 호출 가능
+// 용어집이 있으면 마지막에 고정 번역을 한 번 더 맞춘다
 export async function performBatchTranslation(
   text: string,
   targetLanguages: string[],
+  options: TranslationRequestOptions = {},
 ): Promise<Record<string, { text: string; engine: string; quality: number }>> {
   const results: Record<string, { text: string; engine: string; quality: number }> = {}
 
-  // 1단계: Gemini 배치 번역 시도 (55% 비용 절약)
-  try {
-    console.log(
-      `🎯 Attempting Gemini batch translation for: "${text.substring(0, 50)}..." → [${targetLanguages.join(', ')}]`,
-    )
-    const batchResult = await translateWithGeminiBatch(text, targetLanguages)
-    if (batchResult && Object.keys(batchResult).length > 0) {
+  // 1단계: 배치를 지원하는 프로바이더로 한 번에 번역 시도 (Gemini 배치는 55% 비용 절약)
+  for (const provider of getTranslationProviders()) {
+    if (!provider.translateBatch) continue
+
+    const pendingLanguages = targetLanguages.filter((lang) => !results[lang])
+    if (pendingLanguages.length === 0) break
+
+    try {
       console.log(
-        `🚀 Gemini batch translation succeeded for ${Object.keys(batchResult).length}/${targetLanguages.length} languages`,
+        `🎯 Attempting ${provider.name} batch translation for: "${text.substring(0, 50)}..." → [${pendingLanguages.join(', ')}]`,
       )
+      const batchResult = await provider.translateBatch(text, pendingLanguages, options)
+      if (batchResult && Object.keys(batchResult).length > 0) {
+        console.log(
+          `🚀 ${provider.name} batch translation succeeded for ${Object.keys(batchResult).length}/${pendingLanguages.length} languages`,
+        )
 
-      // 성공한 번역 저장
-      for (const [lang, translation] of Object.entries(batchResult)) {
-        results[lang] = {
-          text: translation.text,
-          engine: 'gemini-batch',
-          quality: translation.quality,
+        // 성공한 번역 저장
+        for (const [lang, translation] of Object.entries(batchResult)) {
+          results[lang] = {
+            text: translation.text,
+            engine: translation.engine ?? provider.name,
+            quality: translation.quality,
+          }
         }
+      } else {
+        console.log(`❌ ${provider.name} batch translation returned empty result`)
       }
-    } else {
-      console.log(`❌ Gemini batch translation returned empty result`)
+    } catch (error) {
+      console.error(`${provider.name} batch translation failed:`, error)
     }
-  } catch (error) {
-    console.error('Gemini batch translation failed:', error)
   }
 
   // 2단계: 실패한 언어들에 대해 개별 처리
@@ -638,15 +94,15 @@ export async function performBatchTranslation(
       await Promise.all(
         batch.map(async (lang) => {
           try {
-            const result = await performTranslation(text, lang)
+            const result = await performTranslation(text, lang, options)
             results[lang] = result
           } catch (error) {
             console.error(`Individual translation failed for ${lang}:`, error)
             // 최후의 수단: 로컬 번역
-            const localResult = getLocalTranslation(text, lang)
+            const localResult = getFallbackTranslation(text, lang)
             results[lang] = {
               text: localResult.text,
-              engine: 'local',
+              engine: localResult.engine ?? 'local',
               quality: localResult.quality,
             }
           }
@@ -660,19 +116,35 @@ export async function performBatchTranslation(
     }
   }
 
+  // 3단계: 용어집 고정 번역 후처리
+  if (options.glossary && options.glossary.length > 0) {
+    for (const [lang, result] of Object.entries(results)) {
+      result.text = enforceGlossaryTranslations(result.text, text, lang, options.glossary)
+    }
+  }
+
   return results
 }
 
 // 🆕 배치 번역 결과를 캐시에 저장하는 함수
+// 번역에 쓴 용어집을 넘기면 그 용어가 나온 문장은 용어집별 캐시 행에 저장 (getTranslationCacheVariant)
 export async function saveBatchTranslationsToCache(
   text: string,
   batchResults: Record<string, { text: string; engine: string; quality: number }>,
+  options: { glossary?: GlossaryEntry[] } = {},
 ): Promise<Record<string, string>> {
   const cacheIds: Record<string, string> = {}
 
   for (const [language, result] of Object.entries(batchResults)) {
     try {
-      const cacheId = await saveTranslationToCache(text, language, result.text, result.engine, result.quality)
+      const cacheId = await saveTranslationToCache(
+        text,
+        language,
+        result.text,
+        result.engine,
+        result.quality,
+        getTranslationCacheVariant(text, language, options),
+      )
 
       if (cacheId) {
         cacheIds[language] = cacheId
@@ -686,20 +158,55 @@ export async function saveBatchTranslationsToCache(
   return cacheIds
 }
 
+// 🆕 재시도 설정
+const DEFAULT_MAX_ATTEMPTS = 5
+const LEASE_SECONDS = 60
+const LEASE_BATCH_SIZE = 20
+const BACKOFF_BASE_MS = 2000
+const BACKOFF_MAX_MS = 5 * 60 * 1000
+
+// 재시도 대기 시간 (지수 backoff + jitter)
+function getBackoffDelay(attempts: number): number {
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS)
+  return delay + Math.floor(Math.random() * 500)
+}
+
+// 🆕 DB row → API 응답 형태 (dead-letter 는 failed 로 노출)
+function toJobStatus(row: TranslationJobRow): TranslationJobStatus {
+  const startedAt = row.started_at || undefined
+  const completedAt = row.completed_at || undefined
+
+  return {
+    jobId: row.id,
+    status: row.status === 'dead' ? 'failed' : row.status,
+    deadLettered: row.status === 'dead',
+    targetLanguage: row.target_language,
+    transcriptId: row.transcript_id || undefined,
+    engine: row.engine || undefined,
+    translatedText: row.result_text || undefined,
+    quality: row.quality_score ?? undefined,
+    error: row.last_error || undefined,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    timing: {
+      createdAt: row.created_at,
+      startedAt,
+      completedAt,
+      nextRunAt: row.status === 'pending' ? row.run_at : undefined,
+      durationMs: completedAt ? new Date(completedAt).getTime() - new Date(row.created_at).getTime() : undefined,
+    },
+  }
+}
+
 // 번역 큐 매니저 클래스
+// 🆕 작업은 translation_jobs 테이블에 저장되고, 워커가 lease 를 잡아 처리한다.
+// 프로세스가 죽어도 lease 가 만료되면 다른 워커(또는 재시작된 워커)가 이어서 처리.
 class TranslationQueueManager {
-  // 🆕 텍스트별 큐로 변경 (언어별이 아닌!)
-  private textQueues = new Map<
-    string,
-    {
-      text: string
-      languages: Set<string>
-      jobs: TranslationJob[]
-      priority: number
-    }
-  >()
-  private processing = new Set<string>()
-  private timers = new Map<string, NodeJS.Timeout>()
+  private supabase: SupabaseClient | null = null
+  private timer: NodeJS.Timeout | null = null
+  private scheduledAt = 0
+  private draining = false
+  private readonly workerId = `worker_${process.pid}_${Math.random().toString(36).slice(2, 8)}`
 
   // 싱글톤 인스턴스
   private static instance: TranslationQueueManager | null = null
@@ -711,174 +218,357 @@ class TranslationQueueManager {
     return TranslationQueueManager.instance
   }
 
-  // 번역 작업 추가 - 텍스트별로 그룹화
-  addJob(job: TranslationJob): void {
-    const textKey = job.text
+  private getSupabase(): SupabaseClient {
+    if (!this.supabase) {
+      this.supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
+    }
+    return this.supabase
+  }
 
-    if (!this.textQueues.has(textKey)) {
-      this.textQueues.set(textKey, {
+  // 번역 작업 추가 - DB에 저장 후 처리 예약
+  async addJob(job: Omit<TranslationJob, 'id' | 'status' | 'createdAt'>): Promise<string> {
+    const { data, error } = await this.getSupabase()
+      .from('translation_jobs')
+      .insert({
         text: job.text,
-        languages: new Set(),
-        jobs: [],
+        target_language: job.targetLanguage,
+        session_id: job.sessionId || null,
+        transcript_id: job.transcriptId || null,
         priority: job.priority || 5,
+        max_attempts: DEFAULT_MAX_ATTEMPTS,
       })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      console.error('❌ Failed to enqueue translation job:', error)
+      throw new Error('Failed to enqueue translation job')
     }
 
-    const textGroup = this.textQueues.get(textKey)!
-    textGroup.languages.add(job.targetLanguage)
-    textGroup.jobs.push(job)
-    textGroup.priority = Math.max(textGroup.priority, job.priority || 5) // 최고 우선순위 사용
+    console.log(`📝 Added job ${data.id} for "${job.text.substring(0, 30)}..." → ${job.targetLanguage}`)
 
-    console.log(
-      `📝 Added job for "${job.text.substring(0, 30)}..." → ${job.targetLanguage} (total languages: ${textGroup.languages.size})`,
-    )
+    this.scheduleProcessing(job.priority || 5)
+    return data.id
+  }
+
+  // 처리 스케줄링 - 같은 텍스트의 여러 언어가 모일 수 있도록 잠시 대기
+  private scheduleProcessing(priority: number): void {
+    // 우선순위 세션은 500ms, 일반은 1000ms 대기
+    const isHighPriority = priority > 15 // 세션 우선순위 (10) + 언어 우선순위 (5+)
+    this.scheduleDrain(isHighPriority ? 500 : 1000)
+  }
+
+  private scheduleDrain(delay: number): void {
+    const runAt = Date.now() + delay
+
+    // 이미 더 빠른 실행이 예약되어 있으면 유지
+    if (this.timer && this.scheduledAt <= runAt) return
+    if (this.timer) clearTimeout(this.timer)
 
-    this.scheduleProcessing(textKey)
+    this.scheduledAt = runAt
+    this.timer = setTimeout(() => {
+      this.timer = null
+      this.drain().catch((error) => console.error('❌ Translation worker drain failed:', error))
+    }, delay)
   }
 
-  // 배치 처리 스케줄링 - 텍스트 기반
-  private scheduleProcessing(textKey: string): void {
-    if (this.processing.has(textKey)) return
+  // 🆕 워커 진입점: 처리 가능한 작업이 없을 때까지 lease → 처리 반복
+  async drain(maxRounds = 50): Promise<number> {
+    if (this.draining) return 0
+    this.draining = true
 
-    // 기존 타이머가 있으면 취소
-    if (this.timers.has(textKey)) {
-      clearTimeout(this.timers.get(textKey)!)
+    let processed = 0
+    try {
+      for (let round = 0; round < maxRounds; round++) {
+        const count = await this.processLeasedJobs()
+        if (count === 0) break
+        processed += count
+      }
+    } finally {
+      this.draining = false
     }
 
-    const textGroup = this.textQueues.get(textKey)
-    if (!textGroup) return
+    // 재시도 대기 중인 작업이 있으면 다음 실행 예약
+    await this.scheduleNextRetry()
 
-    // 언어 수에 따라 대기 시간 조정 (더 많은 언어 = 더 긴 대기 = 더 좋은 배치)
-    const languageCount = textGroup.languages.size
-    const basePriority = textGroup.priority
+    return processed
+  }
 
-    // 우선순위 세션은 500ms, 일반은 1000ms 기본 + 언어당 200ms 추가 대기
-    const isHighPriority = basePriority > 15 // 세션 우선순위 (10) + 언어 우선순위 (5+)
-    const baseDelay = isHighPriority ? 500 : 1000
-    const extraDelay = Math.min(languageCount * 200, 2000) // 최대 2초 추가
-    const delay = baseDelay + extraDelay
+  // lease 를 잡은 작업들을 텍스트별로 묶어 배치 번역
+  private async processLeasedJobs(): Promise<number> {
+    const { data: jobs, error } = await this.getSupabase().rpc('lease_translation_jobs', {
+      p_worker_id: this.workerId,
+      p_limit: LEASE_BATCH_SIZE,
+      p_lease_seconds: LEASE_SECONDS,
+    })
 
-    console.log(
-      `⏰ Scheduling batch processing for "${textGroup.text.substring(0, 30)}..." with ${languageCount} languages in ${delay}ms`,
-    )
+    if (error) {
+      console.error('❌ Failed to lease translation jobs:', error)
+      return 0
+    }
 
-    const timer = setTimeout(() => {
-      this.processBatch(textKey)
-    }, delay)
+    const leased = (jobs || []) as TranslationJobRow[]
+    if (leased.length === 0) return 0
 
-    this.timers.set(textKey, timer)
-  }
+    // 🆕 텍스트별로 그룹화 (언어별이 아닌!) - 세션마다 용어집이, 줄마다 문맥이 다르므로 세션 / 줄도 함께 구분
+    const textGroups = new Map<string, TranslationJobRow[]>()
+    for (const job of leased) {
+      const key = `${job.session_id || ''}\n${job.transcript_id || ''}\n${job.text}`
+      const group = textGroups.get(key) || []
+      group.push(job)
+      textGroups.set(key, group)
+    }
 
-  // 배치 처리 - 텍스트별 모든 언어를 한 번에!
-  private async processBatch(textKey: string): Promise<void> {
-    if (this.processing.has(textKey)) return
+    // 그룹을 차례로 번역하므로 그룹마다 lease 를 연장 (뒤쪽 작업의 lease 가 만료되어 다른 워커가 다시 잡지 않도록)
+    for (const group of textGroups.values()) {
+      const jobsToProcess = await this.renewLease(group)
+      if (jobsToProcess.length > 0) await this.processTextGroup(group[0].text, jobsToProcess)
+    }
 
-    this.processing.add(textKey)
+    return leased.length
+  }
 
-    try {
-      const textGroup = this.textQueues.get(textKey)
-      if (!textGroup || textGroup.languages.size === 0) return
+  // 🆕 lease 연장 - 아직 이 워커가 잡고 있는 작업만 반환 (lease 를 잃은 작업은 다른 워커가 처리)
+  private async renewLease(jobs: TranslationJobRow[]): Promise<TranslationJobRow[]> {
+    const { data, error } = await this.getSupabase()
+      .from('translation_jobs')
+      .update({ locked_until: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString() })
+      .in(
+        'id',
+        jobs.map((job) => job.id),
+      )
+      .eq('status', 'processing')
+      .eq('locked_by', this.workerId)
+      .select('id')
+
+    if (error) {
+      // 연장에 실패해도 처리는 계속 (완료 / 실패 기록은 locked_by 로 한 번 더 확인)
+      console.error('❌ Failed to renew translation job lease:', error)
+      return jobs
+    }
 
-      const languageArray = Array.from(textGroup.languages)
-      console.log(
-        `🚀 Processing batch translation for "${textGroup.text.substring(0, 50)}..." → [${languageArray.join(', ')}]`,
+    const renewed = new Set((data || []).map((row) => row.id as string))
+    const lost = jobs.filter((job) => !renewed.has(job.id))
+    if (lost.length > 0) {
+      console.warn(
+        `⚠️ Lost lease on ${lost.length} translation job(s), skipping: ${lost.map((job) => job.id).join(', ')}`,
       )
+    }
+    return jobs.filter((job) => renewed.has(job.id))
+  }
 
-      try {
-        // 🎯 진정한 배치 번역! 한 텍스트의 모든 언어를 한 번에 처리
-        const batchResults = await performBatchTranslation(textGroup.text, languageArray)
+  // 배치 처리 - 텍스트별 모든 언어를 한 번에!
+  private async processTextGroup(text: string, jobs: TranslationJobRow[]): Promise<void> {
+    const languageArray = Array.from(new Set(jobs.map((job) => job.target_language)))
+    console.log(`🚀 Processing batch translation for "${text.substring(0, 50)}..." → [${languageArray.join(', ')}]`)
+
+    let batchResults: Record<string, { text: string; engine: string; quality: number }> = {}
+    let glossary: GlossaryEntry[] = []
+    // 🆕 세션 작업이면 세션 용어집, 줄(transcript_id)이 있는 작업이면 그 줄의 직전 줄 문맥 적용
+    const sessionId = jobs[0].session_id || undefined
+    const transcriptId = jobs[0].transcript_id || undefined
+    try {
+      const [sessionGlossary, context] = await Promise.all([
+        sessionId ? loadSessionGlossary(this.getSupabase(), sessionId) : [],
+        transcriptId ? loadLineContext(this.getSupabase(), transcriptId, sessionId) : [],
+      ])
+      glossary = sessionGlossary
+
+      // 🎯 진정한 배치 번역! 한 텍스트의 모든 언어를 한 번에 처리
+      batchResults = await performBatchTranslation(text, languageArray, { glossary, context })
+    } catch (error) {
+      console.error(`❌ Batch translation failed for "${text.substring(0, 50)}...":`, error)
+    }
 
-        // 결과를 캐시에 저장
-        for (const [language, result] of Object.entries(batchResults)) {
-          await saveTranslationToCache(textGroup.text, language, result.text, result.engine, result.quality)
+    for (const job of jobs) {
+      const result = batchResults[job.target_language]
+      if (!result) {
+        await this.failJob(job, 'No translation result')
+        continue
+      }
 
-          console.log(
-            `✅ Batch translated "${textGroup.text.substring(0, 30)}..." → ${language} using ${result.engine}`,
-          )
-        }
+      // 🆕 local 은 모든 엔진이 실패했을 때의 자리표시 텍스트 ([한국어] ...) → 완료로 처리하지 않고 재시도
+      if (result.engine === 'local') {
+        await this.failJob(job, 'All translation providers failed (only local fallback produced a result)')
+        continue
+      }
 
-        console.log(
-          `🎉 Completed batch translation for "${textGroup.text.substring(0, 30)}..." (${Object.keys(batchResults).length} languages)`,
+      try {
+        const cacheId = await saveTranslationToCache(
+          text,
+          job.target_language,
+          result.text,
+          result.engine,
+          result.quality,
+          getTranslationCacheVariant(text, job.target_language, { glossary }),
         )
+        if (!cacheId) {
+          throw new Error('Failed to save translation to cache')
+        }
 
-        // 🆕 번역 완료 시 transcript 상태 업데이트
-        await this.updateTranscriptStatus(textGroup.jobs)
+        await this.completeJob(job, result, cacheId)
+        console.log(`✅ Batch translated "${text.substring(0, 30)}..." → ${job.target_language} using ${result.engine}`)
       } catch (error) {
-        console.error(`❌ Batch translation failed for "${textGroup.text.substring(0, 50)}...":`, error)
+        await this.failJob(job, error instanceof Error ? error.message : 'Unknown error')
+      }
+    }
 
-        // 실패시 개별 처리로 폴백
-        console.log(`🔄 Falling back to individual translations for ${languageArray.length} languages`)
+    // 🆕 번역 완료 시 transcript 상태 업데이트
+    await this.updateTranscriptStatus(jobs)
+  }
 
-        for (const language of languageArray) {
-          try {
-            const result = await performTranslation(textGroup.text, language)
+  private async completeJob(
+    job: TranslationJobRow,
+    result: { text: string; engine: string; quality: number },
+    cacheId: string | null,
+  ): Promise<void> {
+    const { error } = await this.getSupabase()
+      .from('translation_jobs')
+      .update({
+        status: 'completed',
+        engine: result.engine,
+        result_text: result.text,
+        quality_score: result.quality,
+        translation_cache_id: cacheId,
+        last_error: null,
+        locked_by: null,
+        locked_until: null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', job.id)
+      .eq('locked_by', this.workerId) // lease 를 잃었으면 덮어쓰지 않음
 
-            await saveTranslationToCache(textGroup.text, language, result.text, result.engine, result.quality)
+    if (error) {
+      console.error(`❌ Failed to mark job ${job.id} completed:`, error)
+    }
+  }
 
-            console.log(
-              `✅ Individual translated "${textGroup.text.substring(0, 30)}..." → ${language} using ${result.engine}`,
-            )
-          } catch (individualError) {
-            console.error(`❌ Individual translation failed for ${language}:`, individualError)
-          }
-        }
+  // 실패 처리 - 재시도 횟수가 남아 있으면 backoff 후 pending, 아니면 dead-letter
+  private async failJob(job: TranslationJobRow, reason: string): Promise<void> {
+    const isDead = job.attempts >= job.max_attempts
+    const delay = getBackoffDelay(job.attempts)
+
+    const { error } = await this.getSupabase()
+      .from('translation_jobs')
+      .update({
+        status: isDead ? 'dead' : 'pending',
+        last_error: reason,
+        run_at: new Date(Date.now() + (isDead ? 0 : delay)).toISOString(),
+        locked_by: null,
+        locked_until: null,
+      })
+      .eq('id', job.id)
+      .eq('locked_by', this.workerId)
 
-        // fallback 번역 완료 시에도 transcript 상태 업데이트
-        await this.updateTranscriptStatus(textGroup.jobs)
-      }
+    if (error) {
+      console.error(`❌ Failed to update failed job ${job.id}:`, error)
+    }
 
-      // 텍스트 큐에서 제거
-      this.textQueues.delete(textKey)
-    } finally {
-      this.processing.delete(textKey)
-      this.timers.delete(textKey)
+    if (isDead) {
+      console.error(`💀 Translation job ${job.id} moved to dead-letter after ${job.attempts} attempts: ${reason}`)
+    } else {
+      console.warn(`🔁 Translation job ${job.id} retry ${job.attempts}/${job.max_attempts} in ${delay}ms: ${reason}`)
     }
   }
 
+  // 가장 빠른 재시도 시각에 맞춰 다음 drain 예약
+  private async scheduleNextRetry(): Promise<void> {
+    const { data } = await this.getSupabase()
+      .from('translation_jobs')
+      .select('run_at')
+      .eq('status', 'pending')
+      .order('run_at', { ascending: true })
+      .limit(1)
+
+    const next = data?.[0]
+    if (!next) return
+
+    this.scheduleDrain(Math.max(new Date(next.run_at).getTime() - Date.now(), 0))
+  }
+
   // 🆕 번역 완료 시 transcript 상태 업데이트
-  private async updateTranscriptStatus(jobs: TranslationJob[]): Promise<void> {
-    // transcript ID가 있는 작업들만 필터링
-    const transcriptIds = jobs.map((job) => job.transcriptId).filter((id): id is string => !!id)
+  // 해당 transcript 의 작업이 모두 끝났을 때만 completed (dead 작업이 있으면 failed)
+  private async updateTranscriptStatus(jobs: TranslationJobRow[]): Promise<void> {
+    const transcriptIds = Array.from(new Set(jobs.map((job) => job.transcript_id).filter((id): id is string => !!id)))
 
     if (transcriptIds.length === 0) return
 
+    const supabase = this.getSupabase()
+
     try {
-      // Supabase 클라이언트 import 필요
-      const { createClient } = await import('@supabase/supabase-js')
-      const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!)
-
-      // 해당 transcript들의 상태를 'completed'로 업데이트
-      const { error } = await supabase
-        .from('transcripts')
-        .update({ translation_status: 'completed' })
-        .in('id', transcriptIds)
-
-      if (error) {
-        console.error('❌ Failed to update transcript status:', error)
-      } else {
-        console.log(`✅ Updated ${transcriptIds.length} transcript(s) status to completed`)
+      const { data: remaining, error } = await supabase
+        .from('translation_jobs')
+        .select('transcript_id, status')
+        .in('transcript_id', transcriptIds)
+        .in('status', ['pending', 'processing', 'dead'])
+
+      if (error) throw error
+
+      for (const transcriptId of transcriptIds) {
+        const open = (remaining || []).filter((row) => row.transcript_id === transcriptId)
+        if (open.some((row) => row.status !== 'dead')) continue // 아직 처리 중
+
+        const translationStatus = open.length > 0 ? 'failed' : 'completed'
+        const { error: updateError } = await supabase
+          .from('transcripts')
+          .update({ translation_status: translationStatus })
+          .eq('id', transcriptId)
+
+        if (updateError) {
+          console.error('❌ Failed to update transcript status:', updateError)
+        } else {
+          console.log(`✅ Updated transcript ${transcriptId} status to ${translationStatus}`)
+        }
       }
     } catch (error) {
       console.error('❌ Error updating transcript status:', error)
     }
   }
 
-  // 큐 상태 조회
-  getQueueStats(): Record<string, number> {
-    const stats: Record<string, number> = {}
-    let totalTexts = 0
-    let totalLanguages = 0
+  // 🆕 jobId 로 작업 상태 조회 (여러 개 한 번에)
+  async getJobStatuses(jobIds: string[]): Promise<TranslationJobStatus[]> {
+    if (jobIds.length === 0) return []
+
+    const { data, error } = await this.getSupabase().from('translation_jobs').select('*').in('id', jobIds)
 
-    for (const [textKey, textGroup] of this.textQueues) {
-      totalTexts++
-      totalLanguages += textGroup.languages.size
-      stats[`"${textKey.substring(0, 20)}..."${textKey.length > 20 ? '...' : ''}`] = textGroup.languages.size
+    if (error) {
+      console.error('❌ Failed to load translation jobs:', error)
+      throw new Error('Failed to load translation jobs')
     }
 
+    return ((data || []) as TranslationJobRow[]).map(toJobStatus)
+  }
+
+  // 🆕 큐 상태 조회 (DB 기준)
+  async getQueueStats(): Promise<Record<string, number>> {
+    const supabase = this.getSupabase()
+    const statuses: TranslationJobRow['status'][] = ['pending', 'processing', 'completed', 'dead']
+
+    const counts = await Promise.all(
+      statuses.map(async (status) => {
+        const { count, error } = await supabase
+          .from('translation_jobs')
+          .select('id', { count: 'exact', head: true })
+          .eq('status', status)
+
+        if (error) {
+          console.error(`❌ Failed to count ${status} translation jobs:`, error)
+        }
+        return [status, count || 0] as const
+      }),
+    )
+
+    const { count: expiredLeases } = await supabase
+      .from('translation_jobs')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'processing')
+      .lt('locked_until', new Date().toISOString())
+
+    const stats = Object.fromEntries(counts) as Record<string, number>
     return {
-      totalTexts,
-      totalLanguages,
       ...stats,
+      expiredLeases: expiredLeases || 0,
+      total: counts.reduce((sum, [, count]) => sum + count, 0),
     }
   }
 }
@@ -887,28 +577,29 @@ class TranslationQueueManager {
 export const translationQueue = TranslationQueueManager.getInstance()
 
 // 번역 작업 추가 함수
-export function addTranslationJob(
+export async function addTranslationJob(
   text: string,
   targetLanguage: string,
   sessionId?: string,
   priority?: number,
   transcriptId?: string, // 🆕 transcript ID 추가
-): string {
-  const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-
-  const job: TranslationJob = {
-    id: jobId,
+): Promise<string> {
+  return translationQueue.addJob({
     text,
     targetLanguage,
     sessionId,
     transcriptId, // 🆕 transcript ID 포함
     priority: priority || calculatePriority(targetLanguage, sessionId),
-    status: 'pending',
-    createdAt: Date.now(),
-  }
+  })
+}
 
-  translationQueue.addJob(job)
-  return jobId
+// 🆕 워커 재개 진입점 - 서버 부팅 시(instrumentation) 또는 cron 에서 호출
+// lease 가 만료된 processing 작업과 pending 작업을 모두 이어서 처리한다.
+export async function resumeTranslationJobs(): Promise<number> {
+  console.log('🔄 Resuming unfinished translation jobs...')
+  const processed = await translationQueue.drain()
+  console.log(`✅ Translation worker resumed (${processed} jobs processed)`)
+  return processed
 }
 
 // 우선순위 계산
@@ -1,3 +1,5 @@
+import type { TranslationEngine } from './translation-providers'
+
 export interface Session {
   id: string
   title: string
@@ -5,6 +7,10 @@ export interface Session {
   host_id: string
   host_name: string
   primary_language: string
+  target_languages?: string[] // 🆕 세션별 번역 대상 언어
+  stt_provider?: SttProvider // 🆕 호스트가 선택한 STT 엔진
+  speaker_names?: Record<string, string> // 🆕 호스트가 바꾼 화자 이름 (speaker key → 표시 이름)
+  glossary?: GlossaryEntry[] // 🆕 세션 용어집 (호스트 용어집과 합쳐서 사용, lib/glossary.ts)
   category:
     | 'general'
     | 'sports'
@@ -17,7 +23,10 @@ export interface Session {
     | 'entertainment'
     | 'science'
   status: 'active' | 'ended'
-  summary?: string
+  summary?: string // summary_doc 을 HTML 로 렌더링한 것 (이전 세션은 Gemini 가 만든 HTML 그대로)
+  summary_doc?: SummaryDocument | null // 🆕 구조화된 요약 (lib/summary-document.ts)
+  chapters?: SessionChapter[] | null // 🆕 주제별 챕터 (lib/chapter-generator.ts)
+  chapters_updated_at?: string | null
   created_at: string
   ended_at?: string
   qr_code_url?: string
@@ -57,10 +66,114 @@ export interface Transcript {
   detected_language?: string // 감지된 입력 언어
   translated_text?: string
   target_language?: string
-  speaker_id?: string
-  created_at: string
+  speaker_id?: string // 🆕 공동 발표자의 session_participants.id (없으면 호스트)
+  speaker_label?: string // 🆕 서버 STT 화자 분리 라벨 ('Speaker 2')
+  created_at: string // 🆕 말하기 시작한 시각 (모든 STT 엔진 - 녹음 위치 / 자막 시작)
   review_status?: 'pending' | 'processing' | 'completed' | 'failed'
+  review_started_at?: string | null // 🆕 검수 lease 시작 시각 (processing 인 줄, 오래되면 재시도 때 다시 검수)
   translation_cache_ids?: Record<string, string> // { "ko": "uuid1", "ja": "uuid2" }
+  edited_at?: string // 🆕 호스트가 마지막으로 고친 시각
+  idempotency_key?: string // 🆕 stt-stream 중복 저장 방지 키
+  client_sequence?: number // 🆕 이 문장을 끝낸 클라이언트 조각 번호
+  audio_offset_ms?: number | null // 🆕 세션 녹음에서 이 줄의 위치 (ms)
+}
+
+// 🆕 세션 녹음 (session_recordings, Storage 'session-audio' 버킷)
+export interface SessionRecording {
+  session_id: string
+  storage_path: string
+  mime_type: string
+  started_at: string // 녹음 시작 시각 (호스트 브라우저)
+  duration_ms: number
+  size_bytes?: number
+  created_at: string
+  updated_at: string
+}
+
+// 🆕 구조화된 세션 요약 (sessions.summary_doc) - 검증 / 렌더링은 lib/summary-document.ts
+export interface SummarySection {
+  title: string
+  bullets: string[]
+}
+
+export interface SummaryActionItem {
+  text: string
+  owner?: string // 말한 사람 / 담당자 (언급된 경우만)
+}
+
+export interface SummaryKeyTerm {
+  term: string
+  definition: string
+}
+
+export interface SummaryDocument {
+  version: 1
+  overview: string
+  sections: SummarySection[]
+  actionItems: SummaryActionItem[]
+  keyTerms: SummaryKeyTerm[]
+  tags: string[]
+}
+
+// 🆕 세션 챕터 (sessions.chapters) - 검수된 transcript 를 주제가 바뀌는 곳에서 나눈 구간
+export interface SessionChapter {
+  index: number
+  title: string // 영어
+  titleTranslations?: Record<string, string> // { "ko": "번역된 제목" }
+  startTranscriptId: string
+  endTranscriptId: string
+  startedAt: string // 첫 줄 created_at
+  endedAt: string // 마지막 줄 created_at
+  startOffsetMs: number // 세션 시작 기준
+  endOffsetMs: number
+  lineCount: number
+}
+
+// 🆕 세션 챗봇 답변의 transcript 인용 (답변 본문의 [L12] → 12번째 줄)
+// message annotation (JSON) 으로 보내므로 type 으로 정의하고 undefined 필드를 두지 않음
+export type ChatCitation = {
+  ref: number // 세션 순서 번호 (1부터)
+  transcriptId: string
+  text: string // 줄 내용 (미리보기용으로 자름)
+  offsetMs: number // 세션 시작 기준
+  speaker: string | null
+}
+
+// 🆕 언어별 요약 (session_summary_cache) - 진행 중인 세션은 'live' (지금까지 요약), 종료 후 'final'
+export interface SessionSummaryCache {
+  id: string
+  session_id: string
+  language_code: string
+  summary_text: string
+  summary_doc?: SummaryDocument | null // 🆕 이 언어의 요약 문서 (final 번역 / live 요약, 이전 live 요약은 null)
+  kind: 'live' | 'final'
+  version: number
+  line_count?: number | null
+  covered_until?: string | null
+  created_at: string
+  updated_at: string
+}
+
+// 🆕 호스트 transcript 수정 기록 (transcript_edits)
+export type TranscriptEditAction = 'edit' | 'merge' | 'delete'
+
+export interface TranscriptEdit {
+  id: string
+  session_id: string
+  transcript_id: string
+  action: TranscriptEditAction
+  previous_text: string
+  new_text?: string | null // 삭제 / 다른 줄로 합쳐진 경우 null
+  merged_transcript_ids?: string[] | null
+  edited_by: string
+  created_at: string
+}
+
+// 수정 API 응답: 바뀐 줄과 사라진 줄
+export interface TranscriptEditResult {
+  action: TranscriptEditAction
+  transcript?: Transcript
+  removedIds: string[]
 }
 
 export interface UserSession {
@@ -90,7 +203,7 @@ export interface TranslationCache {
   original_text: string
   target_language: string
   translated_text: string
-  translation_engine: 'gpt' | 'google' | 'local' | 'mock'
+  translation_engine: TranslationEngine
   quality_score: number
   usage_count: number
   created_at: string
@@ -104,10 +217,57 @@ export interface TranslationJob {
   sessionId?: string
   transcriptId?: string // 🆕 transcript 상태 업데이트를 위한 ID
   priority: number
-  status: 'pending' | 'processing' | 'completed' | 'failed'
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'dead'
   createdAt: number
 }
 
+// 🆕 translation_jobs 테이블 row (durable 큐)
+export interface TranslationJobRow {
+  id: string
+  text: string
+  target_language: string
+  session_id?: string | null
+  transcript_id?: string | null
+  priority: number
+  status: 'pending' | 'processing' | 'completed' | 'dead'
+  attempts: number
+  max_attempts: number
+  run_at: string
+  locked_by?: string | null
+  locked_until?: string | null
+  engine?: string | null
+  result_text?: string | null
+  quality_score?: number | null
+  translation_cache_id?: string | null
+  last_error?: string | null
+  created_at: string
+  updated_at: string
+  started_at?: string | null
+  completed_at?: string | null
+}
+
+// 🆕 번역 작업 상태 API 응답 (/api/translate/jobs)
+export interface TranslationJobStatus {
+  jobId: string
+  status: 'pending' | 'processing' | 'completed' | 'failed'
+  deadLettered: boolean // 재시도 초과로 dead-letter 로 이동한 경우
+  targetLanguage: string
+  transcriptId?: string
+  engine?: string
+  translatedText?: string
+  quality?: number
+  error?: string
+  attempts: number
+  maxAttempts: number
+  timing: {
+    createdAt: string
+    startedAt?: string
+    completedAt?: string
+    nextRunAt?: string // 재시도 대기 중일 때 다음 실행 시각
+    durationMs?: number
+  }
+}
+
 export interface TranslationResponse {
   translatedText: string
   engine: string
@@ -129,9 +289,53 @@ export interface TranscriptLine {
   translationQuality?: number
   translatedLanguage?: string // 번역된 언어 추적
   detectedLanguage?: string // 감지된 입력 언어
+  isPartial?: boolean // 🆕 아직 확정되지 않은 interim 결과 (typing 줄)
   translation_cache_ids?: Record<string, string> // { "ko": "uuid1", "zh": "uuid2", "hi": "uuid3" }
 }
 
+// 🆕 캡션 스트림 이벤트 (/api/session/[id]/stream SSE)
+export type CaptionEventType = 'partial' | 'final' | 'reviewed' | 'translated' | 'removed' // 🆕 removed: 호스트가 지우거나 합친 줄
+
+export interface CaptionEvent {
+  type: CaptionEventType
+  sessionId: string
+  transcriptId: string // partial 은 아직 저장 전이므로 `partial-${utteranceId}`
+  utteranceId?: string // partial 전용: 같은 발화의 partial 은 같은 id
+  text: string
+  language?: string // final/reviewed: 감지된 입력 언어, translated: 번역 언어
+  quality?: number // translated 전용
+  timestamp: string
+  replay?: boolean // 연결 직후 backlog 로 다시 보낸 이벤트
+  speakerKey?: string // 🆕 partial / final / reviewed: 화자 key (lib/speakers.ts)
+  speaker?: string // 🆕 화자 표시 이름
+}
+
+// 🆕 STT 엔진 (호스트 설정)
+// web-speech: 브라우저 인식, whisper: 발화 단위 청크, deepgram: 스트리밍 프록시
+export type SttProvider = 'web-speech' | 'whisper' | 'deepgram'
+
+// 🆕 스트리밍 STT 프록시 ↔ 호스트 브라우저 메시지 (RealtimeSTT 의 partial / final 과 같은 의미)
+export type SttStreamEvent =
+  | { type: 'ready'; provider: SttProvider }
+  | { type: 'partial'; utteranceId: string; text: string }
+  | {
+      type: 'final'
+      utteranceId: string
+      text: string
+      confidence?: number
+      transcriptId?: string
+      speakerLabel?: string // 🆕 화자 분리 라벨 (Deepgram diarize)
+    }
+  | { type: 'error'; message: string }
+
+// 🆕 용어집 항목 (검수 프롬프트 / 번역 고정 용어)
+export interface GlossaryEntry {
+  term: string // 올바른 표기
+  aliases?: string[] // STT 가 잘못 알아듣는 표기 ("My Combinator") → term 으로 교정
+  translations?: Record<string, string> // { "ko": "고정 번역", "ja": "..." }
+  note?: string
+}
+
 // STT 검수 관련 타입들
 export interface STTReviewRequest {
   originalText: string
@@ -0,0 +1,240 @@
+// 🆕 브라우저 음성 구간 감지 (VAD)
+// AnalyserNode 의 RMS 를 주기적으로 측정하고, 주변 소음 수준(noise floor)을 따라가며 발화 / 침묵을 판정한다.
+
+export interface VoiceActivityOptions {
+  intervalMs?: number // 측정 주기
+  minThreshold?: number // 최소 RMS 임계값 (조용한 환경에서 잡음 오검출 방지)
+  noiseMultiplier?: number // noise floor 대비 몇 배 이상이면 발화로 판정
+}
+
+export interface VoiceActivityFrame {
+  rms: number
+  isVoice: boolean
+  timestamp: number
+}
+
+export class VoiceActivityDetector {
+  private audioContext: AudioContext
+  private source: MediaStreamAudioSourceNode
+  private analyser: AnalyserNode
+  private buffer: Float32Array<ArrayBuffer>
+  private timer: ReturnType<typeof setInterval> | null = null
+  private noiseFloor = 0.005
+  private options: Required<VoiceActivityOptions>
+
+  constructor(stream: MediaStream, options: VoiceActivityOptions = {}) {
+    this.options = {
+      intervalMs: options.intervalMs ?? 50,
+      minThreshold: options.minThreshold ?? 0.01,
+      noiseMultiplier: options.noiseMultiplier ?? 3,
+    }
+
+    this.audioContext = new AudioContext()
+    this.source = this.audioContext.createMediaStreamSource(stream)
+    this.analyser = this.audioContext.createAnalyser()
+    this.analyser.fftSize = 2048
+    this.buffer = new Float32Array(this.analyser.fftSize)
+    this.source.connect(this.analyser)
+  }
+
+  get intervalMs(): number {
+    return this.options.intervalMs
+  }
+
+  start(onFrame: (frame: VoiceActivityFrame) => void) {
+    this.stop()
+    this.timer = setInterval(() => onFrame(this.measure()), this.options.intervalMs)
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  async close() {
+    this.stop()
+    this.source.disconnect()
+    if (this.audioContext.state !== 'closed') {
+      await this.audioContext.close()
+    }
+  }
+
+  private measure(): VoiceActivityFrame {
+    this.analyser.getFloatTimeDomainData(this.buffer)
+
+    let sum = 0
+    for (let i = 0; i < this.buffer.length; i++) {
+      sum += this.buffer[i] * this.buffer[i]
+    }
+    const rms = Math.sqrt(sum / this.buffer.length)
+
+    const threshold = Math.max(this.noiseFloor * this.options.noiseMultiplier, this.options.minThreshold)
+    const isVoice = rms > threshold
+
+    // 침묵 구간에서만 noise floor 를 갱신 (발화가 길어져도 임계값이 올라가지 않도록)
+    if (!isVoice) {
+      this.noiseFloor = this.noiseFloor * 0.95 + rms * 0.05
+    }
+
+    return { rms, isVoice, timestamp: Date.now() }
+  }
+}
+
+// 🆕 MediaRecorder 녹음 형식 (브라우저마다 지원 형식이 다름)
+export interface RecorderFormat {
+  mimeType: string
+  extension: string
+}
+
+const RECORDER_FORMATS: RecorderFormat[] = [
+  { mimeType: 'audio/webm;codecs=opus', extension: 'webm' },
+  { mimeType: 'audio/webm', extension: 'webm' },
+  { mimeType: 'audio/mp4', extension: 'mp4' },
+  { mimeType: 'audio/ogg;codecs=opus', extension: 'ogg' },
+]
+
+export function pickRecorderFormat(): RecorderFormat | null {
+  if (typeof MediaRecorder === 'undefined') return null
+  return RECORDER_FORMATS.find((format) => MediaRecorder.isTypeSupported(format.mimeType)) || null
+}
+
+// 🆕 VAD 로 발화 단위 오디오 파일을 만드는 녹음기
+// 구간마다 MediaRecorder 를 새로 만들어, 각 파일이 헤더를 포함해 독립적으로 디코딩되도록 한다.
+export interface AudioSegment {
+  blob: Blob
+  sequence: number // 발화 순서 (버린 구간은 번호를 소비하지 않음)
+  startedAt: number
+  endedAt: number
+}
+
+export interface VadSegmentRecorderOptions {
+  minSpeechMs?: number // 이보다 짧은 발화는 잡음으로 보고 버림
+  silenceToSplitMs?: number // 발화 후 이만큼 조용하면 구간을 끊음
+  maxSegmentMs?: number // 쉬지 않고 말해도 이 길이에서 끊음
+  idleRestartMs?: number // 발화 없는 녹음은 주기적으로 버리고 다시 시작
+}
+
+export interface VadSegmentHandlers {
+  onSegment: (segment: AudioSegment) => void
+  onVoiceChange?: (isVoice: boolean) => void
+}
+
+interface RecordingSegment {
+  recorder: MediaRecorder
+  chunks: Blob[]
+  startedAt: number
+  speechMs: number
+  silenceMs: number
+}
+
+export class VadSegmentRecorder {
+  private vad: VoiceActivityDetector
+  private format: RecorderFormat | null
+  private current: RecordingSegment | null = null
+  private handlers: VadSegmentHandlers | null = null
+  private sequence = 0
+  private isVoice = false
+  private options: Required<VadSegmentRecorderOptions>
+
+  constructor(
+    private stream: MediaStream,
+    options: VadSegmentRecorderOptions = {},
+  ) {
+    this.options = {
+      minSpeechMs: options.minSpeechMs ?? 300,
+      silenceToSplitMs: options.silenceToSplitMs ?? 700,
+      maxSegmentMs: options.maxSegmentMs ?? 15000,
+      idleRestartMs: options.idleRestartMs ?? 3000,
+    }
+    this.format = pickRecorderFormat()
+    this.vad = new VoiceActivityDetector(stream)
+  }
+
+  get recorderFormat(): RecorderFormat | null {
+    return this.format
+  }
+
+  start(handlers: VadSegmentHandlers) {
+    this.handlers = handlers
+    this.sequence = 0
+    this.startSegment()
+    this.vad.start((frame) => this.handleFrame(frame.isVoice))
+  }
+
+  // 마지막 발화가 있으면 구간으로 내보낸 뒤 resolve (마이크 트랙은 호출부에서 정리)
+  async stop() {
+    const segment = this.current
+    const flushed = this.cutSegment(!!segment && segment.speechMs >= this.options.minSpeechMs, false)
+    this.setVoice(false)
+    await Promise.all([flushed, this.vad.close()])
+  }
+
+  private startSegment() {
+    const recorder = new MediaRecorder(this.stream, this.format ? { mimeType: this.format.mimeType } : undefined)
+    const chunks: Blob[] = []
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data)
+    }
+
+    recorder.start()
+    this.current = { recorder, chunks, startedAt: Date.now(), speechMs: 0, silenceMs: 0 }
+  }
+
+  // 현재 녹음을 끊고 (keep 이면 구간으로 내보냄) 필요하면 새 녹음을 시작
+  private cutSegment(keep: boolean, restart = true): Promise<void> {
+    const segment = this.current
+    this.current = null
+
+    let flushed = Promise.resolve()
+    if (segment && segment.recorder.state !== 'inactive') {
+      const { recorder, chunks, startedAt } = segment
+      const endedAt = Date.now()
+      const sequence = keep ? this.sequence++ : -1
+
+      flushed = new Promise((resolve) => {
+        recorder.onstop = () => {
+          if (keep) {
+            const blob = new Blob(chunks, { type: recorder.mimeType || this.format?.mimeType })
+            this.handlers?.onSegment({ blob, sequence, startedAt, endedAt })
+          }
+          resolve()
+        }
+      })
+      recorder.stop()
+    }
+
+    if (restart) this.startSegment()
+    return flushed
+  }
+
+  private setVoice(isVoice: boolean) {
+    if (this.isVoice === isVoice) return
+    this.isVoice = isVoice
+    this.handlers?.onVoiceChange?.(isVoice)
+  }
+
+  private handleFrame(isVoice: boolean) {
+    const segment = this.current
+    if (!segment) return
+
+    if (isVoice) {
+      segment.speechMs += this.vad.intervalMs
+      segment.silenceMs = 0
+    } else {
+      segment.silenceMs += this.vad.intervalMs
+    }
+    this.setVoice(isVoice)
+
+    const duration = Date.now() - segment.startedAt
+    const hasSpeech = segment.speechMs >= this.options.minSpeechMs
+
+    if (hasSpeech && (segment.silenceMs >= this.options.silenceToSplitMs || duration >= this.options.maxSegmentMs)) {
+      this.cutSegment(true)
+    } else if (!hasSpeech && segment.silenceMs >= this.options.idleRestartMs) {
+      // 발화 없이 길어진 녹음은 버리고 새로 시작 (앞부분 침묵을 짧게 유지)
+      this.cutSegment(false)
+    }
+  }
+}
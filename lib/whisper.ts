@@ -0,0 +1,74 @@
+// 🆕 OpenAI Whisper 호출 (/api/stt 와 스트리밍 STT 프록시 공용)
+
+export interface WhisperOptions {
+  model?: string
+  language?: string // 'auto' 또는 미지정이면 자동 감지
+  prompt?: string // 직전 문맥 (인식 정확도 향상)
+  responseFormat?: string
+  temperature?: string
+}
+
+export interface WhisperResult {
+  text: string
+  confidence: number
+  durationMs?: number // 🆕 오디오 길이 (verbose_json)
+  speechStartMs?: number // 🆕 파일 시작부터 첫 말소리까지 (verbose_json 첫 segment)
+}
+
+export function isWhisperConfigured(): boolean {
+  return !!process.env.OPENAI_API_KEY
+}
+
+// 실패 시 예외를 던진다 (자리표시 텍스트가 저장되지 않도록 호출부에서 처리)
+export async function transcribeWithWhisper(
+  audio: Blob,
+  fileName: string,
+  options: WhisperOptions = {},
+): Promise<WhisperResult> {
+  const { model = 'whisper-1', language, prompt, responseFormat = 'verbose_json', temperature = '0' } = options
+
+  // Call Whisper API with enhanced settings for maximum accuracy
+  const whisperFormData = new FormData()
+  whisperFormData.append('file', audio, fileName)
+  whisperFormData.append('model', model)
+
+  // Add language parameter if specified (helps with accuracy for known languages)
+  if (language && language !== 'auto') {
+    whisperFormData.append('language', language)
+    console.log(`🌍 Using language hint: ${language}`)
+  } else {
+    console.log('🔍 Using auto language detection for best results')
+  }
+
+  whisperFormData.append('response_format', responseFormat)
+  whisperFormData.append('temperature', temperature)
+
+  // Add context prompt for better transcription quality
+  if (prompt) {
+    whisperFormData.append('prompt', prompt)
+    console.log('📝 Using context prompt for better accuracy')
+  }
+
+  const whisperResponse = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+    },
+    body: whisperFormData,
+  })
+
+  if (!whisperResponse.ok) {
+    const errorText = await whisperResponse.text()
+    console.error('Whisper API error:', errorText)
+    throw new Error(`Whisper API error: ${whisperResponse.status}`)
+  }
+
+  const whisperData = await whisperResponse.json()
+  const firstSegmentStart = whisperData.segments?.[0]?.start
+  return {
+    text: whisperData.text?.trim() || '',
+    confidence: whisperData.avg_logprob || 0.9,
+    ...(typeof whisperData.duration === 'number' && { durationMs: Math.round(whisperData.duration * 1000) }),
+    ...(typeof firstSegmentStart === 'number' && { speechStartMs: Math.round(firstSegmentStart * 1000) }),
+  }
+}
@@ -7,6 +7,8 @@ const nextConfig: NextConfig = {
       // 필요하다면 다른 외부 도메인도 추가
     ],
   },
+  // 🆕 STT 프록시 (ws / Deepgram SDK) 는 번들하지 않고 Node 에서 직접 로드
+  serverExternalPackages: ['ws', '@deepgram/sdk'],
   /* config options here */
 };
 
@@ -0,0 +1,15 @@
+-- Session / host glossary (custom vocabulary for STT review and translation)
+-- Entry format: { "term": "Y Combinator", "aliases": ["My Combinator"], "translations": { "ko": "와이 콤비네이터" }, "note": "..." }
+
+-- Terms for one session (edited by the host during the session)
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS glossary JSONB DEFAULT '[]'::jsonb;
+
+-- Terms a host reuses in every session (session entries win on the same term)
+CREATE TABLE IF NOT EXISTS host_glossaries (
+  host_id TEXT PRIMARY KEY, -- Clerk user id
+  entries JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Read / written only by the service role (API routes)
+ALTER TABLE host_glossaries ENABLE ROW LEVEL SECURITY;
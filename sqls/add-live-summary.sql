@@ -0,0 +1,12 @@
+-- Rolling "so far" summaries for active sessions
+-- While a session is live, lib/live-summary.ts keeps one row per language in session_summary_cache with
+-- kind = 'live'. When the session ends, the final summary overwrites the same row with kind = 'final'.
+
+ALTER TABLE session_summary_cache
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'final' CHECK (kind IN ('live', 'final')),
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1, -- bumped on every live update (optimistic lock)
+  ADD COLUMN IF NOT EXISTS line_count INTEGER, -- transcript lines covered by a live summary
+  ADD COLUMN IF NOT EXISTS covered_until TIMESTAMPTZ; -- created_at of the last covered line
+
+-- Viewers subscribe to updates for the "Catch me up" panel
+ALTER PUBLICATION supabase_realtime ADD TABLE session_summary_cache;
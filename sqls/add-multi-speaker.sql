@@ -0,0 +1,17 @@
+-- Multi-speaker sessions: speaker attribution on transcripts + host-editable speaker labels
+
+-- transcripts.speaker_id now points to the co-speaker's session_participants row
+-- (NULL = the session host, as in all earlier sessions)
+ALTER TABLE transcripts DROP CONSTRAINT IF EXISTS transcripts_speaker_id_fkey;
+ALTER TABLE transcripts
+  ADD CONSTRAINT transcripts_speaker_id_fkey
+  FOREIGN KEY (speaker_id) REFERENCES session_participants(id) ON DELETE SET NULL;
+
+-- Diarization label from server STT (e.g. 'Speaker 2') when one microphone picks up several people
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS speaker_label TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_transcripts_speaker_id ON transcripts(speaker_id);
+
+-- Host renames: speaker key → display name
+-- keys: 'host', a session_participants id, or 'label:<speaker_label>'
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS speaker_names JSONB DEFAULT '{}'::jsonb;
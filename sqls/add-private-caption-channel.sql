@@ -0,0 +1,16 @@
+-- Private caption broadcast channel
+-- lib/caption-stream.ts sends `partial` and `removed` events on the private Realtime channel `captions-<sessionId>`.
+-- Private channels are authorized with RLS on realtime.messages. The server uses the service role, which bypasses RLS,
+-- so it is the only one that can join these channels or send to them. Viewers get captions through the SSE route.
+
+ALTER TABLE realtime.messages ENABLE ROW LEVEL SECURITY;
+
+-- Restrictive: even if another feature adds a permissive policy on realtime.messages,
+-- anon / signed-in clients can never read from or send to a caption channel
+DROP POLICY IF EXISTS "No client access to caption channels" ON realtime.messages;
+CREATE POLICY "No client access to caption channels" ON realtime.messages
+  AS RESTRICTIVE
+  FOR ALL
+  TO anon, authenticated
+  USING (realtime.topic() NOT LIKE 'captions-%')
+  WITH CHECK (realtime.topic() NOT LIKE 'captions-%');
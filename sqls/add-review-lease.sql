@@ -0,0 +1,7 @@
+-- Review lease for transcript rows (lib/transcript-review.ts)
+-- A row is saved as 'processing' with review_started_at set by the request that reviews it.
+-- A retry with the same idempotency key only reviews again when the row failed or the lease is older than 2 minutes
+-- (e.g. the after() review never ran), so concurrent requests never review the same line twice.
+
+-- When the current review started (NULL for rows saved before this migration)
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS review_started_at TIMESTAMPTZ;
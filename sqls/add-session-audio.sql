@@ -0,0 +1,56 @@
+-- Session audio recording (optional, host browser MediaRecorder)
+-- The host uploads the recording in parts to the private "session-audio" bucket when the session ends:
+--   <session id>/parts/<part number>  → joined into <session id>/recording.<ext> on completion
+-- Each transcript line gets an offset into the recording so the summary page can seek to it.
+
+-- Private bucket (read through signed URLs from /api/session/[id]/audio)
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('session-audio', 'session-audio', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- One finished recording per session
+CREATE TABLE IF NOT EXISTS session_recordings (
+  session_id UUID PRIMARY KEY REFERENCES sessions(id) ON DELETE CASCADE,
+  storage_path TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL, -- wall clock time of the first recorded sample (host browser)
+  duration_ms INTEGER NOT NULL,
+  size_bytes BIGINT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Read / written only by the service role (API routes)
+ALTER TABLE session_recordings ENABLE ROW LEVEL SECURITY;
+
+-- Offset of the line in the session recording (ms), NULL when the session has no recording
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS audio_offset_ms INTEGER;
+
+-- Line offset = line created_at (when the speech was captured) - recording start - lead,
+-- clamped to the recording length. Re-running it after late lines arrive only fills the missing ones.
+CREATE OR REPLACE FUNCTION set_transcript_audio_offsets(
+  p_session_id UUID,
+  p_started_at TIMESTAMPTZ,
+  p_duration_ms INTEGER,
+  p_lead_ms INTEGER DEFAULT 0,
+  p_overwrite BOOLEAN DEFAULT FALSE
+)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE transcripts
+  SET audio_offset_ms = GREATEST(
+    0,
+    LEAST(
+      p_duration_ms,
+      (EXTRACT(EPOCH FROM (created_at - p_started_at)) * 1000)::INTEGER - p_lead_ms
+    )
+  )
+  WHERE session_id = p_session_id
+    AND (p_overwrite OR audio_offset_ms IS NULL);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,9 @@
+-- Session chapters
+-- lib/chapter-generator.ts splits the reviewed transcript into titled chapters when a session ends
+-- (and while it is live when LIVE_CHAPTERS=true). Stored as a JSON array on the session:
+-- [{ "index", "title", "titleTranslations": { "ko": "..." }, "startTranscriptId", "endTranscriptId",
+--    "startedAt", "endedAt", "startOffsetMs", "endOffsetMs", "lineCount" }]
+
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS chapters JSONB CHECK (chapters IS NULL OR jsonb_typeof(chapters) = 'array'),
+  ADD COLUMN IF NOT EXISTS chapters_updated_at TIMESTAMPTZ;
@@ -0,0 +1,5 @@
+-- Add per-session STT engine (host setting) to sessions table
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS stt_provider TEXT DEFAULT 'web-speech' CHECK (stt_provider IN ('web-speech', 'whisper', 'deepgram'));
+
+-- Existing sessions were all recorded with the browser Web Speech API
+UPDATE sessions SET stt_provider = 'web-speech' WHERE stt_provider IS NULL;
@@ -0,0 +1,5 @@
+-- Add per-session target language set to sessions table
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS target_languages TEXT[] DEFAULT ARRAY['ko', 'en', 'zh', 'hi'];
+
+-- Update existing sessions to have the previous fixed language set
+UPDATE sessions SET target_languages = ARRAY['ko', 'en', 'zh', 'hi'] WHERE target_languages IS NULL;
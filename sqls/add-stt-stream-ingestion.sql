@@ -0,0 +1,27 @@
+-- Idempotent transcript ingestion for /api/stt-stream (no in-memory session state)
+-- The client numbers every final Web Speech fragment per session (sequence) and sends an idempotency key.
+-- Retried fragments re-use the key, so the same sentence is never saved twice.
+
+-- Idempotency key of the sentence ("<session id>:<fragment key>#<sentence index>"), NULL for other STT engines
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+-- Client sequence of the fragment that completed the sentence
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS client_sequence INTEGER;
+
+-- NULLs are distinct, so rows without a key are unaffected (needed by upsert onConflict)
+ALTER TABLE transcripts DROP CONSTRAINT IF EXISTS transcripts_idempotency_key_key;
+ALTER TABLE transcripts ADD CONSTRAINT transcripts_idempotency_key_key UNIQUE (idempotency_key);
+
+-- Sentence segmenter state per session / speaker stream (buffer, pending fragments, recent keys)
+-- version is used for optimistic locking between concurrent serverless instances
+CREATE TABLE IF NOT EXISTS stt_stream_states (
+  stream_key TEXT PRIMARY KEY, -- session id, or "<session id>:<speaker id>" for co-speakers
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  state JSONB NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stt_stream_states_session ON stt_stream_states(session_id);
+
+-- Read / written only by the service role (API routes)
+ALTER TABLE stt_stream_states ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,24 @@
+-- Map-reduce summaries for long sessions
+-- The transcript is split into ~10 minute chunks (lib/summary-chunks.ts). Each chunk summary is stored here,
+-- keyed by its time window and a hash of its text, so regenerating only re-summarizes chunks that changed.
+
+CREATE TABLE IF NOT EXISTS session_summary_chunks (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  chunk_key TEXT NOT NULL, -- "w<window>" or "w<window>.<part>" when a window is too long
+  chunk_index INTEGER NOT NULL, -- order in the session
+  content_hash TEXT NOT NULL, -- sha256 of the chunk text (reviewed lines)
+  line_count INTEGER NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ NOT NULL,
+  summary_text TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(session_id, chunk_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_session_summary_chunks_session ON session_summary_chunks(session_id, chunk_index);
+
+-- Read / written only by the service role (summary generation)
+ALTER TABLE session_summary_chunks ENABLE ROW LEVEL SECURITY;
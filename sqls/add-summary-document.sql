@@ -0,0 +1,13 @@
+-- Structured session summaries
+-- summary-generator stores the summary as a JSON document (lib/summary-document.ts):
+-- { "version": 1, "overview", "sections": [{ "title", "bullets" }], "actionItems": [{ "text", "owner"? }],
+--   "keyTerms": [{ "term", "definition" }], "tags": [] }
+-- sessions.summary / session_summary_cache.summary_text keep an HTML rendering for older clients.
+-- Sessions summarized before this migration have no document and fall back to the HTML summary.
+
+ALTER TABLE sessions
+  ADD COLUMN IF NOT EXISTS summary_doc JSONB CHECK (summary_doc IS NULL OR jsonb_typeof(summary_doc) = 'object');
+
+-- Translated final summaries and live ("so far") summaries
+ALTER TABLE session_summary_cache
+  ADD COLUMN IF NOT EXISTS summary_doc JSONB CHECK (summary_doc IS NULL OR jsonb_typeof(summary_doc) = 'object');
@@ -0,0 +1,24 @@
+-- Host transcript corrections: edit / merge / delete history
+
+-- Last time the host corrected this line (NULL = never edited)
+ALTER TABLE transcripts ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+-- One row per affected line per action
+-- transcript_id has no foreign key so history survives deleted / merged-away lines
+CREATE TABLE IF NOT EXISTS transcript_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  session_id UUID NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+  transcript_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('edit', 'merge', 'delete')),
+  previous_text TEXT NOT NULL,
+  new_text TEXT, -- NULL when the line was deleted or merged into another line
+  merged_transcript_ids UUID[], -- merge: the other lines involved
+  edited_by TEXT NOT NULL, -- Clerk user id of the host
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_transcript_edits_transcript ON transcript_edits(transcript_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_transcript_edits_session ON transcript_edits(session_id);
+
+-- Written only by the service role (API routes)
+ALTER TABLE transcript_edits ENABLE ROW LEVEL SECURITY;
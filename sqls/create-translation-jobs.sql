@@ -0,0 +1,99 @@
+-- Create translation_jobs table for the durable translation queue
+-- 서버 재시작 / 재배포 후에도 pending 작업이 사라지지 않도록 큐를 DB에 저장
+CREATE TABLE IF NOT EXISTS translation_jobs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  text TEXT NOT NULL,
+  target_language VARCHAR(10) NOT NULL,
+  session_id UUID REFERENCES sessions(id) ON DELETE CASCADE,
+  transcript_id UUID REFERENCES transcripts(id) ON DELETE CASCADE,
+  priority INTEGER NOT NULL DEFAULT 5,
+
+  -- pending → processing → completed, 재시도 초과 시 dead (dead-letter)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'processing', 'completed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(), -- 다음 실행 가능 시각 (backoff)
+
+  -- lease (워커가 작업을 잡고 있는 동안)
+  locked_by TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE,
+
+  -- 결과
+  engine TEXT,
+  result_text TEXT,
+  quality_score FLOAT,
+  translation_cache_id UUID,
+  last_error TEXT,
+
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create indexes for leasing and stats
+CREATE INDEX IF NOT EXISTS idx_translation_jobs_runnable
+ON translation_jobs(status, run_at, priority DESC);
+
+CREATE INDEX IF NOT EXISTS idx_translation_jobs_lease
+ON translation_jobs(locked_until) WHERE status = 'processing';
+
+CREATE INDEX IF NOT EXISTS idx_translation_jobs_transcript
+ON translation_jobs(transcript_id);
+
+-- Enable RLS (Row Level Security) - 서버(service role)에서만 접근
+ALTER TABLE translation_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Lease runnable jobs atomically
+-- 1) lease 가 만료된 작업 중 재시도 횟수를 다 쓴 작업은 dead 로 이동
+-- 2) pending(run_at 도래) + lease 만료된 processing 작업을 SKIP LOCKED 로 가져감
+CREATE OR REPLACE FUNCTION lease_translation_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 20,
+  p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS SETOF translation_jobs AS $$
+BEGIN
+  UPDATE translation_jobs
+  SET status = 'dead',
+      last_error = COALESCE(last_error, 'Lease expired'),
+      locked_by = NULL,
+      locked_until = NULL,
+      updated_at = NOW()
+  WHERE status = 'processing'
+    AND locked_until < NOW()
+    AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE translation_jobs j
+  SET status = 'processing',
+      locked_by = p_worker_id,
+      locked_until = NOW() + make_interval(secs => p_lease_seconds),
+      attempts = j.attempts + 1,
+      started_at = COALESCE(j.started_at, NOW()),
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT id FROM translation_jobs
+    WHERE (status = 'pending' AND run_at <= NOW())
+       OR (status = 'processing' AND locked_until < NOW())
+    ORDER BY priority DESC, created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Add trigger to update updated_at
+CREATE OR REPLACE FUNCTION update_translation_jobs_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_translation_jobs_updated_at
+  BEFORE UPDATE ON translation_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_translation_jobs_updated_at();